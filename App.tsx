@@ -9,6 +9,10 @@ import { View, Text, StyleSheet } from 'react-native';
 
 // IRANVERSE Theme System
 import { ThemeProvider } from './src/shared/theme/ThemeProvider';
+import { AuthProvider } from './src/features/auth/contexts/AuthContext';
+import { AvatarProvider } from './src/features/avatar/contexts/AvatarContext';
+import { DeepLinkListener } from './src/core/services/DeepLinkHandler';
+import { OfflineQueueBanner } from './src/shared/components/ui/OfflineQueueBanner';
 // Startup verification
 import { verifyStartup, StartupResult } from './src/core/utils/startupVerification';
 // Global error handler
@@ -47,8 +51,9 @@ export type RootStackParamList = {
   
   EmailSent: { 
     email: string; 
-    tempUserId: string;
-    verificationType: 'signup' | 'password_reset';
+    tempUserId: string; // empty for magic links
+    verificationType: 'signup' | 'password_reset' | 'magic_link';
+    resendAfter?: number; // seconds before another email may be requested
   };
   
   VerificationError: {
@@ -59,7 +64,28 @@ export type RootStackParamList = {
     suggestedAction?: 'retry' | 'contact_support' | 'manual_verification';
   };
   
-  ForgotPassword: undefined;
+  ForgotPassword: {
+    email?: string;
+    token?: string; // from a password reset email link
+  } | undefined;
+  
+  // Mobile number entry, then the SMS code (pending code in AuthContext.phoneOtp)
+  PhoneAuth: {
+    mode: 'login' | 'signup';
+  };
+  
+  PhoneVerification: undefined;
+  
+  // Second factor after a password login answered with MFA_REQUIRED
+  TwoFactorChallenge: {
+    email?: string; // absent after social sign-in
+  };
+  
+  // TOTP enrollment / recovery codes (signed-in users)
+  TwoFactorSetup: undefined;
+  
+  // Security controls, opened from Home
+  SecuritySettings: undefined;
   
   AuthComplete: {
     userId: string;
@@ -127,6 +153,12 @@ export type RootStackParamList = {
     editMode?: boolean;
   };
   
+  // Signed-in devices (Home > Security)
+  ActiveSessions: undefined;
+  
+  // On-device sign-in and security history (Home > Security)
+  SecurityActivity: undefined;
+  
   // ========================================================================================
   // SOCIAL & COMMUNICATION
   // ========================================================================================
@@ -177,6 +209,13 @@ import ForgotPasswordScreen from './src/features/auth/screens/ForgotPasswordScre
 import AuthCompleteScreen from './src/features/auth/screens/AuthCompleteScreen';
 import SignupScreen from './src/features/auth/screens/SignUpScreen';
 import LoginScreen from './src/features/auth/screens/LoginScreen';
+import TwoFactorChallengeScreen from './src/features/auth/screens/TwoFactorChallengeScreen';
+import PhoneAuthScreen from './src/features/auth/screens/PhoneAuthScreen';
+import PhoneVerificationScreen from './src/features/auth/screens/PhoneVerificationScreen';
+import TwoFactorSetupScreen from './src/features/auth/screens/TwoFactorSetupScreen';
+import SecuritySettingsScreen from './src/features/auth/screens/SecuritySettingsScreen';
+import ActiveSessionsScreen from './src/features/auth/screens/ActiveSessionsScreen';
+import SecurityActivityScreen from './src/features/auth/screens/SecurityActivityScreen';
 // Onboarding Flow
 import AvatarCreationScreen from './src/features/onboarding/screens/AvatarCreationScreen';
 import OnboardingCompleteScreen from './src/features/onboarding/screens/OnboardingCompleteScreen';
@@ -267,6 +306,8 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 const AppNavigation: React.FC = () => {
   return (
     <NavigationContainer>
+      {/* Screen, email verification and magic link deep links */}
+      <DeepLinkListener />
       <Stack.Navigator
         initialRouteName="First" // Start with First screen
         screenOptions={{
@@ -350,6 +391,48 @@ const AppNavigation: React.FC = () => {
           options={TransitionConfigs.modal}
         />
         
+        <Stack.Screen 
+          name="PhoneAuth" 
+          component={PhoneAuthScreen}
+          options={TransitionConfigs.auth}
+        />
+        
+        <Stack.Screen 
+          name="PhoneVerification" 
+          component={PhoneVerificationScreen}
+          options={TransitionConfigs.critical}
+        />
+        
+        <Stack.Screen 
+          name="TwoFactorChallenge" 
+          component={TwoFactorChallengeScreen}
+          options={TransitionConfigs.critical}
+        />
+        
+        <Stack.Screen 
+          name="TwoFactorSetup" 
+          component={TwoFactorSetupScreen}
+          options={TransitionConfigs.modal}
+        />
+        
+        <Stack.Screen 
+          name="SecuritySettings" 
+          component={SecuritySettingsScreen}
+          options={TransitionConfigs.modal}
+        />
+        
+        <Stack.Screen 
+          name="ActiveSessions" 
+          component={ActiveSessionsScreen}
+          options={TransitionConfigs.modal}
+        />
+        
+        <Stack.Screen 
+          name="SecurityActivity" 
+          component={SecurityActivityScreen}
+          options={TransitionConfigs.modal}
+        />
+        
         <Stack.Screen 
           name="AuthComplete" 
           component={AuthCompleteScreen}
@@ -400,6 +483,8 @@ const AppNavigation: React.FC = () => {
           options={TransitionConfigs.modal}
         />
       </Stack.Navigator>
+      {/* Changes waiting to sync and ones the server refused */}
+      <OfflineQueueBanner />
     </NavigationContainer>
   );
 };
@@ -486,10 +571,14 @@ export default function App() {
           hidden={false}
         />
         
-        {/* Navigation Structure */}
-        <ErrorBoundary>
-          <AppNavigation />
-        </ErrorBoundary>
+        {/* Navigation Structure - auth state shared by every screen */}
+        <AuthProvider>
+          <AvatarProvider>
+            <ErrorBoundary>
+              <AppNavigation />
+            </ErrorBoundary>
+          </AvatarProvider>
+        </AuthProvider>
       </ThemeProvider>
     </ErrorBoundary>
   );
@@ -0,0 +1,65 @@
+// jest.setup.js
+// IRANVERSE Jest Setup
+// In-memory stand-ins for the native modules storage and networking load at import time
+// Built for 90M users - Real crypto in tests, no device required
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+
+// Keychain entries live in a Map - tests inspect or corrupt them through __store
+jest.mock('react-native-keychain', () => {
+  const enums = jest.requireActual('react-native-keychain/lib/commonjs/enums');
+  const store = new Map();
+  const GENERIC = '__generic__';
+
+  return {
+    ...enums,
+    __store: store,
+    getInternetCredentials: jest.fn(async server => store.get(server) ?? false),
+    setInternetCredentials: jest.fn(async (server, username, password) => {
+      store.set(server, { server, username, password, service: server, storage: 'mock' });
+      return { service: server, storage: 'mock' };
+    }),
+    resetInternetCredentials: jest.fn(async ({ server }) => {
+      store.delete(server);
+    }),
+    getGenericPassword: jest.fn(async options => store.get(options?.service ?? GENERIC) ?? false),
+    setGenericPassword: jest.fn(async (username, password, options) => {
+      const service = options?.service ?? GENERIC;
+      store.set(service, { username, password, service, storage: 'mock' });
+      return { service, storage: 'mock' };
+    }),
+    hasGenericPassword: jest.fn(async options => store.has(options?.service ?? GENERIC)),
+    resetGenericPassword: jest.fn(async options => store.delete(options?.service ?? GENERIC)),
+    getSupportedBiometryType: jest.fn(async () => null),
+  };
+});
+
+// Same encodings as the native module: hex keys, IVs and MACs, base64 ciphertext
+jest.mock('react-native-aes-crypto', () => {
+  const nodeCrypto = jest.requireActual('crypto');
+
+  return {
+    randomKey: jest.fn(async length => nodeCrypto.randomBytes(length).toString('hex')),
+    pbkdf2: jest.fn(async (password, salt, cost, length, algorithm) =>
+      nodeCrypto.pbkdf2Sync(password, salt, cost, length / 8, algorithm).toString('hex')
+    ),
+    hmac256: jest.fn(async (data, key) =>
+      nodeCrypto.createHmac('sha256', Buffer.from(key, 'hex')).update(data).digest('hex')
+    ),
+    encrypt: jest.fn(async (text, key, iv) => {
+      const cipher = nodeCrypto.createCipheriv('aes-256-cbc', Buffer.from(key, 'hex'), Buffer.from(iv, 'hex'));
+      return Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]).toString('base64');
+    }),
+    decrypt: jest.fn(async (cipherText, key, iv) => {
+      const decipher = nodeCrypto.createDecipheriv('aes-256-cbc', Buffer.from(key, 'hex'), Buffer.from(iv, 'hex'));
+      return Buffer.concat([decipher.update(cipherText, 'base64'), decipher.final()]).toString('utf8');
+    }),
+    sha256: jest.fn(async text => nodeCrypto.createHash('sha256').update(text).digest('hex')),
+  };
+});
@@ -0,0 +1,38 @@
+// scripts/generate-association-files.js
+// IRANVERSE Universal Links - Writes apple-app-site-association and assetlinks.json for the website
+// Paths come from ROUTE_METADATA (src/core/utils/universalLinks.ts), credentials from app.json `extra`
+// Built for 90M users - Usage: npm run generate:association-files [-- <outDir>] (default: dist)
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+// The shared modules are TypeScript without native imports - transpile them on require
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const { generateAssociationFiles } = require('../src/core/utils/universalLinks');
+const { expo } = require('../app.json');
+
+const outDir = path.resolve(process.argv[2] || 'dist');
+
+try {
+  const files = generateAssociationFiles({
+    appleTeamId: expo.extra && expo.extra.appleTeamId,
+    androidCertFingerprints: expo.extra && expo.extra.androidCertFingerprints,
+  });
+
+  Object.entries(files).forEach(([urlPath, contents]) => {
+    const file = path.join(outDir, urlPath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${contents}\n`);
+    console.log(`Wrote ${path.relative(process.cwd(), file)}`);
+  });
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
@@ -4,6 +4,7 @@
 // Built for 90M users - Environment-Aware + Feature Flags
 import { Platform } from 'react-native';
 import Constants from 'expo-constants';
+import { DEEP_LINK_CONFIG } from './deepLink.config';
 
 // ========================================================================================
 // ENVIRONMENT DETECTION - ENTERPRISE DEPLOYMENT
@@ -136,7 +137,7 @@ export const RPM_CONFIG = {
  */
 export const ENCRYPTION_CONFIG = {
   // Algorithm Configuration
-  algorithm: 'aes-256-gcm' as const,
+  algorithm: 'aes-256-cbc-hmac-sha256' as const, // encrypt-then-MAC - the native crypto module has no GCM
   keyDerivation: {
     algorithm: 'pbkdf2' as const,
     iterations: 100000,
@@ -152,36 +153,74 @@ export const ENCRYPTION_CONFIG = {
     userProfile: '@iranverse:user:profile_encrypted',
     deviceKey: '@iranverse:security:device_key',
     encryptionSalt: '@iranverse:security:encryption_salt',
+    responseCachePrefix: '@iranverse:cache:',
+    responseCacheIndex: '@iranverse:cache:index',
+    offlineQueue: '@iranverse:sync:offline_queue',
+    uploadSessions: '@iranverse:upload:sessions',
+    trustedDeviceToken: '@iranverse:auth:trusted_device_token',
+    loginAttempts: '@iranverse:auth:login_attempts',
+    biometricUnlock: '@iranverse:auth:biometric_unlock',
+    sessionStartedAt: '@iranverse:auth:session_started_at',
+    sessionLock: '@iranverse:auth:session_lock',
+    sessionMetadata: '@iranverse:auth:session_metadata',
+    authAuditLog: '@iranverse:auth:audit_log',
+    deviceId: '@iranverse:security:device_id',
+    avatarUrl: '@iranverse:avatar:url',
+    onboardingProfile: '@iranverse:onboarding:profile',
+    onboardingComplete: '@iranverse:onboarding:complete',
+    logoFeatureFlags: '@iranverse:config:logo_feature_flags',
+    schemaVersions: '@iranverse:storage:schema_versions',
+    quarantine: '@iranverse:storage:quarantine',
   },
   
   // Security Settings
   tokenRefreshBuffer: 5 * 60, // 5 minutes in seconds
-  sessionTimeout: 24 * 60 * 60, // 24 hours in seconds
+  sessionTimeout: 24 * 60 * 60, // 24 hours in seconds - hard expiry counted from sign-in
+  idleLockTimeout: 5 * 60, // seconds without interaction before the app locks
+  backgroundLockTimeout: 60, // seconds in the background before the app locks on return
+  sessionExpiryWarning: 5 * 60, // seconds before the hard expiry to warn the user
   maxLoginAttempts: 5,
   lockoutDuration: 15 * 60, // 15 minutes in seconds
+  loginBackoffBase: 1, // seconds - doubled per failed attempt after the first
+  loginBackoffMax: 30, // seconds
+  stepUpWindow: 5 * 60, // seconds a password/biometric check covers sensitive actions
+  biometricKeychainService: 'iranverse-biometric-unlock', // keychain item holding the gated refresh token
+  authAuditLogSize: 100, // sign-in/security events kept on the device
+  keyRotationInterval: 90 * 24 * 60 * 60, // seconds before the storage key is replaced and items re-encrypted
+  storageQuota: 6 * 1024 * 1024, // bytes - AsyncStorage's default Android database size
+  storageQuotaWarning: 0.8, // share of the quota that logs a warning at startup
+  storageQuarantineSize: 20, // corrupted items kept for diagnostics, newest first
 } as const;
 
+// Free of native modules - also read by scripts/generate-association-files.js
+export { DEEP_LINK_CONFIG };
+
 /**
- * Deep link configuration for authentication flows
+ * OAuth sign-in - authorization code + PKCE, exchanged for a session by the backend
+ * Client IDs come from app.json `extra` (see OAUTH_SETUP.md)
  */
-export const DEEP_LINK_CONFIG = {
-  scheme: 'iranverse',
-  baseUrl: 'iranverse://auth',
-  
-  // Supported deep link types
-  types: {
-    emailVerification: 'email-verification',
-    passwordReset: 'password-reset',
-    magicLink: 'magic-link',
-    avatarShare: 'avatar-share',
-  },
+export const OAUTH_CONFIG = {
+  returnUrl: 'iranverse://oauth/callback', // the browser session closes when it reaches this URL
+  flowTimeout: 10 * 60, // seconds a started sign-in (state, nonce, verifier) stays valid
   
-  // URL patterns
-  patterns: {
-    emailVerification: 'iranverse://auth/verify-email',
-    passwordReset: 'iranverse://auth/reset-password',
-    magicLink: 'iranverse://auth/magic-link',
-    avatarShare: 'iranverse://share/avatar',
+  providers: {
+    google: {
+      name: 'Google',
+      authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+      clientId: (Constants.expoConfig?.extra?.googleClientId as string | undefined) || '',
+      redirectUri: 'iranverse://oauth/callback',
+      scopes: ['openid', 'email', 'profile'],
+      extraParams: { prompt: 'select_account' } as Record<string, string>,
+    },
+    apple: {
+      name: 'Apple',
+      authorizationEndpoint: 'https://appleid.apple.com/auth/authorize',
+      clientId: (Constants.expoConfig?.extra?.appleServiceId as string | undefined) || '',
+      // Apple posts name/email scopes back (form_post) - the backend relays code and state to returnUrl
+      redirectUri: `${API_FULL_URL}/auth/oauth/apple/callback`,
+      scopes: ['name', 'email'],
+      extraParams: { response_mode: 'form_post' } as Record<string, string>,
+    },
   },
 } as const;
 
@@ -215,6 +254,13 @@ export const NETWORK_CONFIG = {
   // Iranian Network Optimization
   iranianNetworkOptimization: true,
   domesticCdnPreference: true,
+  
+  // Endpoint Failover
+  healthProbeInterval: 60000, // Re-rank mirrors at most once a minute
+  healthProbeTimeout: 5000, // 5 seconds
+  endpointFailureThreshold: 2, // Consecutive failures before failing over
+  endpointCooldown: 30000, // Keep a failed mirror out of rotation for 30 seconds
+  domesticLatencyMargin: 150, // ms advantage given to domestic mirrors when preferred
 } as const;
 
 /**
@@ -387,9 +433,10 @@ export const LOCALIZATION_CONFIG = {
  */
 export const FEATURE_FLAGS = {
   // Authentication Features
-  oauthEnabled: false, // Google/Apple OAuth
-  magicLinkLogin: false, // Passwordless login
-  twoFactorAuth: false, // 2FA support
+  oauthEnabled: true, // Google/Apple OAuth (PKCE)
+  magicLinkLogin: true, // Passwordless email sign-in links
+  phoneLogin: true, // Mobile number sign-in/sign-up with SMS codes
+  twoFactorAuth: true, // 2FA support (TOTP, SMS, recovery codes)
   biometricAuth: true, // Face ID/Touch ID
   
   // Avatar Features
@@ -624,6 +671,7 @@ export const CONFIG = {
   rpm: RPM_CONFIG,
   encryption: ENCRYPTION_CONFIG,
   deepLink: DEEP_LINK_CONFIG,
+  oauth: OAUTH_CONFIG,
   network: NETWORK_CONFIG,
   avatar: AVATAR_CONFIG,
   platform: PLATFORM_CONFIG,
@@ -0,0 +1,42 @@
+// src/core/config/deepLink.config.ts
+// IRANVERSE Deep Link Configuration - Custom scheme and https universal link settings
+// No native imports, so the association file script runs it under plain Node
+// Built for 90M users - One source for the app router and the website's association files
+
+// ========================================================================================
+// DEEP LINK CONFIGURATION
+// ========================================================================================
+
+/**
+ * Deep link configuration for authentication flows
+ */
+export const DEEP_LINK_CONFIG = {
+  scheme: 'iranverse',
+  baseUrl: 'iranverse://auth',
+  
+  // Supported deep link types
+  types: {
+    emailVerification: 'email-verification',
+    passwordReset: 'password-reset',
+    magicLink: 'magic-link',
+    avatarShare: 'avatar-share',
+  },
+  
+  // URL patterns
+  patterns: {
+    emailVerification: 'iranverse://auth/verify-email',
+    passwordReset: 'iranverse://auth/reset-password',
+    magicLink: 'iranverse://auth/magic-link',
+    avatarShare: 'iranverse://share/avatar',
+  },
+  
+  // https links for the same paths - email clients often strip or block custom schemes
+  // Without the app installed they open the website (see UNIVERSAL_LINKS_SETUP.md)
+  universalLinks: {
+    origin: 'https://iranverse.com',
+    domains: ['iranverse.com', 'www.iranverse.com'],
+    webFallbackPath: '/get-app', // store badges, then continues to ?link=
+    iosBundleId: 'com.iranverse.mobile',
+    androidPackage: 'com.iranverse.mobile',
+  },
+} as const;
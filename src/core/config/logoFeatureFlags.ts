@@ -1,4 +1,4 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { secureStorage, STORAGE_KEYS } from '../utils/storage';
 
 export interface LogoFeatureFlags {
   useSimpleLogo: boolean;
@@ -16,8 +16,6 @@ const DEFAULT_LOGO_FLAGS: LogoFeatureFlags = {
   maxAnimationComplexity: 3,
 };
 
-const STORAGE_KEY = '@iranverse_logo_feature_flags';
-
 export class LogoFeatureFlagManager {
   private static instance: LogoFeatureFlagManager;
   private flags: LogoFeatureFlags = DEFAULT_LOGO_FLAGS;
@@ -32,9 +30,9 @@ export class LogoFeatureFlagManager {
 
   async loadFlags(): Promise<LogoFeatureFlags> {
     try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        this.flags = { ...DEFAULT_LOGO_FLAGS, ...JSON.parse(stored) };
+      const stored = await secureStorage.getItem(STORAGE_KEYS.logoFeatureFlags);
+      if (stored.success && stored.data) {
+        this.flags = { ...DEFAULT_LOGO_FLAGS, ...stored.data };
       }
       this.loaded = true;
       return this.flags;
@@ -49,7 +47,7 @@ export class LogoFeatureFlagManager {
   async saveFlags(flags: Partial<LogoFeatureFlags>): Promise<void> {
     try {
       this.flags = { ...this.flags, ...flags };
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.flags));
+      await secureStorage.setItem(STORAGE_KEYS.logoFeatureFlags, this.flags);
     } catch (error) {
       console.error('Failed to save logo feature flags:', error);
     }
@@ -0,0 +1,163 @@
+// src/core/constants/__tests__/apiClient.test.ts
+// IRANVERSE API Client Pipeline Tests
+// Interceptor order, retries and cancellation against a stub transport
+// Built for 90M users - Every request takes the same path to the network
+import { API_ENDPOINTS, ApiClient } from '../api';
+import { ApiError, ApiRequestConfig, HttpTransport, TransportRequest, TransportResponse } from '../../types/api';
+
+const reply = (status: number, data: unknown = {}): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: String(status),
+  headers: {},
+  data,
+});
+
+/**
+ * Transport that answers through `respond` and records what it was sent
+ * Mirror health probes are answered as healthy and left out of `sent`
+ */
+const createTransport = (respond: (request: TransportRequest) => Promise<TransportResponse>) => {
+  const sent: TransportRequest[] = [];
+  const transport: HttpTransport = {
+    name: 'stub',
+    send: async request => {
+      if (request.path === API_ENDPOINTS.SYSTEM.HEALTH) return reply(200, { status: 'ok' });
+      sent.push(request);
+      return respond(request);
+    },
+  };
+  return { transport, sent };
+};
+
+const createClient = (transport: HttpTransport) =>
+  new ApiClient({ environment: 'production', transport, cache: null, offlineQueue: null });
+
+const get = (url: string, extra: Partial<ApiRequestConfig> = {}): ApiRequestConfig =>
+  ({ method: 'GET', url, requiresAuth: false, retries: 0, ...extra });
+
+describe('ApiClient pipeline', () => {
+  it('runs request and response interceptors in registration order', async () => {
+    const { transport, sent } = createTransport(async () => reply(200, { data: { value: 1 } }));
+    const client = createClient(transport);
+    const calls: string[] = [];
+
+    client.addRequestInterceptor(config => {
+      calls.push('request:first');
+      return { ...config, headers: { ...config.headers, 'X-Trace': 'first' } };
+    });
+    client.addRequestInterceptor(config => {
+      calls.push('request:second');
+      return { ...config, headers: { ...config.headers, 'X-Trace': `${config.headers?.['X-Trace']},second` } };
+    });
+    client.addResponseInterceptor(response => {
+      calls.push('response:first');
+      return { ...response, data: { ...response.data, seen: ['first'] } };
+    });
+    client.addResponseInterceptor(response => {
+      calls.push('response:second');
+      return { ...response, data: { ...response.data, seen: [...response.data.seen, 'second'] } };
+    });
+
+    const response = await client.request<{ value: number; seen: string[] }>(get('/pipeline'));
+
+    expect(calls).toEqual(['request:first', 'request:second', 'response:first', 'response:second']);
+    expect(sent[0].headers['X-Trace']).toBe('first,second');
+    expect(response.data).toEqual({ value: 1, seen: ['first', 'second'] });
+  });
+
+  it('passes a failure through every error interceptor in order', async () => {
+    const { transport } = createTransport(async () => reply(422, { message: 'Invalid' }));
+    const client = createClient(transport);
+    const calls: string[] = [];
+
+    client.addErrorInterceptor(error => {
+      calls.push(`first:${error.status}`);
+      return { ...error, code: 'FIRST' };
+    });
+    client.addErrorInterceptor(error => {
+      calls.push(`second:${error.code}`);
+      return { ...error, code: 'SECOND' };
+    });
+
+    const error: ApiError = await client.request(get('/invalid')).catch(caught => caught);
+
+    expect(calls).toEqual(['first:422', 'second:FIRST']);
+    expect(error).toMatchObject({ status: 422, code: 'SECOND' });
+  });
+
+  it('keeps the original error when an interceptor throws', async () => {
+    const { transport } = createTransport(async () => reply(422));
+    const client = createClient(transport);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    client.addErrorInterceptor(() => {
+      throw new Error('broken interceptor');
+    });
+
+    await expect(client.request(get('/invalid'))).rejects.toMatchObject({ status: 422 });
+    warn.mockRestore();
+  });
+
+  it('retries server errors until one succeeds', async () => {
+    const replies = [reply(503), reply(500), reply(200, { data: { ok: true } })];
+    const { transport, sent } = createTransport(async () => replies.shift()!);
+    const client = createClient(transport);
+
+    const response = await client.request(get('/flaky', { retries: 3, retryDelay: 1 }));
+
+    expect(sent).toHaveLength(3);
+    expect(response.data).toEqual({ ok: true });
+  });
+
+  it('does not retry client errors', async () => {
+    const { transport, sent } = createTransport(async () => reply(404));
+    const client = createClient(transport);
+
+    await expect(client.request(get('/missing', { retries: 3, retryDelay: 1 }))).rejects.toMatchObject({ status: 404 });
+    expect(sent).toHaveLength(1);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const { transport, sent } = createTransport(async () => reply(500));
+    const client = createClient(transport);
+
+    await expect(client.request(get('/down', { retries: 2, retryDelay: 1 }))).rejects.toMatchObject({ status: 500 });
+    expect(sent).toHaveLength(3);
+  });
+
+  it('rejects a request cancelled in flight as cancelled, without retrying', async () => {
+    const { transport, sent } = createTransport(request => new Promise((_resolve, reject) => {
+      request.signal?.addEventListener('abort', () => {
+        reject(Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+      });
+    }));
+    const client = createClient(transport);
+    const seen: string[] = [];
+    client.addErrorInterceptor(error => {
+      seen.push(error.type);
+      return error;
+    });
+    const controller = new AbortController();
+
+    const pending = client.request({ method: 'POST', url: '/slow', requiresAuth: false, retries: 3, retryDelay: 1, signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ type: 'REQUEST_CANCELLED', retryable: false });
+    expect(sent).toHaveLength(1);
+    expect(seen).toEqual(['REQUEST_CANCELLED']);
+  });
+
+  it('never sends a request cancelled before it starts', async () => {
+    const { transport, sent } = createTransport(async () => reply(200));
+    const client = createClient(transport);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.request(get('/never', { signal: controller.signal }))).rejects.toMatchObject({
+      type: 'REQUEST_CANCELLED',
+    });
+    expect(sent).toEqual([]);
+  });
+});
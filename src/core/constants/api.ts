@@ -4,9 +4,23 @@
 // Built for 90M users - Enterprise grade error handling
 import { 
   ApiResponse, 
+  ApiResponseMetadata,
   ApiError, 
   ApiErrorType,
   ApiRequestConfig,
+  ApiRequestOptions,
+  ApiCacheConfig,
+  ApiCachePolicy,
+  ResponseSchema,
+  HttpTransport,
+  ApiEnvironment,
+  TransportRequest,
+  TransportResponse,
+  EndpointPoolSnapshot,
+  QueuedMutation,
+  RequestInterceptor,
+  ResponseInterceptor,
+  ErrorInterceptor,
   LoginApiRequest,
   LoginApiResponse,
   RegisterApiRequest,
@@ -16,14 +30,92 @@ import {
   UserProfileApiResponse,
   LogoutApiRequest,
   VerifyEmailApiRequest,
+  VerifyEmailLinkApiResponse,
   PasswordResetRequestApiRequest,
   PasswordResetConfirmApiRequest,
   GetAvatarApiResponse,
   UpdateAvatarApiRequest,
   UpdateAvatarApiResponse,
   AvatarStatusApiResponse,
-  DeleteAvatarApiRequest
+  DeleteAvatarApiRequest,
+  UpdateProfileApiRequest,
+  UpdateProfileApiResponse,
+  UpdateSettingsApiRequest,
+  UserSettingsApiResponse,
+  UserMetricsApiResponse,
+  CompleteOnboardingApiRequest,
+  ResendVerificationApiRequest,
+  MfaVerifyApiRequest,
+  MfaVerifyApiResponse,
+  MfaSmsApiRequest,
+  MfaSmsApiResponse,
+  TotpSetupApiResponse,
+  MfaCodeApiRequest,
+  RecoveryCodesApiResponse,
+  StepUpApiRequest,
+  StepUpApiResponse,
+  StepUpCodeApiResponse,
+  OAuthExchangeApiRequest,
+  OAuthLinkApiRequest,
+  MagicLinkRequestApiRequest,
+  MagicLinkRequestApiResponse,
+  MagicLinkVerifyApiRequest,
+  PhoneOtpApiRequest,
+  PhoneOtpApiResponse,
+  PhoneOtpResendApiRequest,
+  PhoneVerifyApiRequest,
+  SessionsApiResponse,
+  RevokeSessionApiRequest,
+  TrustSessionApiRequest,
+  TrustSessionApiResponse,
+  SearchApiRequest,
+  SearchApiResponse,
+  AnalyticsEvent,
+  AnalyticsMetric,
+  HealthCheckApiResponse,
+  VersionApiResponse,
+  FileUploadApiRequest
 } from '../types/api';
+import { fetchTransport } from '../services/httpTransport';
+import { ResponseCache, CachedResponse, ResponseCacheStats, parseMaxAge } from '../services/responseCache';
+import { OfflineMutationQueue, generateIdempotencyKey } from '../services/offlineQueue';
+import { RequestScheduler, RequestSchedulerStats } from '../services/requestScheduler';
+import { startUpload, validateAvatarAsset, UploadOptions, UploadTask } from '../services/uploadManager';
+import { EndpointPool, isEndpointFailureStatus } from '../services/endpointHealth';
+import { AnalyticsBatcher } from '../services/analyticsBatcher';
+import { tokenRefreshScheduler, RefreshTokenRejectedError, TokenEvent } from '../services/tokenRefreshScheduler';
+import { mockBackend } from '../services/mockBackend';
+import { toPaginationParams, getPagination } from '../utils/pagination';
+import { NETWORK_CONFIG, FEATURE_FLAGS, AVATAR_CONFIG, DEBUG_CONFIG, ENVIRONMENT } from '../config/app.config';
+import { SchemaValidationError } from '../utils/schema';
+import {
+  loginResponseSchema,
+  registerResponseSchema,
+  refreshTokenResponseSchema,
+  userProfileResponseSchema,
+  verifyEmailLinkResponseSchema,
+  mfaVerifyResponseSchema,
+  mfaSmsResponseSchema,
+  magicLinkResponseSchema,
+  phoneOtpResponseSchema,
+  totpSetupResponseSchema,
+  recoveryCodesResponseSchema,
+  stepUpResponseSchema,
+  stepUpCodeResponseSchema,
+  sessionsResponseSchema,
+  trustSessionResponseSchema,
+  getAvatarResponseSchema,
+  updateAvatarResponseSchema,
+  avatarStatusResponseSchema,
+  updateProfileResponseSchema,
+  userSettingsResponseSchema,
+  userMetricsResponseSchema,
+  fileUploadResponseSchema,
+  uploadSessionResponseSchema,
+  searchResponseSchema,
+  healthCheckResponseSchema,
+  versionResponseSchema,
+} from './apiSchemas';
 
 // ========================================================================================
 // API ENDPOINTS CONFIGURATION - SINGLE DECLARATION
@@ -35,6 +127,15 @@ export const API_ENDPOINTS = {
   BASE_URL_DEV: 'https://dev-api.iranverse.com/v1',
   BASE_URL_STAGING: 'https://staging-api.iranverse.com/v1',
   
+  // Domestic Mirrors (failover targets inside Iran)
+  MIRROR_URL: 'https://api.iranverse.ir/v1',
+  MIRROR_URL_DEV: 'https://dev-api.iranverse.ir/v1',
+  MIRROR_URL_STAGING: 'https://staging-api.iranverse.ir/v1',
+  
+  // In-process mock backend (never leaves the device)
+  BASE_URL_MOCK: 'mock://api.iranverse.local/v1',
+  MIRROR_URL_MOCK: 'mock://api-ir.iranverse.local/v1',
+  
   // Authentication Endpoints
   AUTH: {
     LOGIN: '/auth/login',
@@ -45,6 +146,35 @@ export const API_ENDPOINTS = {
     VERIFY_EMAIL: '/auth/verify-email',
     PASSWORD_RESET_REQUEST: '/auth/password-reset-request',
     PASSWORD_RESET_CONFIRM: '/auth/password-reset-confirm',
+    RESEND_VERIFICATION: '/auth/resend-verification',
+    
+    // Two-Factor Authentication
+    MFA_VERIFY: '/auth/mfa/verify',
+    MFA_SMS: '/auth/mfa/sms',
+    MFA_TOTP_SETUP: '/auth/mfa/totp/setup',
+    MFA_TOTP_CONFIRM: '/auth/mfa/totp/confirm',
+    MFA_DISABLE: '/auth/mfa/disable',
+    MFA_RECOVERY_CODES: '/auth/mfa/recovery-codes',
+    
+    // Step-Up Verification
+    STEP_UP: '/auth/step-up',
+    STEP_UP_CODE: '/auth/step-up/code',
+    
+    // Social Sign-In
+    OAUTH_EXCHANGE: '/auth/oauth/exchange',
+    OAUTH_LINK: '/auth/oauth/link',
+    
+    // Passwordless Sign-In
+    MAGIC_LINK_REQUEST: '/auth/magic-link',
+    MAGIC_LINK_VERIFY: '/auth/magic-link/verify',
+    PHONE_OTP: '/auth/phone/otp',
+    PHONE_OTP_RESEND: '/auth/phone/otp/resend',
+    PHONE_VERIFY: '/auth/phone/verify',
+    
+    // Active Sessions
+    SESSIONS: '/auth/sessions',
+    SESSIONS_REVOKE: '/auth/sessions/revoke',
+    SESSIONS_TRUST: '/auth/sessions/trust',
   },
   
   // User Endpoints
@@ -55,12 +185,15 @@ export const API_ENDPOINTS = {
     AVATAR_UPDATE: '/users/me/avatar/update',
     AVATAR_STATUS: '/users/me/avatar/status',
     METRICS: '/users/me/metrics',
+    ONBOARDING_COMPLETE: '/users/me/onboarding/complete',
   },
   
   // Upload Endpoints
   UPLOAD: {
     FILE: '/upload',
     AVATAR_ASSET: '/upload/avatar',
+    FILE_SESSIONS: '/upload/sessions',
+    AVATAR_ASSET_SESSIONS: '/upload/avatar/sessions',
   },
   
   // Search & Discovery
@@ -118,71 +251,345 @@ export const HTTP_STATUS = {
   GATEWAY_TIMEOUT: 504,
 } as const;
 
+// ========================================================================================
+// RESPONSE CACHE POLICIES - PER ENDPOINT
+// ========================================================================================
+
+export const API_CACHE_CONFIG: ApiCacheConfig = {
+  enabled: true,
+  defaultTtl: NETWORK_CONFIG.cacheTtl,
+  maxSize: NETWORK_CONFIG.cacheSize,
+  
+  strategies: {
+    // Profile, settings and avatar render instantly from cache, then refresh
+    [API_ENDPOINTS.AUTH.ME]: { ttl: 5 * 60, strategy: 'stale-while-revalidate', staleTtl: 7 * 24 * 60 * 60 },
+    [API_ENDPOINTS.USER.PROFILE]: { ttl: 5 * 60, strategy: 'stale-while-revalidate', staleTtl: 7 * 24 * 60 * 60 },
+    [API_ENDPOINTS.USER.SETTINGS]: { ttl: 15 * 60, strategy: 'stale-while-revalidate', staleTtl: 7 * 24 * 60 * 60 },
+    [API_ENDPOINTS.USER.AVATAR]: { ttl: 10 * 60, strategy: 'stale-while-revalidate', staleTtl: 7 * 24 * 60 * 60 },
+    
+    // Live data must always hit the network
+    [API_ENDPOINTS.USER.AVATAR_STATUS]: { ttl: 0, strategy: 'network-only' },
+    [API_ENDPOINTS.AUTH.SESSIONS]: { ttl: 0, strategy: 'network-only' },
+    [API_ENDPOINTS.SYSTEM.HEALTH]: { ttl: 0, strategy: 'network-only' },
+    [API_ENDPOINTS.SEARCH.GLOBAL]: { ttl: 60, strategy: 'network-first' },
+    [API_ENDPOINTS.SEARCH.USERS]: { ttl: 60, strategy: 'network-first' },
+    [API_ENDPOINTS.SEARCH.AVATARS]: { ttl: 60, strategy: 'network-first' },
+    [API_ENDPOINTS.USER.METRICS]: { ttl: 5 * 60, strategy: 'network-first' },
+    
+    // Rarely changing metadata
+    [API_ENDPOINTS.SYSTEM.VERSION]: { ttl: 60 * 60, strategy: 'cache-first' },
+  },
+};
+
+// ========================================================================================
+// RESPONSE SCHEMAS - PER ENDPOINT
+// ========================================================================================
+
+/**
+ * Response data contracts keyed by "METHOD /endpoint"
+ * Parametrised URLs (upload sessions) pass `responseSchema` per request instead
+ */
+export const API_RESPONSE_SCHEMAS: Record<string, ResponseSchema> = {
+  [`POST ${API_ENDPOINTS.AUTH.LOGIN}`]: loginResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.REGISTER}`]: registerResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.REFRESH}`]: refreshTokenResponseSchema,
+  [`GET ${API_ENDPOINTS.AUTH.ME}`]: userProfileResponseSchema,
+  [`GET ${API_ENDPOINTS.AUTH.VERIFY_EMAIL}`]: verifyEmailLinkResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.MFA_VERIFY}`]: mfaVerifyResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.MFA_SMS}`]: mfaSmsResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.MFA_TOTP_SETUP}`]: totpSetupResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.MFA_TOTP_CONFIRM}`]: recoveryCodesResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.MFA_RECOVERY_CODES}`]: recoveryCodesResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.STEP_UP}`]: stepUpResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.STEP_UP_CODE}`]: stepUpCodeResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.OAUTH_EXCHANGE}`]: loginResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.OAUTH_LINK}`]: loginResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.MAGIC_LINK_REQUEST}`]: magicLinkResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.MAGIC_LINK_VERIFY}`]: loginResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.PHONE_OTP}`]: phoneOtpResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.PHONE_OTP_RESEND}`]: phoneOtpResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.PHONE_VERIFY}`]: loginResponseSchema,
+  [`GET ${API_ENDPOINTS.AUTH.SESSIONS}`]: sessionsResponseSchema,
+  [`POST ${API_ENDPOINTS.AUTH.SESSIONS_TRUST}`]: trustSessionResponseSchema,
+  [`PATCH ${API_ENDPOINTS.USER.PROFILE}`]: updateProfileResponseSchema,
+  [`GET ${API_ENDPOINTS.USER.SETTINGS}`]: userSettingsResponseSchema,
+  [`PATCH ${API_ENDPOINTS.USER.SETTINGS}`]: userSettingsResponseSchema,
+  [`GET ${API_ENDPOINTS.USER.AVATAR}`]: getAvatarResponseSchema,
+  [`POST ${API_ENDPOINTS.USER.AVATAR_UPDATE}`]: updateAvatarResponseSchema,
+  [`GET ${API_ENDPOINTS.USER.AVATAR_STATUS}`]: avatarStatusResponseSchema,
+  [`GET ${API_ENDPOINTS.USER.METRICS}`]: userMetricsResponseSchema,
+  [`POST ${API_ENDPOINTS.UPLOAD.FILE}`]: fileUploadResponseSchema,
+  [`POST ${API_ENDPOINTS.UPLOAD.AVATAR_ASSET}`]: fileUploadResponseSchema,
+  [`POST ${API_ENDPOINTS.UPLOAD.FILE_SESSIONS}`]: uploadSessionResponseSchema,
+  [`POST ${API_ENDPOINTS.UPLOAD.AVATAR_ASSET_SESSIONS}`]: uploadSessionResponseSchema,
+  [`GET ${API_ENDPOINTS.SEARCH.GLOBAL}`]: searchResponseSchema,
+  [`GET ${API_ENDPOINTS.SEARCH.USERS}`]: searchResponseSchema,
+  [`GET ${API_ENDPOINTS.SEARCH.AVATARS}`]: searchResponseSchema,
+  [`GET ${API_ENDPOINTS.SYSTEM.HEALTH}`]: healthCheckResponseSchema,
+  [`GET ${API_ENDPOINTS.SYSTEM.VERSION}`]: versionResponseSchema,
+};
+
 // ========================================================================================
 // API CLIENT CLASS - ENTERPRISE GRADE
 // ========================================================================================
 
 /**
  * Enterprise API client with automatic token management
- * Features: Auto-refresh, retry logic, request queuing, error handling
+ * Features: Auto-refresh, retry logic, request queuing, error handling,
+ * pluggable transport, request/response/error interceptors and response caching
  */
 export class ApiClient {
-  private baseUrl: string;
+  // Primary API and domestic mirror, ranked by health and latency
+  private endpoints: EndpointPool;
+  // Mirrors of the shared token pair - tokenRefreshScheduler owns refresh and rotation
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
-  private isRefreshing = false;
-  private refreshPromise: Promise<string> | null = null;
-  private requestQueue: Array<() => void> = [];
+  
+  // In-flight request de-duplication
+  private inFlightRequests = new Map<string, InFlightRequest>();
+  
+  // Persistent GET response cache (null disables caching)
+  private cache: ResponseCache | null;
+  
+  // Offline mutation queue (null when offline mode is disabled)
+  private offlineQueue: OfflineMutationQueue | null;
+  
+  // Network Pipeline
+  private transport: HttpTransport;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+  private errorInterceptors: ErrorInterceptor[] = [];
   
   // Request Configuration
-  private defaultTimeout = 30000; // 30 seconds
-  private maxRetries = 3;
-  private retryDelay = 1000; // 1 second
+  private defaultTimeout: number = NETWORK_CONFIG.requestTimeout;
+  private uploadTimeout: number = NETWORK_CONFIG.uploadTimeout;
+  private downloadTimeout: number = NETWORK_CONFIG.downloadTimeout;
+  private maxRetries: number = NETWORK_CONFIG.maxRetries;
+  private retryDelay: number = NETWORK_CONFIG.retryDelay;
+  private retryMultiplier: number = NETWORK_CONFIG.retryMultiplier;
+  
+  // Concurrency limit shared by every request from this client
+  private scheduler: RequestScheduler;
   
   constructor(config: {
-    environment: 'development' | 'staging' | 'production';
+    environment: ApiEnvironment;
     enableLogging?: boolean;
+    transport?: HttpTransport;
+    cache?: ResponseCache | null;
+    offlineQueue?: OfflineMutationQueue | null;
+    scheduler?: RequestScheduler;
+    endpoints?: EndpointPool;
   }) {
-    // Set base URL based on environment
+    // The mock environment answers from memory - a persistent cache would outlive its state
+    const isMock = config.environment === 'mock';
+    this.transport = config.transport || (isMock ? mockBackend.transport : fetchTransport);
+    this.scheduler = config.scheduler || new RequestScheduler(NETWORK_CONFIG.maxConcurrentRequests);
+    this.cache = config.cache === undefined
+      ? (isMock ? null : new ResponseCache(API_CACHE_CONFIG))
+      : config.cache;
+    this.offlineQueue = config.offlineQueue === undefined
+      ? (FEATURE_FLAGS.offlineMode ? new OfflineMutationQueue() : null)
+      : config.offlineQueue;
+    this.offlineQueue?.attach(mutation => this.replayMutation(mutation));
+    
+    // Every client sees the same tokens, whoever set or refreshed them
+    const shared = tokenRefreshScheduler.getTokens();
+    this.accessToken = shared?.accessToken ?? null;
+    this.refreshToken = shared?.refreshToken ?? null;
+    tokenRefreshScheduler.subscribe(event => this.handleTokenEvent(event));
+    tokenRefreshScheduler.attach((refreshToken, deviceId) => this.performTokenRefresh(refreshToken, deviceId));
+    
+    // Set base URLs based on environment
+    let baseUrl: string;
+    let mirrorUrl: string;
     switch (config.environment) {
       case 'development':
-        this.baseUrl = API_ENDPOINTS.BASE_URL_DEV;
+        baseUrl = API_ENDPOINTS.BASE_URL_DEV;
+        mirrorUrl = API_ENDPOINTS.MIRROR_URL_DEV;
         break;
       case 'staging':
-        this.baseUrl = API_ENDPOINTS.BASE_URL_STAGING;
+        baseUrl = API_ENDPOINTS.BASE_URL_STAGING;
+        mirrorUrl = API_ENDPOINTS.MIRROR_URL_STAGING;
         break;
-      case 'production':
-        this.baseUrl = API_ENDPOINTS.BASE_URL;
+      case 'mock':
+        baseUrl = API_ENDPOINTS.BASE_URL_MOCK;
+        mirrorUrl = API_ENDPOINTS.MIRROR_URL_MOCK;
         break;
+      case 'production':
       default:
-        this.baseUrl = API_ENDPOINTS.BASE_URL;
+        baseUrl = API_ENDPOINTS.BASE_URL;
+        mirrorUrl = API_ENDPOINTS.MIRROR_URL;
     }
+    
+    // Probes go through the active transport so swapped transports see them too
+    this.endpoints = config.endpoints || new EndpointPool([
+      { id: 'api', url: baseUrl, region: 'international' },
+      { id: 'api-ir', url: mirrorUrl, region: 'domestic' },
+    ], {
+      healthPath: API_ENDPOINTS.SYSTEM.HEALTH,
+      transport: { name: 'api-client', send: request => this.transport.send(request) },
+    });
   }
   
   /**
-   * Set authentication tokens
+   * Set authentication tokens (shared with every client, schedules the next refresh)
    */
   setTokens(accessToken: string, refreshToken: string): void {
-    this.accessToken = accessToken;
-    this.refreshToken = refreshToken;
+    tokenRefreshScheduler.setTokens({ accessToken, refreshToken });
   }
   
   /**
    * Clear authentication tokens
    */
   clearTokens(): void {
-    this.accessToken = null;
-    this.refreshToken = null;
+    tokenRefreshScheduler.setTokens(null);
   }
   
   /**
-   * Make authenticated API request with automatic token refresh
+   * Refresh now, joining any refresh already in flight
+   */
+  async refreshTokens(): Promise<RefreshTokenApiResponse> {
+    const { data } = await tokenRefreshScheduler.refresh();
+    return data;
+  }
+  
+  private handleTokenEvent(event: TokenEvent): void {
+    if (event.type === 'refresh_failed') return;
+    this.accessToken = event.tokens?.accessToken ?? null;
+    this.refreshToken = event.tokens?.refreshToken ?? null;
+  }
+  
+  // ========================================================================================
+  // NETWORK PIPELINE - TRANSPORT & INTERCEPTORS
+  // ========================================================================================
+  
+  /**
+   * Replace the transport used for all subsequent requests
+   */
+  setTransport(transport: HttpTransport): void {
+    this.transport = transport;
+  }
+  
+  /**
+   * Get the active transport
+   */
+  getTransport(): HttpTransport {
+    return this.transport;
+  }
+  
+  /**
+   * Add request interceptor (runs in registration order)
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor): void {
+    this.requestInterceptors.push(interceptor);
+  }
+  
+  /**
+   * Remove request interceptor
+   */
+  removeRequestInterceptor(interceptor: RequestInterceptor): void {
+    this.requestInterceptors = this.requestInterceptors.filter(i => i !== interceptor);
+  }
+  
+  /**
+   * Add response interceptor (runs in registration order)
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor): void {
+    this.responseInterceptors.push(interceptor);
+  }
+  
+  /**
+   * Remove response interceptor
+   */
+  removeResponseInterceptor(interceptor: ResponseInterceptor): void {
+    this.responseInterceptors = this.responseInterceptors.filter(i => i !== interceptor);
+  }
+  
+  /**
+   * Add error interceptor (runs in registration order)
+   */
+  addErrorInterceptor(interceptor: ErrorInterceptor): void {
+    this.errorInterceptors.push(interceptor);
+  }
+  
+  /**
+   * Remove error interceptor
+   */
+  removeErrorInterceptor(interceptor: ErrorInterceptor): void {
+    this.errorInterceptors = this.errorInterceptors.filter(i => i !== interceptor);
+  }
+  
+  /**
+   * Make API request through the response cache, merging identical
+   * concurrent GETs into one round-trip
    */
   async request<T>(config: ApiRequestConfig): Promise<ApiResponse<T>> {
+    if (config.signal?.aborted) {
+      throw await this.applyErrorInterceptors(this.createCancelledError(config), config);
+    }
+    
+    if (this.isCacheable(config)) {
+      return this.cachedRequest<T>(config);
+    }
+    
+    if (this.isQueueable(config)) {
+      return this.queueableRequest<T>(config);
+    }
+    
+    return this.mutationRequest<T>(config);
+  }
+  
+  /**
+   * Send request and invalidate related cache entries after mutations
+   */
+  private async mutationRequest<T>(config: ApiRequestConfig): Promise<ApiResponse<T>> {
+    const response = await this.networkRequest<T>(config);
+    
+    // Successful mutations invalidate cached reads of the same resource
+    if (config.method !== 'GET' && this.cache) {
+      await this.cache.invalidate(config.url);
+    }
+    
+    return response;
+  }
+  
+  /**
+   * Send request to the network, de-duplicating when allowed
+   */
+  private networkRequest<T>(config: ApiRequestConfig): Promise<ApiResponse<T>> {
+    if (this.isDedupable(config)) {
+      return this.dedupedRequest<T>(config);
+    }
+    
+    return this.executeRequest<T>(config);
+  }
+  
+  /**
+   * Cancel every in-flight de-duplicated request
+   */
+  cancelAllRequests(): void {
+    this.inFlightRequests.forEach(entry => entry.controller.abort());
+    this.inFlightRequests.clear();
+  }
+  
+  /**
+   * Execute authenticated API request with automatic token refresh
+   */
+  private async executeRequest<T>(config: ApiRequestConfig): Promise<ApiResponse<T>> {
+    const maxRetries = config.retries ?? this.maxRetries;
     let retryCount = 0;
     
-    while (retryCount <= this.maxRetries) {
+    while (retryCount <= maxRetries) {
+      const attemptEndpointId = this.endpoints.getActive().id;
+      let attemptToken: string | null = null;
+      
       try {
+        // Wait out a running refresh (or refresh an expired token) instead of collecting 401s
+        if (config.requiresAuth) {
+          await tokenRefreshScheduler.ensureFresh();
+          attemptToken = this.accessToken;
+        }
+        
         // Add authentication header if token available
         const headers: Record<string, string> = {
           'Content-Type': 'application/json',
@@ -197,36 +604,67 @@ export class ApiClient {
           headers.Authorization = `Bearer ${this.accessToken}`;
         }
         
-        // Make HTTP request
-        const response = await this.makeHttpRequest<T>({
-          ...config,
-          headers,
-          timeout: config.timeout || this.defaultTimeout,
-        });
+        // Let the server recognise replays of the same mutation
+        if (config.idempotencyKey) {
+          headers['Idempotency-Key'] = config.idempotencyKey;
+        }
+        
+        // fetch sets the multipart boundary itself
+        if (isFormData(config.data)) {
+          delete headers['Content-Type'];
+        }
+        
+        // Make HTTP request once the scheduler grants a slot
+        const response = await this.scheduler.schedule(
+          () => this.makeHttpRequest<T>({
+            ...config,
+            headers,
+            timeout: this.getTimeout(config),
+          }),
+          config.priority,
+          config.signal
+        );
         
         return response;
         
       } catch (error) {
+        // Never retry or refresh once the caller has cancelled
+        if (this.isCancelledError(error, config)) {
+          throw await this.applyErrorInterceptors(this.createCancelledError(config), config);
+        }
+        
         // Handle token refresh for 401 errors
         if (this.isUnauthorizedError(error) && config.requiresAuth && retryCount === 0) {
+          // Another request already rotated the token while this one was in flight
+          if (this.accessToken && this.accessToken !== attemptToken) {
+            retryCount++;
+            continue;
+          }
+          
           try {
             await this.refreshAccessToken();
             retryCount++; // Try once more with new token
             continue;
           } catch (refreshError) {
-            throw this.createApiError(refreshError, config);
+            throw await this.applyErrorInterceptors(this.createApiError(refreshError, config), config);
           }
         }
         
-        // Handle retryable errors
-        if (this.isRetryableError(error) && retryCount < this.maxRetries) {
-          await this.delay(this.retryDelay * Math.pow(2, retryCount)); // Exponential backoff
+        // Handle retryable errors - a fresh mirror is tried without backing off
+        const failedOver = this.endpoints.getActive().id !== attemptEndpointId;
+        const retryDelay = failedOver ? 0 : this.getRetryDelay(error, retryCount, config);
+        if (this.isRetryableError(error) && retryCount < maxRetries && retryDelay !== null) {
+          try {
+            await this.delay(retryDelay, config.signal);
+          } catch {
+            throw await this.applyErrorInterceptors(this.createCancelledError(config), config);
+          }
           retryCount++;
           continue;
         }
         
         // Throw error if not retryable or max retries exceeded
-        throw this.createApiError(error, config);
+        throw await this.applyErrorInterceptors(this.createApiError(error, config), config);
       }
     }
     
@@ -234,26 +672,416 @@ export class ApiClient {
     throw new Error('Maximum retries exceeded');
   }
   
+  // ========================================================================================
+  // SCHEDULING, MIRRORS, TIMEOUTS & RETRY POLICY
+  // ========================================================================================
+  
+  /**
+   * Get request scheduler statistics
+   */
+  getSchedulerStats(): RequestSchedulerStats {
+    return this.scheduler.getStats();
+  }
+  
+  /**
+   * Get ranked API mirror health
+   */
+  getEndpointHealth(): EndpointPoolSnapshot {
+    return this.endpoints.getSnapshot();
+  }
+  
+  /**
+   * Get the API mirror pool (subscribe for ranking changes)
+   */
+  getEndpoints(): EndpointPool {
+    return this.endpoints;
+  }
+  
+  /**
+   * Resolve timeout from explicit value or request class
+   */
+  private getTimeout(config: ApiRequestConfig): number {
+    if (config.timeout) {
+      return config.timeout;
+    }
+    
+    const requestClass = config.requestClass || (isRawBody(config.data) ? 'upload' : 'json');
+    
+    switch (requestClass) {
+      case 'upload':
+        return this.uploadTimeout;
+      case 'download':
+        return this.downloadTimeout;
+      default:
+        return this.defaultTimeout;
+    }
+  }
+  
+  /**
+   * Compute delay before the next attempt, or null to stop retrying
+   * Honors Retry-After on 429/503, otherwise exponential backoff with jitter
+   */
+  private getRetryDelay(error: any, retryCount: number, config: ApiRequestConfig): number | null {
+    if (error?.status === HTTP_STATUS.TOO_MANY_REQUESTS || error?.status === HTTP_STATUS.SERVICE_UNAVAILABLE) {
+      const retryAfter = this.getRetryAfter(error);
+      if (retryAfter !== undefined) {
+        // Don't hold the caller hostage for long server back-offs
+        return retryAfter <= MAX_RETRY_AFTER_SECONDS ? retryAfter * 1000 : null;
+      }
+    }
+    
+    const backoff = (config.retryDelay ?? this.retryDelay) * Math.pow(this.retryMultiplier, retryCount);
+    
+    // Equal jitter - keeps at least half the backoff, spreads the rest
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+  
+  // ========================================================================================
+  // RESPONSE CACHE - TTL, ETAG & STALE-WHILE-REVALIDATE
+  // ========================================================================================
+  
+  /**
+   * Get a cached GET response without touching the network
+   * Used to render profile/settings/avatar instantly on cold start
+   */
+  async getCached<T>(url: string, params?: Record<string, any>, requiresAuth = true): Promise<ApiResponse<T> | null> {
+    if (!this.cache?.isEnabled()) return null;
+    
+    const config: ApiRequestConfig = { method: 'GET', url, params, requiresAuth };
+    const cached = await this.readCache<T>(this.getRequestKey(config), config);
+    return cached ? this.fromCache(cached) : null;
+  }
+  
+  /**
+   * Drop every cached response (call on logout to avoid cross-account leaks)
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
+  
+  /**
+   * Get response cache statistics
+   */
+  getCacheStats(): ResponseCacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
+  }
+  
+  /**
+   * Check if request may be served from or stored in the cache
+   */
+  private isCacheable(config: ApiRequestConfig): boolean {
+    return (
+      config.method === 'GET' &&
+      config.cache !== false &&
+      !!this.cache?.isEnabled() &&
+      this.cache.getPolicy(config.url).strategy !== 'network-only'
+    );
+  }
+  
+  /**
+   * Serve GET request according to the endpoint's cache policy
+   */
+  private async cachedRequest<T>(config: ApiRequestConfig): Promise<ApiResponse<T>> {
+    const cache = this.cache!;
+    const policy = cache.getPolicy(config.url);
+    const key = this.getRequestKey(config);
+    const cached = await this.readCache<T>(key, config);
+    const fresh = !!cached && cache.isFresh(cached);
+    
+    if (cached) {
+      if (policy.strategy === 'cache-only' || (fresh && policy.strategy !== 'network-first')) {
+        return this.fromCache(cached);
+      }
+      
+      // Serve stale copy now, refresh in the background
+      if (policy.strategy === 'stale-while-revalidate') {
+        this.revalidate<T>({ ...config, signal: undefined }, key, policy, cached).catch(error => {
+          console.warn('Background revalidation failed:', error);
+        });
+        return this.fromCache(cached);
+      }
+    } else if (policy.strategy === 'cache-only') {
+      throw await this.applyErrorInterceptors(
+        this.createApiError({ name: 'CacheMiss', message: 'No cached response available' }, config),
+        config
+      );
+    }
+    
+    try {
+      return await this.revalidate<T>(config, key, policy, cached);
+    } catch (error) {
+      // Network-first falls back to the cached copy on transient failures
+      if (cached && policy.strategy === 'network-first' && (error as ApiError)?.retryable) {
+        return this.fromCache(cached);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Read cache entry, re-validating data against the endpoint schema
+   * Restores Date fields lost in persistence and evicts entries from an older contract
+   */
+  private async readCache<T>(key: string, config: ApiRequestConfig): Promise<CachedResponse<T> | null> {
+    const cached = await this.cache!.get<T>(key);
+    const schema = this.getResponseSchema(config);
+    if (!cached || !schema || cached.response.data === undefined) return cached;
+    
+    try {
+      const data = schema.parse(cached.response.data) as T;
+      return { ...cached, response: { ...cached.response, data } };
+    } catch (error) {
+      console.warn('Evicting cached response that fails schema validation:', config.url);
+      await this.cache!.remove(key);
+      return null;
+    }
+  }
+  
+  /**
+   * Fetch from network with If-None-Match and update the cache
+   */
+  private async revalidate<T>(
+    config: ApiRequestConfig,
+    key: string,
+    policy: ApiCachePolicy,
+    cached: CachedResponse<T> | null
+  ): Promise<ApiResponse<T>> {
+    const headers = cached?.etag
+      ? { ...config.headers, 'If-None-Match': cached.etag }
+      : config.headers;
+    
+    const response = await this.networkRequest<T>({ ...config, headers });
+    const cacheInfo = response.metadata?.cache;
+    const ttl = config.cacheTtl ?? (cacheInfo?.ttl || undefined);
+    
+    if (cacheInfo?.revalidated && cached) {
+      await this.cache!.touch(key, policy, ttl);
+      return this.fromCache(cached, true);
+    }
+    
+    await this.cache!.set(key, response, policy, { ttl, etag: cacheInfo?.etag });
+    return response;
+  }
+  
+  /**
+   * Build response from cache entry, annotating cache metadata
+   */
+  private fromCache<T>(entry: CachedResponse<T>, revalidated = false): ApiResponse<T> {
+    const now = Date.now();
+    const metadata = entry.response.metadata;
+    
+    return {
+      ...entry.response,
+      metadata: metadata ? {
+        ...metadata,
+        processingTime: 0,
+        cache: {
+          hit: true,
+          ttl: Math.max(0, Math.round((entry.expiresAt - now) / 1000)),
+          etag: entry.etag,
+          stale: now >= entry.expiresAt,
+          revalidated,
+        },
+      } : undefined,
+    };
+  }
+  
+  // ========================================================================================
+  // OFFLINE QUEUE - DURABLE MUTATIONS
+  // ========================================================================================
+  
+  /**
+   * Get the offline mutation queue (null when offline mode is disabled)
+   */
+  getOfflineQueue(): OfflineMutationQueue | null {
+    return this.offlineQueue;
+  }
+  
+  /**
+   * Check if mutation should be queued instead of failing offline
+   */
+  private isQueueable(config: ApiRequestConfig): boolean {
+    return !!this.offlineQueue && !!config.queueWhenOffline && config.method !== 'GET';
+  }
+  
+  /**
+   * Send mutation, queueing it for replay when the device is offline
+   * The same idempotency key is used for the first attempt and every replay
+   */
+  private async queueableRequest<T>(config: ApiRequestConfig): Promise<ApiResponse<T>> {
+    const queue = this.offlineQueue!;
+    const requestConfig = { ...config, idempotencyKey: config.idempotencyKey || generateIdempotencyKey() };
+    
+    if (!(await queue.isConnected())) {
+      throw await this.queueMutation(requestConfig);
+    }
+    
+    try {
+      return await this.mutationRequest<T>(requestConfig);
+    } catch (error) {
+      const apiError = error as ApiError;
+      if (apiError?.type === 'NETWORK_ERROR' || apiError?.type === 'TIMEOUT_ERROR') {
+        throw await this.queueMutation(requestConfig);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Persist mutation and build the REQUEST_QUEUED error reported to callers
+   */
+  private async queueMutation(config: ApiRequestConfig): Promise<ApiError> {
+    const mutation = await this.offlineQueue!.enqueue(config);
+    
+    return this.applyErrorInterceptors({
+      ...this.createApiError({ message: 'Request queued for offline replay' }, config),
+      type: 'REQUEST_QUEUED',
+      code: 'API_QUEUED',
+      requestId: mutation.id,
+      userMessage: 'You are offline. Your changes will be sent when the connection returns.',
+      persianMessage: 'شما آفلاین هستید. تغییرات پس از برقراری اتصال ارسال می‌شود.',
+      retryable: false,
+      suggestedAction: undefined,
+    }, config);
+  }
+  
+  /**
+   * Send a queued mutation during replay
+   */
+  private replayMutation(mutation: QueuedMutation): Promise<ApiResponse<any>> {
+    return this.mutationRequest<any>({
+      method: mutation.method,
+      url: mutation.url,
+      data: mutation.data,
+      requiresAuth: mutation.requiresAuth,
+      idempotencyKey: mutation.idempotencyKey,
+    });
+  }
+  
+  // ========================================================================================
+  // REQUEST DE-DUPLICATION - SHARED IN-FLIGHT CALLS
+  // ========================================================================================
+  
+  /**
+   * Check if request may be merged with an identical in-flight request
+   */
+  private isDedupable(config: ApiRequestConfig): boolean {
+    if (config.dedupe !== undefined) {
+      return config.dedupe;
+    }
+    return config.method === 'GET';
+  }
+  
+  /**
+   * Build de-duplication/cache key from method, URL, params and auth scope
+   * Conditional requests never share a round-trip with unconditional ones
+   */
+  private getRequestKey(config: ApiRequestConfig): string {
+    const params = config.params
+      ? Object.keys(config.params).sort().map(key => `${key}=${String(config.params![key])}`).join('&')
+      : '';
+    const conditional = config.headers?.['If-None-Match'] ? ' conditional' : '';
+    return `${config.method} ${config.url}?${params} auth:${config.requiresAuth ? 1 : 0}${conditional}`;
+  }
+  
+  /**
+   * Join (or start) a shared in-flight request
+   * The network call is only aborted once every subscriber has cancelled
+   */
+  private dedupedRequest<T>(config: ApiRequestConfig): Promise<ApiResponse<T>> {
+    const key = this.getRequestKey(config);
+    let entry = this.inFlightRequests.get(key);
+    
+    if (!entry) {
+      const controller = new AbortController();
+      const sharedEntry: InFlightRequest = {
+        controller,
+        subscribers: 0,
+        promise: this.executeRequest<any>({ ...config, signal: controller.signal }).finally(() => {
+          if (this.inFlightRequests.get(key) === sharedEntry) {
+            this.inFlightRequests.delete(key);
+          }
+        }),
+      };
+      entry = sharedEntry;
+      this.inFlightRequests.set(key, entry);
+    }
+    
+    const sharedEntry = entry;
+    sharedEntry.subscribers++;
+    
+    return new Promise<ApiResponse<T>>((resolve, reject) => {
+      let settled = false;
+      
+      const release = () => {
+        config.signal?.removeEventListener('abort', onAbort);
+        sharedEntry.subscribers--;
+      };
+      
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        release();
+        
+        // Last subscriber gone - stop the network call
+        if (sharedEntry.subscribers <= 0) {
+          sharedEntry.controller.abort();
+          if (this.inFlightRequests.get(key) === sharedEntry) {
+            this.inFlightRequests.delete(key);
+          }
+        }
+        
+        this.applyErrorInterceptors(this.createCancelledError(config), config).then(reject);
+      };
+      
+      config.signal?.addEventListener('abort', onAbort, { once: true });
+      
+      sharedEntry.promise.then(
+        response => {
+          if (settled) return;
+          settled = true;
+          release();
+          resolve(response as ApiResponse<T>);
+        },
+        error => {
+          if (settled) return;
+          settled = true;
+          release();
+          reject(error);
+        }
+      );
+    });
+  }
+  
   /**
-   * Make HTTP request using fetch API
+   * Make HTTP request through the interceptor pipeline and active transport
    */
-  private async makeHttpRequest<T>(config: ApiRequestConfig): Promise<ApiResponse<T>> {
-    const url = `${this.baseUrl}${config.url}`;
+  private async makeHttpRequest<T>(requestConfig: ApiRequestConfig): Promise<ApiResponse<T>> {
+    // Run request interceptors
+    let config = requestConfig;
+    for (const interceptor of this.requestInterceptors) {
+      config = await interceptor(config);
+    }
     
-    // Prepare request options
-    const requestOptions: RequestInit = {
+    const endpoint = this.endpoints.getActive();
+    const url = `${endpoint.url}${config.url}`;
+    
+    // Prepare transport request
+    const transportRequest: TransportRequest = {
+      url,
+      path: config.url,
       method: config.method,
-      headers: config.headers,
-      signal: AbortSignal.timeout(config.timeout || this.defaultTimeout),
+      headers: config.headers || {},
+      timeout: config.timeout || this.defaultTimeout,
+      signal: config.signal,
     };
     
-    // Add body for non-GET requests
+    // Add body for non-GET requests - raw upload payloads are sent untouched
     if (config.data && config.method !== 'GET') {
-      requestOptions.body = JSON.stringify(config.data);
+      transportRequest.body = isRawBody(config.data) ? config.data : JSON.stringify(config.data);
     }
     
     // Add query parameters for GET requests
-    let finalUrl = url;
     if (config.params && Object.keys(config.params).length > 0) {
       const searchParams = new URLSearchParams();
       Object.entries(config.params).forEach(([key, value]) => {
@@ -261,129 +1089,196 @@ export class ApiClient {
           searchParams.append(key, String(value));
         }
       });
-      finalUrl = `${url}?${searchParams.toString()}`;
+      transportRequest.url = `${url}?${searchParams.toString()}`;
+    }
+    
+    // Make request - route failures count against the mirror, not the request
+    const startTime = Date.now();
+    let response: TransportResponse;
+    try {
+      response = await this.transport.send(transportRequest);
+    } catch (error) {
+      if (!config.signal?.aborted) {
+        this.endpoints.reportFailure(endpoint.id, error instanceof Error ? error.message : 'Network error');
+      }
+      throw error;
     }
     
-    // Make request
-    const response = await fetch(finalUrl, requestOptions);
+    if (isEndpointFailureStatus(response.status)) {
+      this.endpoints.reportFailure(endpoint.id, `HTTP ${response.status}`);
+    } else {
+      this.endpoints.reportSuccess(endpoint.id, Date.now() - startTime);
+    }
     
-    // Parse response
-    const responseData = await response.json();
+    const responseData = response.data || {};
+    const notModified = response.status === HTTP_STATUS.NOT_MODIFIED;
     
     // Check if response is successful
-    if (!response.ok) {
+    if (!response.ok && !notModified) {
       throw {
         status: response.status,
         statusText: response.statusText,
         data: responseData,
-        headers: Object.fromEntries(response.headers.entries()),
+        headers: response.headers,
       };
     }
     
-    // Return structured response
-    return {
+    // Build structured response
+    let apiResponse: ApiResponse = {
       success: true,
       message: responseData.message || 'Request successful',
       data: responseData.data || responseData,
-      requestId: responseData.requestId || this.generateRequestId(),
+      pagination: responseData.pagination,
+      requestId: responseData.requestId || response.headers['x-request-id'] || this.generateRequestId(),
       timestamp: new Date().toISOString(),
       metadata: {
-        processingTime: 0,
+        processingTime: Date.now() - startTime,
         serverTime: responseData.serverTime || new Date().toISOString(),
         apiVersion: responseData.apiVersion || '1.0.0',
         endpoint: config.url,
         method: config.method,
-        cache: responseData.cache ? {
-          hit: responseData.cache.hit || false,
-          ttl: responseData.cache.ttl || 0,
-          etag: responseData.cache.etag ?? undefined, // FIX: Convert null to undefined
-        } : undefined,
+        cache: this.getCacheMetadata(response.headers, responseData, notModified),
       },
     };
+    
+    // Validate response data - 304 bodies are empty and revalidated against the cache
+    const schema = this.getResponseSchema(config);
+    if (schema && !notModified) {
+      apiResponse.data = schema.parse(apiResponse.data);
+    }
+    
+    // Run response interceptors
+    for (const interceptor of this.responseInterceptors) {
+      apiResponse = await interceptor(apiResponse, config);
+    }
+    
+    return apiResponse as ApiResponse<T>;
   }
   
   /**
-   * Refresh access token using refresh token
+   * Resolve response schema: per-request override, then endpoint registry
    */
-  private async refreshAccessToken(): Promise<string> {
-    // Prevent multiple refresh attempts
-    if (this.isRefreshing && this.refreshPromise) {
-      return this.refreshPromise;
+  private getResponseSchema(config: ApiRequestConfig): ResponseSchema | undefined {
+    return config.responseSchema ?? API_RESPONSE_SCHEMAS[`${config.method} ${config.url}`];
+  }
+  
+  /**
+   * Derive cache metadata from ETag/Cache-Control headers or the response body
+   */
+  private getCacheMetadata(
+    headers: Record<string, string>,
+    responseData: any,
+    notModified: boolean
+  ): ApiResponseMetadata['cache'] {
+    const etag = headers['etag'] ?? responseData.cache?.etag ?? undefined; // FIX: Convert null to undefined
+    const maxAge = parseMaxAge(headers['cache-control']);
+    
+    if (!etag && maxAge === undefined && !responseData.cache && !notModified) {
+      return undefined;
     }
     
+    return {
+      hit: notModified || responseData.cache?.hit || false,
+      ttl: maxAge ?? responseData.cache?.ttl ?? 0,
+      etag,
+      revalidated: notModified || undefined,
+    };
+  }
+  
+  /**
+   * Run error interceptors over a structured error
+   */
+  private async applyErrorInterceptors(error: ApiError, config: ApiRequestConfig): Promise<ApiError> {
+    let result = error;
+    for (const interceptor of this.errorInterceptors) {
+      try {
+        result = await interceptor(result, config);
+      } catch (interceptorError) {
+        // A faulty interceptor must never mask the original error
+        console.warn('Error interceptor failed:', interceptorError);
+      }
+    }
+    return result;
+  }
+  
+  /**
+   * Refresh access token using refresh token (single flight across all clients)
+   */
+  private async refreshAccessToken(): Promise<string> {
     if (!this.refreshToken) {
       throw new Error('No refresh token available');
     }
     
-    this.isRefreshing = true;
-    this.refreshPromise = this.performTokenRefresh();
-    
-    try {
-      const newToken = await this.refreshPromise;
-      this.isRefreshing = false;
-      this.refreshPromise = null;
-      
-      // Process queued requests
-      this.processRequestQueue();
-      
-      return newToken;
-    } catch (error) {
-      this.isRefreshing = false;
-      this.refreshPromise = null;
-      throw error;
-    }
+    const { tokens } = await tokenRefreshScheduler.refresh();
+    return tokens.accessToken;
   }
   
   /**
    * Perform actual token refresh
+   * Bypasses the scheduler - every waiting request depends on it
    */
-  private async performTokenRefresh(): Promise<string> {
-    const response = await this.makeHttpRequest<RefreshTokenApiResponse>({
-      method: 'POST',
-      url: API_ENDPOINTS.AUTH.REFRESH,
-      data: {
-        refreshToken: this.refreshToken,
-        deviceId: 'mobile-device', // Should come from device info
-      },
-      requiresAuth: false,
-    });
+  private async performTokenRefresh(refreshToken: string, deviceId: string): Promise<RefreshTokenApiResponse> {
+    let response: ApiResponse<RefreshTokenApiResponse>;
+    try {
+      response = await this.makeHttpRequest<RefreshTokenApiResponse>({
+        method: 'POST',
+        url: API_ENDPOINTS.AUTH.REFRESH,
+        data: { refreshToken, deviceId },
+        requiresAuth: false,
+      });
+    } catch (error: any) {
+      // Revoked, expired or already rotated - retrying cannot help
+      if ([HTTP_STATUS.BAD_REQUEST, HTTP_STATUS.UNAUTHORIZED, HTTP_STATUS.FORBIDDEN].includes(error?.status)) {
+        throw new RefreshTokenRejectedError(error?.data?.message || 'Refresh token was rejected', error);
+      }
+      throw error;
+    }
     
     if (!response.data?.tokens?.accessToken) {
       throw new Error('Invalid refresh response');
     }
     
-    // Update tokens
-    this.accessToken = response.data.tokens.accessToken;
-    if (response.data.tokens.refreshToken) {
-      this.refreshToken = response.data.tokens.refreshToken;
-    }
-    
-    return this.accessToken;
+    return response.data;
   }
   
   /**
-   * Process queued requests after token refresh
+   * Check if error is unauthorized (401)
    */
-  private processRequestQueue(): void {
-    while (this.requestQueue.length > 0) {
-      const request = this.requestQueue.shift();
-      if (request) {
-        request();
-      }
-    }
+  private isUnauthorizedError(error: any): boolean {
+    return error?.status === HTTP_STATUS.UNAUTHORIZED;
   }
   
   /**
-   * Check if error is unauthorized (401)
+   * Check if error was caused by the caller aborting the request
    */
-  private isUnauthorizedError(error: any): boolean {
-    return error?.status === HTTP_STATUS.UNAUTHORIZED;
+  private isCancelledError(error: any, config: ApiRequestConfig): boolean {
+    return !!config.signal?.aborted && (error?.name === 'AbortError' || !error?.status);
+  }
+  
+  /**
+   * Create structured error for a cancelled request
+   */
+  private createCancelledError(config: ApiRequestConfig): ApiError {
+    return {
+      ...this.createApiError({ name: 'AbortError', message: 'Request cancelled' }, config),
+      type: 'REQUEST_CANCELLED',
+      code: 'API_CANCELLED',
+      userMessage: 'The request was cancelled.',
+      persianMessage: 'درخواست لغو شد.',
+      retryable: false,
+      suggestedAction: undefined,
+    };
   }
   
   /**
    * Check if error is retryable
    */
   private isRetryableError(error: any): boolean {
+    // Contract violations will not fix themselves on retry
+    if (error?.name === 'AbortError' || error instanceof SchemaValidationError) {
+      return false;
+    }
+    
     // Network errors, timeouts, and 5xx server errors are retryable
     return (
       !error?.status || // Network error
@@ -408,6 +1303,10 @@ export class ApiClient {
       if ('message' in error && typeof error.message === 'string') {
         errorMessage = error.message;
       }
+      // HTTP errors carry the server's message in the response body
+      if ('data' in error && typeof error.data?.message === 'string') {
+        errorMessage = error.data.message;
+      }
       if ('status' in error && typeof error.status === 'number') {
         status = error.status;
       }
@@ -451,16 +1350,22 @@ export class ApiClient {
         default:
           errorType = 'INTERNAL_ERROR';
       }
+    } else if (error instanceof SchemaValidationError) {
+      errorType = 'VALIDATION_ERROR';
+    } else if (error?.name === 'TimeoutError') {
+      errorType = 'TIMEOUT_ERROR';
     } else if (status === 0) {
       errorType = 'NETWORK_ERROR';
     }
     
     return {
       type: errorType, // FIX: Now properly typed as ApiErrorType
-      code: `API_${status || 'NETWORK'}`,
+      code: error instanceof SchemaValidationError ? 'API_SCHEMA' : `API_${status || 'NETWORK'}`,
       message: errorMessage,
       status,
       statusText,
+      // Server error bodies can carry structured data (e.g. an MFA challenge)
+      details: error?.data !== undefined ? { responseBody: error.data } : undefined,
       userMessage: this.getUserFriendlyMessage(errorType),
       persianMessage: this.getPersianMessage(errorType),
       endpoint: config.url,
@@ -470,6 +1375,7 @@ export class ApiClient {
       retryable: this.isRetryableError(error),
       retryAfter: this.getRetryAfter(error),
       suggestedAction: this.getSuggestedAction(errorType),
+      validationErrors: error instanceof SchemaValidationError ? error.toValidationErrors() : undefined,
     };
   }
   
@@ -538,13 +1444,18 @@ export class ApiClient {
   }
   
   /**
-   * Get retry delay from error response
+   * Get retry delay (seconds) from Retry-After header - delta-seconds or HTTP date
    */
   private getRetryAfter(error: any): number | undefined {
     const retryAfter = error?.headers?.['retry-after'];
     if (retryAfter) {
-      const seconds = parseInt(retryAfter, 10);
-      return isNaN(seconds) ? undefined : seconds;
+      const seconds = Number(retryAfter);
+      if (!isNaN(seconds)) {
+        return Math.max(0, Math.ceil(seconds));
+      }
+      
+      const date = Date.parse(retryAfter);
+      return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
     }
     return undefined;
   }
@@ -557,10 +1468,27 @@ export class ApiClient {
   }
   
   /**
-   * Delay utility for retry logic
+   * Delay utility for retry logic, rejects early if the signal aborts
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(signal?.reason);
+      };
+      
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
   
   // ========================================================================================
@@ -570,8 +1498,9 @@ export class ApiClient {
   /**
    * GET request
    */
-  async get<T>(url: string, params?: Record<string, any>, requiresAuth = true): Promise<ApiResponse<T>> {
+  async get<T>(url: string, params?: Record<string, any>, requiresAuth = true, options: ApiRequestOptions = {}): Promise<ApiResponse<T>> {
     return this.request<T>({
+      ...options,
       method: 'GET',
       url,
       params,
@@ -582,8 +1511,9 @@ export class ApiClient {
   /**
    * POST request
    */
-  async post<T>(url: string, data?: any, requiresAuth = true): Promise<ApiResponse<T>> {
+  async post<T>(url: string, data?: any, requiresAuth = true, options: ApiRequestOptions = {}): Promise<ApiResponse<T>> {
     return this.request<T>({
+      ...options,
       method: 'POST',
       url,
       data,
@@ -594,8 +1524,9 @@ export class ApiClient {
   /**
    * PUT request
    */
-  async put<T>(url: string, data?: any, requiresAuth = true): Promise<ApiResponse<T>> {
+  async put<T>(url: string, data?: any, requiresAuth = true, options: ApiRequestOptions = {}): Promise<ApiResponse<T>> {
     return this.request<T>({
+      ...options,
       method: 'PUT',
       url,
       data,
@@ -606,8 +1537,9 @@ export class ApiClient {
   /**
    * PATCH request
    */
-  async patch<T>(url: string, data?: any, requiresAuth = true): Promise<ApiResponse<T>> {
+  async patch<T>(url: string, data?: any, requiresAuth = true, options: ApiRequestOptions = {}): Promise<ApiResponse<T>> {
     return this.request<T>({
+      ...options,
       method: 'PATCH',
       url,
       data,
@@ -618,8 +1550,9 @@ export class ApiClient {
   /**
    * DELETE request
    */
-  async delete<T>(url: string, requiresAuth = true): Promise<ApiResponse<T>> {
+  async delete<T>(url: string, requiresAuth = true, options: ApiRequestOptions = {}): Promise<ApiResponse<T>> {
     return this.request<T>({
+      ...options,
       method: 'DELETE',
       url,
       requiresAuth,
@@ -627,6 +1560,61 @@ export class ApiClient {
   }
 }
 
+/**
+ * Check if request data is multipart form data
+ */
+const isFormData = (data: unknown): data is FormData => {
+  return typeof FormData !== 'undefined' && data instanceof FormData;
+};
+
+/**
+ * Check if request data must be sent as-is instead of JSON encoded
+ */
+const isRawBody = (data: unknown): data is FormData | ArrayBuffer | Blob => {
+  return (
+    isFormData(data) ||
+    data instanceof ArrayBuffer ||
+    (typeof Blob !== 'undefined' && data instanceof Blob)
+  );
+};
+
+/**
+ * Longest Retry-After (seconds) the client waits before giving up
+ */
+const MAX_RETRY_AFTER_SECONDS = 60;
+
+/**
+ * Shared in-flight request tracked for de-duplication
+ */
+interface InFlightRequest {
+  promise: Promise<ApiResponse<any>>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * Check if an error was thrown by the ApiClient - AuthErrors and plain Errors carry no status
+ */
+export const isApiError = (error: unknown): error is ApiError => {
+  return typeof (error as ApiError)?.type === 'string' && typeof (error as ApiError)?.status === 'number';
+};
+
+/**
+ * Check if an error is the result of a cancelled request
+ * Screens should ignore these instead of showing an error state
+ */
+export const isRequestCancelled = (error: unknown): boolean => {
+  return (error as ApiError)?.type === 'REQUEST_CANCELLED';
+};
+
+/**
+ * Check if a mutation was queued for replay instead of being sent
+ * The change should be kept locally and shown as pending sync
+ */
+export const isRequestQueued = (error: unknown): boolean => {
+  return (error as ApiError)?.type === 'REQUEST_QUEUED';
+};
+
 // ========================================================================================
 // SINGLETON API CLIENT INSTANCE
 // ========================================================================================
@@ -634,13 +1622,20 @@ export class ApiClient {
 // Create global API client instance
 let apiClientInstance: ApiClient | null = null;
 
+/**
+ * Environment used when getApiClient() is called without one
+ * 'mock' via app config `extra.environment` or DEBUG_CONFIG.network.mockMode
+ */
+const getDefaultEnvironment = (): ApiEnvironment =>
+  ENVIRONMENT === 'mock' || DEBUG_CONFIG.network.mockMode ? 'mock' : 'production';
+
 /**
  * Get singleton API client instance
  */
-export const getApiClient = (environment?: 'development' | 'staging' | 'production'): ApiClient => {
+export const getApiClient = (environment?: ApiEnvironment): ApiClient => {
   if (!apiClientInstance) {
     apiClientInstance = new ApiClient({
-      environment: environment || 'production',
+      environment: environment || getDefaultEnvironment(),
       enableLogging: __DEV__,
     });
   }
@@ -682,9 +1677,9 @@ export const authApi = {
   /**
    * Get current user profile
    */
-  getMe: async (): Promise<ApiResponse<UserProfileApiResponse>> => {
+  getMe: async (options?: ApiRequestOptions): Promise<ApiResponse<UserProfileApiResponse>> => {
     const client = getApiClient();
-    return client.get<UserProfileApiResponse>(API_ENDPOINTS.AUTH.ME);
+    return client.get<UserProfileApiResponse>(API_ENDPOINTS.AUTH.ME, undefined, true, options);
   },
   
   /**
@@ -703,6 +1698,17 @@ export const authApi = {
     return client.post<void>(API_ENDPOINTS.AUTH.VERIFY_EMAIL, data, false);
   },
   
+  /**
+   * Verify email from a deep link token - signs the user in on success
+   */
+  verifyEmailLink: async (token: string, options?: ApiRequestOptions): Promise<ApiResponse<VerifyEmailLinkApiResponse>> => {
+    const client = getApiClient();
+    return client.get<VerifyEmailLinkApiResponse>(API_ENDPOINTS.AUTH.VERIFY_EMAIL, { token }, false, {
+      cache: false,
+      ...options,
+    });
+  },
+  
   /**
    * Request password reset
    */
@@ -718,6 +1724,164 @@ export const authApi = {
     const client = getApiClient();
     return client.post<void>(API_ENDPOINTS.AUTH.PASSWORD_RESET_CONFIRM, data, false);
   },
+  
+  /**
+   * Resend the signup verification email
+   */
+  resendVerification: async (data: ResendVerificationApiRequest): Promise<ApiResponse<void>> => {
+    const client = getApiClient();
+    return client.post<void>(API_ENDPOINTS.AUTH.RESEND_VERIFICATION, data, false);
+  },
+  
+  /**
+   * Answer a login MFA challenge - completes the login
+   */
+  verifyMfa: async (data: MfaVerifyApiRequest): Promise<ApiResponse<MfaVerifyApiResponse>> => {
+    const client = getApiClient();
+    return client.post<MfaVerifyApiResponse>(API_ENDPOINTS.AUTH.MFA_VERIFY, data, false, { retries: 0 });
+  },
+  
+  /**
+   * Text a one-time code for a login MFA challenge
+   */
+  sendMfaSms: async (data: MfaSmsApiRequest): Promise<ApiResponse<MfaSmsApiResponse>> => {
+    const client = getApiClient();
+    return client.post<MfaSmsApiResponse>(API_ENDPOINTS.AUTH.MFA_SMS, data, false, { retries: 0 });
+  },
+  
+  /**
+   * Start TOTP enrollment - 2FA stays off until confirmTotp succeeds
+   */
+  setupTotp: async (): Promise<ApiResponse<TotpSetupApiResponse>> => {
+    const client = getApiClient();
+    return client.post<TotpSetupApiResponse>(API_ENDPOINTS.AUTH.MFA_TOTP_SETUP);
+  },
+  
+  /**
+   * Confirm TOTP enrollment with a first code - returns the recovery codes
+   */
+  confirmTotp: async (data: MfaCodeApiRequest): Promise<ApiResponse<RecoveryCodesApiResponse>> => {
+    const client = getApiClient();
+    return client.post<RecoveryCodesApiResponse>(API_ENDPOINTS.AUTH.MFA_TOTP_CONFIRM, data, true, { retries: 0 });
+  },
+  
+  /**
+   * Turn 2FA off (requires a current code)
+   */
+  disableMfa: async (data: MfaCodeApiRequest): Promise<ApiResponse<void>> => {
+    const client = getApiClient();
+    return client.post<void>(API_ENDPOINTS.AUTH.MFA_DISABLE, data, true, { retries: 0 });
+  },
+  
+  /**
+   * Replace all recovery codes (requires a current code)
+   */
+  regenerateRecoveryCodes: async (data: MfaCodeApiRequest): Promise<ApiResponse<RecoveryCodesApiResponse>> => {
+    const client = getApiClient();
+    return client.post<RecoveryCodesApiResponse>(API_ENDPOINTS.AUTH.MFA_RECOVERY_CODES, data, true, { retries: 0 });
+  },
+  
+  /**
+   * Re-verify the signed-in user before a sensitive action (password, biometric or one-time code)
+   */
+  stepUp: async (data: StepUpApiRequest): Promise<ApiResponse<StepUpApiResponse>> => {
+    const client = getApiClient();
+    return client.post<StepUpApiResponse>(API_ENDPOINTS.AUTH.STEP_UP, data, true, { retries: 0 });
+  },
+
+  /**
+   * Send a one-time step-up code - for accounts that have no password to re-enter
+   */
+  requestStepUpCode: async (): Promise<ApiResponse<StepUpCodeApiResponse>> => {
+    const client = getApiClient();
+    return client.post<StepUpCodeApiResponse>(API_ENDPOINTS.AUTH.STEP_UP_CODE, {}, true, { retries: 0 });
+  },
+  
+  /**
+   * Redeem an OAuth authorization code with its PKCE verifier - codes are single use
+   */
+  oauthExchange: async (data: OAuthExchangeApiRequest): Promise<ApiResponse<LoginApiResponse>> => {
+    const client = getApiClient();
+    return client.post<LoginApiResponse>(API_ENDPOINTS.AUTH.OAUTH_EXCHANGE, data, false, { retries: 0 });
+  },
+  
+  /**
+   * Link the provider to an existing account with its password - completes the login
+   */
+  oauthLink: async (data: OAuthLinkApiRequest): Promise<ApiResponse<LoginApiResponse>> => {
+    const client = getApiClient();
+    return client.post<LoginApiResponse>(API_ENDPOINTS.AUTH.OAUTH_LINK, data, false, { retries: 0 });
+  },
+  
+  /**
+   * Email a single-use sign-in link bound to this device
+   */
+  requestMagicLink: async (data: MagicLinkRequestApiRequest): Promise<ApiResponse<MagicLinkRequestApiResponse>> => {
+    const client = getApiClient();
+    return client.post<MagicLinkRequestApiResponse>(API_ENDPOINTS.AUTH.MAGIC_LINK_REQUEST, data, false, { retries: 0 });
+  },
+  
+  /**
+   * Redeem a sign-in link token - completes the login like a password
+   */
+  verifyMagicLink: async (data: MagicLinkVerifyApiRequest): Promise<ApiResponse<LoginApiResponse>> => {
+    const client = getApiClient();
+    return client.post<LoginApiResponse>(API_ENDPOINTS.AUTH.MAGIC_LINK_VERIFY, data, false, { retries: 0 });
+  },
+  
+  /**
+   * Text a one-time code to a mobile number for sign-in or sign-up
+   */
+  requestPhoneOtp: async (data: PhoneOtpApiRequest): Promise<ApiResponse<PhoneOtpApiResponse>> => {
+    const client = getApiClient();
+    return client.post<PhoneOtpApiResponse>(API_ENDPOINTS.AUTH.PHONE_OTP, data, false, { retries: 0 });
+  },
+  
+  /**
+   * Send the pending code again once the resend window has passed
+   */
+  resendPhoneOtp: async (data: PhoneOtpResendApiRequest): Promise<ApiResponse<PhoneOtpApiResponse>> => {
+    const client = getApiClient();
+    return client.post<PhoneOtpApiResponse>(API_ENDPOINTS.AUTH.PHONE_OTP_RESEND, data, false, { retries: 0 });
+  },
+  
+  /**
+   * Verify the SMS code - completes the login like a password
+   */
+  verifyPhoneOtp: async (data: PhoneVerifyApiRequest): Promise<ApiResponse<LoginApiResponse>> => {
+    const client = getApiClient();
+    return client.post<LoginApiResponse>(API_ENDPOINTS.AUTH.PHONE_VERIFY, data, false, { retries: 0 });
+  },
+};
+
+/**
+ * Active sessions API service methods
+ * Revoking and trusting need a recent step-up (403 STEP_UP_REQUIRED otherwise)
+ */
+export const sessionsApi = {
+  /**
+   * List the signed-in devices, current session included
+   */
+  getSessions: async (options?: ApiRequestOptions): Promise<ApiResponse<SessionsApiResponse>> => {
+    const client = getApiClient();
+    return client.get<SessionsApiResponse>(API_ENDPOINTS.AUTH.SESSIONS, undefined, true, options);
+  },
+  
+  /**
+   * Sign another device out
+   */
+  revokeSession: async (data: RevokeSessionApiRequest): Promise<ApiResponse<void>> => {
+    const client = getApiClient();
+    return client.post<void>(API_ENDPOINTS.AUTH.SESSIONS_REVOKE, data, true, { retries: 0 });
+  },
+  
+  /**
+   * Mark a device as trusted (skips 2FA on sign-in) or remove the mark
+   */
+  trustSession: async (data: TrustSessionApiRequest): Promise<ApiResponse<TrustSessionApiResponse>> => {
+    const client = getApiClient();
+    return client.post<TrustSessionApiResponse>(API_ENDPOINTS.AUTH.SESSIONS_TRUST, data, true, { retries: 0 });
+  },
 };
 
 /**
@@ -727,25 +1891,28 @@ export const avatarApi = {
   /**
    * Get user avatar
    */
-  getAvatar: async (): Promise<ApiResponse<GetAvatarApiResponse>> => {
+  getAvatar: async (options?: ApiRequestOptions): Promise<ApiResponse<GetAvatarApiResponse>> => {
     const client = getApiClient();
-    return client.get<GetAvatarApiResponse>(API_ENDPOINTS.USER.AVATAR);
+    return client.get<GetAvatarApiResponse>(API_ENDPOINTS.USER.AVATAR, undefined, true, options);
   },
   
   /**
    * Update user avatar
    */
-  updateAvatar: async (data: UpdateAvatarApiRequest): Promise<ApiResponse<UpdateAvatarApiResponse>> => {
+  updateAvatar: async (data: UpdateAvatarApiRequest, options?: ApiRequestOptions): Promise<ApiResponse<UpdateAvatarApiResponse>> => {
     const client = getApiClient();
-    return client.post<UpdateAvatarApiResponse>(API_ENDPOINTS.USER.AVATAR_UPDATE, data);
+    return client.post<UpdateAvatarApiResponse>(API_ENDPOINTS.USER.AVATAR_UPDATE, data, true, {
+      queueWhenOffline: true,
+      ...options,
+    });
   },
   
   /**
    * Get avatar processing status
    */
-  getAvatarStatus: async (processingId: string): Promise<ApiResponse<AvatarStatusApiResponse>> => {
+  getAvatarStatus: async (processingId: string, options?: ApiRequestOptions): Promise<ApiResponse<AvatarStatusApiResponse>> => {
     const client = getApiClient();
-    return client.get<AvatarStatusApiResponse>(API_ENDPOINTS.USER.AVATAR_STATUS, { processingId });
+    return client.get<AvatarStatusApiResponse>(API_ENDPOINTS.USER.AVATAR_STATUS, { processingId }, true, options);
   },
   
   /**
@@ -757,5 +1924,235 @@ export const avatarApi = {
   },
 };
 
+/**
+ * User API service methods
+ */
+export const userApi = {
+  /**
+   * Update user profile (queued while offline)
+   */
+  updateProfile: async (data: UpdateProfileApiRequest, options?: ApiRequestOptions): Promise<ApiResponse<UpdateProfileApiResponse>> => {
+    const client = getApiClient();
+    return client.patch<UpdateProfileApiResponse>(API_ENDPOINTS.USER.PROFILE, data, true, {
+      queueWhenOffline: true,
+      ...options,
+    });
+  },
+  
+  /**
+   * Get user settings
+   */
+  getSettings: async (options?: ApiRequestOptions): Promise<ApiResponse<UserSettingsApiResponse>> => {
+    const client = getApiClient();
+    return client.get<UserSettingsApiResponse>(API_ENDPOINTS.USER.SETTINGS, undefined, true, options);
+  },
+  
+  /**
+   * Update user settings (queued while offline)
+   */
+  updateSettings: async (data: UpdateSettingsApiRequest, options?: ApiRequestOptions): Promise<ApiResponse<UserSettingsApiResponse>> => {
+    const client = getApiClient();
+    return client.patch<UserSettingsApiResponse>(API_ENDPOINTS.USER.SETTINGS, data, true, {
+      queueWhenOffline: true,
+      ...options,
+    });
+  },
+  
+  /**
+   * Get usage and engagement metrics
+   */
+  getMetrics: async (options?: ApiRequestOptions): Promise<ApiResponse<UserMetricsApiResponse>> => {
+    const client = getApiClient();
+    return client.get<UserMetricsApiResponse>(API_ENDPOINTS.USER.METRICS, undefined, true, options);
+  },
+  
+  /**
+   * Mark onboarding as complete (queued while offline)
+   */
+  completeOnboarding: async (data: CompleteOnboardingApiRequest, options?: ApiRequestOptions): Promise<ApiResponse<void>> => {
+    const client = getApiClient();
+    return client.post<void>(API_ENDPOINTS.USER.ONBOARDING_COMPLETE, data, true, {
+      queueWhenOffline: true,
+      ...options,
+    });
+  },
+};
+
+/**
+ * Flatten a search request into query parameters
+ */
+const toSearchParams = (request: SearchApiRequest): Record<string, any> => {
+  const { page, pageSize } = toPaginationParams(request.pagination);
+  return {
+    query: request.query.trim(),
+    type: request.type,
+    category: request.filters?.category,
+    tags: request.filters?.tags?.join(','),
+    from: request.filters?.dateRange?.from,
+    to: request.filters?.dateRange?.to,
+    page,
+    pageSize,
+  };
+};
+
+/**
+ * Run a search and attach pagination derived from totalResults when the server omits it
+ */
+const runSearch = async (
+  url: string,
+  request: SearchApiRequest,
+  options?: ApiRequestOptions
+): Promise<ApiResponse<SearchApiResponse>> => {
+  const client = getApiClient();
+  const response = await client.get<SearchApiResponse>(url, toSearchParams(request), true, options);
+  
+  return {
+    ...response,
+    pagination: getPagination(response, toPaginationParams(request.pagination), response.data?.totalResults ?? 0),
+  };
+};
+
+/**
+ * Search & discovery API service methods
+ */
+export const searchApi = {
+  /**
+   * Search users, avatars and content
+   */
+  search: (request: SearchApiRequest, options?: ApiRequestOptions): Promise<ApiResponse<SearchApiResponse>> => {
+    return runSearch(API_ENDPOINTS.SEARCH.GLOBAL, request, options);
+  },
+  
+  /**
+   * Search users only
+   */
+  searchUsers: (request: Omit<SearchApiRequest, 'type'>, options?: ApiRequestOptions): Promise<ApiResponse<SearchApiResponse>> => {
+    return runSearch(API_ENDPOINTS.SEARCH.USERS, request, options);
+  },
+  
+  /**
+   * Search avatars only
+   */
+  searchAvatars: (request: Omit<SearchApiRequest, 'type'>, options?: ApiRequestOptions): Promise<ApiResponse<SearchApiResponse>> => {
+    return runSearch(API_ENDPOINTS.SEARCH.AVATARS, request, options);
+  },
+};
+
+// Batches events for analyticsApi.track (created on first use)
+let analyticsBatcher: AnalyticsBatcher | null = null;
+
+const getAnalyticsBatcher = (): AnalyticsBatcher => {
+  if (!analyticsBatcher) {
+    analyticsBatcher = new AnalyticsBatcher(events => analyticsApi.sendEvents(events));
+  }
+  return analyticsBatcher;
+};
+
+/**
+ * Analytics API service methods
+ */
+export const analyticsApi = {
+  /**
+   * Buffer an event - flushed per ANALYTICS_CONFIG.batching
+   * No-op when FEATURE_FLAGS.analyticsTracking is off
+   */
+  track: (event: AnalyticsEvent): void => {
+    if (!FEATURE_FLAGS.analyticsTracking) return;
+    getAnalyticsBatcher().track(event);
+  },
+  
+  /**
+   * Send buffered events now (e.g. when the app goes to background)
+   */
+  flush: async (): Promise<void> => {
+    await analyticsBatcher?.flush();
+  },
+  
+  /**
+   * Drop buffered events
+   */
+  clear: (): void => {
+    analyticsBatcher?.clear();
+  },
+  
+  /**
+   * Send a batch of events immediately (queued while offline)
+   */
+  sendEvents: async (events: AnalyticsEvent[], options?: ApiRequestOptions): Promise<ApiResponse<void>> => {
+    const client = getApiClient();
+    return client.post<void>(API_ENDPOINTS.ANALYTICS.EVENTS, { events }, true, {
+      priority: 'low',
+      queueWhenOffline: true,
+      ...options,
+    });
+  },
+  
+  /**
+   * Report client-side performance measurements
+   */
+  reportMetrics: async (metrics: AnalyticsMetric[], options?: ApiRequestOptions): Promise<ApiResponse<void>> => {
+    const client = getApiClient();
+    return client.post<void>(API_ENDPOINTS.ANALYTICS.METRICS, { metrics }, true, {
+      priority: 'low',
+      ...options,
+    });
+  },
+};
+
+/**
+ * System API service methods
+ */
+export const systemApi = {
+  /**
+   * Get backend health (always hits the network)
+   */
+  getHealth: async (options?: ApiRequestOptions): Promise<ApiResponse<HealthCheckApiResponse>> => {
+    const client = getApiClient();
+    return client.get<HealthCheckApiResponse>(API_ENDPOINTS.SYSTEM.HEALTH, undefined, false, options);
+  },
+  
+  /**
+   * Get backend version, feature flags and deprecations
+   */
+  getVersion: async (options?: ApiRequestOptions): Promise<ApiResponse<VersionApiResponse>> => {
+    const client = getApiClient();
+    return client.get<VersionApiResponse>(API_ENDPOINTS.SYSTEM.VERSION, undefined, false, options);
+  },
+};
+
+/**
+ * Upload API service methods
+ * Returns a task with pause/resume/cancel; await `task.promise` for the result
+ */
+export const uploadApi = {
+  /**
+   * Upload a generic file
+   */
+  uploadFile: (data: FileUploadApiRequest, options?: UploadOptions): UploadTask => {
+    return startUpload(getApiClient(), {
+      upload: API_ENDPOINTS.UPLOAD.FILE,
+      sessions: API_ENDPOINTS.UPLOAD.FILE_SESSIONS,
+    }, data, options);
+  },
+  
+  /**
+   * Upload a GLB/USDZ/FBX avatar asset (limited by AVATAR_CONFIG.maxFileSize)
+   */
+  uploadAvatarAsset: (file: FileUploadApiRequest['file'], options?: UploadOptions, metadata?: Record<string, any>): UploadTask => {
+    const validationError = validateAvatarAsset(file);
+    if (validationError) {
+      throw validationError;
+    }
+    
+    return startUpload(getApiClient(), {
+      upload: API_ENDPOINTS.UPLOAD.AVATAR_ASSET,
+      sessions: API_ENDPOINTS.UPLOAD.AVATAR_ASSET_SESSIONS,
+    }, { file, category: 'avatar', metadata }, {
+      maxFileSize: AVATAR_CONFIG.maxFileSize,
+      ...options,
+    });
+  },
+};
+
 // Default export
 export default getApiClient;
\ No newline at end of file
@@ -0,0 +1,406 @@
+// src/core/constants/apiSchemas.ts
+// IRANVERSE API Response Schemas
+// Runtime contracts for every *ApiResponse type, enforced by ApiClient
+// Built for 90M users - Backend drift surfaces as VALIDATION_ERROR, not a crash
+import { s, Schema } from '../utils/schema';
+import {
+  LoginApiResponse,
+  RegisterApiResponse,
+  RefreshTokenApiResponse,
+  UserProfileApiResponse,
+  VerifyEmailLinkApiResponse,
+  MfaVerifyApiResponse,
+  MfaSmsApiResponse,
+  MagicLinkRequestApiResponse,
+  PhoneOtpApiResponse,
+  TotpSetupApiResponse,
+  RecoveryCodesApiResponse,
+  StepUpApiResponse,
+  StepUpCodeApiResponse,
+  SessionApiInfo,
+  SessionsApiResponse,
+  TrustSessionApiResponse,
+  GetAvatarApiResponse,
+  UpdateAvatarApiResponse,
+  AvatarStatusApiResponse,
+  UpdateProfileApiResponse,
+  UserSettingsApiResponse,
+  FileUploadApiResponse,
+  UploadSessionApiResponse,
+  SearchApiResponse,
+  UserMetricsApiResponse,
+  HealthCheckApiResponse,
+  ServiceHealth,
+  VersionApiResponse,
+} from '../types/api';
+import { AuthenticatedUser, AuthTokens, MfaChallenge, OAuthLinkChallenge } from '../../features/auth/types';
+import { avatarStateSchema } from '../../features/avatar/utils';
+
+// ========================================================================================
+// SHARED SCHEMAS - AUTHENTICATION
+// ========================================================================================
+
+export const authenticatedUserSchema: Schema<AuthenticatedUser> = s.object({
+  id: s.string(),
+  email: s.string(),
+  username: s.string(),
+  phoneNumber: s.string().optional(),
+  firstName: s.string().optional(),
+  lastName: s.string().optional(),
+  displayName: s.string(),
+  isEmailVerified: s.boolean(),
+  isPhoneVerified: s.boolean().optional(),
+  is2FAEnabled: s.boolean().optional(),
+  hasPassword: s.boolean().optional(),
+  preferredLanguage: s.enum(['en', 'fa', 'auto']),
+  timezone: s.string().optional(),
+  createdAt: s.isoDate(),
+  updatedAt: s.isoDate(),
+  lastLoginAt: s.isoDate().optional(),
+  role: s.enum(['user', 'premium', 'admin', 'moderator']),
+  permissions: s.array(s.string()).optional(),
+  hasAvatar: s.boolean(),
+  avatarVersion: s.number().optional(),
+});
+
+export const authTokensSchema: Schema<AuthTokens> = s.object({
+  accessToken: s.string(),
+  refreshToken: s.string(),
+  tokenType: s.enum(['Bearer']),
+  expiresIn: s.number(),
+  expiresAt: s.date(),
+  scope: s.array(s.string()).optional(),
+  jti: s.string().optional(),
+  iat: s.number().optional(),
+  deviceFingerprint: s.string().optional(),
+  ipAddress: s.string().optional(),
+});
+
+// ========================================================================================
+// AUTHENTICATION RESPONSES
+// ========================================================================================
+
+// Shared by login and MFA verification (which completes a login)
+const loginResponseShape = {
+  user: authenticatedUserSchema,
+  tokens: authTokensSchema,
+  session: s.object({
+    sessionId: s.string(),
+    deviceId: s.string(),
+    expiresAt: s.isoDate(),
+    isTrustedDevice: s.boolean().optional(),
+    requiresStepUp: s.boolean().optional(),
+  }),
+  isNewUser: s.boolean(),
+  nextAction: s.enum(['avatar_creation', 'onboarding', 'home']),
+};
+
+export const loginResponseSchema: Schema<LoginApiResponse> = s.object(loginResponseShape);
+
+/**
+ * Challenge carried as `data` of a 409 ACCOUNT_LINK_REQUIRED OAuth exchange response
+ */
+export const oauthLinkChallengeSchema: Schema<OAuthLinkChallenge> = s.object({
+  linkToken: s.string(),
+  provider: s.enum(['google', 'apple']),
+  email: s.string(),
+  expiresAt: s.isoDate(),
+});
+
+export const registerResponseSchema: Schema<RegisterApiResponse> = s.object({
+  user: authenticatedUserSchema,
+  tokens: authTokensSchema,
+  session: s.object({
+    sessionId: s.string(),
+    deviceId: s.string(),
+    tempUserId: s.string(),
+  }),
+  requiresEmailVerification: s.boolean(),
+  nextAction: s.enum(['email_verification', 'avatar_creation']),
+});
+
+export const refreshTokenResponseSchema: Schema<RefreshTokenApiResponse> = s.object({
+  tokens: authTokensSchema,
+  user: s.opaque<Partial<AuthenticatedUser>>().optional(),
+  session: s.object({
+    sessionId: s.string(),
+    expiresAt: s.isoDate(),
+  }),
+});
+
+export const userProfileResponseSchema: Schema<UserProfileApiResponse> = s.object({
+  user: authenticatedUserSchema,
+  session: s.object({
+    sessionId: s.string(),
+    lastActivity: s.isoDate(),
+    deviceInfo: s.object({
+      platform: s.string(),
+      osVersion: s.string(),
+      appVersion: s.string(),
+    }),
+  }),
+});
+
+export const verifyEmailLinkResponseSchema: Schema<VerifyEmailLinkApiResponse> = s.object({
+  userId: s.string(),
+  email: s.string(),
+  userName: s.string().optional(),
+  accessToken: s.string(),
+  refreshToken: s.string(),
+});
+
+// ========================================================================================
+// TWO-FACTOR AUTHENTICATION RESPONSES
+// ========================================================================================
+
+const mfaMethodSchema = s.enum(['totp', 'sms', 'recovery_code']);
+
+/**
+ * Challenge carried as `data` of a 401 MFA_REQUIRED login response
+ */
+export const mfaChallengeSchema: Schema<MfaChallenge> = s.object({
+  challengeId: s.string(),
+  methods: s.array(mfaMethodSchema),
+  preferredMethod: mfaMethodSchema,
+  phoneHint: s.string().optional(),
+  expiresAt: s.isoDate(),
+});
+
+export const mfaVerifyResponseSchema: Schema<MfaVerifyApiResponse> = s.object({
+  ...loginResponseShape,
+  trustedDevice: s.object({
+    token: s.string(),
+    expiresAt: s.isoDate(),
+  }).optional(),
+});
+
+export const mfaSmsResponseSchema: Schema<MfaSmsApiResponse> = s.object({
+  phoneHint: s.string(),
+  expiresAt: s.isoDate(),
+  resendAfter: s.number(),
+});
+
+export const magicLinkResponseSchema: Schema<MagicLinkRequestApiResponse> = s.object({
+  expiresAt: s.isoDate(),
+  resendAfter: s.number(),
+});
+
+export const phoneOtpResponseSchema: Schema<PhoneOtpApiResponse> = s.object({
+  otpId: s.string(),
+  phoneHint: s.string(),
+  codeLength: s.number(),
+  expiresAt: s.isoDate(),
+  resendAfter: s.number(),
+});
+
+export const totpSetupResponseSchema: Schema<TotpSetupApiResponse> = s.object({
+  secret: s.string(),
+  otpauthUrl: s.string(),
+  qrCodeDataUrl: s.string(),
+});
+
+export const recoveryCodesResponseSchema: Schema<RecoveryCodesApiResponse> = s.object({
+  recoveryCodes: s.array(s.string()),
+});
+
+export const stepUpResponseSchema: Schema<StepUpApiResponse> = s.object({
+  verifiedAt: s.isoDate(),
+  expiresAt: s.isoDate(),
+});
+
+export const stepUpCodeResponseSchema: Schema<StepUpCodeApiResponse> = s.object({
+  channel: s.enum(['sms', 'email']),
+  destinationHint: s.string(),
+  expiresAt: s.isoDate(),
+  resendAfter: s.number(),
+});
+
+// ========================================================================================
+// ACTIVE SESSION RESPONSES
+// ========================================================================================
+
+const sessionInfoSchema: Schema<SessionApiInfo> = s.object({
+  sessionId: s.string(),
+  deviceId: s.string(),
+  deviceInfo: s.object({
+    platform: s.string(),
+    osVersion: s.string().optional(),
+    appVersion: s.string().optional(),
+    deviceModel: s.string().optional(),
+  }),
+  location: s.object({
+    country: s.string().optional(),
+    region: s.string().optional(),
+    city: s.string().optional(),
+  }).optional(),
+  createdAt: s.isoDate(),
+  lastActivityAt: s.isoDate(),
+  isCurrent: s.boolean(),
+  isTrusted: s.boolean(),
+});
+
+export const sessionsResponseSchema: Schema<SessionsApiResponse> = s.object({
+  sessions: s.array(sessionInfoSchema),
+});
+
+export const trustSessionResponseSchema: Schema<TrustSessionApiResponse> = s.object({
+  session: sessionInfoSchema,
+});
+
+// ========================================================================================
+// AVATAR RESPONSES
+// ========================================================================================
+
+export const getAvatarResponseSchema: Schema<GetAvatarApiResponse> = s.object({
+  avatar: avatarStateSchema.nullable(),
+  hasAvatar: s.boolean(),
+  lastUpdated: s.isoDate().optional(),
+});
+
+export const updateAvatarResponseSchema: Schema<UpdateAvatarApiResponse> = s.object({
+  avatar: avatarStateSchema,
+  processingId: s.string(),
+  estimatedProcessingTime: s.number(),
+});
+
+export const avatarStatusResponseSchema: Schema<AvatarStatusApiResponse> = s.object({
+  status: s.enum(['queued', 'processing', 'complete', 'error']),
+  progress: s.number(),
+  currentStep: s.string().optional(),
+  estimatedTimeRemaining: s.number().optional(),
+  processingId: s.string(),
+  avatar: avatarStateSchema.optional(),
+  error: s.object({
+    code: s.string(),
+    message: s.string(),
+    details: s.any().optional(),
+  }).optional(),
+});
+
+// ========================================================================================
+// USER RESPONSES
+// ========================================================================================
+
+export const updateProfileResponseSchema: Schema<UpdateProfileApiResponse> = s.object({
+  user: authenticatedUserSchema,
+  updatedFields: s.array(s.string()),
+});
+
+export const userSettingsResponseSchema: Schema<UserSettingsApiResponse> = s.object({
+  settings: s.object({
+    profileVisibility: s.enum(['public', 'friends', 'private']),
+    allowDirectMessages: s.boolean(),
+    showOnlineStatus: s.boolean(),
+    emailNotifications: s.boolean(),
+    pushNotifications: s.boolean(),
+    avatarProcessingNotifications: s.boolean(),
+    language: s.enum(['en', 'fa', 'auto']),
+    theme: s.enum(['light', 'dark', 'auto']),
+    culturalContext: s.enum(['iranian', 'international', 'mixed']),
+    avatarQuality: s.enum(['low', 'medium', 'high', 'auto']),
+    autoOptimization: s.boolean(),
+    lowDataMode: s.boolean(),
+  }),
+});
+
+export const userMetricsResponseSchema: Schema<UserMetricsApiResponse> = s.object({
+  metrics: s.object({
+    totalSessions: s.number(),
+    averageSessionDuration: s.number(),
+    lastActivity: s.isoDate(),
+    avatarCreationCount: s.number(),
+    avatarUpdates: s.number(),
+    lastAvatarUpdate: s.isoDate(),
+    screenViews: s.record(s.number()),
+    featureUsage: s.record(s.number()),
+    averageLoadTime: s.number(),
+    errorRate: s.number(),
+  }),
+});
+
+// ========================================================================================
+// UPLOAD RESPONSES
+// ========================================================================================
+
+export const fileUploadResponseSchema: Schema<FileUploadApiResponse> = s.object({
+  fileId: s.string(),
+  url: s.string(),
+  cdnUrl: s.string(),
+  metadata: s.object({
+    filename: s.string(),
+    size: s.number(),
+    mimeType: s.string(),
+    uploadedAt: s.isoDate(),
+    checksum: s.string().optional(),
+  }),
+});
+
+export const uploadSessionResponseSchema: Schema<UploadSessionApiResponse> = s.object({
+  uploadId: s.string(),
+  chunkSize: s.number(),
+  receivedChunks: s.array(s.number()),
+  expiresAt: s.isoDate(),
+});
+
+// ========================================================================================
+// SEARCH & SYSTEM RESPONSES
+// ========================================================================================
+
+export const searchResponseSchema: Schema<SearchApiResponse> = s.object({
+  results: s.array(s.object({
+    id: s.string(),
+    type: s.enum(['user', 'avatar', 'content']),
+    title: s.string(),
+    description: s.string().optional(),
+    thumbnailUrl: s.string().optional(),
+    relevanceScore: s.number(),
+    metadata: s.opaque().optional(),
+  })),
+  totalResults: s.number(),
+  searchTime: s.number(),
+  suggestions: s.array(s.string()).optional(),
+});
+
+const serviceHealthSchema: Schema<ServiceHealth> = s.object({
+  status: s.enum(['healthy', 'degraded', 'unhealthy']),
+  responseTime: s.number(),
+  lastCheck: s.isoDate(),
+  error: s.string().optional(),
+});
+
+export const healthCheckResponseSchema: Schema<HealthCheckApiResponse> = s.object({
+  status: s.enum(['healthy', 'degraded', 'unhealthy']),
+  timestamp: s.isoDate(),
+  version: s.string(),
+  uptime: s.number(),
+  services: s.object({
+    database: serviceHealthSchema,
+    redis: serviceHealthSchema,
+    storage: serviceHealthSchema,
+    avatarProcessing: serviceHealthSchema,
+  }),
+  metrics: s.object({
+    requestsPerMinute: s.number(),
+    averageResponseTime: s.number(),
+    errorRate: s.number(),
+  }),
+});
+
+export const versionResponseSchema: Schema<VersionApiResponse> = s.object({
+  version: s.string(),
+  buildNumber: s.string(),
+  buildDate: s.isoDate(),
+  gitCommit: s.string(),
+  environment: s.enum(['development', 'staging', 'production']),
+  features: s.array(s.object({
+    name: s.string(),
+    enabled: s.boolean(),
+    version: s.string().optional(),
+  })),
+  deprecations: s.array(s.object({
+    endpoint: s.string(),
+    deprecatedAt: s.isoDate(),
+    sunsetAt: s.isoDate(),
+    migrationPath: s.string(),
+  })),
+});
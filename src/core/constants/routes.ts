@@ -3,6 +3,7 @@
 // Centralized route management with type safety and navigation guards
 // Built for 90M users - Deep Links + Analytics + Permissions
 import { RootStackParamList } from '../types/navigation';
+import { DEEP_LINK_CONFIG } from '../config/deepLink.config';
 
 // ========================================================================================
 // ROUTE CONSTANTS - TYPE-SAFE NAVIGATION
@@ -24,6 +25,7 @@ export const ROUTES = {
   EMAIL_SENT: 'EmailSent' as keyof RootStackParamList,
   VERIFICATION_ERROR: 'VerificationError' as keyof RootStackParamList,
   FORGOT_PASSWORD: 'ForgotPassword' as keyof RootStackParamList,
+  TWO_FACTOR_CHALLENGE: 'TwoFactorChallenge' as keyof RootStackParamList,
   AUTH_COMPLETE: 'AuthComplete' as keyof RootStackParamList,
   
   // Onboarding Routes
@@ -304,6 +306,23 @@ export const ROUTE_METADATA: Record<keyof RootStackParamList, RouteMetadata> = {
     cacheable: false,
   },
   
+  TwoFactorChallenge: {
+    name: 'TwoFactorChallenge',
+    title: 'Two-Factor Authentication',
+    persianTitle: 'تأیید دو مرحله‌ای',
+    requiresAuth: false,
+    requiresOnboarding: false,
+    requiresAvatar: false,
+    allowsBackNavigation: true,
+    analyticsName: 'two_factor_challenge_screen',
+    trackScreenView: true,
+    showHeader: false,
+    showTabBar: false,
+    deepLinkEnabled: false,
+    preloadable: false,
+    cacheable: false,
+  },
+  
   AuthComplete: {
     name: 'AuthComplete',
     title: 'Welcome!',
@@ -407,7 +426,7 @@ export const ROUTE_METADATA: Record<keyof RootStackParamList, RouteMetadata> = {
     trackScreenView: true,
     showHeader: true,
     showTabBar: true,
-    deepLinkEnabled: true,
+    deepLinkEnabled: false, // no screen in this build - deepLinkRouter cannot open it
     deepLinkPattern: 'iranverse://profile',
     preloadable: true,
     cacheable: true,
@@ -425,7 +444,7 @@ export const ROUTE_METADATA: Record<keyof RootStackParamList, RouteMetadata> = {
     trackScreenView: true,
     showHeader: true,
     showTabBar: false,
-    deepLinkEnabled: true,
+    deepLinkEnabled: false, // no screen in this build - deepLinkRouter cannot open it
     deepLinkPattern: 'iranverse://settings',
     preloadable: true,
     cacheable: true,
@@ -443,7 +462,7 @@ export const ROUTE_METADATA: Record<keyof RootStackParamList, RouteMetadata> = {
     trackScreenView: true,
     showHeader: true,
     showTabBar: false,
-    deepLinkEnabled: true,
+    deepLinkEnabled: false, // no screen in this build - deepLinkRouter cannot open it
     deepLinkPattern: 'iranverse://avatar',
     preloadable: true,
     cacheable: false,
@@ -461,7 +480,7 @@ export const ROUTE_METADATA: Record<keyof RootStackParamList, RouteMetadata> = {
     trackScreenView: true,
     showHeader: true,
     showTabBar: true,
-    deepLinkEnabled: true,
+    deepLinkEnabled: false, // no screen in this build - deepLinkRouter cannot open it
     deepLinkPattern: 'iranverse://social',
     preloadable: true,
     cacheable: true,
@@ -479,7 +498,7 @@ export const ROUTE_METADATA: Record<keyof RootStackParamList, RouteMetadata> = {
     trackScreenView: true,
     showHeader: true,
     showTabBar: false,
-    deepLinkEnabled: true,
+    deepLinkEnabled: false, // no screen in this build - deepLinkRouter cannot open it
     deepLinkPattern: 'iranverse://chat',
     preloadable: true,
     cacheable: false,
@@ -788,25 +807,53 @@ export const parseDeepLink = (url: string): {
 };
 
 /**
- * Generate deep link URL for route
+ * One link in every form - put universalUrl in emails and shares
+ */
+export interface DeepLinkUrls {
+  appUrl: string; // iranverse:// - only works with the app installed
+  universalUrl: string; // https - opens the app, or the same page on the website
+  webFallbackUrl: string; // download page that continues to the link once the app is installed
+}
+
+/**
+ * Link patterns that run a flow instead of opening a screen
+ */
+export const DEEP_LINK_ACTION_PATTERNS = {
+  emailVerification: DEEP_LINK_CONFIG.patterns.emailVerification,
+  magicLink: DEEP_LINK_CONFIG.patterns.magicLink,
+} as const;
+
+/**
+ * Every pattern deepLinkRouter opens - flows first, then screens with deep linking enabled
+ */
+export const getRoutableDeepLinkPatterns = (): string[] => [
+  ...Object.values(DEEP_LINK_ACTION_PATTERNS),
+  ...(Object.keys(ROUTE_METADATA) as (keyof typeof ROUTE_METADATA)[])
+    .filter(supportsDeepLink)
+    .map(route => getDeepLinkPattern(route)!),
+];
+
+/**
+ * Generate deep link URLs for route - null unless the app can open it
  */
 export const generateDeepLink = (
   route: keyof RootStackParamList,
   params: Record<string, string> = {}
-): string | null => {
+): DeepLinkUrls | null => {
   const pattern = getDeepLinkPattern(route);
-  if (!pattern) return null;
+  if (!pattern || !supportsDeepLink(route)) return null;
   
-  try {
-    const url = new URL(pattern);
-    Object.entries(params).forEach(([key, value]) => {
-      url.searchParams.set(key, value);
-    });
-    return url.toString();
-  } catch (error) {
-    console.error('Failed to generate deep link:', error);
-    return null;
-  }
+  const { origin, webFallbackPath } = DEEP_LINK_CONFIG.universalLinks;
+  const query = Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  const path = `/${pattern.replace(`${DEEP_LINK_CONFIG.scheme}://`, '')}${query ? `?${query}` : ''}`;
+  
+  return {
+    appUrl: `${DEEP_LINK_CONFIG.scheme}:/${path}`,
+    universalUrl: `${origin}${path}`,
+    webFallbackUrl: `${origin}${webFallbackPath}?link=${encodeURIComponent(path)}`,
+  };
 };
 
 // ========================================================================================
@@ -843,6 +890,7 @@ export const ROUTE_PERMISSIONS: Record<keyof RootStackParamList, {
   Login: { minRole: USER_ROLES.GUEST },
   Signup: { minRole: USER_ROLES.GUEST },
   ForgotPassword: { minRole: USER_ROLES.GUEST },
+  TwoFactorChallenge: { minRole: USER_ROLES.GUEST },
   ErrorScreen: { minRole: USER_ROLES.GUEST },
   LoadingScreen: { minRole: USER_ROLES.GUEST },
   WebView: { minRole: USER_ROLES.GUEST },
@@ -980,21 +1028,21 @@ export const validateNavigation = (
 } => {
   const metadata = ROUTE_METADATA[targetRoute];
   
-  // Check basic permissions
-  if (!hasRoutePermission(targetRoute, appState.userRole, appState.userPermissions)) {
+  // Check authentication requirement - a guest signs in before roles apply
+  if (metadata.requiresAuth && !appState.isAuthenticated) {
     return {
       allowed: false,
-      redirectTo: ROUTES.ERROR_SCREEN,
-      reason: 'Insufficient permissions',
+      redirectTo: ROUTES.AUTH_WELCOME,
+      reason: 'Authentication required',
     };
   }
   
-  // Check authentication requirement
-  if (metadata.requiresAuth && !appState.isAuthenticated) {
+  // Check basic permissions
+  if (!hasRoutePermission(targetRoute, appState.userRole, appState.userPermissions)) {
     return {
       allowed: false,
-      redirectTo: ROUTES.AUTH_WELCOME,
-      reason: 'Authentication required',
+      redirectTo: ROUTES.ERROR_SCREEN,
+      reason: 'Insufficient permissions',
     };
   }
   
@@ -1092,7 +1140,9 @@ export default {
   
   // Deep linking
   DEEP_LINK_ROUTES,
+  DEEP_LINK_ACTION_PATTERNS,
   parseDeepLink,
+  getRoutableDeepLinkPatterns,
   generateDeepLink,
   
   // Permissions
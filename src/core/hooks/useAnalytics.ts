@@ -0,0 +1,53 @@
+// src/core/hooks/useAnalytics.ts
+// IRANVERSE Analytics Hook - Batched event tracking with user/session context
+// Event names come from ANALYTICS_CONFIG.events
+
+import { useCallback, useMemo } from 'react';
+import { analyticsApi } from '../constants/api';
+import { AnalyticsEvent } from '../types/api';
+import { ANALYTICS_CONFIG } from '../config/app.config';
+import { useAuthContext } from '../../features/auth/contexts/AuthContext';
+
+export interface AnalyticsTracker {
+  track: (
+    eventType: string,
+    properties?: Record<string, any>,
+    context?: AnalyticsEvent['context']
+  ) => void;
+  trackScreen: (screen: string, properties?: Record<string, any>) => void;
+  flush: () => Promise<void>;
+}
+
+export function useAnalytics(): AnalyticsTracker {
+  const { user, deviceId, sessionMetadata } = useAuthContext();
+  const userId = user?.id;
+  const sessionId = sessionMetadata?.sessionId;
+
+  const track = useCallback((
+    eventType: string,
+    properties?: Record<string, any>,
+    context?: AnalyticsEvent['context']
+  ) => {
+    analyticsApi.track({
+      eventType,
+      timestamp: new Date().toISOString(),
+      userId,
+      sessionId,
+      deviceId: deviceId || 'unknown',
+      properties,
+      context,
+    });
+  }, [userId, sessionId, deviceId]);
+
+  const trackScreen = useCallback((screen: string, properties?: Record<string, any>) => {
+    track(ANALYTICS_CONFIG.events.screenView, properties, { screen });
+  }, [track]);
+
+  return useMemo(() => ({
+    track,
+    trackScreen,
+    flush: analyticsApi.flush,
+  }), [track, trackScreen]);
+}
+
+export default useAnalytics;
@@ -0,0 +1,202 @@
+// src/core/hooks/useApiQuery.ts
+// IRANVERSE API Query Hooks - Data fetching for screens
+// Loading/error state, cancellation on unmount and pagination over the typed services
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiError, ApiPagination, ApiRequestOptions, ApiResponse } from '../types/api';
+import { getNextPage, mergePage } from '../utils/pagination';
+import { useRequestScope } from './useRequestScope';
+
+// ========================================================================================
+// SINGLE RESOURCE QUERIES
+// ========================================================================================
+
+export interface ApiQueryOptions {
+  // Skip fetching until true (e.g. waiting for auth)
+  enabled?: boolean;
+}
+
+export interface ApiQueryState<T> {
+  data: T | null;
+  error: ApiError | null;
+  isLoading: boolean;
+  // Served from cache past its TTL while a refresh runs
+  isStale: boolean;
+  refetch: () => Promise<void>;
+  // Replace data locally (optimistic updates)
+  setData: (data: T | null) => void;
+}
+
+/**
+ * Fetch a resource from a service method, refetching when deps change
+ * The fetcher receives `signal` so requests die with the screen or the next refetch
+ */
+export function useApiQuery<T>(
+  fetcher: (options: ApiRequestOptions) => Promise<ApiResponse<T>>,
+  deps: unknown[],
+  options: ApiQueryOptions = {}
+): ApiQueryState<T> {
+  const { enabled = true } = options;
+  const scope = useRequestScope();
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [isStale, setIsStale] = useState(false);
+
+  // Latest fetcher without making it an effect dependency
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const refetch = useCallback(async () => {
+    // A new request supersedes one still loading - its result and loading state are dropped
+    scope.cancelAll();
+    const signal = scope.getSignal();
+    const isCurrent = () => scope.isActive() && !signal.aborted;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetcherRef.current({ signal });
+      if (!isCurrent()) return;
+
+      setData(response.data ?? null);
+      setIsStale(!!response.metadata?.cache?.stale);
+    } catch (err) {
+      if (scope.isCancelled(err) || !isCurrent()) return;
+      setError(err as ApiError);
+    } finally {
+      if (isCurrent()) {
+        setIsLoading(false);
+      }
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if (!enabled) {
+      scope.cancelAll();
+      setIsLoading(false);
+      return;
+    }
+    refetch();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, refetch, ...deps]);
+
+  return { data, error, isLoading, isStale, refetch, setData };
+}
+
+// ========================================================================================
+// PAGINATED QUERIES
+// ========================================================================================
+
+export interface PaginatedQueryOptions<T> extends ApiQueryOptions {
+  // Stable identity used to drop duplicates across pages
+  getKey: (item: T) => string;
+}
+
+export interface PaginatedQueryState<T> {
+  items: T[];
+  pagination: ApiPagination | null;
+  error: ApiError | null;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Accumulate pages from a list endpoint - first page loads on mount and whenever deps change
+ */
+export function usePaginatedQuery<T, R>(
+  fetchPage: (page: number, options: ApiRequestOptions) => Promise<ApiResponse<R>>,
+  selectItems: (data: R) => T[],
+  deps: unknown[],
+  options: PaginatedQueryOptions<T>
+): PaginatedQueryState<T> {
+  const { enabled = true, getKey } = options;
+  const scope = useRequestScope();
+  const [items, setItems] = useState<T[]>([]);
+  const [pagination, setPagination] = useState<ApiPagination | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+  const selectItemsRef = useRef(selectItems);
+  selectItemsRef.current = selectItems;
+  const getKeyRef = useRef(getKey);
+  getKeyRef.current = getKey;
+
+  const load = useCallback(async (page: number) => {
+    const response = await fetchPageRef.current(page, { signal: scope.getSignal() });
+    if (!scope.isActive()) return;
+
+    const pageItems = response.data ? selectItemsRef.current(response.data) : [];
+    setItems(prev => page === 1 ? pageItems : mergePage(prev, pageItems, getKeyRef.current));
+    setPagination(response.pagination ?? null);
+  }, [scope]);
+
+  const refresh = useCallback(async () => {
+    // A new first page supersedes any page still loading
+    scope.cancelAll();
+    setIsLoading(true);
+    setIsLoadingMore(false);
+    setError(null);
+
+    try {
+      await load(1);
+    } catch (err) {
+      if (scope.isCancelled(err) || !scope.isActive()) return;
+      setError(err as ApiError);
+    } finally {
+      if (scope.isActive()) {
+        setIsLoading(false);
+      }
+    }
+  }, [scope, load]);
+
+  const loadMore = useCallback(async () => {
+    const nextPage = getNextPage(pagination);
+    if (nextPage === null || nextPage === 1 || isLoading || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    setError(null);
+
+    try {
+      await load(nextPage);
+    } catch (err) {
+      if (scope.isCancelled(err) || !scope.isActive()) return;
+      setError(err as ApiError);
+    } finally {
+      if (scope.isActive()) {
+        setIsLoadingMore(false);
+      }
+    }
+  }, [scope, load, pagination, isLoading, isLoadingMore]);
+
+  useEffect(() => {
+    if (!enabled) {
+      scope.cancelAll();
+      setItems([]);
+      setPagination(null);
+      setIsLoading(false);
+      return;
+    }
+    refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, refresh, ...deps]);
+
+  return {
+    items,
+    pagination,
+    error,
+    isLoading,
+    isLoadingMore,
+    hasMore: !!pagination?.hasNext,
+    loadMore,
+    refresh,
+  };
+}
+
+export default useApiQuery;
@@ -0,0 +1,64 @@
+// src/core/hooks/useOfflineQueue.ts
+// IRANVERSE Offline Queue Hook - Pending sync state for the UI
+// Exposes queued and conflicting mutations with retry/discard actions
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { getApiClient } from '../constants/api';
+import { OfflineQueueSnapshot, QueuedMutation } from '../types/api';
+
+const EMPTY_SNAPSHOT: OfflineQueueSnapshot = {
+  items: [],
+  queuedCount: 0,
+  conflictCount: 0,
+  failedCount: 0,
+  isOnline: true,
+  isReplaying: false,
+};
+
+export interface OfflineQueueState extends OfflineQueueSnapshot {
+  // False when FEATURE_FLAGS.offlineMode is off
+  isEnabled: boolean;
+  // Items needing a user decision (conflict or failed)
+  conflicts: QueuedMutation[];
+  hasPendingChanges: boolean;
+  replay: () => Promise<void>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+export function useOfflineQueue(): OfflineQueueState {
+  const queue = getApiClient().getOfflineQueue();
+  const [snapshot, setSnapshot] = useState<OfflineQueueSnapshot>(
+    () => queue?.getSnapshot() ?? EMPTY_SNAPSHOT
+  );
+
+  useEffect(() => {
+    if (!queue) return;
+    setSnapshot(queue.getSnapshot());
+    return queue.subscribe(setSnapshot);
+  }, [queue]);
+
+  const replay = useCallback(async () => {
+    await queue?.replay();
+  }, [queue]);
+
+  const retry = useCallback(async (id: string) => {
+    await queue?.retry(id);
+  }, [queue]);
+
+  const discard = useCallback(async (id: string) => {
+    await queue?.discard(id);
+  }, [queue]);
+
+  return useMemo(() => ({
+    ...snapshot,
+    isEnabled: !!queue,
+    conflicts: snapshot.items.filter(item => item.status === 'conflict' || item.status === 'failed'),
+    hasPendingChanges: snapshot.queuedCount > 0,
+    replay,
+    retry,
+    discard,
+  }), [snapshot, queue, replay, retry, discard]);
+}
+
+export default useOfflineQueue;
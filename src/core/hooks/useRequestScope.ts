@@ -0,0 +1,53 @@
+// src/core/hooks/useRequestScope.ts
+// IRANVERSE Request Scope Hook - Screen-bound request cancellation
+// Aborts every request started by a screen when it unmounts
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { isRequestCancelled } from '../constants/api';
+
+export interface RequestScope {
+  // Signal to pass as `signal` in ApiRequestOptions
+  getSignal: () => AbortSignal;
+  // Abort everything started so far and open a fresh scope
+  cancelAll: () => void;
+  // False once the owning component has unmounted
+  isActive: () => boolean;
+  // Helper for catch blocks - cancelled requests are not errors
+  isCancelled: (error: unknown) => boolean;
+}
+
+export function useRequestScope(): RequestScope {
+  const controllerRef = useRef<AbortController>(new AbortController());
+  const activeRef = useRef(true);
+
+  // Abort outstanding requests on unmount
+  useEffect(() => {
+    activeRef.current = true;
+    if (controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController();
+    }
+
+    return () => {
+      activeRef.current = false;
+      controllerRef.current.abort();
+    };
+  }, []);
+
+  const getSignal = useCallback(() => controllerRef.current.signal, []);
+
+  const cancelAll = useCallback(() => {
+    controllerRef.current.abort();
+    controllerRef.current = new AbortController();
+  }, []);
+
+  const isActive = useCallback(() => activeRef.current, []);
+
+  return useMemo(() => ({
+    getSignal,
+    cancelAll,
+    isActive,
+    isCancelled: isRequestCancelled,
+  }), [getSignal, cancelAll, isActive]);
+}
+
+export default useRequestScope;
@@ -0,0 +1,78 @@
+// src/core/hooks/useSearch.ts
+// IRANVERSE Search Hook - Debounced, paginated search over searchApi
+// Results accumulate page by page for infinite scrolling lists
+
+import { useEffect, useState } from 'react';
+import { searchApi } from '../constants/api';
+import { ApiError, ApiPagination, SearchApiRequest, SearchResult } from '../types/api';
+import { DEFAULT_PAGE_SIZE } from '../utils/pagination';
+import { usePaginatedQuery } from './useApiQuery';
+
+const MIN_QUERY_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+
+export interface SearchOptions {
+  type?: SearchApiRequest['type'];
+  filters?: SearchApiRequest['filters'];
+  pageSize?: number;
+  debounceMs?: number;
+}
+
+export interface SearchState {
+  results: SearchResult[];
+  pagination: ApiPagination | null;
+  error: ApiError | null;
+  // True while the first page of a new query loads
+  isSearching: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export function useSearch(query: string, options: SearchOptions = {}): SearchState {
+  const {
+    type = 'all',
+    filters,
+    pageSize = DEFAULT_PAGE_SIZE,
+    debounceMs = SEARCH_DEBOUNCE_MS,
+  } = options;
+
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const handle = setTimeout(() => setDebouncedQuery(query.trim()), debounceMs);
+    return () => clearTimeout(handle);
+  }, [query, debounceMs]);
+
+  // Filters are usually inline objects - compare by value
+  const filtersKey = JSON.stringify(filters ?? null);
+
+  const results = usePaginatedQuery(
+    (page, requestOptions) => searchApi.search({
+      query: debouncedQuery,
+      type,
+      filters,
+      pagination: { page, pageSize },
+    }, requestOptions),
+    data => data.results,
+    [debouncedQuery, type, filtersKey, pageSize],
+    {
+      enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+      getKey: result => `${result.type}:${result.id}`,
+    }
+  );
+
+  return {
+    results: results.items,
+    pagination: results.pagination,
+    error: results.error,
+    isSearching: results.isLoading,
+    isLoadingMore: results.isLoadingMore,
+    hasMore: results.hasMore,
+    loadMore: results.loadMore,
+    refresh: results.refresh,
+  };
+}
+
+export default useSearch;
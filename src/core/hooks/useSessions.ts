@@ -0,0 +1,93 @@
+// src/core/hooks/useSessions.ts
+// IRANVERSE Active Sessions Hook - Signed-in devices, revocation and trust
+// Optimistic updates with rollback when the server rejects the change
+
+import { useCallback, useState } from 'react';
+import { sessionsApi } from '../constants/api';
+import { ApiError, SessionApiInfo } from '../types/api';
+import { useApiQuery } from './useApiQuery';
+
+export interface SessionsState {
+  sessions: SessionApiInfo[];
+  currentSession: SessionApiInfo | null;
+  error: ApiError | null;
+  isLoading: boolean;
+  pendingSessionId: string | null; // session with a revoke/trust request in flight
+  refetch: () => Promise<void>;
+  // Callers run step-up first - the server answers 403 STEP_UP_REQUIRED otherwise
+  revokeSession: (sessionId: string) => Promise<void>;
+  setTrusted: (sessionId: string, trusted: boolean) => Promise<void>;
+}
+
+export function useSessions(): SessionsState {
+  const query = useApiQuery(options => sessionsApi.getSessions(options), []);
+  const [pendingSessionId, setPendingSessionId] = useState<string | null>(null);
+  const [mutationError, setMutationError] = useState<ApiError | null>(null);
+  const { data, setData } = query;
+
+  /**
+   * Apply a change locally, send it, and restore the previous list if it fails
+   */
+  const mutate = useCallback(async (
+    sessionId: string,
+    apply: (sessions: SessionApiInfo[]) => SessionApiInfo[],
+    send: () => Promise<SessionApiInfo | null>
+  ) => {
+    const previous = data;
+    const optimistic = apply(previous?.sessions ?? []);
+    if (previous) {
+      setData({ sessions: optimistic });
+    }
+
+    setPendingSessionId(sessionId);
+    setMutationError(null);
+
+    try {
+      const updated = await send();
+      if (updated) {
+        setData({
+          sessions: optimistic.map(session => session.sessionId === updated.sessionId ? updated : session),
+        });
+      }
+    } catch (error) {
+      setData(previous);
+      setMutationError(error as ApiError);
+      throw error;
+    } finally {
+      setPendingSessionId(null);
+    }
+  }, [data, setData]);
+
+  const revokeSession = useCallback((sessionId: string) => mutate(
+    sessionId,
+    sessions => sessions.filter(session => session.sessionId !== sessionId),
+    async () => {
+      await sessionsApi.revokeSession({ sessionId });
+      return null;
+    }
+  ), [mutate]);
+
+  const setTrusted = useCallback((sessionId: string, trusted: boolean) => mutate(
+    sessionId,
+    sessions => sessions.map(session => session.sessionId === sessionId ? { ...session, isTrusted: trusted } : session),
+    async () => {
+      const response = await sessionsApi.trustSession({ sessionId, trusted });
+      return response.data?.session ?? null;
+    }
+  ), [mutate]);
+
+  const sessions = data?.sessions ?? [];
+
+  return {
+    sessions,
+    currentSession: sessions.find(session => session.isCurrent) ?? null,
+    error: mutationError ?? query.error,
+    isLoading: query.isLoading,
+    pendingSessionId,
+    refetch: query.refetch,
+    revokeSession,
+    setTrusted,
+  };
+}
+
+export default useSessions;
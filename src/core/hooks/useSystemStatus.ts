@@ -0,0 +1,55 @@
+// src/core/hooks/useSystemStatus.ts
+// IRANVERSE System Status Hook - Backend health, version and deprecations
+// Used by settings/about screens and pre-flight checks before critical flows
+
+import { useMemo } from 'react';
+import { systemApi } from '../constants/api';
+import { ApiError, HealthCheckApiResponse, VersionApiResponse } from '../types/api';
+import { useApiQuery } from './useApiQuery';
+
+export interface SystemStatusState {
+  health: HealthCheckApiResponse | null;
+  version: VersionApiResponse | null;
+  // Healthy or degraded - degraded backends still accept requests
+  isAvailable: boolean;
+  // Server feature toggles by name
+  serverFeatures: Record<string, boolean>;
+  error: ApiError | null;
+  isLoading: boolean;
+  refetch: () => Promise<void>;
+}
+
+export function useSystemStatus(options: { includeVersion?: boolean } = {}): SystemStatusState {
+  const { includeVersion = true } = options;
+  const health = useApiQuery(requestOptions => systemApi.getHealth(requestOptions), []);
+  const version = useApiQuery(
+    requestOptions => systemApi.getVersion(requestOptions),
+    [],
+    { enabled: includeVersion }
+  );
+
+  const serverFeatures = useMemo(() => {
+    const features: Record<string, boolean> = {};
+    version.data?.features.forEach(feature => {
+      features[feature.name] = feature.enabled;
+    });
+    return features;
+  }, [version.data]);
+
+  const { refetch: refetchHealth } = health;
+  const { refetch: refetchVersion } = version;
+
+  return {
+    health: health.data,
+    version: version.data,
+    isAvailable: !!health.data && health.data.status !== 'unhealthy',
+    serverFeatures,
+    error: health.error ?? version.error,
+    isLoading: health.isLoading || version.isLoading,
+    refetch: async () => {
+      await Promise.all([refetchHealth(), includeVersion ? refetchVersion() : Promise.resolve()]);
+    },
+  };
+}
+
+export default useSystemStatus;
@@ -0,0 +1,30 @@
+// src/core/hooks/useUserMetrics.ts
+// IRANVERSE User Metrics Hook - Usage and engagement statistics for profile screens
+
+import { userApi } from '../constants/api';
+import { ApiError, UserMetricsApiResponse } from '../types/api';
+import { useApiQuery } from './useApiQuery';
+
+export interface UserMetricsState {
+  metrics: UserMetricsApiResponse['metrics'] | null;
+  error: ApiError | null;
+  isLoading: boolean;
+  refetch: () => Promise<void>;
+}
+
+export function useUserMetrics(options: { enabled?: boolean } = {}): UserMetricsState {
+  const { data, error, isLoading, refetch } = useApiQuery(
+    requestOptions => userApi.getMetrics(requestOptions),
+    [],
+    options
+  );
+
+  return {
+    metrics: data?.metrics ?? null,
+    error,
+    isLoading,
+    refetch,
+  };
+}
+
+export default useUserMetrics;
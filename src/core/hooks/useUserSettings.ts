@@ -0,0 +1,62 @@
+// src/core/hooks/useUserSettings.ts
+// IRANVERSE User Settings Hook - Privacy, notification and performance preferences
+// Optimistic updates with rollback when the server rejects the change
+
+import { useCallback, useState } from 'react';
+import { userApi, isRequestQueued } from '../constants/api';
+import { ApiError, UserSettingsApiResponse } from '../types/api';
+import { useApiQuery } from './useApiQuery';
+
+export type UserSettings = UserSettingsApiResponse['settings'];
+
+export interface UserSettingsState {
+  settings: UserSettings | null;
+  error: ApiError | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  refetch: () => Promise<void>;
+  // Applied locally at once; queued changes stay applied while offline
+  updateSettings: (changes: Partial<UserSettings>) => Promise<void>;
+}
+
+export function useUserSettings(): UserSettingsState {
+  const query = useApiQuery(options => userApi.getSettings(options), []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<ApiError | null>(null);
+  const { data, setData } = query;
+
+  const updateSettings = useCallback(async (changes: Partial<UserSettings>) => {
+    const previous = data;
+    if (previous) {
+      setData({ settings: { ...previous.settings, ...changes } });
+    }
+
+    setIsSaving(true);
+    setSaveError(null);
+
+    try {
+      const response = await userApi.updateSettings({ settings: changes });
+      if (response.data) {
+        setData(response.data);
+      }
+    } catch (error) {
+      if (isRequestQueued(error)) return;
+      setData(previous);
+      setSaveError(error as ApiError);
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [data, setData]);
+
+  return {
+    settings: data?.settings ?? null,
+    error: saveError ?? query.error,
+    isLoading: query.isLoading,
+    isSaving,
+    refetch: query.refetch,
+    updateSettings,
+  };
+}
+
+export default useUserSettings;
@@ -1,44 +1,18 @@
 // src/services/DeepLinkHandler.tsx
-// IRANVERSE Enterprise Deep Link Handler - Email Verification System
-// Tesla-inspired deep link processing with Enterprise Security
+// IRANVERSE Enterprise Deep Link Handler - Screen Links, Email Verification & Magic Links
+// Routes every link through deepLinkRouter; verification and magic links run their flows here
 // Built for 90M users - Secure Token Verification & Navigation
-import { useEffect, useCallback, useRef } from 'react';
-import { Platform, Linking, AppState, AppStateStatus } from 'react-native';
+import React, { useEffect, useCallback, useRef } from 'react';
+import { Linking, AppState, AppStateStatus } from 'react-native';
 import * as ExpoLinking from 'expo-linking';
-import { NavigationProp } from '@react-navigation/native';
-
-// ========================================================================================
-// NAVIGATION TYPES - ENTERPRISE STACK DEFINITION
-// ========================================================================================
-
-// Extended RootStackParamList with proper parameter typing
-export type RootStackParamList = {
-  AuthWelcome: undefined;
-  Login: undefined;
-  Signup: undefined;
-  EmailSent: { email: string };
-  AuthComplete: { userId: string; email: string; userName: string };
-  VerificationError: { 
-    error: string; 
-    email?: string; 
-    canRetry: boolean 
-  };
-  ForgotPassword: { 
-    token?: string; 
-    email?: string 
-  };
-  AvatarCreation: { 
-    userId: string; 
-    email: string; 
-    userName: string; 
-    accessToken: string 
-  };
-  OnboardingComplete: { userId: string };
-  Home: { 
-    userId: string; 
-    isNewUser?: boolean 
-  };
-};
+import { CommonActions, NavigationProp, useNavigation } from '@react-navigation/native';
+import type { RootStackParamList } from '../types/navigation';
+import { authApi } from '../constants/api';
+import { ApiError } from '../types/api';
+import { useAuthContext } from '../../features/auth/contexts/AuthContext';
+import { authEvents } from './authEvents';
+import { AuthError } from '../../features/auth/types';
+import { deepLinkRouter, DeepLinkSession, DeepLinkTarget } from './deepLinkRouter';
 
 // ========================================================================================
 // DEEP LINK TYPES & INTERFACES - ENTERPRISE SECURITY
@@ -72,12 +46,6 @@ export interface VerificationResponse {
 // ========================================================================================
 
 const DEEP_LINK_CONFIG = {
-  scheme: 'iranverse',
-  paths: {
-    emailVerification: 'verify-email',
-    passwordReset: 'reset-password',
-    magicLink: 'magic-login',
-  },
   timeouts: {
     verification: 30000, // 30 seconds timeout
     retry: 3000, // 3 seconds between retries
@@ -91,6 +59,12 @@ const DEEP_LINK_CONFIG = {
 export const useDeepLinkHandler = ({ navigation }: DeepLinkHandlerProps) => {
   const processingRef = useRef<Set<string>>(new Set());
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
+  const handledInitialURLRef = useRef<string | null>(null);
+  const { deviceId, loginWithMagicLink, isAuthenticated, user, tokens } = useAuthContext();
+  
+  // Read when a link arrives, so auth changes do not re-register the listeners
+  const sessionRef = useRef<DeepLinkSession>({ isAuthenticated, user, accessToken: null });
+  sessionRef.current = { isAuthenticated, user, accessToken: tokens?.accessToken ?? null };
   
   // ========================================================================================
   // TOKEN VERIFICATION API - ENTERPRISE SECURITY
@@ -105,37 +79,17 @@ export const useDeepLinkHandler = ({ navigation }: DeepLinkHandlerProps) => {
       
       processingRef.current.add(token);
       
-      // Enterprise timeout handling
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-      }, DEEP_LINK_CONFIG.timeouts.verification);
-      
       // Call backend verification endpoint
-      const response = await fetch(
-        `${process.env.EXPO_PUBLIC_API_URL || 'https://api.iranverse.com'}/auth/verify-email?token=${encodeURIComponent(token)}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'User-Agent': `IRANVERSE-Mobile/${Platform.OS}`,
-          },
-          signal: controller.signal,
-        }
-      );
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        return {
-          success: false,
-          error: errorData.message || 'Verification failed',
-          errorCode: errorData.code || 'VERIFICATION_FAILED',
-        };
-      }
-      
-      const data = await response.json();
+      const response = await authApi.verifyEmailLink(token, {
+        timeout: DEEP_LINK_CONFIG.timeouts.verification,
+        retries: 0,
+      });
+      const data = response.data!;
+      authEvents.emit('email_verified', {
+        userId: data.userId,
+        deviceId: deviceId || 'unknown',
+        metadata: { source: 'deep_link' },
+      });
       
       return {
         success: true,
@@ -143,14 +97,24 @@ export const useDeepLinkHandler = ({ navigation }: DeepLinkHandlerProps) => {
         accessToken: data.accessToken,
         refreshToken: data.refreshToken,
         email: data.email,
-        userName: data.userName || data.name,
+        userName: data.userName,
       };
       
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
+    } catch (error) {
+      const apiError = error as ApiError;
+      if (apiError.type === 'TIMEOUT_ERROR') {
         return { success: false, error: 'Verification timeout', errorCode: 'TIMEOUT' };
       }
       
+      // Server rejected the token (expired, already used, unknown)
+      if (apiError.status >= 400 && apiError.status < 500) {
+        return {
+          success: false,
+          error: apiError.message || 'Verification failed',
+          errorCode: 'VERIFICATION_FAILED',
+        };
+      }
+      
       return {
         success: false,
         error: 'Network error during verification',
@@ -159,115 +123,127 @@ export const useDeepLinkHandler = ({ navigation }: DeepLinkHandlerProps) => {
     } finally {
       processingRef.current.delete(token);
     }
-  }, []);
+  }, [deviceId]);
   
   // ========================================================================================
   // DEEP LINK PROCESSING - ENTERPRISE FLOW CONTROL
   // ========================================================================================
   
-  const processDeepLink = useCallback(async (url: string) => {
+  const navigateTo = useCallback((target: DeepLinkTarget) => {
+    navigation.dispatch(CommonActions.navigate({ name: target.route, params: target.params }));
+  }, [navigation]);
+  
+  const handleEmailVerification = useCallback(async (token: string | undefined) => {
+    if (!token) {
+      navigation.navigate('VerificationError', {
+        error: 'Invalid verification link',
+        canRetry: false,
+      });
+      return;
+    }
+    
+    // Verify the token
+    const result = await verifyEmailToken(token);
+    
+    if (result.success && result.userId && result.accessToken) {
+      // Navigate to avatar creation
+      navigation.navigate('AvatarCreation', {
+        userId: result.userId,
+        email: result.email || '',
+        userName: result.userName || '',
+        accessToken: result.accessToken,
+      });
+    } else {
+      // Handle verification failure
+      navigation.navigate('VerificationError', {
+        error: result.error || 'Email verification failed',
+        email: result.email,
+        canRetry: result.errorCode !== 'TOKEN_EXPIRED',
+      });
+    }
+  }, [navigation, verifyEmailToken]);
+  
+  const handleMagicLink = useCallback(async (token: string | undefined) => {
+    if (!token) {
+      navigation.navigate('VerificationError', {
+        error: 'Invalid magic link',
+        canRetry: false,
+      });
+      return;
+    }
+    
+    // The launch URL and a url event can carry the same link - exchange it once
+    if (processingRef.current.has(token)) {
+      return;
+    }
+    processingRef.current.add(token);
+    
     try {
-      // Parse the deep link URL
-      const parsed = ExpoLinking.parse(url);
-      
-      // Validate scheme
-      if (parsed.scheme !== DEEP_LINK_CONFIG.scheme) {
-        console.warn('Invalid deep link scheme:', parsed.scheme);
+      // Exchange the token and establish the session in AuthContext
+      const response = await loginWithMagicLink(token);
+      navigation.navigate('AuthComplete', {
+        userId: response.user.id,
+        email: response.user.email,
+        userName: response.user.displayName,
+        accessToken: response.tokens.accessToken,
+        isNewUser: !!response.isNewUser,
+        nextAction: response.nextAction === 'avatar_creation' ? 'avatar_creation' : 'home',
+        hasAvatar: response.user.hasAvatar,
+      });
+    } catch (error) {
+      const authError = error as AuthError;
+      if (authError?.type === 'MFA_REQUIRED') {
+        navigation.navigate('TwoFactorChallenge', {});
         return;
       }
       
-      // Extract path and query parameters
-      const path = parsed.path;
-      const queryParams = parsed.queryParams || {};
+      // Replayed, expired and wrong-device links need a fresh link from the login screen
+      navigation.navigate('VerificationError', {
+        error: authError?.userMessage || 'Magic link login failed',
+        errorCode: authError?.type,
+        canRetry: authError?.type === 'NETWORK_ERROR',
+      });
+    } finally {
+      processingRef.current.delete(token);
+    }
+  }, [navigation, loginWithMagicLink]);
+  
+  /**
+   * Resolve a link through the router - replayed links that are still guarded are dropped
+   */
+  const processDeepLink = useCallback(async (url: string, isReplay: boolean = false) => {
+    try {
+      const resolution = deepLinkRouter.resolve(url, sessionRef.current);
       
-      // Handle email verification deep links
-      if (path === DEEP_LINK_CONFIG.paths.emailVerification) {
-        const token = queryParams.token as string;
-        
-        if (!token) {
-          navigation.navigate('VerificationError', {
-            error: 'Invalid verification link',
-            canRetry: false,
-          });
-          return;
-        }
-        
-        // Verify the token
-        const result = await verifyEmailToken(token);
-        
-        if (result.success && result.userId && result.accessToken) {
-          // Store tokens securely (implement your secure storage here)
-          // await SecureStore.setItemAsync('accessToken', result.accessToken);
-          // await SecureStore.setItemAsync('refreshToken', result.refreshToken);
+      switch (resolution.type) {
+        case 'action':
+          if (resolution.action === 'emailVerification') {
+            await handleEmailVerification(resolution.params.token);
+          } else {
+            await handleMagicLink(resolution.params.token);
+          }
+          break;
           
-          // Navigate to avatar creation
-          navigation.navigate('AvatarCreation', {
-            userId: result.userId,
-            email: result.email || '',
-            userName: result.userName || '',
-            accessToken: result.accessToken,
-          });
-        } else {
-          // Handle verification failure
-          navigation.navigate('VerificationError', {
-            error: result.error || 'Email verification failed',
-            email: result.email,
-            canRetry: result.errorCode !== 'TOKEN_EXPIRED',
-          });
-        }
-      }
-      
-      // Handle password reset deep links
-      else if (path === DEEP_LINK_CONFIG.paths.passwordReset) {
-        const token = queryParams.token as string;
-        const email = queryParams.email as string;
-        
-        if (!token) {
-          navigation.navigate('VerificationError', {
-            error: 'Invalid password reset link',
-            canRetry: false,
-          });
-          return;
-        }
-        
-        // Navigate to password reset screen with token - FIXED TYPING
-        navigation.navigate('ForgotPassword', { 
-          token, 
-          email: email || undefined 
-        });
-      }
-      
-      // Handle magic link login
-      else if (path === DEEP_LINK_CONFIG.paths.magicLink) {
-        const token = queryParams.token as string;
-        
-        if (!token) {
-          navigation.navigate('VerificationError', {
-            error: 'Invalid magic link',
-            canRetry: false,
-          });
-          return;
-        }
-        
-        // Process magic link login
-        const result = await verifyEmailToken(token);
-        
-        if (result.success && result.userId) {
-          // Navigate directly to home for existing users
-          navigation.navigate('Home', {
-            userId: result.userId,
-            isNewUser: false,
-          });
-        } else {
-          navigation.navigate('VerificationError', {
-            error: result.error || 'Magic link login failed',
-            canRetry: true,
-          });
-        }
-      }
-      
-      else {
-        console.warn('Unknown deep link path:', path);
+        case 'navigate':
+          navigateTo(resolution.target);
+          break;
+          
+        case 'deferred':
+          // Held until sign-in (or onboarding) lands on Home
+          if (isReplay) {
+            deepLinkRouter.clearPending();
+          } else if (resolution.redirect) {
+            navigateTo(resolution.redirect);
+          }
+          break;
+          
+        case 'rejected':
+          console.warn('Deep link rejected:', resolution.reason);
+          break;
+          
+        case 'unmatched':
+          console.warn('Unknown deep link:', url);
+          break;
       }
       
     } catch (error) {
@@ -277,7 +253,15 @@ export const useDeepLinkHandler = ({ navigation }: DeepLinkHandlerProps) => {
         canRetry: true,
       });
     }
-  }, [navigation, verifyEmailToken]);
+  }, [navigation, navigateTo, handleEmailVerification, handleMagicLink]);
+  
+  const replayPendingLink = useCallback(() => {
+    const state = navigation.getState();
+    const url = deepLinkRouter.replay(state?.routes[state.index]?.name, sessionRef.current);
+    if (url) {
+      processDeepLink(url, true);
+    }
+  }, [navigation, processDeepLink]);
   
   // ========================================================================================
   // DEEP LINK LISTENERS - ENTERPRISE EVENT HANDLING
@@ -286,7 +270,9 @@ export const useDeepLinkHandler = ({ navigation }: DeepLinkHandlerProps) => {
   const handleInitialURL = useCallback(async () => {
     try {
       const initialURL = await ExpoLinking.getInitialURL();
-      if (initialURL) {
+      // The launch URL stays the same for the whole run - handle it once
+      if (initialURL && initialURL !== handledInitialURLRef.current) {
+        handledInitialURLRef.current = initialURL;
         processDeepLink(initialURL);
       }
     } catch (error) {
@@ -318,6 +304,11 @@ export const useDeepLinkHandler = ({ navigation }: DeepLinkHandlerProps) => {
   // ========================================================================================
   
   useEffect(() => {
+    // Magic links are bound to this install - wait until AuthContext has loaded its device ID
+    if (!deviceId) {
+      return;
+    }
+    
     // Handle initial URL when component mounts
     handleInitialURL();
     
@@ -333,7 +324,16 @@ export const useDeepLinkHandler = ({ navigation }: DeepLinkHandlerProps) => {
       appStateSubscription?.remove();
       processingRef.current.clear();
     };
-  }, [handleInitialURL, handleIncomingLink, handleAppStateChange]);
+  }, [deviceId, handleInitialURL, handleIncomingLink, handleAppStateChange]);
+  
+  // Links that needed a session open once sign-in reaches Home
+  useEffect(() => navigation.addListener('state', replayPendingLink), [navigation, replayPendingLink]);
+  
+  useEffect(() => {
+    if (isAuthenticated) {
+      replayPendingLink();
+    }
+  }, [isAuthenticated, replayPendingLink]);
   
   // ========================================================================================
   // PUBLIC API - ENTERPRISE INTERFACE
@@ -347,26 +347,16 @@ export const useDeepLinkHandler = ({ navigation }: DeepLinkHandlerProps) => {
 };
 
 // ========================================================================================
-// DEEP LINK CONFIGURATION HELPER - EXPO SETUP
+// DEEP LINK LISTENER - MOUNTED INSIDE NAVIGATIONCONTAINER
 // ========================================================================================
 
-export const getDeepLinkConfig = () => ({
-  prefixes: [
-    ExpoLinking.createURL('/'),
-    `${DEEP_LINK_CONFIG.scheme}://`,
-  ],
-  config: {
-    screens: {
-      AuthWelcome: 'auth/welcome',
-      Login: 'auth/login',
-      Signup: 'auth/signup',
-      EmailSent: 'auth/email-sent',
-      VerificationError: 'auth/error',
-      ForgotPassword: 'auth/forgot-password',
-      AvatarCreation: 'onboarding/avatar',
-      Home: 'home',
-    },
-  },
-});
+/**
+ * Runs the handler for the whole app - render it once inside NavigationContainer and AuthProvider
+ */
+export const DeepLinkListener: React.FC = () => {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  useDeepLinkHandler({ navigation });
+  return null;
+};
 
 export default useDeepLinkHandler;
\ No newline at end of file
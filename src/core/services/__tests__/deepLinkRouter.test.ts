@@ -0,0 +1,72 @@
+// src/core/services/__tests__/deepLinkRouter.test.ts
+// IRANVERSE Deep Link Router Tests
+// Segment matching, malformed escapes and link resolution for both link forms
+// Built for 90M users - A broken link is ignored, never a crash
+import { DeepLinkRouter, DeepLinkSession, matchSegments } from '../deepLinkRouter';
+
+const SIGNED_OUT: DeepLinkSession = { isAuthenticated: false, user: null, accessToken: null };
+
+describe('matchSegments', () => {
+  it('matches literal segments', () => {
+    expect(matchSegments(['auth', 'login'], ['auth', 'login'])).toEqual({});
+    expect(matchSegments(['auth', 'login'], ['auth', 'signup'])).toBeNull();
+  });
+
+  it('requires the same number of segments', () => {
+    expect(matchSegments(['auth', 'login'], ['auth'])).toBeNull();
+    expect(matchSegments(['auth'], ['auth', 'login'])).toBeNull();
+  });
+
+  it('decodes path params', () => {
+    expect(matchSegments(['rooms', ':roomId'], ['rooms', 'tehran%20square'])).toEqual({ roomId: 'tehran square' });
+  });
+
+  it('treats a malformed escape as no match', () => {
+    expect(matchSegments(['rooms', ':roomId'], ['rooms', '%E0%A4%A'])).toBeNull();
+  });
+});
+
+describe('DeepLinkRouter.resolve', () => {
+  it('opens the same screen from the custom scheme and the universal link', () => {
+    const router = new DeepLinkRouter();
+
+    expect(router.resolve('iranverse://auth/login?email=sara%40example.com', SIGNED_OUT)).toEqual({
+      type: 'navigate',
+      target: { route: 'Login', params: { email: 'sara@example.com' } },
+    });
+    expect(router.resolve('https://iranverse.com/auth/login?email=sara%40example.com', SIGNED_OUT)).toEqual({
+      type: 'navigate',
+      target: { route: 'Login', params: { email: 'sara@example.com' } },
+    });
+  });
+
+  it('returns flow links as actions', () => {
+    const router = new DeepLinkRouter();
+
+    expect(router.resolve('iranverse://auth/magic-link?token=abc', SIGNED_OUT)).toEqual({
+      type: 'action',
+      action: 'magicLink',
+      params: { token: 'abc' },
+    });
+  });
+
+  it('rejects links from other origins', () => {
+    const router = new DeepLinkRouter();
+
+    expect(router.resolve('https://evil.example/auth/login', SIGNED_OUT).type).toBe('rejected');
+  });
+
+  it('holds a signed-in-only link until sign-in', () => {
+    const router = new DeepLinkRouter();
+
+    const resolution = router.resolve('iranverse://home', SIGNED_OUT);
+
+    expect(resolution).toMatchObject({ type: 'deferred', route: 'Home', redirect: { route: 'Login' } });
+  });
+
+  it('leaves unknown paths unmatched', () => {
+    const router = new DeepLinkRouter();
+
+    expect(router.resolve('iranverse://nowhere', SIGNED_OUT)).toEqual({ type: 'unmatched' });
+  });
+});
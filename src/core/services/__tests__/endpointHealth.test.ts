@@ -0,0 +1,168 @@
+// src/core/services/__tests__/endpointHealth.test.ts
+// IRANVERSE Endpoint Health Tests
+// Failover after repeated route failures, recovery after the cooldown and latency ranking
+// Built for 90M users - When one route goes dark the other takes over, and control returns
+import { NETWORK_CONFIG } from '../../config/app.config';
+import { EndpointDescriptor, HttpTransport, TransportRequest, TransportResponse } from '../../types/api';
+import { EndpointPool } from '../endpointHealth';
+
+const MIRRORS: EndpointDescriptor[] = [
+  { id: 'api', url: 'https://api.iranverse.com/v1/', region: 'international' },
+  { id: 'api-ir', url: 'https://api.iranverse.ir/v1', region: 'domestic' },
+];
+
+const reply = (status: number, data: unknown = { status: 'ok' }): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: String(status),
+  headers: {},
+  data,
+});
+
+/**
+ * Health endpoint per mirror host - flip `down` to take a route offline
+ */
+const createProbeTransport = () => {
+  const down = new Set<string>();
+  const probes: string[] = [];
+  const transport: HttpTransport = {
+    name: 'stub',
+    send: async (request: TransportRequest) => {
+      const host = new URL(request.url).host;
+      probes.push(host);
+      if (down.has(host)) throw new TypeError('Network request failed');
+      return reply(200);
+    },
+  };
+  return { transport, down, probes };
+};
+
+const failTimes = (pool: EndpointPool, id: string, times: number) => {
+  for (let i = 0; i < times; i++) {
+    pool.reportFailure(id, 'HTTP 503');
+  }
+};
+
+describe('EndpointPool', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts on the primary and normalises trailing slashes', () => {
+    const { transport } = createProbeTransport();
+    const pool = new EndpointPool(MIRRORS, { healthPath: '/health', transport });
+
+    expect(pool.getActive()).toMatchObject({ id: 'api', url: 'https://api.iranverse.com/v1', status: 'unknown' });
+    pool.dispose();
+  });
+
+  it('keeps the active mirror after a single failure', () => {
+    const { transport } = createProbeTransport();
+    const pool = new EndpointPool(MIRRORS, { healthPath: '/health', transport });
+
+    failTimes(pool, 'api', 1);
+
+    expect(pool.getSnapshot().endpoints.map(endpoint => [endpoint.id, endpoint.status])).toEqual([
+      ['api-ir', 'unknown'],
+      ['api', 'degraded'],
+    ]);
+    pool.dispose();
+  });
+
+  it('fails over after endpointFailureThreshold failures and re-probes every mirror', async () => {
+    const { transport, down, probes } = createProbeTransport();
+    down.add('api.iranverse.com');
+    const pool = new EndpointPool(MIRRORS, { healthPath: '/health', transport });
+    pool.reportSuccess('api', 40);
+    pool.reportSuccess('api-ir', 120);
+    probes.length = 0;
+
+    failTimes(pool, 'api', NETWORK_CONFIG.endpointFailureThreshold);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(pool.getActive()).toMatchObject({ id: 'api-ir', status: 'healthy' });
+    expect(pool.getSnapshot().endpoints[1]).toMatchObject({ id: 'api', status: 'unhealthy' });
+    expect(probes.sort()).toEqual(['api.iranverse.com', 'api.iranverse.ir']);
+    pool.dispose();
+  });
+
+  it('returns to the primary once it recovers after the cooldown', async () => {
+    const { transport, down } = createProbeTransport();
+    down.add('api.iranverse.com');
+    const pool = new EndpointPool(MIRRORS, { healthPath: '/health', transport });
+    failTimes(pool, 'api', NETWORK_CONFIG.endpointFailureThreshold);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(pool.getActive().id).toBe('api-ir');
+
+    down.delete('api.iranverse.com');
+    await jest.advanceTimersByTimeAsync(Math.max(NETWORK_CONFIG.endpointCooldown, NETWORK_CONFIG.healthProbeInterval) + 1);
+    pool.getActive(); // stale rankings start a background probe
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(pool.getActive()).toMatchObject({ id: 'api', status: 'healthy' });
+    pool.dispose();
+  });
+
+  it('ranks healthy mirrors by smoothed latency', () => {
+    const { transport } = createProbeTransport();
+    const pool = new EndpointPool(MIRRORS, { healthPath: '/health', transport });
+
+    pool.reportSuccess('api', 400);
+    pool.reportSuccess('api-ir', 100);
+    expect(pool.getActive().id).toBe('api-ir');
+
+    // One fast sample moves the average only part of the way
+    pool.reportSuccess('api', 10);
+    expect(pool.getSnapshot().endpoints.find(endpoint => endpoint.id === 'api')?.latency).toBe(283);
+    expect(pool.getActive().id).toBe('api-ir');
+    pool.dispose();
+  });
+
+  it('gives domestic mirrors the latency margin when preferred', () => {
+    const { transport } = createProbeTransport();
+    const pool = new EndpointPool(MIRRORS, { healthPath: '/health', transport, preferDomestic: true });
+
+    pool.reportSuccess('api', 100);
+    pool.reportSuccess('api-ir', 100 + NETWORK_CONFIG.domesticLatencyMargin - 1);
+
+    expect(pool.getActive().id).toBe('api-ir');
+    pool.dispose();
+  });
+
+  it('marks a reachable mirror reporting trouble as degraded', async () => {
+    const transport: HttpTransport = {
+      name: 'stub',
+      send: async request => reply(200, { status: new URL(request.url).host.endsWith('.ir') ? 'degraded' : 'ok' }),
+    };
+    const pool = new EndpointPool(MIRRORS, { healthPath: '/health', transport });
+
+    await pool.probe();
+
+    expect(pool.getSnapshot().endpoints.map(endpoint => [endpoint.id, endpoint.status])).toEqual([
+      ['api', 'healthy'],
+      ['api-ir', 'degraded'],
+    ]);
+    pool.dispose();
+  });
+
+  it('rewrites pool URLs onto the best mirror and leaves others alone', async () => {
+    const { transport, down } = createProbeTransport();
+    down.add('api.iranverse.com');
+    const pool = new EndpointPool(MIRRORS, { healthPath: '/health', transport });
+    failTimes(pool, 'api', NETWORK_CONFIG.endpointFailureThreshold);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(pool.resolveUrl('https://api.iranverse.com/v1/avatars/1.glb')).toBe('https://api.iranverse.ir/v1/avatars/1.glb');
+    expect(pool.getUrlCandidates('https://api.iranverse.com/v1/avatars/1.glb')).toEqual([
+      'https://api.iranverse.ir/v1/avatars/1.glb',
+      'https://api.iranverse.com/v1/avatars/1.glb',
+    ]);
+    expect(pool.resolveUrl('https://models.readyplayer.me/1.glb')).toBe('https://models.readyplayer.me/1.glb');
+    pool.dispose();
+  });
+});
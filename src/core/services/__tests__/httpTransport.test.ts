@@ -0,0 +1,78 @@
+// src/core/services/__tests__/httpTransport.test.ts
+// IRANVERSE HTTP Transport Tests
+// Caller cancellation, the request timeout and releasing both once fetch settles
+// Built for 90M users - A long-lived screen signal never collects dead listeners
+import { fetchTransport } from '../httpTransport';
+import { TransportRequest } from '../../types/api';
+
+const request = (extra: Partial<TransportRequest> = {}): TransportRequest => ({
+  url: 'https://api.iranverse.com/health',
+  path: '/health',
+  method: 'GET',
+  headers: {},
+  timeout: 1000,
+  ...extra,
+});
+
+/**
+ * fetch that never answers on its own - it rejects with the signal's reason once aborted
+ */
+const hangingFetch = (): typeof fetch => jest.fn((_input, init) => new Promise<Response>((_resolve, reject) => {
+  init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+}));
+
+describe('fetchTransport', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.useRealTimers();
+  });
+
+  it('parses the response and releases the caller signal and timer', async () => {
+    jest.useFakeTimers();
+    global.fetch = jest.fn(async () => new Response(JSON.stringify({ status: 'ok' }), {
+      status: 200,
+      headers: { 'X-Request-Id': 'req-1' },
+    }));
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+    const response = await fetchTransport.send(request({ signal: controller.signal }));
+
+    expect(response).toMatchObject({ ok: true, status: 200, data: { status: 'ok' }, headers: { 'x-request-id': 'req-1' } });
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('releases the caller signal when fetch fails', async () => {
+    global.fetch = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    });
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+    await expect(fetchTransport.send(request({ signal: controller.signal }))).rejects.toThrow('Network request failed');
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('aborts with the caller\'s reason when the caller cancels', async () => {
+    global.fetch = hangingFetch();
+    const controller = new AbortController();
+
+    const pending = fetchTransport.send(request({ signal: controller.signal }));
+    controller.abort(Object.assign(new Error('Screen closed'), { name: 'AbortError' }));
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError', message: 'Screen closed' });
+  });
+
+  it('aborts with a TimeoutError once the timeout passes', async () => {
+    jest.useFakeTimers();
+    global.fetch = hangingFetch();
+
+    const pending = fetchTransport.send(request({ timeout: 1000 }));
+    jest.advanceTimersByTime(1000);
+
+    await expect(pending).rejects.toMatchObject({ name: 'TimeoutError' });
+  });
+});
@@ -0,0 +1,219 @@
+// src/core/services/__tests__/offlineQueue.test.ts
+// IRANVERSE Offline Queue Tests
+// FIFO replay, transient failures and their backoff, conflicts and mutations restored from storage
+// Built for 90M users - Nothing written offline is lost or sent twice
+import { ApiError, ApiRequestConfig, QueuedMutation } from '../../types/api';
+import { OfflineMutationQueue } from '../offlineQueue';
+
+const mockStore = new Map<string, unknown>();
+
+jest.mock('../../utils/storage', () => ({
+  STORAGE_KEYS: { offlineQueue: { key: '@iranverse:sync:offline_queue', namespace: 'sync' } },
+  secureStorage: {
+    getItem: jest.fn(async ({ key }: { key: string }) => ({ success: true, data: mockStore.get(key) ?? null })),
+    setItem: jest.fn(async ({ key }: { key: string }, value: unknown) => {
+      mockStore.set(key, JSON.parse(JSON.stringify(value)));
+      return { success: true };
+    }),
+  },
+}));
+
+jest.mock('expo-crypto', () => {
+  let counter = 0;
+  return { randomUUID: () => `uuid-${++counter}` };
+});
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: {
+    addEventListener: jest.fn(() => jest.fn()),
+    fetch: jest.fn(async () => ({ isConnected: true, isInternetReachable: true })),
+  },
+}));
+
+const STORE_KEY = '@iranverse:sync:offline_queue';
+
+const mutation = (url: string, data?: unknown): ApiRequestConfig =>
+  ({ method: 'POST', url, data }) as ApiRequestConfig;
+
+const apiError = (type: ApiError['type'], extra: Partial<ApiError> = {}) =>
+  ({ type, retryable: false, ...extra }) as ApiError;
+
+describe('OfflineMutationQueue', () => {
+  beforeEach(() => {
+    mockStore.clear();
+  });
+
+  it('persists a queued mutation with an idempotency key', async () => {
+    const queue = new OfflineMutationQueue();
+
+    const queued = await queue.enqueue(mutation('/users/me/settings', { theme: 'dark' }));
+
+    expect(queued).toMatchObject({ status: 'queued', attempts: 0, requiresAuth: true, idempotencyKey: expect.any(String) });
+    expect(mockStore.get(STORE_KEY)).toEqual([expect.objectContaining({ id: queued.id, url: '/users/me/settings' })]);
+    expect(queue.getSnapshot().queuedCount).toBe(1);
+  });
+
+  it('keeps the caller\'s idempotency key', async () => {
+    const queue = new OfflineMutationQueue();
+
+    const queued = await queue.enqueue({ ...mutation('/posts'), idempotencyKey: 'key-1' } as ApiRequestConfig);
+
+    expect(queued.idempotencyKey).toBe('key-1');
+  });
+
+  it('replays in order and removes what was sent', async () => {
+    const queue = new OfflineMutationQueue();
+    await queue.enqueue(mutation('/first'));
+    await queue.enqueue(mutation('/second'));
+    const sent: string[] = [];
+    queue.attach(async item => {
+      sent.push(item.url);
+      return { success: true } as never;
+    });
+
+    await queue.replay();
+
+    expect(sent).toEqual(['/first', '/second']);
+    expect(queue.getSnapshot().items).toEqual([]);
+    expect(mockStore.get(STORE_KEY)).toEqual([]);
+    queue.detach();
+  });
+
+  it('stops at the first transient failure and keeps the rest queued', async () => {
+    const queue = new OfflineMutationQueue();
+    await queue.enqueue(mutation('/first'));
+    await queue.enqueue(mutation('/second'));
+    const executor = jest.fn().mockRejectedValue(apiError('NETWORK_ERROR'));
+    queue.attach(executor);
+
+    await queue.replay();
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(queue.getSnapshot().items.map(item => [item.url, item.status, item.attempts])).toEqual([
+      ['/first', 'queued', 1],
+      ['/second', 'queued', 0],
+    ]);
+    queue.detach();
+  });
+
+  it('retries a replay that stalled while online, backing off between attempts', async () => {
+    jest.useFakeTimers();
+    const queue = new OfflineMutationQueue({ retryDelay: 1000, retryMultiplier: 2, maxRetryDelay: 60000 });
+    await queue.enqueue(mutation('/first'));
+    const executor = jest.fn()
+      .mockRejectedValueOnce(apiError('SERVICE_UNAVAILABLE', { status: 503, retryable: true }))
+      .mockRejectedValueOnce(apiError('NETWORK_ERROR'))
+      .mockResolvedValueOnce({ success: true });
+    queue.attach(executor);
+    await queue.replay();
+    expect(executor).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(executor).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(executor).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(executor).toHaveBeenCalledTimes(3);
+    expect(queue.getSnapshot().items).toEqual([]);
+    expect(jest.getTimerCount()).toBe(0);
+    queue.detach();
+    jest.useRealTimers();
+  });
+
+  it('cancels the scheduled retry on detach', async () => {
+    jest.useFakeTimers();
+    const queue = new OfflineMutationQueue({ retryDelay: 1000, retryMultiplier: 2, maxRetryDelay: 60000 });
+    await queue.enqueue(mutation('/first'));
+    const executor = jest.fn().mockRejectedValue(apiError('NETWORK_ERROR'));
+    queue.attach(executor);
+    await queue.replay();
+
+    queue.detach();
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+    jest.useRealTimers();
+  });
+
+  it('parks conflicts and permanent failures and moves on', async () => {
+    const queue = new OfflineMutationQueue();
+    await queue.enqueue(mutation('/conflict'));
+    await queue.enqueue(mutation('/invalid'));
+    await queue.enqueue(mutation('/ok'));
+    queue.attach(async item => {
+      if (item.url === '/conflict') throw apiError('CONFLICT', { status: 409 });
+      if (item.url === '/invalid') throw apiError('VALIDATION_ERROR', { status: 422 });
+      return { success: true } as never;
+    });
+
+    await queue.replay();
+
+    const snapshot = queue.getSnapshot();
+    expect(snapshot.items.map(item => [item.url, item.status])).toEqual([
+      ['/conflict', 'conflict'],
+      ['/invalid', 'failed'],
+    ]);
+    expect(snapshot).toMatchObject({ queuedCount: 0, conflictCount: 1, failedCount: 1 });
+    queue.detach();
+  });
+
+  it('re-queues a conflict under a new idempotency key', async () => {
+    const queue = new OfflineMutationQueue();
+    const queued = await queue.enqueue(mutation('/conflict'));
+    const keys: string[] = [];
+    queue.attach(async item => {
+      keys.push(item.idempotencyKey);
+      if (keys.length === 1) throw apiError('CONFLICT', { status: 409 });
+      return { success: true } as never;
+    });
+    await queue.replay();
+
+    await queue.retry(queued.id);
+
+    expect(keys).toHaveLength(2);
+    expect(keys[1]).not.toBe(keys[0]);
+    expect(queue.getSnapshot().items).toEqual([]);
+    queue.detach();
+  });
+
+  it('restores mutations interrupted mid-replay as queued', async () => {
+    const interrupted: QueuedMutation = {
+      id: 'mut_1',
+      idempotencyKey: 'key-1',
+      method: 'POST',
+      url: '/first',
+      requiresAuth: true,
+      status: 'replaying',
+      attempts: 1,
+      createdAt: new Date().toISOString(),
+    };
+    mockStore.set(STORE_KEY, [interrupted]);
+    const queue = new OfflineMutationQueue();
+
+    await queue.enqueue(mutation('/second'));
+
+    expect(queue.getSnapshot().items.map(item => [item.url, item.status])).toEqual([
+      ['/first', 'queued'],
+      ['/second', 'queued'],
+    ]);
+  });
+
+  it('notifies subscribers until they unsubscribe', async () => {
+    const queue = new OfflineMutationQueue();
+    const listener = jest.fn();
+    const unsubscribe = queue.subscribe(listener);
+
+    await queue.enqueue(mutation('/first'));
+    const calls = listener.mock.calls.length;
+    unsubscribe();
+    await queue.clear();
+
+    expect(calls).toBeGreaterThan(0);
+    expect(listener).toHaveBeenCalledTimes(calls);
+    expect(queue.getSnapshot().items).toEqual([]);
+  });
+});
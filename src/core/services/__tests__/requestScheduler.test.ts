@@ -0,0 +1,113 @@
+// src/core/services/__tests__/requestScheduler.test.ts
+// IRANVERSE Request Scheduler Tests
+// Concurrency limit, priority order and aborting queued tasks
+// Built for 90M users - Critical calls jump the queue on congested networks
+import { RequestScheduler } from '../requestScheduler';
+
+/**
+ * A task that stays pending until the test settles it
+ */
+const deferred = <T = void>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('RequestScheduler', () => {
+  it('runs at most maxConcurrent tasks at once', async () => {
+    const scheduler = new RequestScheduler(2);
+    const tasks = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    tasks.forEach((task, index) => {
+      scheduler.schedule(() => {
+        started.push(index);
+        return task.promise;
+      });
+    });
+
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.getStats()).toEqual({ active: 2, queued: 1, maxConcurrent: 2 });
+
+    tasks[0].resolve();
+    await flush();
+
+    expect(started).toEqual([0, 1, 2]);
+    expect(scheduler.getStats().queued).toBe(0);
+  });
+
+  it('starts queued tasks highest priority first, FIFO within a priority', async () => {
+    const scheduler = new RequestScheduler(1);
+    const blocker = deferred();
+    const started: string[] = [];
+    const run = (name: string) => () => {
+      started.push(name);
+      return Promise.resolve();
+    };
+
+    scheduler.schedule(() => blocker.promise);
+    scheduler.schedule(run('low'), 'low');
+    scheduler.schedule(run('normal-1'), 'normal');
+    scheduler.schedule(run('high'), 'high');
+    scheduler.schedule(run('normal-2'), 'normal');
+
+    blocker.resolve();
+    for (let i = 0; i < 10; i++) await flush();
+
+    expect(started).toEqual(['high', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('settles with the task result and frees the slot on failure', async () => {
+    const scheduler = new RequestScheduler(1);
+
+    await expect(scheduler.schedule(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(scheduler.schedule(() => Promise.resolve(42))).resolves.toBe(42);
+    expect(scheduler.getStats().active).toBe(0);
+  });
+
+  it('removes a queued task when its signal aborts', async () => {
+    const scheduler = new RequestScheduler(1);
+    const blocker = deferred();
+    const controller = new AbortController();
+    const task = jest.fn(() => Promise.resolve());
+
+    scheduler.schedule(() => blocker.promise);
+    const queued = scheduler.schedule(task, 'normal', controller.signal);
+    controller.abort(new Error('cancelled'));
+
+    await expect(queued).rejects.toThrow('cancelled');
+    expect(scheduler.getStats().queued).toBe(0);
+
+    blocker.resolve();
+    await flush();
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('rejects immediately for an already aborted signal', async () => {
+    const scheduler = new RequestScheduler(1);
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+
+    await expect(scheduler.schedule(() => Promise.resolve(), 'high', controller.signal)).rejects.toThrow('cancelled');
+    expect(scheduler.getStats()).toEqual({ active: 0, queued: 0, maxConcurrent: 1 });
+  });
+
+  it('starts waiting tasks when the limit is raised', () => {
+    const scheduler = new RequestScheduler(1);
+    const started: number[] = [];
+    [0, 1, 2].forEach(index => scheduler.schedule(() => {
+      started.push(index);
+      return new Promise<void>(() => undefined);
+    }));
+
+    scheduler.setMaxConcurrent(3);
+
+    expect(started).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,211 @@
+// src/core/services/__tests__/responseCache.test.ts
+// IRANVERSE Response Cache Tests
+// TTL freshness, the stale window, ETag revalidation and stale-while-revalidate reads
+// Built for 90M users - Cold starts read from disk, the network only confirms
+import { API_ENDPOINTS, ApiClient } from '../../constants/api';
+import { ApiCacheConfig, ApiCachePolicy, ApiResponse, HttpTransport, TransportRequest, TransportResponse } from '../../types/api';
+import { ResponseCache } from '../responseCache';
+
+const mockStore = new Map<string, unknown>();
+
+jest.mock('../../utils/storage', () => ({
+  ...jest.requireActual('../../utils/storage'),
+  secureStorage: {
+    getItem: jest.fn(async ({ key }: { key: string }) => ({ success: true, data: mockStore.get(key) ?? null })),
+    setItem: jest.fn(async ({ key }: { key: string }, value: unknown) => {
+      mockStore.set(key, JSON.parse(JSON.stringify(value)));
+      return { success: true };
+    }),
+    removeItem: jest.fn(async ({ key }: { key: string }) => {
+      mockStore.delete(key);
+      return { success: true };
+    }),
+  },
+}));
+
+const SWR: ApiCachePolicy = { ttl: 60, staleTtl: 300, strategy: 'stale-while-revalidate' };
+
+const CONFIG: ApiCacheConfig = {
+  enabled: true,
+  defaultTtl: 60,
+  maxSize: 1024 * 1024,
+  strategies: { '/feed': SWR, '/profile': { ttl: 60, strategy: 'network-first' } },
+};
+
+const response = <T>(data: T): ApiResponse<T> => ({
+  success: true,
+  message: 'ok',
+  data,
+  requestId: 'req-1',
+  timestamp: new Date().toISOString(),
+});
+
+const reply = (status: number, data: unknown, headers: Record<string, string> = {}): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: String(status),
+  headers,
+  data,
+});
+
+/**
+ * Transport answering through `respond` - mirror health probes are answered and not recorded
+ */
+const createTransport = (respond: (request: TransportRequest) => TransportResponse) => {
+  const sent: TransportRequest[] = [];
+  const transport: HttpTransport = {
+    name: 'stub',
+    send: async request => {
+      if (request.path === API_ENDPOINTS.SYSTEM.HEALTH) return reply(200, { status: 'ok' });
+      sent.push(request);
+      return respond(request);
+    },
+  };
+  return { transport, sent };
+};
+
+/**
+ * Let a background revalidation started by a stale read finish
+ */
+const flushBackground = async () => {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve();
+  }
+  await new Promise(resolve => setImmediate(resolve));
+};
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    mockStore.clear();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('serves an entry as fresh for its TTL, then as stale until the stale window ends', async () => {
+    const cache = new ResponseCache(CONFIG);
+    await cache.set('GET /feed', response({ posts: 1 }), SWR);
+
+    expect(cache.isFresh((await cache.get('GET /feed'))!)).toBe(true);
+
+    jest.advanceTimersByTime(60 * 1000);
+    const stale = await cache.get('GET /feed');
+    expect(stale?.response.data).toEqual({ posts: 1 });
+    expect(cache.isFresh(stale!)).toBe(false);
+
+    jest.advanceTimersByTime(300 * 1000);
+    expect(await cache.get('GET /feed')).toBeNull();
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  it('extends an entry touched after a 304 without rewriting its body', async () => {
+    const cache = new ResponseCache(CONFIG);
+    await cache.set('GET /feed', response({ posts: 1 }), SWR, { etag: '"v1"' });
+    jest.advanceTimersByTime(59 * 1000);
+
+    await cache.touch('GET /feed', SWR);
+    jest.advanceTimersByTime(30 * 1000);
+
+    const entry = await cache.get('GET /feed');
+    expect(cache.isFresh(entry!)).toBe(true);
+    expect(entry).toMatchObject({ etag: '"v1"', response: { data: { posts: 1 } } });
+  });
+
+  it('reads entries persisted by an earlier launch', async () => {
+    await new ResponseCache(CONFIG).set('GET /feed', response({ posts: 1 }), SWR);
+
+    const relaunched = new ResponseCache(CONFIG);
+
+    expect((await relaunched.get('GET /feed'))?.response.data).toEqual({ posts: 1 });
+  });
+
+  it('drops entries related to a mutated endpoint', async () => {
+    const cache = new ResponseCache(CONFIG);
+    await cache.set('GET /users/me', { ...response({ id: 1 }), metadata: { endpoint: '/users/me' } as never }, SWR);
+    await cache.set('GET /feed', { ...response({ posts: 1 }), metadata: { endpoint: '/feed' } as never }, SWR);
+
+    await cache.invalidate('/users/me/settings');
+
+    expect(await cache.get('GET /users/me')).toBeNull();
+    expect(await cache.get('GET /feed')).not.toBeNull();
+  });
+
+  it('evicts the least recently used entry to stay under maxSize', async () => {
+    const cache = new ResponseCache({ ...CONFIG, maxSize: 900 });
+    await cache.set('GET /a', response({ body: 'a'.repeat(100) }), SWR);
+    await cache.set('GET /b', response({ body: 'b'.repeat(100) }), SWR);
+    jest.advanceTimersByTime(1000);
+    await cache.get('GET /a');
+
+    await cache.set('GET /c', response({ body: 'c'.repeat(100) }), SWR);
+
+    expect(await cache.get('GET /a')).not.toBeNull();
+    expect(await cache.get('GET /b')).toBeNull();
+    expect(await cache.get('GET /c')).not.toBeNull();
+  });
+});
+
+describe('ApiClient cached GETs', () => {
+  beforeEach(() => {
+    mockStore.clear();
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    jest.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createClient = (transport: HttpTransport) =>
+    new ApiClient({ environment: 'production', transport, cache: new ResponseCache(CONFIG), offlineQueue: null });
+
+  it('answers a fresh entry without the network', async () => {
+    const { transport, sent } = createTransport(() => reply(200, { data: { posts: 1 } }, { etag: '"v1"' }));
+    const client = createClient(transport);
+
+    await client.request({ method: 'GET', url: '/feed', requiresAuth: false });
+    const cached = await client.request({ method: 'GET', url: '/feed', requiresAuth: false });
+
+    expect(sent).toHaveLength(1);
+    expect(cached.metadata?.cache).toMatchObject({ hit: true, stale: false, etag: '"v1"' });
+  });
+
+  it('serves a stale entry at once and revalidates it with its ETag in the background', async () => {
+    const replies = [
+      reply(200, { data: { posts: 1 } }, { etag: '"v1"' }),
+      reply(200, { data: { posts: 2 } }, { etag: '"v2"' }),
+    ];
+    const { transport, sent } = createTransport(() => replies.shift()!);
+    const client = createClient(transport);
+    await client.request({ method: 'GET', url: '/feed', requiresAuth: false });
+    jest.advanceTimersByTime(61 * 1000);
+
+    const stale = await client.request({ method: 'GET', url: '/feed', requiresAuth: false });
+    await flushBackground();
+
+    expect(stale.data).toEqual({ posts: 1 });
+    expect(stale.metadata?.cache).toMatchObject({ hit: true, stale: true });
+    expect(sent[1].headers['If-None-Match']).toBe('"v1"');
+
+    const revalidated = await client.request({ method: 'GET', url: '/feed', requiresAuth: false });
+    expect(revalidated.data).toEqual({ posts: 2 });
+    expect(revalidated.metadata?.cache).toMatchObject({ hit: true, stale: false, etag: '"v2"' });
+    expect(sent).toHaveLength(2);
+  });
+
+  it('asks network-first endpoints with the ETag and keeps the body on 304 Not Modified', async () => {
+    const replies = [reply(200, { data: { name: 'Sara' } }, { etag: '"v1"' }), reply(304, null, { etag: '"v1"' })];
+    const { transport, sent } = createTransport(() => replies.shift()!);
+    const client = createClient(transport);
+    await client.request({ method: 'GET', url: '/profile', requiresAuth: false });
+
+    const revalidated = await client.request({ method: 'GET', url: '/profile', requiresAuth: false });
+
+    expect(sent[1].headers['If-None-Match']).toBe('"v1"');
+    expect(revalidated.data).toEqual({ name: 'Sara' });
+    expect(revalidated.metadata?.cache).toMatchObject({ hit: true, stale: false, revalidated: true });
+  });
+});
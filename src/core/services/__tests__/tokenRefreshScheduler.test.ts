@@ -0,0 +1,165 @@
+// src/core/services/__tests__/tokenRefreshScheduler.test.ts
+// IRANVERSE Token Refresh Scheduler Tests
+// Single-flight refreshes, rotation, session changes mid-refresh and the proactive timer
+// Built for 90M users - A rotated refresh token is never spent twice
+import { RefreshTokenApiResponse } from '../../types/api';
+import { RefreshTokenRejectedError, TokenEvent, TokenRefreshScheduler } from '../tokenRefreshScheduler';
+
+// storage.ts pulls in the keychain and AES natives - only the JWT decoding is needed here
+jest.mock('../../utils/storage', () => ({
+  getTokenClaims: (token: string) => {
+    try {
+      const payload = JSON.parse(atob(token.split('.')[1]));
+      return { exp: payload.exp, iat: payload.iat };
+    } catch {
+      return null;
+    }
+  },
+}));
+
+const jwt = (claims: { exp: number; iat?: number }) => `header.${btoa(JSON.stringify(claims))}.signature`;
+
+const refreshResponse = (accessToken: string, refreshToken: string) =>
+  ({ tokens: { accessToken, refreshToken } }) as RefreshTokenApiResponse;
+
+const createScheduler = () => {
+  const scheduler = new TokenRefreshScheduler({ refreshBuffer: 60, retryDelay: 30 });
+  const events: TokenEvent[] = [];
+  scheduler.subscribe(event => events.push(event));
+  return { scheduler, events };
+};
+
+describe('TokenRefreshScheduler', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('joins concurrent refreshes into one request', async () => {
+    const { scheduler } = createScheduler();
+    const executor = jest.fn().mockResolvedValue(refreshResponse('access-2', 'refresh-2'));
+    scheduler.attach(executor);
+    scheduler.setDeviceId('device-1');
+    scheduler.setTokens({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+
+    const [first, second] = await Promise.all([scheduler.refresh(), scheduler.refresh()]);
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(executor).toHaveBeenCalledWith('refresh-1', 'device-1');
+    expect(first).toBe(second);
+  });
+
+  it('stores the rotated pair and announces it', async () => {
+    const { scheduler, events } = createScheduler();
+    scheduler.attach(jest.fn().mockResolvedValue(refreshResponse('access-2', 'refresh-2')));
+    scheduler.setTokens({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+
+    await scheduler.refresh();
+
+    expect(scheduler.getTokens()).toEqual({ accessToken: 'access-2', refreshToken: 'refresh-2' });
+    expect(events.map(event => event.type)).toEqual(['set', 'refreshed']);
+  });
+
+  it('keeps the old refresh token when none is issued', async () => {
+    const { scheduler } = createScheduler();
+    scheduler.attach(jest.fn().mockResolvedValue(refreshResponse('access-2', '')));
+    scheduler.setTokens({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+
+    await scheduler.refresh();
+
+    expect(scheduler.getTokens()).toEqual({ accessToken: 'access-2', refreshToken: 'refresh-1' });
+  });
+
+  it('discards a refresh that finishes after the session changed', async () => {
+    const { scheduler } = createScheduler();
+    let finish!: (data: RefreshTokenApiResponse) => void;
+    scheduler.attach(() => new Promise(resolve => {
+      finish = resolve;
+    }));
+    scheduler.setTokens({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+
+    const pending = scheduler.refresh();
+    scheduler.setTokens({ accessToken: 'access-b', refreshToken: 'refresh-b' });
+    finish(refreshResponse('access-2', 'refresh-2'));
+
+    await expect(pending).rejects.toThrow('Session changed during token refresh');
+    expect(scheduler.getTokens()).toEqual({ accessToken: 'access-b', refreshToken: 'refresh-b' });
+  });
+
+  it('ends the session when the server rejects the refresh token', async () => {
+    const { scheduler, events } = createScheduler();
+    scheduler.attach(jest.fn().mockRejectedValue(new RefreshTokenRejectedError()));
+    scheduler.setTokens({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+
+    await expect(scheduler.refresh()).rejects.toBeInstanceOf(RefreshTokenRejectedError);
+
+    expect(events[events.length - 1]).toMatchObject({ type: 'refresh_failed', sessionEnded: true });
+  });
+
+  it('enters a session from an outside refresh token only once the server accepts it', async () => {
+    const { scheduler, events } = createScheduler();
+    const executor = jest.fn().mockResolvedValue(refreshResponse('access-2', 'refresh-2'));
+    scheduler.attach(executor);
+
+    await scheduler.refreshFrom('vault-refresh');
+
+    expect(executor).toHaveBeenCalledWith('vault-refresh', 'unknown');
+    expect(scheduler.getTokens()).toEqual({ accessToken: 'access-2', refreshToken: 'refresh-2' });
+    expect(events.map(event => event.type)).toEqual(['refreshed']);
+  });
+
+  it('leaves the current pair alone when an outside refresh token is rejected', async () => {
+    const { scheduler, events } = createScheduler();
+    scheduler.attach(jest.fn().mockRejectedValue(new RefreshTokenRejectedError()));
+    scheduler.setTokens({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+
+    await expect(scheduler.refreshFrom('vault-refresh')).rejects.toBeInstanceOf(RefreshTokenRejectedError);
+
+    expect(scheduler.getTokens()).toEqual({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+    expect(events.map(event => event.type)).toEqual(['set']);
+    scheduler.setTokens(null);
+  });
+
+  it('retries after retryDelay when the network fails', async () => {
+    jest.useFakeTimers();
+    const { scheduler, events } = createScheduler();
+    const executor = jest.fn()
+      .mockRejectedValueOnce(new Error('Network request failed'))
+      .mockResolvedValueOnce(refreshResponse('access-2', 'refresh-2'));
+    scheduler.attach(executor);
+    scheduler.setTokens({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+
+    await expect(scheduler.refresh()).rejects.toThrow('Network request failed');
+    expect(events[events.length - 1]).toMatchObject({ type: 'refresh_failed', sessionEnded: false });
+
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(executor).toHaveBeenCalledTimes(2);
+    expect(scheduler.getTokens()?.refreshToken).toBe('refresh-2');
+  });
+
+  it('refreshes refreshBuffer seconds before the access token expires', async () => {
+    jest.useFakeTimers();
+    const now = Math.floor(Date.now() / 1000);
+    const { scheduler } = createScheduler();
+    const executor = jest.fn().mockResolvedValue(refreshResponse('access-2', 'refresh-2'));
+    scheduler.attach(executor);
+    scheduler.setTokens({ accessToken: jwt({ iat: now, exp: now + 3600 }), refreshToken: 'refresh-1' });
+
+    await jest.advanceTimersByTimeAsync((3600 - 60) * 1000 - 1000);
+    expect(executor).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(executor).toHaveBeenCalledTimes(1);
+
+    scheduler.setTokens(null);
+  });
+
+  it('fails without tokens or an attached client', async () => {
+    const { scheduler } = createScheduler();
+    await expect(scheduler.refresh()).rejects.toThrow('No refresh token available');
+
+    scheduler.setTokens({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+    await expect(scheduler.refresh()).rejects.toThrow('No API client attached for token refresh');
+    scheduler.setTokens(null);
+  });
+});
@@ -0,0 +1,238 @@
+// src/core/services/__tests__/uploadManager.test.ts
+// IRANVERSE Upload Manager Tests
+// Chunked uploads, resuming a stored session, pause/resume and aborting
+// Built for 90M users - A dropped connection costs one chunk, not the whole file
+import { createHash } from 'crypto';
+import type { ApiClient } from '../../constants/api';
+import { ApiRequestConfig, FileUploadApiRequest, UploadStatus } from '../../types/api';
+import { startUpload } from '../uploadManager';
+
+const mockStore = new Map<string, unknown>();
+
+jest.mock('../../utils/storage', () => ({
+  ...jest.requireActual('../../utils/storage'),
+  secureStorage: {
+    getItem: jest.fn(async ({ key }: { key: string }) => ({ success: true, data: mockStore.get(key) ?? null })),
+    setItem: jest.fn(async ({ key }: { key: string }, value: unknown) => {
+      mockStore.set(key, JSON.parse(JSON.stringify(value)));
+      return { success: true };
+    }),
+  },
+}));
+
+jest.mock('expo-crypto', () => {
+  const nodeCrypto = jest.requireActual<typeof import('crypto')>('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    digest: async (_algorithm: string, data: Uint8Array) => {
+      const hash = nodeCrypto.createHash('sha256').update(data).digest();
+      return hash.buffer.slice(hash.byteOffset, hash.byteOffset + hash.byteLength);
+    },
+  };
+});
+
+const SESSIONS_KEY = '@iranverse:upload:sessions';
+const ENDPOINTS = { upload: '/upload', sessions: '/upload/sessions' };
+const BYTES = new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+const CHECKSUM = createHash('sha256').update(BYTES).digest('hex');
+
+const REQUEST: FileUploadApiRequest = {
+  file: { uri: 'file:///avatar.glb', type: 'model/gltf-binary', name: 'avatar.glb', size: BYTES.byteLength },
+  category: 'avatar',
+};
+
+const session = (receivedChunks: number[] = []) => ({
+  uploadId: 'upload-1',
+  chunkSize: 4,
+  receivedChunks,
+  expiresAt: '2030-01-01T00:00:00.000Z',
+});
+
+const cancelledError = () => ({ type: 'REQUEST_CANCELLED', status: 0, retryable: false });
+
+/**
+ * ApiClient stand-in - chunk PUTs go through `putChunk` so tests can hold or fail them
+ */
+const createClient = (putChunk: (url: string, options: Partial<ApiRequestConfig>) => Promise<unknown> = async () => ({})) => {
+  const client = {
+    get: jest.fn(async () => ({ success: true, data: session() })),
+    post: jest.fn(async (url: string) => url.endsWith('/complete')
+      ? { success: true, data: { fileId: 'file-1', metadata: { checksum: CHECKSUM } } }
+      : { success: true, data: session() }),
+    put: jest.fn((url: string, _data: unknown, _requiresAuth: boolean, options: Partial<ApiRequestConfig>) =>
+      putChunk(url, options)),
+  };
+  return client;
+};
+
+const chunkUrls = (client: ReturnType<typeof createClient>) =>
+  client.put.mock.calls.map(([url]) => url);
+
+describe('startUpload (chunked)', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    mockStore.clear();
+    global.fetch = jest.fn(async () => ({ arrayBuffer: async () => BYTES.buffer.slice(0) })) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('sends every chunk with its byte range, then completes with the file checksum', async () => {
+    const client = createClient();
+    const progress: number[] = [];
+
+    const task = startUpload(client as unknown as ApiClient, ENDPOINTS, REQUEST, {
+      mode: 'chunked',
+      chunkSize: 4,
+      onProgress: update => progress.push(update.percent),
+    });
+    await task.promise;
+
+    expect(client.put.mock.calls.map(([, , , options]) => options.headers?.['Content-Range'])).toEqual([
+      'bytes 0-3/10',
+      'bytes 4-7/10',
+      'bytes 8-9/10',
+    ]);
+    expect(client.post).toHaveBeenLastCalledWith('/upload/sessions/upload-1/complete', { checksum: CHECKSUM }, true, expect.anything());
+    expect(progress[progress.length - 1]).toBe(100);
+    expect(task.getStatus()).toBe('completed');
+    expect(mockStore.get(SESSIONS_KEY)).toEqual({});
+  });
+
+  it('resumes a stored session and sends only the chunks the server is missing', async () => {
+    mockStore.set(SESSIONS_KEY, {
+      [`${ENDPOINTS.sessions}:${CHECKSUM}`]: { uploadId: 'upload-1', chunkSize: 4, createdAt: '2025-01-01T00:00:00.000Z' },
+    });
+    const client = createClient();
+    client.get.mockResolvedValueOnce({ success: true, data: session([0, 1]) });
+
+    await startUpload(client as unknown as ApiClient, ENDPOINTS, REQUEST, { mode: 'chunked', chunkSize: 4 }).promise;
+
+    expect(client.get).toHaveBeenCalledWith('/upload/sessions/upload-1', undefined, true, expect.anything());
+    expect(chunkUrls(client)).toEqual(['/upload/sessions/upload-1/chunks/2']);
+    expect(client.post.mock.calls.map(([url]) => url)).toEqual(['/upload/sessions/upload-1/complete']);
+  });
+
+  it('starts a new session when the stored one has expired', async () => {
+    mockStore.set(SESSIONS_KEY, {
+      [`${ENDPOINTS.sessions}:${CHECKSUM}`]: { uploadId: 'expired', chunkSize: 4, createdAt: '2025-01-01T00:00:00.000Z' },
+    });
+    const client = createClient();
+    client.get.mockRejectedValueOnce({ type: 'NOT_FOUND', status: 404 });
+
+    await startUpload(client as unknown as ApiClient, ENDPOINTS, REQUEST, { mode: 'chunked', chunkSize: 4 }).promise;
+
+    expect(client.post.mock.calls.map(([url]) => url)).toEqual(['/upload/sessions', '/upload/sessions/upload-1/complete']);
+    expect(chunkUrls(client)).toHaveLength(3);
+  });
+
+  it('re-sends only the interrupted chunk after a pause', async () => {
+    let holdFirstAttempt = true;
+    let started!: () => void;
+    const chunkStarted = new Promise<void>(resolve => {
+      started = resolve;
+    });
+    const client = createClient((url, options) => {
+      if (!url.endsWith('/chunks/1') || !holdFirstAttempt) return Promise.resolve({});
+      holdFirstAttempt = false;
+      started();
+      return new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(cancelledError()));
+      });
+    });
+    const statuses: UploadStatus[] = [];
+
+    const task = startUpload(client as unknown as ApiClient, ENDPOINTS, REQUEST, {
+      mode: 'chunked',
+      chunkSize: 4,
+      onStatusChange: status => statuses.push(status),
+    });
+    await chunkStarted;
+    task.pause();
+    await new Promise(resolve => setImmediate(resolve)); // the aborted attempt settles
+    expect(task.getProgress().uploadedBytes).toBe(4);
+    task.resume();
+    await task.promise;
+
+    expect(chunkUrls(client)).toEqual([
+      '/upload/sessions/upload-1/chunks/0',
+      '/upload/sessions/upload-1/chunks/1',
+      '/upload/sessions/upload-1/chunks/1',
+      '/upload/sessions/upload-1/chunks/2',
+    ]);
+    expect(statuses).toEqual(['uploading', 'paused', 'uploading', 'completed']);
+  });
+
+  it('stops and rejects as cancelled when the caller aborts', async () => {
+    let started!: () => void;
+    const chunkStarted = new Promise<void>(resolve => {
+      started = resolve;
+    });
+    const client = createClient((_url, options) => {
+      started();
+      return new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(cancelledError()));
+      });
+    });
+    const controller = new AbortController();
+
+    const task = startUpload(client as unknown as ApiClient, ENDPOINTS, REQUEST, {
+      mode: 'chunked',
+      chunkSize: 4,
+      signal: controller.signal,
+    });
+    await chunkStarted;
+    controller.abort();
+
+    await expect(task.promise).rejects.toMatchObject({ type: 'REQUEST_CANCELLED' });
+    expect(task.getStatus()).toBe('cancelled');
+    expect(chunkUrls(client)).toHaveLength(1);
+    expect(client.post.mock.calls.map(([url]) => url)).toEqual(['/upload/sessions']);
+  });
+
+  it('cancels a paused upload without sending anything more', async () => {
+    let started!: () => void;
+    const chunkStarted = new Promise<void>(resolve => {
+      started = resolve;
+    });
+    const client = createClient((_url, options) => {
+      started();
+      return new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(cancelledError()));
+      });
+    });
+
+    const task = startUpload(client as unknown as ApiClient, ENDPOINTS, REQUEST, { mode: 'chunked', chunkSize: 4 });
+    await chunkStarted;
+    task.pause();
+    task.cancel();
+
+    await expect(task.promise).rejects.toMatchObject({ type: 'REQUEST_CANCELLED' });
+    expect(chunkUrls(client)).toHaveLength(1);
+  });
+
+  it('fails when the server reports a different checksum', async () => {
+    const client = createClient();
+    client.post.mockImplementation(async (url: string) => url.endsWith('/complete')
+      ? { success: true, data: { fileId: 'file-1', metadata: { checksum: 'f'.repeat(64) } } }
+      : { success: true, data: session() });
+
+    const task = startUpload(client as unknown as ApiClient, ENDPOINTS, REQUEST, { mode: 'chunked', chunkSize: 4 });
+
+    await expect(task.promise).rejects.toMatchObject({ type: 'VALIDATION_ERROR' });
+    expect(task.getStatus()).toBe('failed');
+  });
+
+  it('refuses files above maxFileSize before reading them', async () => {
+    const client = createClient();
+
+    const task = startUpload(client as unknown as ApiClient, ENDPOINTS, REQUEST, { maxFileSize: 4 });
+
+    await expect(task.promise).rejects.toMatchObject({ type: 'PAYLOAD_TOO_LARGE' });
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(client.post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+// src/core/services/analyticsBatcher.ts
+// IRANVERSE Analytics Batcher
+// Buffers analytics events and flushes them per ANALYTICS_CONFIG.batching
+// Built for 90M users - One request per batch instead of one per tap
+import { AnalyticsEvent } from '../types/api';
+import { ANALYTICS_CONFIG } from '../config/app.config';
+
+// ========================================================================================
+// BATCHER TYPES
+// ========================================================================================
+
+/**
+ * Sends a batch to the backend (provided by analyticsApi)
+ */
+export type AnalyticsSender = (events: AnalyticsEvent[]) => Promise<unknown>;
+
+export interface AnalyticsBatchConfig {
+  enabled: boolean;
+  batchSize: number;
+  flushInterval: number; // milliseconds
+  maxBatchAge: number; // milliseconds - older events are dropped after failed sends
+}
+
+// ========================================================================================
+// ANALYTICS BATCHER
+// ========================================================================================
+
+/**
+ * In-memory event buffer flushed when full or after flushInterval
+ */
+export class AnalyticsBatcher {
+  private buffer: AnalyticsEvent[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushPromise: Promise<void> | null = null;
+
+  constructor(
+    private readonly send: AnalyticsSender,
+    private readonly config: AnalyticsBatchConfig = ANALYTICS_CONFIG.batching
+  ) {}
+
+  /**
+   * Buffer an event - sent immediately when batching is disabled
+   */
+  track(event: AnalyticsEvent): void {
+    this.buffer.push(event);
+
+    if (!this.config.enabled || this.buffer.length >= this.config.batchSize) {
+      this.flush().catch(() => {});
+      return;
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush().catch(() => {});
+      }, this.config.flushInterval);
+    }
+  }
+
+  /**
+   * Send everything buffered so far (single-flight)
+   * Failed batches go back to the buffer unless older than maxBatchAge
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (!this.flushPromise && this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, this.config.batchSize);
+
+      this.flushPromise = Promise.resolve(this.send(batch))
+        .then(() => undefined)
+        .catch(error => {
+          const cutoff = Date.now() - this.config.maxBatchAge;
+          const retained = batch.filter(event => Date.parse(event.timestamp) >= cutoff);
+          this.buffer.unshift(...retained);
+          throw error;
+        })
+        .finally(() => {
+          this.flushPromise = null;
+          // Leftovers beyond one batch go out on the next tick of the timer
+          if (this.buffer.length > 0 && !this.flushTimer) {
+            this.flushTimer = setTimeout(() => {
+              this.flushTimer = null;
+              this.flush().catch(() => {});
+            }, this.config.flushInterval);
+          }
+        });
+    }
+
+    return this.flushPromise ?? Promise.resolve();
+  }
+
+  /**
+   * Drop buffered events (e.g. on logout or analytics opt-out)
+   */
+  clear(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.buffer = [];
+  }
+
+  /**
+   * Number of events waiting to be sent
+   */
+  getPendingCount(): number {
+    return this.buffer.length;
+  }
+}
+
+export default AnalyticsBatcher;
@@ -0,0 +1,57 @@
+// src/core/services/authEvents.ts
+// IRANVERSE Auth Event Bus
+// Typed publish/subscribe for sign-in, sign-out, refresh and security events raised by AuthContext
+// Built for 90M users - Analytics, caches and the audit log react without AuthContext knowing them
+import type { AuthAnalytics, AuthEvent } from '../../features/auth/types';
+
+// ========================================================================================
+// EVENT BUS TYPES
+// ========================================================================================
+
+export type AuthEventListener = (event: AuthAnalytics) => void;
+
+/**
+ * How the user proved who they are - metadata.method on login_success / login_failure
+ */
+export type AuthMethod = 'password' | 'two_factor' | 'oauth' | 'magic_link' | 'phone' | 'biometric';
+
+/**
+ * Everything but the event name and timestamp
+ */
+export type AuthEventDetails = Omit<AuthAnalytics, 'event' | 'timestamp'>;
+
+// ========================================================================================
+// AUTH EVENT BUS
+// ========================================================================================
+
+/**
+ * Delivers events synchronously in subscription order - a failing listener is logged and skipped
+ */
+export class AuthEventBus {
+  private listeners = new Set<AuthEventListener>();
+
+  subscribe(listener: AuthEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: AuthEvent, details: AuthEventDetails): void {
+    const payload: AuthAnalytics = { ...details, event, timestamp: new Date() };
+    this.listeners.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.warn(`Auth event listener failed (${event}):`, error);
+      }
+    });
+  }
+}
+
+/**
+ * Process-wide bus - AuthContext and core services publish, any module may subscribe
+ */
+export const authEvents = new AuthEventBus();
+
+export default authEvents;
@@ -0,0 +1,146 @@
+// src/core/services/biometricVault.ts
+// IRANVERSE Biometric Vault
+// Refresh token kept behind a Face ID / fingerprint gated keychain key
+// Built for 90M users - Back into the app with a glance instead of a password
+import * as Keychain from 'react-native-keychain';
+import { Platform } from 'react-native';
+import { ENCRYPTION_CONFIG } from '../config/app.config';
+import { BiometryKind } from '../../features/auth/types';
+
+// ========================================================================================
+// VAULT TYPES
+// ========================================================================================
+
+/**
+ * Outcome of a biometric prompt
+ */
+export type BiometricUnlockResult =
+  | { status: 'success'; refreshToken: string }
+  | { status: 'cancelled' } // user dismissed the prompt or chose the password
+  | { status: 'unavailable' } // nothing stored, or the enrolled biometrics changed
+  | { status: 'failed'; error: unknown };
+
+const BIOMETRY_KINDS: Record<Keychain.BIOMETRY_TYPE, BiometryKind> = {
+  [Keychain.BIOMETRY_TYPE.FACE_ID]: 'face',
+  [Keychain.BIOMETRY_TYPE.FACE]: 'face',
+  [Keychain.BIOMETRY_TYPE.TOUCH_ID]: 'fingerprint',
+  [Keychain.BIOMETRY_TYPE.FINGERPRINT]: 'fingerprint',
+  [Keychain.BIOMETRY_TYPE.OPTIC_ID]: 'iris',
+  [Keychain.BIOMETRY_TYPE.IRIS]: 'iris',
+};
+
+// ========================================================================================
+// BIOMETRIC VAULT
+// ========================================================================================
+
+/**
+ * Single keychain item readable only after a biometric check
+ * Writes never prompt (RSA storage on Android), so rotated tokens can be saved silently
+ * Limitation: the released refresh token is all the server checks - there is no challenge signed by
+ * a biometric-gated key, so the gate protects this device's UI, not the token on the wire
+ */
+export class BiometricVault {
+  constructor(private readonly service: string = ENCRYPTION_CONFIG.biometricKeychainService) {}
+
+  /**
+   * Strongest biometric the device offers, null when none is enrolled
+   */
+  async getBiometryType(): Promise<BiometryKind | null> {
+    if (Platform.OS === 'web') return null;
+    try {
+      const type = await Keychain.getSupportedBiometryType();
+      return type ? BIOMETRY_KINDS[type] ?? null : null;
+    } catch (error) {
+      console.warn('Biometry check failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether a token is stored (never prompts)
+   */
+  async hasToken(): Promise<boolean> {
+    try {
+      return await Keychain.hasGenericPassword({ service: this.service });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Store or replace the refresh token
+   * Bound to the current biometric set - enrolling a new finger or face invalidates it
+   */
+  async store(refreshToken: string): Promise<boolean> {
+    try {
+      const result = await Keychain.setGenericPassword('refresh_token', refreshToken, {
+        service: this.service,
+        accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_CURRENT_SET,
+        accessible: Keychain.ACCESSIBLE.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+        securityLevel: Keychain.SECURITY_LEVEL.SECURE_HARDWARE,
+        storage: Keychain.STORAGE_TYPE.RSA,
+      });
+      return !!result;
+    } catch (error) {
+      console.warn('Failed to store biometric token:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Replace the stored token only if one is already enrolled (after a refresh rotates it)
+   */
+  async update(refreshToken: string): Promise<void> {
+    if (await this.hasToken()) {
+      await this.store(refreshToken);
+    }
+  }
+
+  /**
+   * Show the system biometric prompt and release the token
+   */
+  async unlock(title: string): Promise<BiometricUnlockResult> {
+    try {
+      const credentials = await Keychain.getGenericPassword({
+        service: this.service,
+        accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_CURRENT_SET,
+        authenticationPrompt: { title, cancel: 'Use password' },
+      });
+      return credentials ? { status: 'success', refreshToken: credentials.password } : { status: 'unavailable' };
+    } catch (error) {
+      if (isCancellation(error)) {
+        return { status: 'cancelled' };
+      }
+      if (isInvalidated(error)) {
+        await this.clear();
+        return { status: 'unavailable' };
+      }
+      return { status: 'failed', error };
+    }
+  }
+
+  /**
+   * Forget the stored token
+   */
+  async clear(): Promise<void> {
+    try {
+      await Keychain.resetGenericPassword({ service: this.service });
+    } catch (error) {
+      console.warn('Failed to clear biometric token:', error);
+    }
+  }
+}
+
+// Keychain rejects with platform messages rather than codes
+const isCancellation = (error: any): boolean =>
+  /cancel|negative button|user.*(fallback|abort)/i.test(String(error?.message ?? error));
+
+const isInvalidated = (error: any): boolean =>
+  /invalidated|KeyPermanentlyInvalidated|not found|-25300/i.test(String(error?.message ?? error));
+
+/**
+ * Shared vault used by AuthContext and biometric autofill
+ */
+export const biometricVault = new BiometricVault();
+
+export default biometricVault;
@@ -0,0 +1,277 @@
+// src/core/services/deepLinkRouter.ts
+// IRANVERSE Deep Link Router - Matches links against the ROUTE_METADATA deep link patterns
+// Typed screen params, auth/onboarding/avatar guards, and links held until sign-in finishes
+// Built for 90M users - Every linkable screen opens from a link without a hand-written branch
+import * as ExpoLinking from 'expo-linking';
+import type { RootStackParamList } from '../types/navigation';
+import { DEEP_LINK_CONFIG } from '../config/app.config';
+import {
+  DEEP_LINK_ACTION_PATTERNS,
+  ROUTE_METADATA,
+  ROUTES,
+  UserRole,
+  getDeepLinkPattern,
+  supportsDeepLink,
+  validateNavigation,
+} from '../constants/routes';
+import { AuthenticatedUser } from '../../features/auth/types';
+
+// ========================================================================================
+// ROUTER TYPES
+// ========================================================================================
+
+/**
+ * Screens that are both in the app stack and described in ROUTE_METADATA
+ */
+export type DeepLinkRoute = keyof RootStackParamList & keyof typeof ROUTE_METADATA;
+
+/**
+ * Links that run a flow instead of opening a screen - handled by DeepLinkHandler
+ */
+export type DeepLinkAction = keyof typeof DEEP_LINK_ACTION_PATTERNS;
+
+/**
+ * Path segments matched by ':name' plus query values - the first value wins for repeated keys
+ */
+export type DeepLinkParams = Record<string, string>;
+
+/**
+ * What the guards and param builders know about the user
+ */
+export interface DeepLinkSession {
+  isAuthenticated: boolean;
+  user: AuthenticatedUser | null;
+  accessToken: string | null;
+}
+
+export type DeepLinkTarget = {
+  [R in DeepLinkRoute]: { route: R; params: RootStackParamList[R] };
+}[DeepLinkRoute];
+
+export type DeepLinkResolution =
+  | { type: 'navigate'; target: DeepLinkTarget }
+  | { type: 'action'; action: DeepLinkAction; params: DeepLinkParams }
+  | { type: 'deferred'; route: DeepLinkRoute; redirect: DeepLinkTarget | null } // replayed after sign-in or onboarding
+  | { type: 'rejected'; reason: string }
+  | { type: 'unmatched' };
+
+type ParamBuilder<R extends DeepLinkRoute> = (
+  params: DeepLinkParams,
+  session: DeepLinkSession
+) => RootStackParamList[R] | null; // null when the link or session lacks a required param
+
+interface CompiledRoute {
+  route: DeepLinkRoute;
+  segments: string[];
+}
+
+interface PendingLink {
+  url: string;
+  receivedAt: number;
+}
+
+// ========================================================================================
+// ROUTE PARAMS
+// ========================================================================================
+
+const SCENE_TYPES = ['exploration', 'social', 'gaming'] as const;
+
+/**
+ * Params for every linkable screen - routes with a pattern but no builder are not in this build
+ */
+const PARAM_BUILDERS: { [R in DeepLinkRoute]?: ParamBuilder<R> } = {
+  Login: params => ({ email: params.email }),
+
+  Signup: () => undefined,
+
+  ForgotPassword: params => ({ email: params.email, token: params.token }),
+
+  Home: (_params, { user }) => (user ? { userId: user.id, userName: user.displayName } : null),
+
+  // Never take a model URL from a link - an empty URL loads the stored avatar
+  ThreeDScene: (params, { user }) => ({
+    avatarUrl: '',
+    userId: user?.id,
+    roomId: params.roomId,
+    sceneType: SCENE_TYPES.find(sceneType => sceneType === params.sceneType),
+  }),
+};
+
+const ACTION_PATTERNS: Record<DeepLinkAction, string> = DEEP_LINK_ACTION_PATTERNS;
+
+// Handled by the in-app browser session that started the sign-in
+const IGNORED_PATHS = ['oauth/callback'];
+
+// Where a signed-in user lands - held links replay from here
+const LANDING_ROUTE: DeepLinkRoute = 'Home';
+
+const PENDING_LINK_TTL = 10 * 60 * 1000; // ms - a link older than this is stale after sign-in
+
+// ========================================================================================
+// PATTERN MATCHING
+// ========================================================================================
+
+const toSegments = (path: string): string[] => path.split('/').filter(Boolean);
+
+/**
+ * 'iranverse://auth/reset-password' -> ['auth', 'reset-password']
+ */
+const compilePattern = (pattern: string): string[] =>
+  toSegments(pattern.replace(`${DEEP_LINK_CONFIG.scheme}://`, ''));
+
+/**
+ * Path params for a matching path - a segment that does not decode is no match
+ */
+export const matchSegments = (pattern: string[], path: string[]): DeepLinkParams | null => {
+  if (pattern.length !== path.length) return null;
+
+  const params: DeepLinkParams = {};
+  for (let index = 0; index < pattern.length; index++) {
+    if (pattern[index].startsWith(':')) {
+      try {
+        params[pattern[index].slice(1)] = decodeURIComponent(path[index]);
+      } catch {
+        return null; // malformed escape such as '%E0%A4%A'
+      }
+    } else if (pattern[index] !== path[index]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+const toParams = (queryParams: ExpoLinking.QueryParams | null | undefined): DeepLinkParams => {
+  const params: DeepLinkParams = {};
+  Object.entries(queryParams ?? {}).forEach(([key, value]) => {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'string') params[key] = first;
+  });
+  return params;
+};
+
+// ========================================================================================
+// DEEP LINK ROUTER
+// ========================================================================================
+
+/**
+ * Resolves links to typed navigation targets - navigation itself stays with DeepLinkHandler
+ */
+export class DeepLinkRouter {
+  private readonly routes: CompiledRoute[];
+  private pending: PendingLink | null = null;
+
+  constructor() {
+    this.routes = (Object.keys(ROUTE_METADATA) as (keyof typeof ROUTE_METADATA)[])
+      .filter((route): route is DeepLinkRoute => route in PARAM_BUILDERS && supportsDeepLink(route))
+      .map(route => ({ route, segments: compilePattern(getDeepLinkPattern(route)!) }));
+  }
+
+  /**
+   * Match a link and apply the route guards - held links are kept for replay()
+   */
+  resolve(url: string, session: DeepLinkSession): DeepLinkResolution {
+    const parsed = ExpoLinking.parse(url);
+    const { domains } = DEEP_LINK_CONFIG.universalLinks;
+    let path: string[];
+
+    if (parsed.scheme === DEEP_LINK_CONFIG.scheme) {
+      // Custom schemes parse their first segment as the host
+      path = [...toSegments(parsed.hostname ?? ''), ...toSegments(parsed.path ?? '')];
+    } else if (parsed.scheme === 'https' && (domains as readonly string[]).includes(parsed.hostname ?? '')) {
+      path = toSegments(parsed.path ?? '');
+    } else {
+      return { type: 'rejected', reason: `Invalid deep link origin: ${parsed.scheme}://${parsed.hostname ?? ''}` };
+    }
+
+    if (IGNORED_PATHS.includes(path.join('/'))) {
+      return { type: 'unmatched' };
+    }
+    const query = toParams(parsed.queryParams);
+
+    for (const [action, pattern] of Object.entries(ACTION_PATTERNS) as [DeepLinkAction, string][]) {
+      const pathParams = matchSegments(compilePattern(pattern), path);
+      if (pathParams) {
+        return { type: 'action', action, params: { ...query, ...pathParams } };
+      }
+    }
+
+    for (const { route, segments } of this.routes) {
+      const pathParams = matchSegments(segments, path);
+      if (pathParams) {
+        return this.guard(url, route, { ...query, ...pathParams }, session);
+      }
+    }
+
+    return { type: 'unmatched' };
+  }
+
+  /**
+   * The held link, once the user has signed in and reached the landing screen - taken at most once
+   */
+  replay(currentRoute: string | undefined, session: DeepLinkSession): string | null {
+    if (!this.pending || !session.isAuthenticated || currentRoute !== LANDING_ROUTE) {
+      return null;
+    }
+
+    const { url, receivedAt } = this.pending;
+    this.pending = null;
+    return Date.now() - receivedAt <= PENDING_LINK_TTL ? url : null;
+  }
+
+  clearPending(): void {
+    this.pending = null;
+  }
+
+  private guard(
+    url: string,
+    route: DeepLinkRoute,
+    params: DeepLinkParams,
+    session: DeepLinkSession
+  ): DeepLinkResolution {
+    const { user } = session;
+    // Onboarding is avatar creation - a user with an avatar has finished it
+    const hasAvatar = !!user?.hasAvatar;
+    const verdict = validateNavigation(route, {
+      isAuthenticated: session.isAuthenticated,
+      hasCompletedOnboarding: hasAvatar,
+      hasAvatar,
+      userRole: (session.isAuthenticated && user ? user.role : 'guest') as UserRole,
+      userPermissions: user?.permissions ?? [],
+    });
+
+    if (!verdict.allowed) {
+      if (verdict.redirectTo === ROUTES.AUTH_WELCOME) {
+        this.pending = { url, receivedAt: Date.now() };
+        return { type: 'deferred', route, redirect: { route: 'Login', params: { email: params.email } } };
+      }
+
+      if (verdict.redirectTo === ROUTES.AVATAR_CREATION) {
+        this.pending = { url, receivedAt: Date.now() };
+        const redirect: DeepLinkTarget | null = user && session.accessToken
+          ? {
+              route: 'AvatarCreation',
+              params: { userId: user.id, email: user.email, userName: user.displayName, accessToken: session.accessToken, isRequired: true },
+            }
+          : null;
+        return { type: 'deferred', route, redirect };
+      }
+
+      return { type: 'rejected', reason: verdict.reason ?? `Cannot open ${route}` };
+    }
+
+    const build = PARAM_BUILDERS[route] as ParamBuilder<typeof route>;
+    const routeParams = build(params, session);
+    if (routeParams === null) {
+      return { type: 'rejected', reason: `Link is missing parameters for ${route}` };
+    }
+
+    return { type: 'navigate', target: { route, params: routeParams } as DeepLinkTarget };
+  }
+}
+
+/**
+ * App-wide router - DeepLinkHandler resolves and replays links through it
+ */
+export const deepLinkRouter = new DeepLinkRouter();
+
+export default deepLinkRouter;
@@ -0,0 +1,357 @@
+// src/core/services/endpointHealth.ts
+// IRANVERSE Endpoint Health & Failover
+// Tracks international and domestic mirrors, ranks them by latency and fails over
+// Built for 90M users - Either route can disappear without warning inside Iran
+import NetInfo from '@react-native-community/netinfo';
+import {
+  HttpTransport,
+  EndpointDescriptor,
+  EndpointHealth,
+  EndpointPoolSnapshot,
+  EndpointStatus,
+} from '../types/api';
+import { fetchTransport } from './httpTransport';
+import { CDN_BASE_URL, IRANIAN_CDN_BASE, NETWORK_CONFIG, FEATURE_FLAGS } from '../config/app.config';
+
+// ========================================================================================
+// POOL TYPES
+// ========================================================================================
+
+/**
+ * Receives a fresh snapshot whenever ranking or health changes
+ */
+export type EndpointPoolListener = (snapshot: EndpointPoolSnapshot) => void;
+
+export interface EndpointPoolOptions {
+  healthPath: string; // probed with GET on every mirror
+  transport?: HttpTransport;
+  preferDomestic?: boolean; // give domestic mirrors NETWORK_CONFIG.domesticLatencyMargin
+}
+
+// Mirrors that are still usable sort before degraded and failed ones
+const STATUS_ORDER: EndpointStatus[] = ['healthy', 'unknown', 'degraded', 'unhealthy'];
+
+// Weight of the newest latency sample in the smoothed value
+const LATENCY_SMOOTHING = 0.3;
+
+// Gateway errors mean the route is broken, not the request
+const FAILOVER_STATUS_CODES = [502, 503, 504];
+
+/**
+ * Check if an HTTP status means the mirror itself is unavailable
+ */
+export const isEndpointFailureStatus = (status: number): boolean => {
+  return FAILOVER_STATUS_CODES.includes(status);
+};
+
+/**
+ * Strip trailing slash so `${url}${path}` is always well formed
+ */
+const normaliseUrl = (url: string): string => url.replace(/\/+$/, '');
+
+// ========================================================================================
+// ENDPOINT POOL - HEALTH TRACKING & RANKING
+// ========================================================================================
+
+/**
+ * Set of interchangeable mirrors ranked by health and latency
+ * Probing is lazy: the first lookup after NETWORK_CONFIG.healthProbeInterval
+ * (or after a connectivity change) re-probes every mirror in the background
+ */
+export class EndpointPool {
+  private endpoints: EndpointHealth[];
+  private listeners = new Set<EndpointPoolListener>();
+  private options: EndpointPoolOptions;
+  private probePromise: Promise<void> | null = null;
+  private lastProbeAt = 0;
+  private unsubscribeNetInfo: (() => void) | null = null;
+
+  constructor(endpoints: EndpointDescriptor[], options: EndpointPoolOptions) {
+    if (endpoints.length === 0) {
+      throw new Error('EndpointPool requires at least one endpoint');
+    }
+
+    this.options = options;
+    this.endpoints = endpoints.map(endpoint => ({
+      ...endpoint,
+      url: normaliseUrl(endpoint.url),
+      status: 'unknown',
+      consecutiveFailures: 0,
+    }));
+  }
+
+  /**
+   * Best mirror right now - kicks off a background probe when rankings are stale
+   */
+  getActive(): EndpointHealth {
+    this.probeIfStale();
+    return this.rank()[0];
+  }
+
+  /**
+   * Record a successful call
+   */
+  reportSuccess(id: string, latency?: number): void {
+    const endpoint = this.find(id);
+    if (!endpoint) return;
+
+    const changed = endpoint.status !== 'healthy';
+    endpoint.status = 'healthy';
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = undefined;
+    endpoint.lastError = undefined;
+    if (latency !== undefined) {
+      this.recordLatency(endpoint, latency);
+    }
+
+    if (changed) this.notify();
+  }
+
+  /**
+   * Record a route-level failure (network error, timeout, 502/503/504)
+   * After NETWORK_CONFIG.endpointFailureThreshold failures the mirror is benched
+   */
+  reportFailure(id: string, error?: string): void {
+    const endpoint = this.find(id);
+    if (!endpoint) return;
+
+    const wasActive = this.rank()[0].id === id;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error;
+    endpoint.lastCheck = new Date().toISOString();
+
+    if (endpoint.consecutiveFailures >= NETWORK_CONFIG.endpointFailureThreshold) {
+      endpoint.status = 'unhealthy';
+      endpoint.cooldownUntil = Date.now() + NETWORK_CONFIG.endpointCooldown;
+    } else {
+      endpoint.status = 'degraded';
+    }
+
+    this.notify();
+
+    // Losing the active mirror makes every other ranking suspect
+    if (wasActive && endpoint.status === 'unhealthy') {
+      this.probe().catch(() => {});
+    }
+  }
+
+  /**
+   * Failure reported by URL (e.g. an asset loader that only knows the full URL)
+   */
+  reportUrlFailure(url: string, error?: string): void {
+    const endpoint = this.findByUrl(url);
+    if (endpoint) {
+      this.reportFailure(endpoint.id, error);
+    }
+  }
+
+  /**
+   * Rewrite a URL served by any mirror onto the active mirror
+   * URLs outside the pool (e.g. Ready Player Me) are returned unchanged
+   */
+  resolveUrl(url: string): string {
+    return this.getUrlCandidates(url)[0];
+  }
+
+  /**
+   * Same resource on every mirror, best first - for loaders that retry themselves
+   */
+  getUrlCandidates(url: string): string[] {
+    const source = this.findByUrl(url);
+    if (!source) return [url];
+
+    const path = url.slice(source.url.length);
+    this.probeIfStale();
+    return this.rank().map(endpoint => `${endpoint.url}${path}`);
+  }
+
+  /**
+   * Probe every mirror's health endpoint (single-flight)
+   */
+  probe(): Promise<void> {
+    if (!this.probePromise) {
+      this.lastProbeAt = Date.now();
+      this.notify();
+
+      this.probePromise = Promise.all(this.endpoints.map(endpoint => this.probeEndpoint(endpoint)))
+        .then(() => undefined)
+        .finally(() => {
+          this.probePromise = null;
+          this.notify();
+        });
+    }
+    return this.probePromise;
+  }
+
+  /**
+   * Get ranked pool state
+   */
+  getSnapshot(): EndpointPoolSnapshot {
+    const endpoints = this.rank().map(endpoint => ({ ...endpoint }));
+    return {
+      active: endpoints[0],
+      endpoints,
+      lastProbe: this.lastProbeAt ? new Date(this.lastProbeAt).toISOString() : undefined,
+      isProbing: !!this.probePromise,
+    };
+  }
+
+  /**
+   * Subscribe to ranking changes
+   */
+  subscribe(listener: EndpointPoolListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop watching connectivity
+   */
+  dispose(): void {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+    this.listeners.clear();
+  }
+
+  /**
+   * Order mirrors: available before benched, then by status, then by latency
+   * Mirrors with equal scores keep their configured order (primary first)
+   */
+  private rank(): EndpointHealth[] {
+    const now = Date.now();
+    const isBenched = (endpoint: EndpointHealth) => !!endpoint.cooldownUntil && endpoint.cooldownUntil > now;
+
+    return this.endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .sort((a, b) => {
+        const benchedA = isBenched(a.endpoint);
+        const benchedB = isBenched(b.endpoint);
+        if (benchedA !== benchedB) return benchedA ? 1 : -1;
+
+        // Every mirror benched - the one returning soonest goes first
+        if (benchedA && benchedB) return a.endpoint.cooldownUntil! - b.endpoint.cooldownUntil!;
+
+        const statusDiff = STATUS_ORDER.indexOf(a.endpoint.status) - STATUS_ORDER.indexOf(b.endpoint.status);
+        if (statusDiff !== 0) return statusDiff;
+
+        return (this.getScore(a.endpoint) - this.getScore(b.endpoint)) || (a.index - b.index);
+      })
+      .map(({ endpoint }) => endpoint);
+  }
+
+  /**
+   * Effective latency used for ranking
+   */
+  private getScore(endpoint: EndpointHealth): number {
+    // Unprobed mirrors rank as if they were as slow as the probe timeout allows
+    const latency = endpoint.latency ?? NETWORK_CONFIG.healthProbeTimeout;
+    const bonus = this.options.preferDomestic && endpoint.region === 'domestic'
+      ? NETWORK_CONFIG.domesticLatencyMargin
+      : 0;
+    return latency - bonus;
+  }
+
+  /**
+   * Probe a single mirror and update its health
+   */
+  private async probeEndpoint(endpoint: EndpointHealth): Promise<void> {
+    const transport = this.options.transport || fetchTransport;
+    const startTime = Date.now();
+
+    try {
+      const response = await transport.send({
+        url: `${endpoint.url}${this.options.healthPath}`,
+        path: this.options.healthPath,
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+        timeout: NETWORK_CONFIG.healthProbeTimeout,
+      });
+
+      if (!response.ok) {
+        this.reportFailure(endpoint.id, `Health check returned ${response.status}`);
+        return;
+      }
+
+      this.reportSuccess(endpoint.id, Date.now() - startTime);
+      endpoint.lastCheck = new Date().toISOString();
+
+      // Mirror is reachable but reports trouble behind it
+      const reported = response.data?.data?.status ?? response.data?.status;
+      if (reported === 'degraded' || reported === 'unhealthy') {
+        endpoint.status = 'degraded';
+      }
+    } catch (error) {
+      this.reportFailure(endpoint.id, error instanceof Error ? error.message : 'Health check failed');
+    }
+  }
+
+  /**
+   * Re-probe in the background when rankings are older than the probe interval
+   */
+  private probeIfStale(): void {
+    this.watchConnectivity();
+
+    if (!this.probePromise && Date.now() - this.lastProbeAt > NETWORK_CONFIG.healthProbeInterval) {
+      this.probe().catch(() => {});
+    }
+  }
+
+  /**
+   * Switching between Wi-Fi and cellular changes which routes work
+   */
+  private watchConnectivity(): void {
+    if (this.unsubscribeNetInfo) return;
+
+    this.unsubscribeNetInfo = NetInfo.addEventListener(() => {
+      this.lastProbeAt = 0;
+    });
+  }
+
+  private recordLatency(endpoint: EndpointHealth, latency: number): void {
+    endpoint.latency = endpoint.latency === undefined
+      ? latency
+      : Math.round(endpoint.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING);
+  }
+
+  private find(id: string): EndpointHealth | undefined {
+    return this.endpoints.find(endpoint => endpoint.id === id);
+  }
+
+  private findByUrl(url: string): EndpointHealth | undefined {
+    return this.endpoints.find(endpoint => url === endpoint.url || url.startsWith(`${endpoint.url}/`));
+  }
+
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+// ========================================================================================
+// ASSET MIRRORS - CDN POOL
+// ========================================================================================
+
+// Same path as API_ENDPOINTS.SYSTEM.HEALTH, served by every CDN edge
+const CDN_HEALTH_PATH = '/health';
+
+let assetEndpoints: EndpointPool | null = null;
+
+/**
+ * Shared CDN pool used to rewrite avatar asset URLs onto the best mirror
+ */
+export const getAssetEndpoints = (): EndpointPool => {
+  if (!assetEndpoints) {
+    assetEndpoints = new EndpointPool([
+      { id: 'cdn', url: CDN_BASE_URL, region: 'international' },
+      { id: 'cdn-ir', url: IRANIAN_CDN_BASE, region: 'domestic' },
+    ], {
+      healthPath: CDN_HEALTH_PATH,
+      preferDomestic: FEATURE_FLAGS.domesticCdn && NETWORK_CONFIG.domesticCdnPreference,
+    });
+  }
+  return assetEndpoints;
+};
+
+export default EndpointPool;
@@ -0,0 +1,105 @@
+// src/core/services/httpTransport.ts
+// IRANVERSE HTTP Transport Layer
+// Network adapters consumed by ApiClient - fetch by default, swappable for tests
+// Built for 90M users - Single point of contact with the network
+import { HttpTransport, TransportRequest, TransportResponse } from '../types/api';
+
+// ========================================================================================
+// RESPONSE PARSING - TRANSPORT HELPERS
+// ========================================================================================
+
+/**
+ * Convert a fetch Headers object to a plain record with lower-cased names
+ */
+export const headersToRecord = (headers: Headers): Record<string, string> => {
+  const record: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    record[key.toLowerCase()] = value;
+  });
+  return record;
+};
+
+/**
+ * Parse a response body as JSON, tolerating empty bodies (204, 304)
+ */
+const parseBody = async (response: Response): Promise<any> => {
+  const text = await response.text();
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { message: text };
+  }
+};
+
+/**
+ * Abort signal for one request and the cleanup that releases it
+ */
+interface RequestSignal {
+  signal: AbortSignal;
+  cleanup: () => void;
+}
+
+/**
+ * Combine the caller's abort signal with the request timeout
+ * cleanup clears the timer and detaches from the caller's signal, which may outlive many requests
+ */
+const createRequestSignal = (request: TransportRequest): RequestSignal => {
+  const controller = new AbortController();
+  const callerSignal = request.signal;
+
+  const onCallerAbort = () => controller.abort(callerSignal?.reason);
+  const timer = setTimeout(() => {
+    controller.abort(Object.assign(new Error('The request timed out'), { name: 'TimeoutError' }));
+  }, request.timeout);
+
+  const cleanup = () => {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  };
+
+  if (callerSignal?.aborted) {
+    onCallerAbort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+
+  return { signal: controller.signal, cleanup };
+};
+
+// ========================================================================================
+// FETCH TRANSPORT - DEFAULT IMPLEMENTATION
+// ========================================================================================
+
+/**
+ * Default transport backed by the global fetch API
+ */
+export const fetchTransport: HttpTransport = {
+  name: 'fetch',
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const { signal, cleanup } = createRequestSignal(request);
+
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal,
+      });
+
+      return {
+        ok: response.ok,
+        status: response.status,
+        statusText: response.statusText,
+        headers: headersToRecord(response.headers),
+        data: await parseBody(response),
+      };
+    } finally {
+      cleanup();
+    }
+  },
+};
+
+export default fetchTransport;
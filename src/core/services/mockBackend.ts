@@ -0,0 +1,1640 @@
+// src/core/services/mockBackend.ts
+// IRANVERSE In-Process Mock Backend
+// Implements the API_ENDPOINTS contracts as an HttpTransport - selected by the 'mock' environment
+// Built for 90M users - Run every auth and avatar flow without api.iranverse.com
+import {
+  HttpTransport,
+  TransportRequest,
+  TransportResponse,
+  UserSettingsApiResponse,
+  AvatarStatusApiResponse,
+  SearchResult,
+} from '../types/api';
+import { API_ENDPOINTS } from '../constants/api';
+import { AuthenticatedUser, OAuthProviderId, PhoneOtpPurpose } from '../../features/auth/types';
+import { DEFAULT_MOCK_FIXTURES, DEFAULT_MOCK_SETTINGS, MockFixtures, MockUserFixture } from './mockFixtures';
+import { maskPhoneNumber, parsePhoneNumber } from '../utils/phone';
+
+// ========================================================================================
+// MOCK BACKEND TYPES
+// ========================================================================================
+
+/**
+ * Email the mock backend "sent" - read tokens from here in tests and dev tools
+ */
+export interface MockEmail {
+  to: string;
+  type: 'verification' | 'password_reset' | 'magic_link' | 'step_up_code';
+  token: string; // the code itself for step_up_code
+  sentAt: string; // ISO 8601
+}
+
+/**
+ * SMS the mock backend "sent" - every code is MOCK_MFA_CODE
+ */
+export interface MockSms {
+  to: string; // E.164
+  purpose: PhoneOtpPurpose | 'step_up';
+  sentAt: string; // ISO 8601
+}
+
+/**
+ * Account as the provider reports it in the ID token
+ */
+export interface MockOAuthIdentity {
+  subject: string; // provider's stable user ID ("sub")
+  email: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+interface MockUser {
+  profile: AuthenticatedUser;
+  password: string;
+  settings: UserSettingsApiResponse['settings'];
+  avatar: MockAvatar | null;
+  tempUserId: string;
+  mfa: { enabled: boolean; pendingSecret: string | null; recoveryCodes: string[] };
+  identities: Array<{ provider: OAuthProviderId; subject: string }>; // linked sign-in providers
+}
+
+interface MockOAuthCode {
+  provider: OAuthProviderId;
+  identity: MockOAuthIdentity;
+  redirectUri: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+interface MockMagicLink {
+  userId: string;
+  deviceId: string; // the device that asked for the link
+  expiresAt: number;
+  usedAt: number | null;
+}
+
+interface MockPhoneOtp {
+  phoneNumber: string; // E.164
+  purpose: PhoneOtpPurpose;
+  deviceId: string; // the device that asked for the code
+  expiresAt: number;
+  attempts: number;
+  profile: { firstName?: string; lastName?: string; preferredLanguage?: AuthenticatedUser['preferredLanguage'] }; // sign-up only
+}
+
+interface MockAvatar {
+  rpmId: string;
+  rpmUrl: string;
+  version: number;
+  configuration: Record<string, any> | null;
+  customizations: Record<string, any> | null;
+  processingId: string | null;
+  processingStartedAt: number | null;
+  updatedAt: string;
+}
+
+interface MockSession {
+  sessionId: string;
+  userId: string;
+  deviceId: string;
+  refreshToken: string;
+  refreshExpiresAt: number;
+  createdAt: number; // kept across refresh rotation
+  lastActivityAt: number;
+}
+
+interface MockDevice {
+  platform: string;
+  osVersion?: string;
+  appVersion?: string;
+}
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+  headers: Record<string, string>;
+}
+
+interface MockResult {
+  status?: number;
+  data?: unknown;
+  message?: string;
+}
+
+type MockHandler = (request: MockRequest) => MockResult;
+
+/**
+ * Error response raised inside a handler
+ */
+class MockHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+/**
+ * Code the mock accepts for every TOTP and SMS check
+ */
+export const MOCK_MFA_CODE = '123456';
+
+// Share of avatarProcessingMs spent in 'queued' before processing starts
+const QUEUED_SHARE = 0.2;
+
+const PROCESSING_STEPS = ['downloading_model', 'optimizing_meshes', 'generating_thumbnails', 'publishing_assets'];
+
+// Every mock session appears to sign in from here
+const MOCK_LOCATION = { country: 'Iran', region: 'Tehran Province', city: 'Tehran' };
+
+const randomId = (prefix: string): string => `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Unsigned JWT so client-side expiry checks (isTokenExpired) behave as in production
+ */
+const createJwt = (payload: Record<string, unknown>): string => {
+  const encode = (value: unknown) => btoa(JSON.stringify(value));
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}.mock`;
+};
+
+/**
+ * Parse query string without relying on URL (custom schemes are poorly supported in React Native)
+ */
+const parseQuery = (url: string): Record<string, string> => {
+  const query: Record<string, string> = {};
+  const search = url.split('?')[1];
+  if (!search) return query;
+
+  search.split('&').forEach(pair => {
+    const [key, value = ''] = pair.split('=');
+    if (key) {
+      query[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+    }
+  });
+  return query;
+};
+
+// ========================================================================================
+// MOCK BACKEND - STATE & ROUTING
+// ========================================================================================
+
+/**
+ * Stateful fake of the IRANVERSE API
+ * State lives in memory only - reset() or seed() to start over
+ */
+export class MockBackend {
+  private fixtures: MockFixtures = DEFAULT_MOCK_FIXTURES;
+  private users = new Map<string, MockUser>();
+  private sessions = new Map<string, MockSession>();
+  private accessTokens = new Map<string, { userId: string; sessionId: string; expiresAt: number }>();
+  private verificationTokens = new Map<string, string>(); // token -> userId
+  private resetTokens = new Map<string, { userId: string; expiresAt: number }>();
+  private mfaChallenges = new Map<string, { userId: string; deviceId: string; expiresAt: number }>();
+  private trustedDevices = new Map<string, { userId: string; deviceId: string }>(); // token ->
+  private devices = new Map<string, MockDevice>(); // deviceId -> last reported device info
+  private loginFailures = new Map<string, { failures: number; lockedUntil: number }>(); // userId ->
+  private stepUps = new Map<string, number>(); // sessionId -> sensitive actions allowed until
+  private stepUpCodes = new Map<string, { expiresAt: number; attempts: number; sentAt: number }>(); // sessionId ->
+  private oauthCodes = new Map<string, MockOAuthCode>(); // authorization code ->
+  private oauthLinks = new Map<string, { userId: string; provider: OAuthProviderId; subject: string; expiresAt: number }>(); // linkToken ->
+  private magicLinks = new Map<string, MockMagicLink>(); // token -> (kept after use to recognise replays)
+  private magicLinkSentAt = new Map<string, number>(); // email -> last dispatch
+  private phoneOtps = new Map<string, MockPhoneOtp>(); // otpId ->
+  private phoneOtpSentAt = new Map<string, number>(); // phone number -> last SMS
+  private outbox: MockEmail[] = [];
+  private smsOutbox: MockSms[] = [];
+  private injectedFailures: Array<{ route: string; status: number; remaining: number }> = [];
+  private clockOffset = 0;
+  private routes: Record<string, MockHandler> | null = null;
+
+  /**
+   * Transport to plug into ApiClient
+   */
+  readonly transport: HttpTransport = {
+    name: 'mock',
+    send: request => this.handle(request),
+  };
+
+  constructor(fixtures?: Partial<MockFixtures>) {
+    this.seed(fixtures);
+  }
+
+  /**
+   * Replace all state with the given fixtures (merged over the defaults)
+   */
+  seed(fixtures: Partial<MockFixtures> = {}): void {
+    this.fixtures = { ...DEFAULT_MOCK_FIXTURES, ...fixtures };
+    this.users.clear();
+    this.sessions.clear();
+    this.accessTokens.clear();
+    this.verificationTokens.clear();
+    this.resetTokens.clear();
+    this.mfaChallenges.clear();
+    this.trustedDevices.clear();
+    this.devices.clear();
+    this.loginFailures.clear();
+    this.stepUps.clear();
+    this.stepUpCodes.clear();
+    this.oauthCodes.clear();
+    this.oauthLinks.clear();
+    this.magicLinks.clear();
+    this.magicLinkSentAt.clear();
+    this.phoneOtps.clear();
+    this.phoneOtpSentAt.clear();
+    this.outbox = [];
+    this.smsOutbox = [];
+    this.injectedFailures = [];
+    this.clockOffset = 0;
+    this.fixtures.users.forEach(user => this.createUser(user));
+  }
+
+  /**
+   * Back to DEFAULT_MOCK_FIXTURES
+   */
+  reset(): void {
+    this.seed();
+  }
+
+  /**
+   * Emails sent so far, newest last
+   */
+  getOutbox(email?: string): MockEmail[] {
+    return email ? this.outbox.filter(item => item.to === email.toLowerCase()) : [...this.outbox];
+  }
+
+  /**
+   * Text messages sent so far, newest last
+   */
+  getSmsOutbox(phoneNumber?: string): MockSms[] {
+    return phoneNumber ? this.smsOutbox.filter(item => item.to === phoneNumber) : [...this.smsOutbox];
+  }
+
+  /**
+   * Fail the next `times` calls to a route, e.g. failNext('POST', API_ENDPOINTS.AUTH.LOGIN, 503)
+   */
+  failNext(method: string, path: string, status: number, times = 1): void {
+    this.injectedFailures.push({ route: `${method} ${path}`, status, remaining: times });
+  }
+
+  /**
+   * Stand in for the provider's consent page - returns the code the app would receive
+   * The real provider checks the PKCE challenge; the mock only requires a verifier on exchange
+   */
+  issueOAuthCode(provider: OAuthProviderId, identity: MockOAuthIdentity, options: { redirectUri: string; nonce: string }): string {
+    const code = randomId(`oauth_${provider}`);
+    this.oauthCodes.set(code, { provider, identity, ...options, expiresAt: this.now() + 60 * 1000 });
+    return code;
+  }
+
+  /**
+   * Move the mock clock forward (token expiry, avatar processing)
+   */
+  advanceTime(ms: number): void {
+    this.clockOffset += ms;
+  }
+
+  // ========================================================================================
+  // REQUEST HANDLING
+  // ========================================================================================
+
+  private async handle(request: TransportRequest): Promise<TransportResponse> {
+    await this.simulateLatency(request.signal);
+
+    const route = `${request.method} ${request.path}`;
+    const handler = this.getRoutes()[route];
+    const mockRequest: MockRequest = {
+      method: request.method,
+      path: request.path,
+      query: parseQuery(request.url),
+      body: typeof request.body === 'string' ? JSON.parse(request.body) : request.body,
+      headers: Object.fromEntries(Object.entries(request.headers).map(([key, value]) => [key.toLowerCase(), value])),
+    };
+
+    try {
+      const failure = this.injectedFailures.find(item => item.route === route && item.remaining > 0);
+      if (failure) {
+        failure.remaining--;
+        throw new MockHttpError(failure.status, 'INJECTED_FAILURE', `Injected failure for ${route}`);
+      }
+
+      if (!handler) {
+        throw new MockHttpError(404, 'NOT_FOUND', `No mock route for ${route}`);
+      }
+
+      const result = handler(mockRequest);
+      const status = result.status ?? 200;
+      return this.respond(status, status === 204 ? null : {
+        success: true,
+        message: result.message || 'Request successful',
+        // Round-trip through JSON so clients see exactly what a real server would send
+        data: result.data === undefined ? undefined : JSON.parse(JSON.stringify(result.data)),
+        requestId: randomId('mock_req'),
+        serverTime: new Date(this.now()).toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return this.respond(error.status, { success: false, code: error.code, message: error.message, data: error.data });
+      }
+      return this.respond(500, { success: false, code: 'MOCK_HANDLER_ERROR', message: String(error) });
+    }
+  }
+
+  private respond(status: number, data: any): TransportResponse {
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: status === 200 ? 'OK' : String(status),
+      headers: { 'content-type': 'application/json', 'x-mock-backend': 'true' },
+      data,
+    };
+  }
+
+  private simulateLatency(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const timer = setTimeout(resolve, this.fixtures.latencyMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+
+  /**
+   * Route table is built on first use - API_ENDPOINTS lives in a module that imports this one
+   */
+  private getRoutes(): Record<string, MockHandler> {
+    if (this.routes) return this.routes;
+
+    const { AUTH, USER, SEARCH, ANALYTICS, SYSTEM } = API_ENDPOINTS;
+    this.routes = {
+      [`POST ${AUTH.LOGIN}`]: request => this.login(request),
+      [`POST ${AUTH.REGISTER}`]: request => this.register(request),
+      [`POST ${AUTH.REFRESH}`]: request => this.refresh(request),
+      [`POST ${AUTH.LOGOUT}`]: request => this.logout(request),
+      [`GET ${AUTH.ME}`]: request => this.getMe(request),
+      [`POST ${AUTH.VERIFY_EMAIL}`]: request => this.verifyEmail(request.body?.token),
+      [`GET ${AUTH.VERIFY_EMAIL}`]: request => this.verifyEmailLink(request.query.token),
+      [`POST ${AUTH.RESEND_VERIFICATION}`]: request => this.resendVerification(request),
+      [`POST ${AUTH.PASSWORD_RESET_REQUEST}`]: request => this.requestPasswordReset(request),
+      [`POST ${AUTH.PASSWORD_RESET_CONFIRM}`]: request => this.confirmPasswordReset(request),
+      [`POST ${AUTH.MFA_VERIFY}`]: request => this.verifyMfa(request),
+      [`POST ${AUTH.MFA_SMS}`]: request => this.sendMfaSms(request),
+      [`POST ${AUTH.MFA_TOTP_SETUP}`]: request => this.setupTotp(request),
+      [`POST ${AUTH.MFA_TOTP_CONFIRM}`]: request => this.confirmTotp(request),
+      [`POST ${AUTH.MFA_DISABLE}`]: request => this.disableMfa(request),
+      [`POST ${AUTH.MFA_RECOVERY_CODES}`]: request => this.regenerateRecoveryCodes(request),
+      [`POST ${AUTH.STEP_UP}`]: request => this.stepUp(request),
+      [`POST ${AUTH.STEP_UP_CODE}`]: request => this.sendStepUpCode(request),
+      [`POST ${AUTH.OAUTH_EXCHANGE}`]: request => this.exchangeOAuthCode(request),
+      [`POST ${AUTH.OAUTH_LINK}`]: request => this.linkOAuthAccount(request),
+      [`POST ${AUTH.MAGIC_LINK_REQUEST}`]: request => this.requestMagicLink(request),
+      [`POST ${AUTH.MAGIC_LINK_VERIFY}`]: request => this.verifyMagicLink(request),
+      [`POST ${AUTH.PHONE_OTP}`]: request => this.requestPhoneOtp(request),
+      [`POST ${AUTH.PHONE_OTP_RESEND}`]: request => this.resendPhoneOtp(request),
+      [`POST ${AUTH.PHONE_VERIFY}`]: request => this.verifyPhoneOtp(request),
+      [`GET ${AUTH.SESSIONS}`]: request => this.listSessions(request),
+      [`POST ${AUTH.SESSIONS_REVOKE}`]: request => this.revokeOtherSession(request),
+      [`POST ${AUTH.SESSIONS_TRUST}`]: request => this.trustSession(request),
+
+      [`PATCH ${USER.PROFILE}`]: request => this.updateProfile(request),
+      [`GET ${USER.SETTINGS}`]: request => ({ data: { settings: this.authenticate(request).settings } }),
+      [`PATCH ${USER.SETTINGS}`]: request => this.updateSettings(request),
+      [`GET ${USER.METRICS}`]: request => this.getMetrics(request),
+      [`POST ${USER.ONBOARDING_COMPLETE}`]: request => {
+        this.authenticate(request);
+        return { status: 204 };
+      },
+      [`GET ${USER.AVATAR}`]: request => this.getAvatar(request),
+      [`POST ${USER.AVATAR_UPDATE}`]: request => this.updateAvatar(request),
+      [`GET ${USER.AVATAR_STATUS}`]: request => this.getAvatarStatus(request),
+      [`DELETE ${USER.AVATAR}`]: request => {
+        const user = this.authenticate(request);
+        this.assertSteppedUp(request);
+        user.avatar = null;
+        return { status: 204 };
+      },
+
+      [`GET ${SEARCH.GLOBAL}`]: request => this.search(request),
+      [`GET ${SEARCH.USERS}`]: request => this.search(request),
+      [`POST ${ANALYTICS.EVENTS}`]: () => ({ status: 204 }),
+      [`POST ${ANALYTICS.METRICS}`]: () => ({ status: 204 }),
+
+      [`GET ${SYSTEM.HEALTH}`]: () => this.getHealth(),
+      [`GET ${SYSTEM.VERSION}`]: () => this.getVersion(),
+    };
+    return this.routes;
+  }
+
+  // ========================================================================================
+  // AUTHENTICATION HANDLERS
+  // ========================================================================================
+
+  private login(request: MockRequest): MockResult {
+    const { email, password, deviceInfo } = request.body || {};
+    const user = this.findByEmail(email);
+
+    if (user) {
+      this.assertNotLocked(user);
+    }
+
+    if (!user || user.password !== password) {
+      if (user) this.recordLoginFailure(user);
+      throw new MockHttpError(401, 'INVALID_CREDENTIALS', 'Invalid email or password');
+    }
+    this.loginFailures.delete(user.profile.id);
+
+    return this.startLogin(user, deviceInfo, request.body?.trustedDeviceToken);
+  }
+
+  /**
+   * First factor passed (password or provider) - challenge for the second or finish the login
+   */
+  private startLogin(user: MockUser, deviceInfo: any, trustedDeviceToken?: string): MockResult {
+    this.recordDevice(deviceInfo);
+    const isTrustedDevice = this.isTrustedDevice(user, deviceInfo?.deviceId, trustedDeviceToken);
+    if (user.mfa.enabled && !isTrustedDevice) {
+      const challengeId = randomId('mfa');
+      const expiresAt = this.now() + 5 * 60 * 1000;
+      this.mfaChallenges.set(challengeId, { userId: user.profile.id, deviceId: deviceInfo?.deviceId, expiresAt });
+      throw new MockHttpError(401, 'MFA_REQUIRED', 'Two-factor verification required', {
+        challengeId,
+        methods: ['totp', 'sms', 'recovery_code'],
+        preferredMethod: 'totp',
+        phoneHint: '+98 912 *** **67',
+        expiresAt: new Date(expiresAt).toISOString(),
+      });
+    }
+
+    return { data: this.completeLogin(user, deviceInfo?.deviceId, isTrustedDevice) };
+  }
+
+  /**
+   * 423 ACCOUNT_LOCKED while a server-side lock is running
+   */
+  private assertNotLocked(user: MockUser): void {
+    const record = this.loginFailures.get(user.profile.id);
+    if (record && record.lockedUntil > this.now()) {
+      throw new MockHttpError(423, 'ACCOUNT_LOCKED', 'Account temporarily locked after too many failed attempts', {
+        lockedUntil: new Date(record.lockedUntil).toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Count a wrong password - the counter restarts once a lock is set
+   */
+  private recordLoginFailure(user: MockUser): void {
+    const failures = (this.loginFailures.get(user.profile.id)?.failures ?? 0) + 1;
+    const lockedUntil = failures >= this.fixtures.lockoutAttempts
+      ? this.now() + this.fixtures.lockoutDuration * 1000
+      : 0;
+    this.loginFailures.set(user.profile.id, { failures: lockedUntil ? 0 : failures, lockedUntil });
+  }
+
+  private completeLogin(user: MockUser, deviceId: string | undefined, isTrustedDevice: boolean) {
+    user.profile.lastLoginAt = new Date(this.now()).toISOString();
+    const { tokens, session } = this.createSession(user, deviceId);
+    // The password (and second factor) was just checked
+    this.stepUps.set(session.sessionId, this.now() + this.fixtures.stepUpWindow * 1000);
+
+    return {
+      user: user.profile,
+      tokens,
+      session: {
+        sessionId: session.sessionId,
+        deviceId: session.deviceId,
+        expiresAt: new Date(session.refreshExpiresAt).toISOString(),
+        isTrustedDevice,
+      },
+      isNewUser: false,
+      nextAction: user.avatar ? 'home' : 'avatar_creation',
+    };
+  }
+
+  private register(request: MockRequest): MockResult {
+    const body = request.body || {};
+    if (!body.email || !body.password) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Email and password are required');
+    }
+    if (this.findByEmail(body.email)) {
+      throw new MockHttpError(409, 'EMAIL_EXISTS', 'An account with this email already exists');
+    }
+
+    const user = this.createUser({
+      email: body.email,
+      password: body.password,
+      username: body.username,
+      firstName: body.firstName,
+      lastName: body.lastName,
+      preferredLanguage: body.preferredLanguage,
+      isEmailVerified: false,
+      avatar: null,
+    });
+    this.sendVerificationEmail(user);
+    this.recordDevice(body.deviceInfo);
+    const { tokens, session } = this.createSession(user, body.deviceInfo?.deviceId);
+
+    return {
+      status: 201,
+      data: {
+        user: user.profile,
+        tokens,
+        session: { sessionId: session.sessionId, deviceId: session.deviceId, tempUserId: user.tempUserId },
+        requiresEmailVerification: true,
+        nextAction: 'email_verification',
+      },
+    };
+  }
+
+  private refresh(request: MockRequest): MockResult {
+    const session = [...this.sessions.values()].find(item => item.refreshToken === request.body?.refreshToken);
+    if (!session || session.refreshExpiresAt <= this.now()) {
+      throw new MockHttpError(401, 'INVALID_REFRESH_TOKEN', 'Refresh token is invalid or expired');
+    }
+
+    // Rotation - the old refresh token stops working immediately
+    const user = this.users.get(session.userId)!;
+    this.revokeSession(session.sessionId);
+    const rotated = this.createSession(user, session.deviceId, session.sessionId);
+    rotated.session.createdAt = session.createdAt;
+
+    return {
+      data: {
+        tokens: rotated.tokens,
+        session: {
+          sessionId: rotated.session.sessionId,
+          expiresAt: new Date(rotated.session.refreshExpiresAt).toISOString(),
+        },
+      },
+    };
+  }
+
+  private logout(request: MockRequest): MockResult {
+    const auth = this.getAccessToken(request);
+    if (auth) {
+      if (request.body?.allDevices) {
+        this.assertSteppedUp(request);
+        [...this.sessions.values()]
+          .filter(session => session.userId === auth.userId)
+          .forEach(session => this.revokeSession(session.sessionId));
+      } else {
+        this.revokeSession(auth.sessionId);
+      }
+    }
+    return { status: 204 };
+  }
+
+  private getMe(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    const auth = this.getAccessToken(request)!;
+    return {
+      data: {
+        user: user.profile,
+        session: {
+          sessionId: auth.sessionId,
+          lastActivity: new Date(this.now()).toISOString(),
+          deviceInfo: { platform: 'mock', osVersion: '0', appVersion: '1.0.0' },
+        },
+      },
+    };
+  }
+
+  private verifyEmail(token: string | undefined): MockResult {
+    const user = this.consumeVerificationToken(token);
+    return { message: `Email ${user.profile.email} verified`, status: 204 };
+  }
+
+  private verifyEmailLink(token: string | undefined): MockResult {
+    const user = this.consumeVerificationToken(token);
+    const { tokens } = this.createSession(user, 'deep_link');
+    return {
+      data: {
+        userId: user.profile.id,
+        email: user.profile.email,
+        userName: user.profile.displayName,
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+      },
+    };
+  }
+
+  private resendVerification(request: MockRequest): MockResult {
+    const user = [...this.users.values()].find(item => item.tempUserId === request.body?.tempUserId);
+    if (!user) {
+      throw new MockHttpError(404, 'NOT_FOUND', 'Unknown signup');
+    }
+    if (user.profile.isEmailVerified) {
+      throw new MockHttpError(409, 'ALREADY_VERIFIED', 'Email is already verified');
+    }
+    this.sendVerificationEmail(user);
+    return { status: 204 };
+  }
+
+  private requestPasswordReset(request: MockRequest): MockResult {
+    const user = this.findByEmail(request.body?.email);
+
+    // Same answer for unknown emails - no account enumeration
+    if (user) {
+      const token = randomId('reset');
+      this.resetTokens.set(token, { userId: user.profile.id, expiresAt: this.now() + 60 * 60 * 1000 });
+      this.sendEmail(user.profile.email, 'password_reset', token);
+    }
+    return { status: 204 };
+  }
+
+  private confirmPasswordReset(request: MockRequest): MockResult {
+    const { token, newPassword } = request.body || {};
+    const reset = this.resetTokens.get(token);
+
+    if (!reset || reset.expiresAt <= this.now()) {
+      throw new MockHttpError(400, 'INVALID_RESET_TOKEN', 'Reset link is invalid or expired');
+    }
+    if (!newPassword || newPassword.length < 8) {
+      throw new MockHttpError(400, 'WEAK_PASSWORD', 'Password must be at least 8 characters');
+    }
+
+    const user = this.users.get(reset.userId)!;
+    user.password = newPassword;
+    user.profile.hasPassword = true;
+    this.resetTokens.delete(token);
+
+    // Password change signs out every device
+    [...this.sessions.values()]
+      .filter(session => session.userId === user.profile.id)
+      .forEach(session => this.revokeSession(session.sessionId));
+
+    return { status: 204 };
+  }
+
+  // ========================================================================================
+  // OAUTH HANDLERS - codes come from issueOAuthCode()
+  // ========================================================================================
+
+  private exchangeOAuthCode(request: MockRequest): MockResult {
+    const { provider, code, codeVerifier, redirectUri, nonce, deviceInfo, trustedDeviceToken } = request.body || {};
+    const issued = this.oauthCodes.get(code);
+    this.oauthCodes.delete(code); // single use, even when the exchange fails
+
+    if (!issued || issued.expiresAt <= this.now() || issued.provider !== provider) {
+      throw new MockHttpError(400, 'INVALID_OAUTH_CODE', 'Sign-in code is invalid or expired. Please try again.');
+    }
+    if (!codeVerifier || issued.redirectUri !== redirectUri) {
+      throw new MockHttpError(400, 'INVALID_OAUTH_CODE', 'Sign-in code could not be verified');
+    }
+    if (issued.nonce !== nonce) {
+      throw new MockHttpError(400, 'NONCE_MISMATCH', 'Sign-in response could not be verified');
+    }
+
+    const { identity } = issued;
+    const linked = [...this.users.values()].find(user =>
+      user.identities.some(item => item.provider === provider && item.subject === identity.subject)
+    );
+    if (linked) {
+      return this.startLogin(linked, deviceInfo, trustedDeviceToken);
+    }
+
+    // Same email as a password account - the owner must prove it before the provider is linked
+    const existing = this.findByEmail(identity.email);
+    if (existing) {
+      const linkToken = randomId('link');
+      const expiresAt = this.now() + 10 * 60 * 1000;
+      this.oauthLinks.set(linkToken, { userId: existing.profile.id, provider, subject: identity.subject, expiresAt });
+      throw new MockHttpError(409, 'ACCOUNT_LINK_REQUIRED', 'This email already has an account', {
+        linkToken,
+        provider,
+        email: existing.profile.email,
+        expiresAt: new Date(expiresAt).toISOString(),
+      });
+    }
+
+    const user = this.createUser({
+      email: identity.email,
+      password: randomId('oauth_only'), // no usable password until a reset
+      firstName: identity.firstName,
+      lastName: identity.lastName,
+      isEmailVerified: true, // the provider verified it
+      avatar: null,
+    });
+    user.profile.hasPassword = false;
+    user.identities.push({ provider, subject: identity.subject });
+    this.recordDevice(deviceInfo);
+    return { status: 201, data: { ...this.completeLogin(user, deviceInfo?.deviceId, false), isNewUser: true } };
+  }
+
+  private linkOAuthAccount(request: MockRequest): MockResult {
+    const { linkToken, password, deviceInfo, trustedDeviceToken } = request.body || {};
+    const link = this.oauthLinks.get(linkToken);
+    if (!link || link.expiresAt <= this.now()) {
+      throw new MockHttpError(400, 'INVALID_LINK_TOKEN', 'Linking expired. Please sign in with the provider again.');
+    }
+
+    const user = this.users.get(link.userId)!;
+    this.assertNotLocked(user);
+    if (user.password !== password) {
+      this.recordLoginFailure(user);
+      throw new MockHttpError(401, 'INVALID_CREDENTIALS', 'Incorrect password');
+    }
+    this.loginFailures.delete(user.profile.id);
+
+    this.oauthLinks.delete(linkToken);
+    user.identities.push({ provider: link.provider, subject: link.subject });
+    return this.startLogin(user, deviceInfo, trustedDeviceToken);
+  }
+
+  // ========================================================================================
+  // MAGIC LINK HANDLERS - tokens arrive in the outbox as 'magic_link' emails
+  // ========================================================================================
+
+  private requestMagicLink(request: MockRequest): MockResult {
+    const { email, deviceId } = request.body || {};
+    if (!email || !deviceId) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Email and device are required');
+    }
+
+    const resendAfter = 60;
+    const key = String(email).toLowerCase();
+    const lastSentAt = this.magicLinkSentAt.get(key);
+    if (lastSentAt && this.now() - lastSentAt < resendAfter * 1000) {
+      throw new MockHttpError(429, 'RATE_LIMITED', 'Please wait before requesting another link');
+    }
+    this.magicLinkSentAt.set(key, this.now());
+
+    // Same answer for unknown emails - no account enumeration
+    const expiresAt = this.now() + 15 * 60 * 1000;
+    const user = this.findByEmail(email);
+    if (user) {
+      // Only the newest link works
+      this.magicLinks.forEach(link => {
+        if (link.userId === user.profile.id && !link.usedAt) link.expiresAt = 0;
+      });
+      const token = randomId('magic');
+      this.magicLinks.set(token, { userId: user.profile.id, deviceId, expiresAt, usedAt: null });
+      this.sendEmail(user.profile.email, 'magic_link', token);
+    }
+
+    return { data: { expiresAt: new Date(expiresAt).toISOString(), resendAfter } };
+  }
+
+  private verifyMagicLink(request: MockRequest): MockResult {
+    const { token, deviceInfo, trustedDeviceToken } = request.body || {};
+    const link = this.magicLinks.get(token);
+
+    if (link?.usedAt) {
+      throw new MockHttpError(400, 'MAGIC_LINK_USED', 'This sign-in link has already been used');
+    }
+    if (!link || link.expiresAt <= this.now()) {
+      throw new MockHttpError(400, 'INVALID_MAGIC_LINK', 'Sign-in link is invalid or expired');
+    }
+    // Not spent - the device that asked for it can still use it
+    if (link.deviceId !== deviceInfo?.deviceId) {
+      throw new MockHttpError(400, 'MAGIC_LINK_DEVICE_MISMATCH', 'Open the sign-in link on the device you requested it from');
+    }
+
+    link.usedAt = this.now();
+    const user = this.users.get(link.userId)!;
+    // Opening the link proves the inbox belongs to the user
+    user.profile.isEmailVerified = true;
+    return this.startLogin(user, deviceInfo, trustedDeviceToken);
+  }
+
+  // ========================================================================================
+  // PHONE HANDLERS - every SMS code is MOCK_MFA_CODE, see getSmsOutbox()
+  // ========================================================================================
+
+  private requestPhoneOtp(request: MockRequest): MockResult {
+    const { phoneNumber, purpose, deviceId, firstName, lastName, preferredLanguage } = request.body || {};
+    if (!deviceId || (purpose !== 'login' && purpose !== 'signup')) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Phone number, purpose and device are required');
+    }
+    const parsed = parsePhoneNumber(phoneNumber);
+    if (!parsed.success) {
+      throw new MockHttpError(400, 'INVALID_PHONE_NUMBER', 'Enter a valid mobile number');
+    }
+
+    const e164 = parsed.data.e164;
+    if (purpose === 'signup' && this.findByPhone(e164)) {
+      throw new MockHttpError(409, 'PHONE_EXISTS', 'An account with this phone number already exists');
+    }
+
+    // Only the newest code works
+    this.phoneOtps.forEach((otp, otpId) => {
+      if (otp.phoneNumber === e164) this.phoneOtps.delete(otpId);
+    });
+    const otpId = randomId('otp');
+    this.phoneOtps.set(otpId, {
+      phoneNumber: e164,
+      purpose,
+      deviceId,
+      expiresAt: 0,
+      attempts: 0,
+      profile: { firstName, lastName, preferredLanguage },
+    });
+    return this.sendPhoneOtp(otpId);
+  }
+
+  private resendPhoneOtp(request: MockRequest): MockResult {
+    const otpId = request.body?.otpId;
+    if (!this.phoneOtps.has(otpId)) {
+      throw new MockHttpError(400, 'OTP_EXPIRED', 'The code has expired. Please start again.');
+    }
+    return this.sendPhoneOtp(otpId);
+  }
+
+  /**
+   * Text the code - login codes for unknown numbers are never sent, but the receipt looks the same
+   */
+  private sendPhoneOtp(otpId: string): MockResult {
+    const otp = this.phoneOtps.get(otpId)!;
+    const resendAfter = 60;
+    const lastSentAt = this.phoneOtpSentAt.get(otp.phoneNumber);
+    if (lastSentAt && this.now() - lastSentAt < resendAfter * 1000) {
+      throw new MockHttpError(429, 'RATE_LIMITED', 'Please wait before requesting another code');
+    }
+    this.phoneOtpSentAt.set(otp.phoneNumber, this.now());
+
+    otp.expiresAt = this.now() + 2 * 60 * 1000;
+    otp.attempts = 0;
+    if (otp.purpose === 'signup' || this.findByPhone(otp.phoneNumber)) {
+      this.smsOutbox.push({ to: otp.phoneNumber, purpose: otp.purpose, sentAt: new Date(this.now()).toISOString() });
+      if (__DEV__) {
+        console.log(`[mock backend] ${otp.purpose} SMS to ${otp.phoneNumber} - code: ${MOCK_MFA_CODE}`);
+      }
+    }
+
+    return {
+      data: {
+        otpId,
+        phoneHint: maskPhoneNumber(otp.phoneNumber),
+        codeLength: MOCK_MFA_CODE.length,
+        expiresAt: new Date(otp.expiresAt).toISOString(),
+        resendAfter,
+      },
+    };
+  }
+
+  private verifyPhoneOtp(request: MockRequest): MockResult {
+    const { otpId, code, deviceInfo, trustedDeviceToken } = request.body || {};
+    const otp = this.phoneOtps.get(otpId);
+    if (!otp || otp.expiresAt <= this.now()) {
+      throw new MockHttpError(400, 'OTP_EXPIRED', 'The code has expired. Request a new one.');
+    }
+    if (otp.deviceId !== deviceInfo?.deviceId) {
+      throw new MockHttpError(400, 'OTP_INVALID', 'Enter the code on the device you requested it from');
+    }
+
+    const user = this.findByPhone(otp.phoneNumber);
+    // Unknown numbers never got a login code - every guess is wrong
+    if (code !== MOCK_MFA_CODE || (otp.purpose === 'login' && !user)) {
+      otp.attempts++;
+      if (otp.attempts >= 5) {
+        this.phoneOtps.delete(otpId);
+        throw new MockHttpError(400, 'OTP_EXPIRED', 'Too many wrong codes. Request a new one.');
+      }
+      throw new MockHttpError(400, 'OTP_INVALID', 'Invalid verification code');
+    }
+    this.phoneOtps.delete(otpId);
+
+    if (user) {
+      // Receiving the code proves the number belongs to the user
+      user.profile.isPhoneVerified = true;
+      return this.startLogin(user, deviceInfo, trustedDeviceToken);
+    }
+
+    const created = this.createUser({
+      email: '',
+      password: randomId('phone_only'), // no usable password until one is set
+      phoneNumber: otp.phoneNumber,
+      username: `user_${otp.phoneNumber.slice(-4)}_${randomId('u').slice(-4)}`,
+      firstName: otp.profile.firstName,
+      lastName: otp.profile.lastName,
+      preferredLanguage: otp.profile.preferredLanguage,
+      isEmailVerified: false,
+      avatar: null,
+    });
+    created.profile.hasPassword = false;
+    this.recordDevice(deviceInfo);
+    return { status: 201, data: { ...this.completeLogin(created, deviceInfo?.deviceId, false), isNewUser: true } };
+  }
+
+  // ========================================================================================
+  // TWO-FACTOR HANDLERS - every TOTP/SMS code is MOCK_MFA_CODE
+  // ========================================================================================
+
+  private verifyMfa(request: MockRequest): MockResult {
+    const { challengeId, method, code, rememberDevice } = request.body || {};
+    const challenge = this.mfaChallenges.get(challengeId);
+    if (!challenge || challenge.expiresAt <= this.now()) {
+      throw new MockHttpError(401, 'MFA_CHALLENGE_EXPIRED', 'Verification expired. Please sign in again.');
+    }
+
+    const user = this.users.get(challenge.userId)!;
+    if (method === 'recovery_code') {
+      const index = user.mfa.recoveryCodes.indexOf(String(code).toUpperCase());
+      if (index === -1) {
+        throw new MockHttpError(401, 'MFA_INVALID', 'Invalid recovery code');
+      }
+      user.mfa.recoveryCodes.splice(index, 1);
+    } else if (code !== MOCK_MFA_CODE) {
+      throw new MockHttpError(401, 'MFA_INVALID', 'Invalid verification code');
+    }
+
+    this.mfaChallenges.delete(challengeId);
+    const data: Record<string, unknown> = this.completeLogin(user, challenge.deviceId, !!rememberDevice);
+    if (rememberDevice) {
+      const token = randomId('trusted');
+      this.trustedDevices.set(token, { userId: user.profile.id, deviceId: challenge.deviceId });
+      data.trustedDevice = { token, expiresAt: new Date(this.now() + 30 * 24 * 60 * 60 * 1000).toISOString() };
+    }
+    return { data };
+  }
+
+  private sendMfaSms(request: MockRequest): MockResult {
+    if (!this.mfaChallenges.has(request.body?.challengeId)) {
+      throw new MockHttpError(401, 'MFA_CHALLENGE_EXPIRED', 'Verification expired. Please sign in again.');
+    }
+    return {
+      data: {
+        phoneHint: '+98 912 *** **67',
+        expiresAt: new Date(this.now() + 5 * 60 * 1000).toISOString(),
+        resendAfter: 60,
+      },
+    };
+  }
+
+  private setupTotp(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    if (user.mfa.enabled) {
+      throw new MockHttpError(409, 'MFA_ALREADY_ENABLED', 'Two-factor authentication is already on');
+    }
+
+    user.mfa.pendingSecret = 'JBSWY3DPEHPK3PXP';
+    const otpauthUrl = `otpauth://totp/IRANVERSE:${encodeURIComponent(user.profile.email)}?secret=${user.mfa.pendingSecret}&issuer=IRANVERSE`;
+    return {
+      data: {
+        secret: user.mfa.pendingSecret,
+        otpauthUrl,
+        // 1x1 placeholder - a real server renders the otpauth URL
+        qrCodeDataUrl: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMCAO+ip1sAAAAASUVORK5CYII=',
+      },
+    };
+  }
+
+  private confirmTotp(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    if (!user.mfa.pendingSecret) {
+      throw new MockHttpError(400, 'MFA_SETUP_NOT_STARTED', 'Start two-factor setup first');
+    }
+    this.checkMfaCode(request);
+
+    user.mfa = { enabled: true, pendingSecret: null, recoveryCodes: this.createRecoveryCodes() };
+    user.profile.is2FAEnabled = true;
+    return { data: { recoveryCodes: user.mfa.recoveryCodes } };
+  }
+
+  // ========================================================================================
+  // STEP-UP HANDLERS
+  // ========================================================================================
+
+  /**
+   * Re-verify with the password, the refresh token released by a biometric prompt,
+   * or a one-time code from sendStepUpCode
+   */
+  private stepUp(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    const auth = this.getAccessToken(request)!;
+    const { method, password, refreshToken, code } = request.body || {};
+
+    if (method === 'code') {
+      this.verifyStepUpCode(auth.sessionId, code);
+    }
+
+    const verified = method === 'code'
+      || (method === 'password'
+        ? password === user.password
+        : method === 'biometric' && !!refreshToken && this.sessions.get(auth.sessionId)?.refreshToken === refreshToken);
+    if (!verified) {
+      // 403 rather than 401 - the access token itself is fine
+      throw new MockHttpError(403, 'STEP_UP_FAILED', method === 'password' ? 'Incorrect password' : 'Verification failed');
+    }
+
+    const expiresAt = this.now() + this.fixtures.stepUpWindow * 1000;
+    this.stepUps.set(auth.sessionId, expiresAt);
+    return {
+      data: {
+        verifiedAt: new Date(this.now()).toISOString(),
+        expiresAt: new Date(expiresAt).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Text the code to a verified phone number, otherwise email it
+   */
+  private sendStepUpCode(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    const auth = this.getAccessToken(request)!;
+    const resendAfter = 60;
+
+    const previous = this.stepUpCodes.get(auth.sessionId);
+    if (previous && this.now() - previous.sentAt < resendAfter * 1000) {
+      throw new MockHttpError(429, 'RATE_LIMITED', 'Please wait before requesting another code');
+    }
+
+    const expiresAt = this.now() + 5 * 60 * 1000;
+    this.stepUpCodes.set(auth.sessionId, { expiresAt, attempts: 0, sentAt: this.now() });
+
+    const sentAt = new Date(this.now()).toISOString();
+    const { phoneNumber, isPhoneVerified, email } = user.profile;
+    const channel = phoneNumber && isPhoneVerified ? 'sms' : 'email';
+    if (channel === 'sms') {
+      this.smsOutbox.push({ to: phoneNumber!, purpose: 'step_up', sentAt });
+    } else {
+      this.outbox.push({ to: email, type: 'step_up_code', token: MOCK_MFA_CODE, sentAt });
+    }
+    if (__DEV__) {
+      console.log(`[mock backend] step-up code by ${channel} - code: ${MOCK_MFA_CODE}`);
+    }
+
+    return {
+      data: {
+        channel,
+        destinationHint: channel === 'sms' ? maskPhoneNumber(phoneNumber!) : email.replace(/^(.).*(@.*)$/, '$1***$2'),
+        expiresAt: new Date(expiresAt).toISOString(),
+        resendAfter,
+      },
+    };
+  }
+
+  private verifyStepUpCode(sessionId: string, code: unknown): void {
+    const pending = this.stepUpCodes.get(sessionId);
+    if (!pending || pending.expiresAt <= this.now()) {
+      this.stepUpCodes.delete(sessionId);
+      throw new MockHttpError(400, 'OTP_EXPIRED', 'The code has expired. Request a new one.');
+    }
+    if (code !== MOCK_MFA_CODE) {
+      if (++pending.attempts >= 5) {
+        this.stepUpCodes.delete(sessionId);
+        throw new MockHttpError(400, 'OTP_EXPIRED', 'Too many wrong codes. Request a new one.');
+      }
+      throw new MockHttpError(400, 'OTP_INVALID', 'Invalid verification code');
+    }
+    this.stepUpCodes.delete(sessionId);
+  }
+
+  /**
+   * 403 STEP_UP_REQUIRED unless the session re-verified recently
+   */
+  private assertSteppedUp(request: MockRequest): void {
+    const auth = this.getAccessToken(request);
+    const until = auth ? this.stepUps.get(auth.sessionId) : undefined;
+    if (!until || until <= this.now()) {
+      throw new MockHttpError(403, 'STEP_UP_REQUIRED', 'Please confirm it is you to continue');
+    }
+  }
+
+  // ========================================================================================
+  // ACTIVE SESSION HANDLERS
+  // ========================================================================================
+
+  private listSessions(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    const auth = this.getAccessToken(request)!;
+    const sessions = [...this.sessions.values()]
+      .filter(session => session.userId === user.profile.id && session.refreshExpiresAt > this.now())
+      .sort((a, b) => b.lastActivityAt - a.lastActivityAt)
+      .map(session => this.toSessionInfo(user, session, auth.sessionId));
+    return { data: { sessions } };
+  }
+
+  private revokeOtherSession(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    const auth = this.getAccessToken(request)!;
+    const session = this.findUserSession(user, request.body?.sessionId);
+    if (session.sessionId === auth.sessionId) {
+      throw new MockHttpError(400, 'CURRENT_SESSION', 'Sign out to end the session on this device');
+    }
+    this.assertSteppedUp(request);
+    this.revokeSession(session.sessionId);
+    return { status: 204 };
+  }
+
+  private trustSession(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    const auth = this.getAccessToken(request)!;
+    const session = this.findUserSession(user, request.body?.sessionId);
+    this.assertSteppedUp(request);
+
+    // Trust belongs to the device, not the session - it survives sign-out
+    this.trustedDevices.forEach((entry, token) => {
+      if (entry.userId === user.profile.id && entry.deviceId === session.deviceId) {
+        this.trustedDevices.delete(token);
+      }
+    });
+    if (request.body?.trusted) {
+      this.trustedDevices.set(randomId('trusted'), { userId: user.profile.id, deviceId: session.deviceId });
+    }
+    return { data: { session: this.toSessionInfo(user, session, auth.sessionId) } };
+  }
+
+  private findUserSession(user: MockUser, sessionId: unknown): MockSession {
+    const session = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.userId !== user.profile.id) {
+      throw new MockHttpError(404, 'SESSION_NOT_FOUND', 'This session has already ended');
+    }
+    return session;
+  }
+
+  private toSessionInfo(user: MockUser, session: MockSession, currentSessionId: string): Record<string, unknown> {
+    const device = this.devices.get(session.deviceId);
+    return {
+      sessionId: session.sessionId,
+      deviceId: session.deviceId,
+      deviceInfo: {
+        platform: device?.platform ?? 'unknown',
+        osVersion: device?.osVersion,
+        appVersion: device?.appVersion,
+      },
+      location: MOCK_LOCATION,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+      isCurrent: session.sessionId === currentSessionId,
+      isTrusted: this.isTrustedDevice(user, session.deviceId),
+    };
+  }
+
+  private disableMfa(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    this.checkMfaCode(request);
+
+    user.mfa = { enabled: false, pendingSecret: null, recoveryCodes: [] };
+    user.profile.is2FAEnabled = false;
+    this.trustedDevices.forEach((entry, token) => {
+      if (entry.userId === user.profile.id) {
+        this.trustedDevices.delete(token);
+      }
+    });
+    return { status: 204 };
+  }
+
+  private regenerateRecoveryCodes(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    if (!user.mfa.enabled) {
+      throw new MockHttpError(400, 'MFA_NOT_ENABLED', 'Two-factor authentication is off');
+    }
+    this.checkMfaCode(request);
+
+    user.mfa.recoveryCodes = this.createRecoveryCodes();
+    return { data: { recoveryCodes: user.mfa.recoveryCodes } };
+  }
+
+  private checkMfaCode(request: MockRequest): void {
+    if (request.body?.code !== MOCK_MFA_CODE) {
+      throw new MockHttpError(400, 'MFA_INVALID', 'Invalid verification code');
+    }
+  }
+
+  private createRecoveryCodes(): string[] {
+    return Array.from({ length: 10 }, () => {
+      const raw = Math.random().toString(36).slice(2, 10).toUpperCase().padEnd(8, '0');
+      return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+    });
+  }
+
+  // ========================================================================================
+  // USER HANDLERS
+  // ========================================================================================
+
+  private updateProfile(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    const allowed = ['firstName', 'lastName', 'displayName', 'preferredLanguage', 'timezone'] as const;
+    const updatedFields = allowed.filter(field => request.body?.[field] !== undefined);
+
+    updatedFields.forEach(field => {
+      (user.profile as any)[field] = request.body[field];
+    });
+    user.profile.updatedAt = new Date(this.now()).toISOString();
+
+    return { data: { user: user.profile, updatedFields } };
+  }
+
+  private updateSettings(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    user.settings = { ...user.settings, ...(request.body?.settings || {}) };
+    return { data: { settings: user.settings } };
+  }
+
+  private getMetrics(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    const now = new Date(this.now()).toISOString();
+    return {
+      data: {
+        metrics: {
+          totalSessions: [...this.sessions.values()].filter(session => session.userId === user.profile.id).length,
+          averageSessionDuration: 420,
+          lastActivity: now,
+          avatarCreationCount: user.avatar ? 1 : 0,
+          avatarUpdates: user.avatar ? user.avatar.version - 1 : 0,
+          lastAvatarUpdate: user.avatar?.updatedAt ?? user.profile.createdAt,
+          screenViews: {},
+          featureUsage: {},
+          averageLoadTime: this.fixtures.latencyMs,
+          errorRate: 0,
+        },
+      },
+    };
+  }
+
+  // ========================================================================================
+  // AVATAR HANDLERS - PROCESSING STATE MACHINE
+  // ========================================================================================
+
+  private getAvatar(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    return {
+      data: {
+        avatar: user.avatar ? this.toAvatarState(user.avatar) : null,
+        hasAvatar: !!user.avatar,
+        lastUpdated: user.avatar?.updatedAt,
+      },
+    };
+  }
+
+  private updateAvatar(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    const { rpmId, rpmUrl, configuration, customizations } = request.body || {};
+
+    if (!rpmId || !rpmUrl) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'rpmId and rpmUrl are required');
+    }
+
+    user.avatar = {
+      rpmId,
+      rpmUrl,
+      version: (user.avatar?.version ?? 0) + 1,
+      configuration: configuration ?? null,
+      customizations: customizations ?? null,
+      processingId: randomId('proc'),
+      processingStartedAt: this.now(),
+      updatedAt: new Date(this.now()).toISOString(),
+    };
+    user.profile.hasAvatar = true;
+    user.profile.avatarVersion = user.avatar.version;
+
+    return {
+      status: 202,
+      data: {
+        avatar: this.toAvatarState(user.avatar),
+        processingId: user.avatar.processingId,
+        estimatedProcessingTime: Math.ceil(this.fixtures.avatarProcessingMs / 1000),
+      },
+    };
+  }
+
+  private getAvatarStatus(request: MockRequest): MockResult {
+    const user = this.authenticate(request);
+    const avatar = user.avatar;
+
+    if (!avatar || avatar.processingId !== request.query.processingId) {
+      throw new MockHttpError(404, 'NOT_FOUND', 'Unknown processing job');
+    }
+
+    const status = this.getProcessingStatus(avatar);
+    // Wire format - avatar dates stay ISO strings until the client schema parses them
+    const response: Omit<AvatarStatusApiResponse, 'avatar'> & { avatar?: Record<string, unknown> } = {
+      status: status.status,
+      progress: status.progress,
+      currentStep: status.currentStep,
+      estimatedTimeRemaining: status.remainingSeconds,
+      processingId: avatar.processingId!,
+    };
+
+    if (status.status === 'complete') {
+      response.avatar = this.toAvatarState(avatar);
+    } else if (status.status === 'error') {
+      response.error = { code: 'PROCESSING_FAILED', message: 'Avatar optimization failed (mock)' };
+    }
+
+    return { data: response };
+  }
+
+  /**
+   * queued -> processing -> complete|error, driven by elapsed (mock) time
+   */
+  private getProcessingStatus(avatar: MockAvatar): {
+    status: AvatarStatusApiResponse['status'];
+    progress: number;
+    currentStep?: string;
+    remainingSeconds?: number;
+  } {
+    if (avatar.processingStartedAt === null) {
+      return { status: 'complete', progress: 100 };
+    }
+
+    const duration = this.fixtures.avatarProcessingMs;
+    const elapsed = this.now() - avatar.processingStartedAt;
+    const remainingSeconds = Math.max(0, Math.ceil((duration - elapsed) / 1000));
+
+    if (elapsed < duration * QUEUED_SHARE) {
+      return { status: 'queued', progress: 0, currentStep: 'queued', remainingSeconds };
+    }
+    if (elapsed < duration) {
+      const share = (elapsed - duration * QUEUED_SHARE) / (duration * (1 - QUEUED_SHARE));
+      const step = PROCESSING_STEPS[Math.min(PROCESSING_STEPS.length - 1, Math.floor(share * PROCESSING_STEPS.length))];
+      return { status: 'processing', progress: Math.max(5, Math.min(95, Math.round(share * 100))), currentStep: step, remainingSeconds };
+    }
+    return this.fixtures.failAvatarProcessing
+      ? { status: 'error', progress: 100 }
+      : { status: 'complete', progress: 100 };
+  }
+
+  /**
+   * Wire format of an avatar (dates as ISO strings, as the real API sends them)
+   */
+  private toAvatarState(avatar: MockAvatar): Record<string, unknown> {
+    const { status } = this.getProcessingStatus(avatar);
+    const complete = status === 'complete';
+    const thumbnail = complete ? avatar.rpmUrl.replace(/\.glb$/, '.png') : null;
+
+    return {
+      rpmId: avatar.rpmId,
+      rpmUrl: avatar.rpmUrl,
+      version: avatar.version,
+      status,
+      lastUpdated: avatar.updatedAt,
+      thumbnails: {
+        small: thumbnail, medium: thumbnail, large: thumbnail,
+        square: thumbnail, portrait: thumbnail, landscape: thumbnail,
+      },
+      optimized: {
+        mobile: complete ? avatar.rpmUrl : null, mobileHd: null, web: complete ? avatar.rpmUrl : null,
+        webHd: null, ar: null, vr: null, streaming: null, lowLatency: null,
+      },
+      glb: avatar.rpmUrl,
+      usdz: null,
+      fbx: null,
+      configuration: avatar.configuration,
+      customizations: avatar.customizations,
+      processingMetadata: null,
+      error: status === 'error'
+        ? { type: 'PROCESSING_ERROR', code: 'PROCESSING_FAILED', message: 'Avatar optimization failed (mock)' }
+        : null,
+      expiresAt: null,
+    };
+  }
+
+  // ========================================================================================
+  // SEARCH & SYSTEM HANDLERS
+  // ========================================================================================
+
+  private search(request: MockRequest): MockResult {
+    this.authenticate(request);
+    const query = (request.query.query || '').toLowerCase();
+    const page = Math.max(1, Number(request.query.page) || 1);
+    const pageSize = Math.max(1, Number(request.query.pageSize) || 20);
+
+    const matches: SearchResult[] = [...this.users.values()]
+      .filter(user => `${user.profile.displayName} ${user.profile.username}`.toLowerCase().includes(query))
+      .map(user => ({
+        id: user.profile.id,
+        type: 'user',
+        title: user.profile.displayName,
+        description: `@${user.profile.username}`,
+        relevanceScore: user.profile.username.toLowerCase() === query ? 1 : 0.5,
+      }));
+
+    return {
+      data: {
+        results: matches.slice((page - 1) * pageSize, page * pageSize),
+        totalResults: matches.length,
+        searchTime: this.fixtures.latencyMs,
+      },
+    };
+  }
+
+  private getHealth(): MockResult {
+    const now = new Date(this.now()).toISOString();
+    const service = { status: 'healthy', responseTime: 1, lastCheck: now };
+    return {
+      data: {
+        status: 'healthy',
+        timestamp: now,
+        version: 'mock',
+        uptime: Math.round(this.now() / 1000),
+        services: { database: service, redis: service, storage: service, avatarProcessing: service },
+        metrics: { requestsPerMinute: 0, averageResponseTime: this.fixtures.latencyMs, errorRate: 0 },
+      },
+    };
+  }
+
+  private getVersion(): MockResult {
+    return {
+      data: {
+        version: 'mock',
+        buildNumber: '0',
+        buildDate: new Date(0).toISOString(),
+        gitCommit: 'mock',
+        environment: 'development',
+        features: [],
+        deprecations: [],
+      },
+    };
+  }
+
+  // ========================================================================================
+  // STATE HELPERS
+  // ========================================================================================
+
+  private now(): number {
+    return Date.now() + this.clockOffset;
+  }
+
+  private createUser(fixture: MockUserFixture): MockUser {
+    const now = new Date(this.now()).toISOString();
+    const email = fixture.email.trim().toLowerCase();
+    const username = fixture.username || email.split('@')[0];
+    const displayName = [fixture.firstName, fixture.lastName].filter(Boolean).join(' ') || username;
+
+    const user: MockUser = {
+      profile: {
+        id: randomId('user'),
+        email,
+        username,
+        phoneNumber: fixture.phoneNumber,
+        firstName: fixture.firstName,
+        lastName: fixture.lastName,
+        displayName,
+        isEmailVerified: fixture.isEmailVerified ?? true,
+        isPhoneVerified: !!fixture.phoneNumber,
+        preferredLanguage: fixture.preferredLanguage || 'en',
+        createdAt: now,
+        updatedAt: now,
+        role: fixture.role || 'user',
+        hasAvatar: !!fixture.avatar,
+        avatarVersion: fixture.avatar ? 1 : undefined,
+        is2FAEnabled: !!fixture.twoFactor,
+        hasPassword: true,
+      },
+      password: fixture.password,
+      settings: { ...DEFAULT_MOCK_SETTINGS, ...fixture.settings },
+      avatar: fixture.avatar ? {
+        ...fixture.avatar,
+        version: 1,
+        configuration: null,
+        customizations: null,
+        processingId: null,
+        processingStartedAt: null,
+        updatedAt: now,
+      } : null,
+      tempUserId: randomId('temp'),
+      mfa: {
+        enabled: !!fixture.twoFactor,
+        pendingSecret: null,
+        recoveryCodes: fixture.twoFactor ? this.createRecoveryCodes() : [],
+      },
+      identities: [],
+    };
+
+    this.users.set(user.profile.id, user);
+    return user;
+  }
+
+  private findByEmail(email: unknown): MockUser | undefined {
+    if (typeof email !== 'string') return undefined;
+    const normalized = email.trim().toLowerCase();
+    if (!normalized) return undefined; // phone-only accounts have no email
+    return [...this.users.values()].find(user => user.profile.email === normalized);
+  }
+
+  private findByPhone(e164: string): MockUser | undefined {
+    return [...this.users.values()].find(user => user.profile.phoneNumber === e164);
+  }
+
+  private createSession(user: MockUser, deviceId = 'unknown', sessionId = randomId('sess')) {
+    const issuedAt = Math.floor(this.now() / 1000);
+    const expiresAt = this.now() + this.fixtures.accessTokenTtl * 1000;
+    const accessToken = createJwt({
+      sub: user.profile.id,
+      sid: sessionId,
+      iat: issuedAt,
+      exp: issuedAt + this.fixtures.accessTokenTtl,
+      jti: randomId('jti'),
+    });
+
+    const session: MockSession = {
+      sessionId,
+      userId: user.profile.id,
+      deviceId,
+      refreshToken: randomId('refresh'),
+      refreshExpiresAt: this.now() + this.fixtures.refreshTokenTtl * 1000,
+      createdAt: this.now(),
+      lastActivityAt: this.now(),
+    };
+
+    this.sessions.set(sessionId, session);
+    this.accessTokens.set(accessToken, { userId: user.profile.id, sessionId, expiresAt });
+
+    return {
+      session,
+      tokens: {
+        accessToken,
+        refreshToken: session.refreshToken,
+        tokenType: 'Bearer',
+        expiresIn: this.fixtures.accessTokenTtl,
+        expiresAt: new Date(expiresAt).toISOString(),
+        iat: issuedAt,
+      },
+    };
+  }
+
+  private revokeSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+    this.accessTokens.forEach((token, key) => {
+      if (token.sessionId === sessionId) {
+        this.accessTokens.delete(key);
+      }
+    });
+  }
+
+  private getAccessToken(request: MockRequest) {
+    const header = request.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+    const entry = this.accessTokens.get(token);
+    return entry && entry.expiresAt > this.now() ? entry : null;
+  }
+
+  /**
+   * Resolve the calling user or fail with 401
+   */
+  private authenticate(request: MockRequest): MockUser {
+    const auth = this.getAccessToken(request);
+    const user = auth ? this.users.get(auth.userId) : undefined;
+    if (!user) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', 'Access token is missing, invalid or expired');
+    }
+    const session = this.sessions.get(auth!.sessionId);
+    if (session) {
+      session.lastActivityAt = this.now();
+    }
+    return user;
+  }
+
+  private recordDevice(deviceInfo: any): void {
+    if (deviceInfo?.deviceId) {
+      const { platform, osVersion, appVersion } = deviceInfo;
+      this.devices.set(deviceInfo.deviceId, { platform: platform || 'unknown', osVersion, appVersion });
+    }
+  }
+
+  /**
+   * Remembered after a 2FA "trust this device" or marked from the sessions screen
+   */
+  private isTrustedDevice(user: MockUser, deviceId: string | undefined, token?: string): boolean {
+    const byToken = token ? this.trustedDevices.get(token) : undefined;
+    if (byToken?.userId === user.profile.id) return true;
+    return !!deviceId && [...this.trustedDevices.values()]
+      .some(entry => entry.userId === user.profile.id && entry.deviceId === deviceId);
+  }
+
+  private sendVerificationEmail(user: MockUser): void {
+    const token = randomId('verify');
+    this.verificationTokens.set(token, user.profile.id);
+    this.sendEmail(user.profile.email, 'verification', token);
+  }
+
+  private consumeVerificationToken(token: string | undefined): MockUser {
+    const userId = token ? this.verificationTokens.get(token) : undefined;
+    const user = userId ? this.users.get(userId) : undefined;
+    if (!token || !user) {
+      throw new MockHttpError(400, 'INVALID_VERIFICATION_TOKEN', 'Verification link is invalid or has already been used');
+    }
+
+    this.verificationTokens.delete(token);
+    user.profile.isEmailVerified = true;
+    user.profile.updatedAt = new Date(this.now()).toISOString();
+    return user;
+  }
+
+  private sendEmail(to: string, type: MockEmail['type'], token: string): void {
+    this.outbox.push({ to, type, token, sentAt: new Date(this.now()).toISOString() });
+    if (__DEV__) {
+      console.log(`[mock backend] ${type} email to ${to} - token: ${token}`);
+    }
+  }
+}
+
+/**
+ * Shared mock backend used by the 'mock' environment
+ */
+export const mockBackend = new MockBackend();
+
+export default mockBackend;
@@ -0,0 +1,112 @@
+// src/core/services/mockFixtures.ts
+// IRANVERSE Mock Backend Fixtures
+// Seed data and tunables for the in-process mock API
+// Built for 90M users - Reproducible offline development and tests
+import { UserSettingsApiResponse } from '../types/api';
+import { AuthenticatedUser } from '../../features/auth/types';
+
+// ========================================================================================
+// FIXTURE TYPES
+// ========================================================================================
+
+/**
+ * Seeded account - omitted fields get sensible defaults
+ */
+export interface MockUserFixture {
+  email: string; // empty for phone-only accounts
+  password: string;
+  phoneNumber?: string; // E.164, verified - phone sign-in works for it
+  username?: string;
+  firstName?: string;
+  lastName?: string;
+  isEmailVerified?: boolean;
+  preferredLanguage?: AuthenticatedUser['preferredLanguage'];
+  role?: AuthenticatedUser['role'];
+  // Existing Ready Player Me avatar (complete)
+  avatar?: { rpmId: string; rpmUrl: string } | null;
+  settings?: Partial<UserSettingsApiResponse['settings']>;
+  // Enrolled in TOTP - login answers MFA_REQUIRED (codes: MOCK_MFA_CODE)
+  twoFactor?: boolean;
+}
+
+/**
+ * Full mock backend seed
+ */
+export interface MockFixtures {
+  users: MockUserFixture[];
+  latencyMs: number; // simulated round trip
+  accessTokenTtl: number; // seconds
+  refreshTokenTtl: number; // seconds
+  avatarProcessingMs: number; // queued -> complete
+  failAvatarProcessing: boolean; // finish processing with an error instead
+  lockoutAttempts: number; // wrong passwords before the server locks the account
+  lockoutDuration: number; // seconds
+  stepUpWindow: number; // seconds a step-up covers sensitive actions
+}
+
+// ========================================================================================
+// DEFAULT FIXTURES
+// ========================================================================================
+
+export const DEFAULT_MOCK_SETTINGS: UserSettingsApiResponse['settings'] = {
+  profileVisibility: 'public',
+  allowDirectMessages: true,
+  showOnlineStatus: true,
+  emailNotifications: true,
+  pushNotifications: true,
+  avatarProcessingNotifications: true,
+  language: 'auto',
+  theme: 'dark',
+  culturalContext: 'iranian',
+  avatarQuality: 'auto',
+  autoOptimization: true,
+  lowDataMode: false,
+};
+
+export const DEFAULT_MOCK_FIXTURES: MockFixtures = {
+  users: [
+    {
+      email: 'demo@iranverse.com',
+      password: 'Iranverse123!',
+      phoneNumber: '+989121234567',
+      username: 'demo',
+      firstName: 'Dara',
+      lastName: 'Karimi',
+      isEmailVerified: true,
+      avatar: {
+        rpmId: '64bfa15f0e72c63d7c3934a6',
+        rpmUrl: 'https://models.readyplayer.me/64bfa15f0e72c63d7c3934a6.glb',
+      },
+    },
+    {
+      email: 'new@iranverse.com',
+      password: 'Iranverse123!',
+      username: 'newcomer',
+      isEmailVerified: true,
+      preferredLanguage: 'fa',
+      avatar: null,
+    },
+    {
+      email: 'secure@iranverse.com',
+      password: 'Iranverse123!',
+      username: 'secure',
+      isEmailVerified: true,
+      twoFactor: true,
+      avatar: null,
+    },
+    {
+      email: 'unverified@iranverse.com',
+      password: 'Iranverse123!',
+      username: 'unverified',
+      isEmailVerified: false,
+    },
+  ],
+  latencyMs: 250,
+  accessTokenTtl: 15 * 60, // 15 minutes
+  refreshTokenTtl: 30 * 24 * 60 * 60, // 30 days
+  avatarProcessingMs: 6000,
+  failAvatarProcessing: false,
+  lockoutAttempts: 10, // above the client limit so reinstalls still hit a server lock
+  lockoutDuration: 30 * 60, // 30 minutes
+  stepUpWindow: 5 * 60, // 5 minutes
+};
@@ -0,0 +1,352 @@
+// src/core/services/offlineQueue.ts
+// IRANVERSE Offline Mutation Queue
+// Durable queue for mutating calls made while offline - replayed on reconnect
+// Built for 90M users - Unstable Iranian mobile networks
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import {
+  ApiResponse,
+  ApiError,
+  ApiRequestConfig,
+  QueuedMutation,
+  OfflineQueueSnapshot,
+} from '../types/api';
+import { secureStorage, STORAGE_KEYS } from '../utils/storage';
+import { NETWORK_CONFIG } from '../config/app.config';
+
+// ========================================================================================
+// QUEUE TYPES
+// ========================================================================================
+
+/**
+ * Sends a queued mutation to the server (provided by ApiClient)
+ */
+export type MutationExecutor = (mutation: QueuedMutation) => Promise<ApiResponse<any>>;
+
+/**
+ * Receives a fresh snapshot whenever the queue or connectivity changes
+ */
+export type OfflineQueueListener = (snapshot: OfflineQueueSnapshot) => void;
+
+export interface OfflineQueueConfig {
+  retryDelay: number; // ms before retrying a replay that stalled while online
+  retryMultiplier: number; // backoff between consecutive stalled replays
+  maxRetryDelay: number; // ms
+}
+
+/**
+ * Error types that keep the mutation queued for the next reconnect
+ */
+const TRANSIENT_ERROR_TYPES: ApiError['type'][] = [
+  'NETWORK_ERROR',
+  'TIMEOUT_ERROR',
+  'CONNECTION_ERROR',
+  'DNS_ERROR',
+  'REQUEST_CANCELLED',
+];
+
+/**
+ * Check if NetInfo reports a usable connection
+ */
+const isReachable = (state: NetInfoState): boolean => {
+  return !!state.isConnected && state.isInternetReachable !== false;
+};
+
+/**
+ * Generate idempotency key shared by the original attempt and every replay
+ */
+export const generateIdempotencyKey = (): string => Crypto.randomUUID();
+
+// ========================================================================================
+// OFFLINE MUTATION QUEUE
+// ========================================================================================
+
+/**
+ * Persistent FIFO of mutations waiting for connectivity
+ */
+export class OfflineMutationQueue {
+  private items: QueuedMutation[] = [];
+  private listeners = new Set<OfflineQueueListener>();
+  private executor: MutationExecutor | null = null;
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private isOnline = true;
+  private isReplaying = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryCount = 0; // stalled replays since the last one that got through
+
+  constructor(
+    private readonly config: OfflineQueueConfig = {
+      retryDelay: NETWORK_CONFIG.retryDelay,
+      retryMultiplier: NETWORK_CONFIG.retryMultiplier,
+      maxRetryDelay: 5 * 60 * 1000,
+    }
+  ) {}
+
+  /**
+   * Connect the queue to an executor and start watching connectivity
+   */
+  attach(executor: MutationExecutor): void {
+    this.executor = executor;
+
+    if (!this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo = NetInfo.addEventListener(state => {
+        const online = isReachable(state);
+        const reconnected = online && !this.isOnline;
+        this.isOnline = online;
+        this.notify();
+
+        // Offline, only a reconnect can help - and it starts over without backing off
+        if (!online) {
+          this.cancelRetry();
+        }
+        if (reconnected) {
+          this.retryCount = 0;
+          this.replay();
+        }
+      });
+    }
+
+    // Replay anything left over from a previous session
+    this.load().then(() => {
+      if (this.isOnline) {
+        this.replay();
+      }
+    });
+  }
+
+  /**
+   * Stop watching connectivity and drop any scheduled retry
+   */
+  detach(): void {
+    this.cancelRetry();
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+    this.executor = null;
+  }
+
+  /**
+   * Query current connectivity
+   */
+  async isConnected(): Promise<boolean> {
+    try {
+      this.isOnline = isReachable(await NetInfo.fetch());
+    } catch {
+      // Assume online so requests still get a chance to go out
+      this.isOnline = true;
+    }
+    return this.isOnline;
+  }
+
+  /**
+   * Persist a mutation for later replay
+   */
+  async enqueue(config: ApiRequestConfig): Promise<QueuedMutation> {
+    await this.load();
+
+    const mutation: QueuedMutation = {
+      id: `mut_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      idempotencyKey: config.idempotencyKey || generateIdempotencyKey(),
+      method: config.method as QueuedMutation['method'],
+      url: config.url,
+      data: config.data,
+      requiresAuth: config.requiresAuth !== false,
+      status: 'queued',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.items.push(mutation);
+    await this.persist();
+    this.notify();
+    return mutation;
+  }
+
+  /**
+   * Replay queued mutations in order, stopping at the first transient failure
+   * A pass that stalls while online is retried with exponential backoff
+   */
+  async replay(): Promise<void> {
+    if (this.isReplaying || !this.executor) return;
+
+    // Claimed before the first await - a reconnect during load must not start a second pass
+    this.isReplaying = true;
+    this.cancelRetry();
+    this.notify();
+
+    let stalled = false;
+    try {
+      await this.load();
+
+      for (const mutation of this.items.filter(item => item.status === 'queued')) {
+        mutation.status = 'replaying';
+        mutation.attempts++;
+        mutation.lastAttemptAt = new Date().toISOString();
+        this.notify();
+
+        try {
+          await this.executor(mutation);
+          this.items = this.items.filter(item => item.id !== mutation.id);
+        } catch (error) {
+          const apiError = error as ApiError;
+          mutation.lastError = apiError;
+
+          if (this.isTransient(apiError)) {
+            // Still offline or server struggling - try again later or on reconnect
+            mutation.status = 'queued';
+            stalled = true;
+            break;
+          }
+
+          mutation.status = apiError?.type === 'CONFLICT' || apiError?.status === 412
+            ? 'conflict'
+            : 'failed';
+        } finally {
+          await this.persist();
+          this.notify();
+        }
+      }
+    } finally {
+      this.isReplaying = false;
+      this.notify();
+    }
+
+    if (stalled) {
+      this.scheduleRetry();
+    } else {
+      this.retryCount = 0;
+    }
+  }
+
+  /**
+   * Re-queue a conflicting or failed mutation
+   * A new idempotency key is issued so the server treats it as a fresh attempt
+   */
+  async retry(id: string): Promise<void> {
+    await this.load();
+
+    const mutation = this.items.find(item => item.id === id);
+    if (!mutation || mutation.status === 'replaying') return;
+
+    mutation.status = 'queued';
+    mutation.idempotencyKey = generateIdempotencyKey();
+    mutation.lastError = undefined;
+    await this.persist();
+    this.notify();
+
+    if (this.isOnline) {
+      await this.replay();
+    }
+  }
+
+  /**
+   * Drop a mutation without sending it
+   */
+  async discard(id: string): Promise<void> {
+    await this.load();
+    this.items = this.items.filter(item => item.id !== id || item.status === 'replaying');
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * Drop every queued mutation (e.g. on logout)
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.items = this.items.filter(item => item.status === 'replaying');
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * Get current queue state
+   */
+  getSnapshot(): OfflineQueueSnapshot {
+    return {
+      items: [...this.items],
+      queuedCount: this.items.filter(item => item.status === 'queued' || item.status === 'replaying').length,
+      conflictCount: this.items.filter(item => item.status === 'conflict').length,
+      failedCount: this.items.filter(item => item.status === 'failed').length,
+      isOnline: this.isOnline,
+      isReplaying: this.isReplaying,
+    };
+  }
+
+  /**
+   * Subscribe to queue changes
+   */
+  subscribe(listener: OfflineQueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Retry a stalled replay after the next backoff step - reconnects replay on their own
+   */
+  private scheduleRetry(): void {
+    if (!this.executor || !this.isOnline || this.retryTimer) return;
+
+    const delay = Math.min(
+      this.config.retryDelay * Math.pow(this.config.retryMultiplier, this.retryCount),
+      this.config.maxRetryDelay
+    );
+    this.retryCount++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.replay();
+    }, delay);
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private isTransient(error: ApiError): boolean {
+    if (!error?.type) return true;
+    return TRANSIENT_ERROR_TYPES.includes(error.type) || error.retryable;
+  }
+
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.warn('Offline queue listener failed:', error);
+      }
+    });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = secureStorage
+        .getItem<QueuedMutation[]>(STORAGE_KEYS.offlineQueue)
+        .then(result => {
+          if (result.success && result.data) {
+            // Anything interrupted mid-replay goes back in line
+            const restored = result.data.map(item =>
+              item.status === 'replaying' ? { ...item, status: 'queued' as const } : item
+            );
+            this.items = [...restored, ...this.items];
+            this.notify();
+          }
+        })
+        .catch(error => {
+          console.warn('Failed to load offline queue:', error);
+        });
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    await secureStorage.setItem(STORAGE_KEYS.offlineQueue, this.items);
+  }
+}
+
+export default OfflineMutationQueue;
@@ -0,0 +1,116 @@
+// src/core/services/requestScheduler.ts
+// IRANVERSE Request Scheduler
+// Priority queue enforcing NETWORK_CONFIG.maxConcurrentRequests - consumed by ApiClient
+// Built for 90M users - Keeps critical calls responsive on congested networks
+import { ApiRequestConfig } from '../types/api';
+
+// ========================================================================================
+// SCHEDULER TYPES
+// ========================================================================================
+
+export type RequestPriority = NonNullable<ApiRequestConfig['priority']>;
+
+/**
+ * Scheduler statistics
+ */
+export interface RequestSchedulerStats {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+}
+
+interface ScheduledTask {
+  start: () => void;
+}
+
+const PRIORITY_ORDER: RequestPriority[] = ['high', 'normal', 'low'];
+
+// ========================================================================================
+// REQUEST SCHEDULER - PRIORITY QUEUE
+// ========================================================================================
+
+/**
+ * Runs at most `maxConcurrent` tasks at once, highest priority first (FIFO within a priority)
+ */
+export class RequestScheduler {
+  private maxConcurrent: number;
+  private active = 0;
+  private queues: Record<RequestPriority, ScheduledTask[]> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+
+  constructor(maxConcurrent: number) {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+  }
+
+  /**
+   * Run task when a slot frees up
+   * Aborting the signal while waiting removes the task from the queue
+   */
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const queue = this.queues[priority];
+
+      const onAbort = () => {
+        const index = queue.indexOf(entry);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+
+      const entry: ScheduledTask = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.next();
+            });
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(entry);
+      this.next();
+    });
+  }
+
+  /**
+   * Change concurrency limit (e.g. on slow connections)
+   */
+  setMaxConcurrent(maxConcurrent: number): void {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+    this.next();
+  }
+
+  /**
+   * Get scheduler statistics
+   */
+  getStats(): RequestSchedulerStats {
+    return {
+      active: this.active,
+      queued: PRIORITY_ORDER.reduce((total, priority) => total + this.queues[priority].length, 0),
+      maxConcurrent: this.maxConcurrent,
+    };
+  }
+
+  private next(): void {
+    while (this.active < this.maxConcurrent) {
+      const priority = PRIORITY_ORDER.find(p => this.queues[p].length > 0);
+      if (!priority) return;
+      this.queues[priority].shift()!.start();
+    }
+  }
+}
+
+export default RequestScheduler;
@@ -0,0 +1,321 @@
+// src/core/services/responseCache.ts
+// IRANVERSE HTTP Response Cache
+// Persistent GET cache with TTLs, ETags and LRU eviction - consumed by ApiClient
+// Built for 90M users - Instant cold-start reads on slow networks
+import { ApiResponse, ApiCacheConfig, ApiCachePolicy } from '../types/api';
+import { secureStorage, STORAGE_KEYS, responseCacheEntryKey } from '../utils/storage';
+
+// ========================================================================================
+// CACHE TYPES - RESPONSE CACHE
+// ========================================================================================
+
+/**
+ * Cached response as persisted in storage
+ */
+export interface CachedResponse<T = any> {
+  key: string;
+  endpoint: string;
+  response: ApiResponse<T>;
+  etag?: string;
+  storedAt: number; // epoch ms
+  expiresAt: number; // epoch ms - fresh until
+  staleUntil: number; // epoch ms - may be served stale until
+}
+
+/**
+ * Lightweight index record kept in memory and persisted separately
+ * so eviction never needs to decrypt the entries themselves
+ */
+export interface CacheIndexEntry {
+  endpoint: string;
+  size: number; // approximate bytes
+  lastAccess: number;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+/**
+ * Response cache statistics
+ */
+export interface ResponseCacheStats {
+  entries: number;
+  size: number; // bytes
+  maxSize: number; // bytes
+  hits: number;
+  misses: number;
+}
+
+// ========================================================================================
+// CACHE HEADER HELPERS
+// ========================================================================================
+
+/**
+ * Read max-age (seconds) from a Cache-Control header
+ */
+export const parseMaxAge = (cacheControl?: string): number | undefined => {
+  if (!cacheControl) return undefined;
+  const match = /max-age=(\d+)/i.exec(cacheControl);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+// ========================================================================================
+// RESPONSE CACHE - PERSISTENT LRU
+// ========================================================================================
+
+/**
+ * Persistent response cache bounded by ApiCacheConfig.maxSize
+ * Entries are stored through secureStorage and encrypted at rest
+ */
+export class ResponseCache {
+  private config: ApiCacheConfig;
+  private memory = new Map<string, CachedResponse>();
+  private index: Record<string, CacheIndexEntry> = {};
+  private loadPromise: Promise<void> | null = null;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(config: ApiCacheConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Check if caching is enabled
+   */
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Resolve the cache policy for an endpoint
+   * Endpoints without an explicit policy use network-first with the default TTL
+   */
+  getPolicy(endpoint: string): ApiCachePolicy {
+    return this.config.strategies[endpoint] || {
+      ttl: this.config.defaultTtl,
+      strategy: 'network-first',
+    };
+  }
+
+  /**
+   * Check if an entry is still within its TTL
+   */
+  isFresh(entry: CachedResponse): boolean {
+    return Date.now() < entry.expiresAt;
+  }
+
+  /**
+   * Get a cached response (fresh or stale) or null
+   */
+  async get<T>(key: string): Promise<CachedResponse<T> | null> {
+    await this.ensureLoaded();
+
+    const indexEntry = this.index[key];
+    if (!indexEntry) {
+      this.misses++;
+      return null;
+    }
+
+    // Past the stale window - drop it
+    if (Date.now() >= indexEntry.staleUntil) {
+      await this.remove(key);
+      this.misses++;
+      return null;
+    }
+
+    let entry = this.memory.get(key) as CachedResponse<T> | undefined;
+    if (!entry) {
+      const result = await secureStorage.getItem(responseCacheEntryKey<T>(key));
+      if (!result.success || !result.data) {
+        await this.remove(key);
+        this.misses++;
+        return null;
+      }
+      entry = result.data;
+      this.memory.set(key, entry);
+    }
+
+    indexEntry.lastAccess = Date.now();
+    this.hits++;
+    return entry;
+  }
+
+  /**
+   * Store a response under the given policy
+   */
+  async set<T>(
+    key: string,
+    response: ApiResponse<T>,
+    policy: ApiCachePolicy,
+    options: { ttl?: number; etag?: string } = {}
+  ): Promise<void> {
+    await this.ensureLoaded();
+
+    const now = Date.now();
+    const ttl = options.ttl ?? policy.ttl;
+    if (ttl <= 0 && !policy.staleTtl) return;
+
+    const expiresAt = now + ttl * 1000;
+    const entry: CachedResponse<T> = {
+      key,
+      endpoint: response.metadata?.endpoint || key,
+      response,
+      etag: options.etag,
+      storedAt: now,
+      expiresAt,
+      staleUntil: expiresAt + (policy.staleTtl || 0) * 1000,
+    };
+
+    const size = JSON.stringify(entry).length;
+    if (size > this.config.maxSize) return;
+
+    // Replace any previous version before making room
+    delete this.index[key];
+    await this.evict(size);
+
+    const stored = await secureStorage.setItem(responseCacheEntryKey(key), entry);
+    if (!stored.success) return;
+
+    this.memory.set(key, entry);
+    this.index[key] = {
+      endpoint: entry.endpoint,
+      size,
+      lastAccess: now,
+      expiresAt: entry.expiresAt,
+      staleUntil: entry.staleUntil,
+    };
+    await this.persistIndex();
+  }
+
+  /**
+   * Extend an entry's lifetime after a 304 Not Modified
+   */
+  async touch(key: string, policy: ApiCachePolicy, ttl?: number): Promise<void> {
+    await this.ensureLoaded();
+
+    const entry = this.memory.get(key);
+    const indexEntry = this.index[key];
+    if (!entry || !indexEntry) return;
+
+    const now = Date.now();
+    entry.expiresAt = now + (ttl ?? policy.ttl) * 1000;
+    entry.staleUntil = entry.expiresAt + (policy.staleTtl || 0) * 1000;
+    indexEntry.expiresAt = entry.expiresAt;
+    indexEntry.staleUntil = entry.staleUntil;
+    indexEntry.lastAccess = now;
+
+    await secureStorage.setItem(responseCacheEntryKey(key), entry);
+    await this.persistIndex();
+  }
+
+  /**
+   * Drop every entry related to a mutated endpoint
+   * An entry is related when either path is a prefix of the other
+   */
+  async invalidate(endpoint: string): Promise<void> {
+    await this.ensureLoaded();
+
+    const related = Object.keys(this.index).filter(key => {
+      const cachedEndpoint = this.index[key].endpoint;
+      return cachedEndpoint.startsWith(endpoint) || endpoint.startsWith(cachedEndpoint);
+    });
+
+    for (const key of related) {
+      await this.remove(key, false);
+    }
+    if (related.length > 0) {
+      await this.persistIndex();
+    }
+  }
+
+  /**
+   * Remove a single entry
+   */
+  async remove(key: string, persist = true): Promise<void> {
+    this.memory.delete(key);
+    delete this.index[key];
+    await secureStorage.removeItem(responseCacheEntryKey(key));
+    if (persist) {
+      await this.persistIndex();
+    }
+  }
+
+  /**
+   * Remove every cached response (e.g. on logout)
+   */
+  async clear(): Promise<void> {
+    await this.ensureLoaded();
+
+    for (const key of Object.keys(this.index)) {
+      await secureStorage.removeItem(responseCacheEntryKey(key));
+    }
+
+    this.memory.clear();
+    this.index = {};
+    this.hits = 0;
+    this.misses = 0;
+    await secureStorage.removeItem(STORAGE_KEYS.responseCacheIndex);
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): ResponseCacheStats {
+    return {
+      entries: Object.keys(this.index).length,
+      size: Object.values(this.index).reduce((total, entry) => total + entry.size, 0),
+      maxSize: this.config.maxSize,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Evict expired entries, then least recently used ones, until size fits
+   */
+  private async evict(incomingSize: number): Promise<void> {
+    const now = Date.now();
+    let total = 0;
+
+    for (const key of Object.keys(this.index)) {
+      if (now >= this.index[key].staleUntil) {
+        await this.remove(key, false);
+      } else {
+        total += this.index[key].size;
+      }
+    }
+
+    const byLastAccess = Object.keys(this.index)
+      .sort((a, b) => this.index[a].lastAccess - this.index[b].lastAccess);
+
+    while (total + incomingSize > this.config.maxSize && byLastAccess.length > 0) {
+      const key = byLastAccess.shift()!;
+      total -= this.index[key].size;
+      await this.remove(key, false);
+    }
+  }
+
+  /**
+   * Load the persisted index once per process
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = secureStorage
+        .getItem<Record<string, CacheIndexEntry>>(STORAGE_KEYS.responseCacheIndex)
+        .then(result => {
+          if (result.success && result.data) {
+            this.index = { ...result.data, ...this.index };
+          }
+        })
+        .catch(error => {
+          console.warn('Failed to load response cache index:', error);
+        });
+    }
+    return this.loadPromise;
+  }
+
+  private async persistIndex(): Promise<void> {
+    await secureStorage.setItem(STORAGE_KEYS.responseCacheIndex, this.index);
+  }
+}
+
+export default ResponseCache;
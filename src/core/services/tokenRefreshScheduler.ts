@@ -0,0 +1,288 @@
+// src/core/services/tokenRefreshScheduler.ts
+// IRANVERSE Token Refresh Scheduler
+// Single owner of the token pair: proactive refresh from the JWT exp, one refresh at a time
+// Built for 90M users - Rotated refresh tokens are never spent twice
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { RefreshTokenApiResponse } from '../types/api';
+import { ENCRYPTION_CONFIG } from '../config/app.config';
+import { getTokenClaims } from '../utils/storage';
+
+// ========================================================================================
+// SCHEDULER TYPES
+// ========================================================================================
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Performs the refresh request - supplied by ApiClient
+ */
+export type RefreshExecutor = (refreshToken: string, deviceId: string) => Promise<RefreshTokenApiResponse>;
+
+/**
+ * Outcome of a successful refresh
+ */
+export interface TokenRefreshResult {
+  tokens: SessionTokens;
+  data: RefreshTokenApiResponse; // may carry updated user fields
+}
+
+export type TokenEvent =
+  | { type: 'set'; tokens: SessionTokens | null } // login, restore or sign-out
+  | { type: 'refreshed'; tokens: SessionTokens; data: RefreshTokenApiResponse }
+  | { type: 'refresh_failed'; error: unknown; sessionEnded: boolean };
+
+export type TokenListener = (event: TokenEvent) => void;
+
+export interface TokenRefreshSchedulerConfig {
+  refreshBuffer: number; // seconds before exp to refresh (capped at half the token lifetime)
+  retryDelay: number; // seconds before retrying a refresh that failed on the network
+}
+
+/**
+ * The server rejected the refresh token - the session is over
+ */
+export class RefreshTokenRejectedError extends Error {
+  constructor(message: string = 'Refresh token was rejected', public readonly cause?: unknown) {
+    super(message);
+    this.name = 'RefreshTokenRejectedError';
+  }
+}
+
+// ========================================================================================
+// TOKEN REFRESH SCHEDULER
+// ========================================================================================
+
+/**
+ * Shared by every ApiClient and AuthContext so a burst of 401s, the proactive timer and
+ * manual refreshes all join the same request
+ */
+export class TokenRefreshScheduler {
+  private tokens: SessionTokens | null = null;
+  private deviceId = 'unknown';
+  private executor: RefreshExecutor | null = null;
+  private inFlight: Promise<TokenRefreshResult> | null = null;
+  private generation = 0; // bumped whenever tokens are replaced from outside
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private listeners = new Set<TokenListener>();
+
+  constructor(
+    private readonly config: TokenRefreshSchedulerConfig = {
+      refreshBuffer: ENCRYPTION_CONFIG.tokenRefreshBuffer,
+      retryDelay: 30,
+    }
+  ) {}
+
+  /**
+   * Register the request used for refreshes (the most recent client wins)
+   */
+  attach(executor: RefreshExecutor): void {
+    this.executor = executor;
+  }
+
+  setDeviceId(deviceId: string): void {
+    this.deviceId = deviceId;
+  }
+
+  getTokens(): SessionTokens | null {
+    return this.tokens;
+  }
+
+  /**
+   * Replace the token pair (null signs out) - an in-flight refresh is discarded
+   */
+  setTokens(tokens: SessionTokens | null): void {
+    this.generation++;
+    this.inFlight = null;
+    this.tokens = tokens;
+    this.emit({ type: 'set', tokens });
+    this.schedule();
+  }
+
+  subscribe(listener: TokenListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Refresh now, joining any refresh already running
+   */
+  refresh(): Promise<TokenRefreshResult> {
+    if (!this.inFlight) {
+      const generation = this.generation;
+      this.inFlight = this.performRefresh(generation).finally(() => {
+        if (this.generation === generation) {
+          this.inFlight = null;
+        }
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Enter a session from a refresh token kept elsewhere (the biometric vault)
+   * Nothing changes until the server accepts it - a rejection is left to the caller
+   */
+  refreshFrom(refreshToken: string): Promise<TokenRefreshResult> {
+    if (!this.executor) {
+      return Promise.reject(new Error('No API client attached for token refresh'));
+    }
+
+    const generation = ++this.generation;
+    this.inFlight = this.exchange(this.executor, refreshToken, generation).finally(() => {
+      if (this.generation === generation) {
+        this.inFlight = null;
+      }
+    });
+    return this.inFlight;
+  }
+
+  /**
+   * Resolve once the access token is usable - waits for a running refresh and
+   * refreshes first when the token has already expired
+   */
+  async ensureFresh(): Promise<void> {
+    if (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
+      return;
+    }
+
+    const expiresAt = this.tokens ? getExpiresAt(this.tokens.accessToken) : null;
+    if (expiresAt !== null && expiresAt <= Date.now()) {
+      // A network failure falls through to the request's own 401 handling
+      await this.refresh().catch(() => undefined);
+    }
+  }
+
+  // ========================================================================================
+  // INTERNALS
+  // ========================================================================================
+
+  private async performRefresh(generation: number): Promise<TokenRefreshResult> {
+    if (!this.tokens) {
+      throw new Error('No refresh token available');
+    }
+    if (!this.executor) {
+      throw new Error('No API client attached for token refresh');
+    }
+
+    try {
+      return await this.exchange(this.executor, this.tokens.refreshToken, generation);
+    } catch (error) {
+      if (generation === this.generation) {
+        const sessionEnded = error instanceof RefreshTokenRejectedError;
+        this.emit({ type: 'refresh_failed', error, sessionEnded });
+        if (!sessionEnded) {
+          this.scheduleIn(this.config.retryDelay * 1000);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Spend a refresh token and adopt the rotated pair
+   */
+  private async exchange(executor: RefreshExecutor, spent: string, generation: number): Promise<TokenRefreshResult> {
+    const data = await executor(spent, this.deviceId);
+
+    // Signed out or signed in again while the request was running
+    if (generation !== this.generation) {
+      throw new Error('Session changed during token refresh');
+    }
+
+    // Rotation - the old refresh token is dead, keep the old one only if none was issued
+    const tokens: SessionTokens = {
+      accessToken: data.tokens.accessToken,
+      refreshToken: data.tokens.refreshToken || spent,
+    };
+    this.tokens = tokens;
+    this.emit({ type: 'refreshed', tokens, data });
+    this.schedule();
+    return { tokens, data };
+  }
+
+  /**
+   * Arm the timer for the current access token
+   */
+  private schedule(): void {
+    this.clearTimer();
+    if (!this.tokens) {
+      this.appStateSubscription?.remove();
+      this.appStateSubscription = null;
+      return;
+    }
+
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    }
+
+    const delay = this.getRefreshDelay(this.tokens.accessToken);
+    if (delay !== null) {
+      this.scheduleIn(delay);
+    }
+  }
+
+  private scheduleIn(delay: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refresh().catch(error => {
+        console.warn('Scheduled token refresh failed:', error);
+      });
+    }, Math.max(0, delay));
+  }
+
+  /**
+   * Milliseconds until the token should be refreshed, null when it carries no exp
+   */
+  private getRefreshDelay(accessToken: string): number | null {
+    const claims = getTokenClaims(accessToken);
+    if (!claims?.exp) return null;
+
+    const lifetime = claims.iat ? claims.exp - claims.iat : this.config.refreshBuffer * 2;
+    const lead = Math.min(this.config.refreshBuffer, lifetime / 2);
+    return (claims.exp - lead) * 1000 - Date.now();
+  }
+
+  // Timers stall in the background - catch up as soon as the app is back
+  private handleAppStateChange = (status: AppStateStatus): void => {
+    if (status === 'active' && this.tokens && !this.inFlight) {
+      this.schedule();
+    }
+  };
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private emit(event: TokenEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('Token listener failed:', error);
+      }
+    });
+  }
+}
+
+const getExpiresAt = (accessToken: string): number | null => {
+  const exp = getTokenClaims(accessToken)?.exp;
+  return exp ? exp * 1000 : null;
+};
+
+/**
+ * Process-wide scheduler - every ApiClient instance shares it
+ */
+export const tokenRefreshScheduler = new TokenRefreshScheduler();
+
+export default tokenRefreshScheduler;
@@ -0,0 +1,573 @@
+// src/core/services/uploadManager.ts
+// IRANVERSE Upload Manager
+// Multipart and resumable chunked uploads with progress, pause/resume and checksums
+// Built for 90M users - Large 3D assets that survive dropped connections
+import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import type { ApiClient } from '../constants/api';
+import {
+  ApiResponse,
+  ApiError,
+  ApiErrorType,
+  FileUploadApiRequest,
+  FileUploadApiResponse,
+  UploadMode,
+  UploadStatus,
+  UploadProgress,
+  UploadSessionApiRequest,
+  UploadSessionApiResponse,
+  CompleteUploadApiRequest,
+} from '../types/api';
+import { AVATAR_CONFIG } from '../config/app.config';
+import { secureStorage, STORAGE_KEYS } from '../utils/storage';
+import { fileUploadResponseSchema, uploadSessionResponseSchema } from '../constants/apiSchemas';
+
+// ========================================================================================
+// UPLOAD CONFIGURATION
+// ========================================================================================
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024; // 1MB - small enough for flaky mobile links
+const CHUNKED_THRESHOLD = 2 * 1024 * 1024; // files above this default to chunked mode
+
+/**
+ * MIME types for supported 3D formats
+ */
+const MODEL_MIME_TYPES: Record<typeof AVATAR_CONFIG.supportedFormats[number], string> = {
+  glb: 'model/gltf-binary',
+  usdz: 'model/vnd.usdz+zip',
+  fbx: 'application/octet-stream',
+};
+
+// ========================================================================================
+// UPLOAD TYPES
+// ========================================================================================
+
+/**
+ * Endpoints used by a single upload
+ */
+export interface UploadEndpoints {
+  upload: string; // multipart target
+  sessions: string; // chunked session root
+}
+
+/**
+ * Per-upload options
+ */
+export interface UploadOptions {
+  mode?: UploadMode; // default: chunked for files above 2MB
+  chunkSize?: number; // bytes, chunked mode only
+  maxFileSize?: number; // bytes
+  onProgress?: (progress: UploadProgress) => void;
+  onStatusChange?: (status: UploadStatus) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Handle returned to callers for a running upload
+ */
+export interface UploadTask {
+  id: string;
+  promise: Promise<ApiResponse<FileUploadApiResponse>>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  getStatus: () => UploadStatus;
+  getProgress: () => UploadProgress;
+}
+
+/**
+ * Chunked session persisted so an interrupted upload resumes after restart
+ */
+export interface StoredUploadSession {
+  uploadId: string;
+  chunkSize: number;
+  createdAt: string; // ISO 8601
+}
+
+// ========================================================================================
+// UPLOAD HELPERS
+// ========================================================================================
+
+/**
+ * Build structured error for client-side upload failures
+ */
+const createUploadError = (
+  type: ApiErrorType,
+  message: string,
+  userMessage: string,
+  persianMessage: string,
+  endpoint?: string
+): ApiError => ({
+  type,
+  code: `UPLOAD_${type}`,
+  message,
+  status: 0,
+  statusText: '',
+  userMessage,
+  persianMessage,
+  endpoint,
+  method: 'POST',
+  timestamp: new Date().toISOString(),
+  retryable: false,
+});
+
+/**
+ * Read a local file URI into memory
+ */
+const readFile = async (uri: string): Promise<ArrayBuffer> => {
+  const response = await fetch(uri);
+  return response.arrayBuffer();
+};
+
+/**
+ * Check if the device has lost connectivity
+ */
+const isOffline = async (): Promise<boolean> => {
+  try {
+    const state = await NetInfo.fetch();
+    return !state.isConnected || state.isInternetReachable === false;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * SHA-256 hex digest of raw bytes
+ */
+export const sha256Hex = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, new Uint8Array(data));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Get lower-cased file extension
+ */
+const getExtension = (filename: string): string => {
+  const index = filename.lastIndexOf('.');
+  return index === -1 ? '' : filename.slice(index + 1).toLowerCase();
+};
+
+/**
+ * Build error for files above the configured size limit
+ */
+const createTooLargeError = (maxFileSize: number): ApiError => {
+  return createUploadError(
+    'PAYLOAD_TOO_LARGE',
+    `File exceeds maximum size of ${maxFileSize} bytes`,
+    `File is too large. Maximum size is ${Math.round(maxFileSize / (1024 * 1024))}MB.`,
+    'حجم فایل بیش از حد مجاز است.'
+  );
+};
+
+/**
+ * Validate an avatar 3D asset against AVATAR_CONFIG before any bytes are sent
+ */
+export const validateAvatarAsset = (file: FileUploadApiRequest['file']): ApiError | null => {
+  const extension = getExtension(file.name);
+
+  if (!(AVATAR_CONFIG.supportedFormats as readonly string[]).includes(extension)) {
+    return createUploadError(
+      'VALIDATION_ERROR',
+      `Unsupported avatar format: ${extension || 'unknown'}`,
+      `Avatar files must be ${AVATAR_CONFIG.supportedFormats.join(', ').toUpperCase()}.`,
+      'فرمت فایل آواتار پشتیبانی نمی‌شود.'
+    );
+  }
+
+  if (file.size > AVATAR_CONFIG.maxFileSize) {
+    return createTooLargeError(AVATAR_CONFIG.maxFileSize);
+  }
+
+  return null;
+};
+
+/**
+ * Resolve MIME type, falling back to the 3D model table
+ */
+const getMimeType = (file: FileUploadApiRequest['file']): string => {
+  if (file.type) return file.type;
+  const extension = getExtension(file.name) as keyof typeof MODEL_MIME_TYPES;
+  return MODEL_MIME_TYPES[extension] || 'application/octet-stream';
+};
+
+// ========================================================================================
+// RESUMABLE UPLOAD - TASK IMPLEMENTATION
+// ========================================================================================
+
+/**
+ * Single upload run with pause/resume support
+ * Chunked mode re-sends only missing chunks after pauses, dropped connections or restarts
+ */
+class ResumableUpload implements UploadTask {
+  readonly id = `upl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  readonly promise: Promise<ApiResponse<FileUploadApiResponse>>;
+
+  private status: UploadStatus = 'pending';
+  private progress: UploadProgress;
+  private attemptController = new AbortController();
+  private resumeWaiter: { resolve: () => void; reject: (error: ApiError) => void } | null = null;
+  private unsubscribeNetInfo: (() => void) | null = null;
+
+  constructor(
+    private client: ApiClient,
+    private endpoints: UploadEndpoints,
+    private request: FileUploadApiRequest,
+    private options: UploadOptions
+  ) {
+    this.progress = {
+      uploadedBytes: 0,
+      totalBytes: request.file.size,
+      percent: 0,
+    };
+
+    options.signal?.addEventListener('abort', () => this.cancel(), { once: true });
+    this.promise = this.run();
+  }
+
+  pause(): void {
+    if (this.status !== 'uploading') return;
+    this.setStatus('paused');
+    this.attemptController.abort();
+  }
+
+  resume(): void {
+    if (this.status !== 'paused') return;
+    this.stopWatchingNetwork();
+    this.attemptController = new AbortController();
+    this.setStatus('uploading');
+    this.resumeWaiter?.resolve();
+    this.resumeWaiter = null;
+  }
+
+  cancel(): void {
+    if (this.status === 'completed' || this.status === 'failed' || this.status === 'cancelled') return;
+    this.setStatus('cancelled');
+    this.stopWatchingNetwork();
+    this.attemptController.abort();
+    this.resumeWaiter?.reject(this.createCancelledError());
+    this.resumeWaiter = null;
+  }
+
+  getStatus(): UploadStatus {
+    return this.status;
+  }
+
+  getProgress(): UploadProgress {
+    return { ...this.progress };
+  }
+
+  // ======================================================================================
+  // UPLOAD FLOW
+  // ======================================================================================
+
+  private async run(): Promise<ApiResponse<FileUploadApiResponse>> {
+    try {
+      const maxFileSize = this.options.maxFileSize;
+      if (maxFileSize && this.request.file.size > maxFileSize) {
+        throw createTooLargeError(maxFileSize);
+      }
+
+      this.setStatus('uploading');
+      const bytes = await readFile(this.request.file.uri);
+
+      // Trust the bytes on disk over the declared size
+      if (maxFileSize && bytes.byteLength > maxFileSize) {
+        throw createTooLargeError(maxFileSize);
+      }
+      this.progress.totalBytes = bytes.byteLength;
+
+      const checksum = await sha256Hex(bytes);
+      const mode = this.options.mode || (bytes.byteLength > CHUNKED_THRESHOLD ? 'chunked' : 'multipart');
+
+      const response = mode === 'chunked'
+        ? await this.uploadChunked(bytes, checksum)
+        : await this.uploadMultipart(checksum);
+
+      // Server-side checksum must match what we sent
+      const serverChecksum = response.data?.metadata?.checksum;
+      if (serverChecksum && serverChecksum.toLowerCase() !== checksum) {
+        throw createUploadError(
+          'VALIDATION_ERROR',
+          'Uploaded file checksum mismatch',
+          'The upload was corrupted. Please try again.',
+          'فایل آپلود شده خراب است. لطفا دوباره تلاش کنید.',
+          this.endpoints.upload
+        );
+      }
+
+      this.updateProgress(this.progress.totalBytes);
+      this.setStatus('completed');
+      return response;
+    } catch (error) {
+      if (this.status !== 'cancelled') {
+        this.setStatus('failed');
+      }
+      throw this.status === 'cancelled' ? this.createCancelledError() : error;
+    } finally {
+      this.stopWatchingNetwork();
+    }
+  }
+
+  /**
+   * Single multipart request - restarted from zero after a pause
+   */
+  private async uploadMultipart(checksum: string): Promise<ApiResponse<FileUploadApiResponse>> {
+    const { file, category, metadata } = this.request;
+
+    return this.withResume(() => {
+      const form = new FormData();
+      // React Native FormData accepts { uri, type, name } file parts
+      form.append('file', { uri: file.uri, type: getMimeType(file), name: file.name } as any);
+      form.append('category', category);
+      form.append('checksum', checksum);
+      if (metadata) {
+        form.append('metadata', JSON.stringify(metadata));
+      }
+
+      return this.client.post<FileUploadApiResponse>(this.endpoints.upload, form, true, {
+        requestClass: 'upload',
+        signal: this.attemptController.signal,
+      });
+    });
+  }
+
+  /**
+   * Resumable chunked upload
+   */
+  private async uploadChunked(bytes: ArrayBuffer, checksum: string): Promise<ApiResponse<FileUploadApiResponse>> {
+    const session = await this.withResume(() => this.openSession(bytes.byteLength, checksum));
+    const chunkSize = session.chunkSize;
+    const chunkCount = Math.ceil(bytes.byteLength / chunkSize);
+    const received = new Set(session.receivedChunks);
+
+    this.progress.chunkCount = chunkCount;
+    this.updateProgress(this.countReceivedBytes(received, chunkSize, bytes.byteLength));
+
+    for (let index = 0; index < chunkCount; index++) {
+      if (received.has(index)) continue;
+
+      const start = index * chunkSize;
+      const end = Math.min(start + chunkSize, bytes.byteLength);
+      const chunk = bytes.slice(start, end);
+      const chunkChecksum = await sha256Hex(chunk);
+
+      await this.withResume(() => this.client.put<void>(
+        `${this.endpoints.sessions}/${session.uploadId}/chunks/${index}`,
+        chunk,
+        true,
+        {
+          requestClass: 'upload',
+          signal: this.attemptController.signal,
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            'Content-Range': `bytes ${start}-${end - 1}/${bytes.byteLength}`,
+            'X-Chunk-Checksum': chunkChecksum,
+          },
+        }
+      ));
+
+      received.add(index);
+      this.progress.chunkIndex = index;
+      this.updateProgress(this.countReceivedBytes(received, chunkSize, bytes.byteLength));
+    }
+
+    const completeRequest: CompleteUploadApiRequest = { checksum };
+    const response = await this.withResume(() => this.client.post<FileUploadApiResponse>(
+      `${this.endpoints.sessions}/${session.uploadId}/complete`,
+      completeRequest,
+      true,
+      { signal: this.attemptController.signal, responseSchema: fileUploadResponseSchema }
+    ));
+
+    await this.forgetSession(checksum);
+    return response;
+  }
+
+  /**
+   * Reuse a stored session for the same file when the server still has it
+   */
+  private async openSession(size: number, checksum: string): Promise<UploadSessionApiResponse> {
+    const stored = await this.loadSessions();
+    const existing = stored[this.getSessionKey(checksum)];
+
+    if (existing) {
+      try {
+        const response = await this.client.get<UploadSessionApiResponse>(
+          `${this.endpoints.sessions}/${existing.uploadId}`,
+          undefined,
+          true,
+          { cache: false, signal: this.attemptController.signal, responseSchema: uploadSessionResponseSchema }
+        );
+        if (response.data) {
+          return response.data;
+        }
+      } catch (error) {
+        // Expired or unknown session - start over, but let pauses propagate
+        if ((error as ApiError)?.type !== 'NOT_FOUND') throw error;
+        await this.forgetSession(checksum);
+      }
+    }
+
+    const { file, category, metadata } = this.request;
+    const sessionRequest: UploadSessionApiRequest = {
+      filename: file.name,
+      mimeType: getMimeType(file),
+      size,
+      checksum,
+      chunkSize: this.options.chunkSize || DEFAULT_CHUNK_SIZE,
+      category,
+      metadata,
+    };
+
+    const response = await this.client.post<UploadSessionApiResponse>(
+      this.endpoints.sessions,
+      sessionRequest,
+      true,
+      { signal: this.attemptController.signal }
+    );
+
+    if (!response.data?.uploadId) {
+      throw new Error('Invalid upload session response');
+    }
+
+    stored[this.getSessionKey(checksum)] = {
+      uploadId: response.data.uploadId,
+      chunkSize: response.data.chunkSize,
+      createdAt: new Date().toISOString(),
+    };
+    await secureStorage.setItem(STORAGE_KEYS.uploadSessions, stored);
+
+    return response.data;
+  }
+
+  /**
+   * Run a step, waiting out pauses and dropped connections before retrying it
+   */
+  private async withResume<T>(step: () => Promise<T>): Promise<T> {
+    while (true) {
+      await this.waitIfPaused();
+
+      try {
+        return await step();
+      } catch (error) {
+        const apiError = error as ApiError;
+
+        if (this.status === 'cancelled') {
+          throw this.createCancelledError();
+        }
+
+        // Aborted by pause() - retry once resumed
+        if (this.status === 'paused') {
+          continue;
+        }
+
+        // Connection dropped after ApiClient retries - wait for the network
+        if ((apiError?.type === 'NETWORK_ERROR' || apiError?.type === 'TIMEOUT_ERROR') && await isOffline()) {
+          this.pauseUntilOnline();
+          continue;
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  private waitIfPaused(): Promise<void> {
+    if (this.status !== 'paused') return Promise.resolve();
+    return new Promise<void>((resolve, reject) => {
+      this.resumeWaiter = { resolve, reject };
+    });
+  }
+
+  private pauseUntilOnline(): void {
+    this.setStatus('paused');
+    this.stopWatchingNetwork();
+    this.unsubscribeNetInfo = NetInfo.addEventListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.resume();
+      }
+    });
+  }
+
+  private stopWatchingNetwork(): void {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+  }
+
+  // ======================================================================================
+  // SESSION PERSISTENCE
+  // ======================================================================================
+
+  private getSessionKey(checksum: string): string {
+    return `${this.endpoints.sessions}:${checksum}`;
+  }
+
+  private async loadSessions(): Promise<Record<string, StoredUploadSession>> {
+    const result = await secureStorage.getItem<Record<string, StoredUploadSession>>(
+      STORAGE_KEYS.uploadSessions
+    );
+    return result.success && result.data ? result.data : {};
+  }
+
+  private async forgetSession(checksum: string): Promise<void> {
+    const stored = await this.loadSessions();
+    delete stored[this.getSessionKey(checksum)];
+    await secureStorage.setItem(STORAGE_KEYS.uploadSessions, stored);
+  }
+
+  // ======================================================================================
+  // PROGRESS & STATUS
+  // ======================================================================================
+
+  private countReceivedBytes(received: Set<number>, chunkSize: number, totalBytes: number): number {
+    let total = 0;
+    received.forEach(index => {
+      total += Math.min(chunkSize, totalBytes - index * chunkSize);
+    });
+    return total;
+  }
+
+  private updateProgress(uploadedBytes: number): void {
+    this.progress.uploadedBytes = uploadedBytes;
+    this.progress.percent = this.progress.totalBytes > 0
+      ? Math.round((uploadedBytes / this.progress.totalBytes) * 100)
+      : 100;
+    this.options.onProgress?.(this.getProgress());
+  }
+
+  private setStatus(status: UploadStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.options.onStatusChange?.(status);
+  }
+
+  private createCancelledError(): ApiError {
+    return createUploadError(
+      'REQUEST_CANCELLED',
+      'Upload cancelled',
+      'The upload was cancelled.',
+      'آپلود لغو شد.',
+      this.endpoints.upload
+    );
+  }
+}
+
+// ========================================================================================
+// PUBLIC API
+// ========================================================================================
+
+/**
+ * Start an upload and return a controllable task
+ */
+export const startUpload = (
+  client: ApiClient,
+  endpoints: UploadEndpoints,
+  request: FileUploadApiRequest,
+  options: UploadOptions = {}
+): UploadTask => {
+  return new ResumableUpload(client, endpoints, request, options);
+};
+
+export default startUpload;
@@ -2,7 +2,7 @@
 // IRANVERSE Enterprise API Types & Contracts
 // Complete type safety for all backend communications
 // Built for 90M users - RESTful + GraphQL Ready
-import { AuthTokens, AuthenticatedUser } from '../../features/auth/types';
+import { AuthTokens, AuthenticatedUser, MfaMethod, MfaSmsDispatch, StepUpCodeDispatch, MagicLinkDispatch, PhoneOtpDispatch, PhoneOtpPurpose, TotpEnrollment, OAuthProviderId } from '../../features/auth/types';
 import { AvatarState } from '../../features/avatar/types';
 
 // ========================================================================================
@@ -60,6 +60,8 @@ export interface ApiResponseMetadata {
     hit: boolean;
     ttl: number; // seconds
     etag?: string;
+    stale?: boolean; // served from cache past its TTL
+    revalidated?: boolean; // server answered 304 Not Modified
   };
   
   // Deprecation Warnings
@@ -91,6 +93,14 @@ export interface ApiPagination {
   lastPage?: string;
 }
 
+/**
+ * Page request for list endpoints (1-based page numbers)
+ */
+export interface ApiPaginationParams {
+  page: number;
+  pageSize: number;
+}
+
 /**
  * HTTP methods supported by the API
  */
@@ -114,7 +124,8 @@ export interface ApiRequestConfig {
   params?: Record<string, any>;
   
   // Timeout & Retry
-  timeout?: number; // milliseconds
+  timeout?: number; // milliseconds - overrides the request class timeout
+  requestClass?: ApiRequestClass; // selects upload/download/JSON timeout
   retries?: number;
   retryDelay?: number; // milliseconds
   
@@ -129,8 +140,51 @@ export interface ApiRequestConfig {
   // Request Metadata
   requestId?: string;
   priority?: 'low' | 'normal' | 'high';
+  
+  // Cancellation & De-duplication
+  signal?: AbortSignal; // caller-provided cancellation
+  dedupe?: boolean; // merge identical concurrent requests (default: true for GET)
+  
+  // Offline Support
+  queueWhenOffline?: boolean; // queue mutation for replay instead of failing offline
+  idempotencyKey?: string; // sent as Idempotency-Key, stable across replays
+  
+  // Response Validation
+  responseSchema?: ResponseSchema; // overrides the endpoint's registered schema
+}
+
+/**
+ * Runtime validator applied to response data (see core/utils/schema)
+ * parse returns the normalised value or throws SchemaValidationError
+ */
+export interface ResponseSchema<T = unknown> {
+  parse(value: unknown): T;
 }
 
+/**
+ * Request class used to pick NETWORK_CONFIG timeouts
+ */
+export type ApiRequestClass = 'json' | 'upload' | 'download';
+
+/**
+ * Per-call options accepted by ApiClient convenience methods and service modules
+ */
+export type ApiRequestOptions = Pick<
+  ApiRequestConfig,
+  | 'headers'
+  | 'timeout'
+  | 'requestClass'
+  | 'retries'
+  | 'signal'
+  | 'dedupe'
+  | 'priority'
+  | 'cache'
+  | 'cacheTtl'
+  | 'queueWhenOffline'
+  | 'idempotencyKey'
+  | 'responseSchema'
+>;
+
 // ========================================================================================
 // ERROR HANDLING TYPES - ENTERPRISE GRADE
 // ========================================================================================
@@ -236,6 +290,8 @@ export type ApiErrorType =
   | 'SERIALIZATION_ERROR'
   | 'DESERIALIZATION_ERROR'
   | 'CACHE_ERROR'
+  | 'REQUEST_CANCELLED'
+  | 'REQUEST_QUEUED'
   
   // Unknown/Generic
   | 'UNKNOWN_ERROR';
@@ -259,6 +315,7 @@ export interface LoginApiRequest {
   };
   rememberMe?: boolean;
   captchaToken?: string;
+  trustedDeviceToken?: string;
 }
 
 /**
@@ -272,11 +329,224 @@ export interface LoginApiResponse {
     sessionId: string;
     deviceId: string;
     expiresAt: string; // ISO 8601
+    isTrustedDevice?: boolean;
+    requiresStepUp?: boolean; // server wants re-verification before sensitive actions
   };
   isNewUser: boolean;
   nextAction: 'avatar_creation' | 'onboarding' | 'home';
 }
 
+/**
+ * Second-factor verification request
+ * POST /auth/mfa/verify
+ * Login answers 401 with code MFA_REQUIRED and an MfaChallenge as `data` first
+ */
+export interface MfaVerifyApiRequest {
+  challengeId: string;
+  method: MfaMethod;
+  code: string;
+  rememberDevice: boolean;
+  deviceId: string;
+}
+
+/**
+ * Second-factor verification response - a completed login
+ */
+export interface MfaVerifyApiResponse extends LoginApiResponse {
+  // Present when rememberDevice was requested
+  trustedDevice?: {
+    token: string;
+    expiresAt: string; // ISO 8601
+  };
+}
+
+/**
+ * SMS one-time code request
+ * POST /auth/mfa/sms
+ */
+export interface MfaSmsApiRequest {
+  challengeId: string;
+}
+
+export type MfaSmsApiResponse = MfaSmsDispatch;
+
+/**
+ * TOTP enrollment start
+ * POST /auth/mfa/totp/setup
+ */
+export type TotpSetupApiResponse = TotpEnrollment;
+
+/**
+ * Code-confirmed MFA operation (TOTP confirm, disable, recovery code regeneration)
+ * POST /auth/mfa/totp/confirm, /auth/mfa/disable, /auth/mfa/recovery-codes
+ */
+export interface MfaCodeApiRequest {
+  code: string;
+}
+
+export interface RecoveryCodesApiResponse {
+  recoveryCodes: string[];
+}
+
+/**
+ * Step-up verification request - proves the user is present before a sensitive action
+ * POST /auth/step-up
+ */
+export interface StepUpApiRequest {
+  method: 'password' | 'biometric' | 'code';
+  password?: string; // method: 'password'
+  refreshToken?: string; // method: 'biometric' - released by the biometric-gated keychain item
+  code?: string; // method: 'code' - sent by POST /auth/step-up/code
+}
+
+/**
+ * One-time step-up code for accounts without a password (phone, social, magic link)
+ * POST /auth/step-up/code
+ */
+export type StepUpCodeApiResponse = StepUpCodeDispatch;
+
+export interface StepUpApiResponse {
+  verifiedAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601 - sensitive actions allowed until then
+}
+
+/**
+ * OAuth authorization code exchange (PKCE)
+ * POST /auth/oauth/exchange
+ * Answers 401 MFA_REQUIRED like login, or 409 ACCOUNT_LINK_REQUIRED with an OAuthLinkChallenge
+ * when the provider email belongs to an account that signs in with a password
+ */
+export interface OAuthExchangeApiRequest {
+  provider: OAuthProviderId;
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+  deviceInfo: LoginApiRequest['deviceInfo'];
+  trustedDeviceToken?: string;
+}
+
+/**
+ * Link a provider to an existing account after an ACCOUNT_LINK_REQUIRED answer
+ * POST /auth/oauth/link
+ */
+export interface OAuthLinkApiRequest {
+  linkToken: string;
+  password: string;
+  deviceInfo: LoginApiRequest['deviceInfo'];
+  trustedDeviceToken?: string;
+}
+
+/**
+ * Passwordless sign-in link request - answers the same for unknown emails
+ * POST /auth/magic-link
+ */
+export interface MagicLinkRequestApiRequest {
+  email: string;
+  deviceId: string; // the link only signs in on this device
+}
+
+export type MagicLinkRequestApiResponse = MagicLinkDispatch;
+
+/**
+ * Redeem a sign-in link token - single use, from the requesting device only
+ * POST /auth/magic-link/verify
+ * Answers 401 MFA_REQUIRED like login
+ */
+export interface MagicLinkVerifyApiRequest {
+  token: string;
+  deviceInfo: LoginApiRequest['deviceInfo'];
+  trustedDeviceToken?: string;
+}
+
+/**
+ * Send an SMS code for phone sign-in or sign-up
+ * POST /auth/phone/otp
+ * Sign-up answers 409 PHONE_EXISTS, login answers the same for unknown numbers
+ */
+export interface PhoneOtpApiRequest {
+  phoneNumber: string; // E.164
+  purpose: PhoneOtpPurpose;
+  deviceId: string; // the code only verifies on this device
+  firstName?: string;
+  lastName?: string;
+  preferredLanguage?: 'en' | 'fa' | 'auto';
+}
+
+export type PhoneOtpApiResponse = PhoneOtpDispatch;
+
+/**
+ * Send the pending code again - 429 inside the resend window
+ * POST /auth/phone/otp/resend
+ */
+export interface PhoneOtpResendApiRequest {
+  otpId: string;
+}
+
+/**
+ * Verify the SMS code - signs in, or creates the account for sign-up (201)
+ * POST /auth/phone/verify
+ * Answers 401 MFA_REQUIRED like login
+ */
+export interface PhoneVerifyApiRequest {
+  otpId: string;
+  code: string;
+  deviceInfo: LoginApiRequest['deviceInfo'];
+  trustedDeviceToken?: string;
+}
+
+/**
+ * One signed-in device as listed by the sessions endpoint
+ */
+export interface SessionApiInfo {
+  sessionId: string;
+  deviceId: string;
+  deviceInfo: {
+    platform: string;
+    osVersion?: string;
+    appVersion?: string;
+    deviceModel?: string;
+  };
+  location?: {
+    country?: string;
+    region?: string;
+    city?: string;
+  };
+  createdAt: string; // ISO 8601 - first sign-in on this device
+  lastActivityAt: string; // ISO 8601
+  isCurrent: boolean; // the session making the request
+  isTrusted: boolean; // skips the second factor on sign-in
+}
+
+/**
+ * Active sessions endpoint response
+ * GET /auth/sessions
+ */
+export interface SessionsApiResponse {
+  sessions: SessionApiInfo[];
+}
+
+/**
+ * Revoke one session (never the current one - use logout)
+ * POST /auth/sessions/revoke
+ */
+export interface RevokeSessionApiRequest {
+  sessionId: string;
+}
+
+/**
+ * Mark or unmark a session's device as trusted
+ * POST /auth/sessions/trust
+ */
+export interface TrustSessionApiRequest {
+  sessionId: string;
+  trusted: boolean;
+}
+
+export interface TrustSessionApiResponse {
+  session: SessionApiInfo;
+}
+
 /**
  * Registration endpoint request
  * POST /auth/register
@@ -373,6 +643,18 @@ export interface VerifyEmailApiRequest {
   email?: string;
 }
 
+/**
+ * Email verification link response - the link signs the user in
+ * GET /auth/verify-email?token=...
+ */
+export interface VerifyEmailLinkApiResponse {
+  userId: string;
+  email: string;
+  userName?: string;
+  accessToken: string;
+  refreshToken: string;
+}
+
 /**
  * Password reset request endpoint
  * POST /auth/password-reset-request
@@ -392,6 +674,14 @@ export interface PasswordResetConfirmApiRequest {
   deviceId: string;
 }
 
+/**
+ * Resend verification email endpoint
+ * POST /auth/resend-verification
+ */
+export interface ResendVerificationApiRequest {
+  tempUserId: string;
+}
+
 // ========================================================================================
 // AVATAR API TYPES
 // ========================================================================================
@@ -531,6 +821,15 @@ export interface UpdateSettingsApiRequest {
   settings: Partial<UserSettingsApiResponse['settings']>;
 }
 
+/**
+ * Complete onboarding endpoint request
+ * POST /users/me/onboarding/complete
+ */
+export interface CompleteOnboardingApiRequest {
+  avatarUrl?: string | null;
+  completedAt: string; // ISO 8601
+}
+
 // ========================================================================================
 // FILE UPLOAD TYPES
 // ========================================================================================
@@ -563,9 +862,66 @@ export interface FileUploadApiResponse {
     size: number;
     mimeType: string;
     uploadedAt: string; // ISO 8601
+    checksum?: string; // SHA-256 hex computed by the server
   };
 }
 
+/**
+ * Upload transfer mode
+ * multipart - single request, restarts from zero when interrupted
+ * chunked - resumable session, only missing chunks are re-sent
+ */
+export type UploadMode = 'multipart' | 'chunked';
+
+/**
+ * Upload lifecycle status
+ */
+export type UploadStatus = 'pending' | 'uploading' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Upload progress snapshot
+ */
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+  percent: number; // 0-100
+  chunkIndex?: number;
+  chunkCount?: number;
+}
+
+/**
+ * Create chunked upload session request
+ * POST /upload/sessions
+ */
+export interface UploadSessionApiRequest {
+  filename: string;
+  mimeType: string;
+  size: number;
+  checksum: string; // SHA-256 hex of the whole file
+  chunkSize: number;
+  category: FileUploadApiRequest['category'];
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Chunked upload session response
+ * POST /upload/sessions, GET /upload/sessions/:uploadId
+ */
+export interface UploadSessionApiResponse {
+  uploadId: string;
+  chunkSize: number;
+  receivedChunks: number[]; // indexes already stored by the server
+  expiresAt: string; // ISO 8601
+}
+
+/**
+ * Complete chunked upload request
+ * POST /upload/sessions/:uploadId/complete
+ */
+export interface CompleteUploadApiRequest {
+  checksum: string;
+}
+
 // ========================================================================================
 // SEARCH & DISCOVERY TYPES
 // ========================================================================================
@@ -585,10 +941,7 @@ export interface SearchApiRequest {
       to: string; // ISO 8601
     };
   };
-  pagination?: {
-    page: number;
-    pageSize: number;
-  };
+  pagination?: ApiPaginationParams;
 }
 
 /**
@@ -644,6 +997,26 @@ export interface AnalyticsEvent {
   };
 }
 
+/**
+ * Client performance metrics endpoint request
+ * POST /analytics/metrics
+ */
+export interface AnalyticsMetricsApiRequest {
+  metrics: AnalyticsMetric[];
+}
+
+/**
+ * Individual client-side measurement
+ */
+export interface AnalyticsMetric {
+  name: string;
+  value: number;
+  unit?: 'ms' | 'bytes' | 'count' | 'percent';
+  timestamp: string; // ISO 8601
+  deviceId: string;
+  tags?: Record<string, string>;
+}
+
 /**
  * User metrics endpoint response
  * GET /users/me/metrics
@@ -733,6 +1106,168 @@ export interface VersionApiResponse {
   }[];
 }
 
+// ========================================================================================
+// TRANSPORT & INTERCEPTOR TYPES
+// ========================================================================================
+
+/**
+ * Backend an ApiClient talks to - 'mock' is the in-process mock backend
+ */
+export type ApiEnvironment = 'development' | 'staging' | 'production' | 'mock';
+
+/**
+ * Request body accepted by transports - JSON string or raw upload payload
+ */
+export type TransportBody = string | FormData | ArrayBuffer | Blob;
+
+/**
+ * Fully resolved request handed to an HTTP transport
+ */
+export interface TransportRequest {
+  // Target
+  url: string; // absolute URL including query string
+  path: string; // endpoint path as declared in API_ENDPOINTS
+  method: HttpMethod;
+
+  // Payload
+  headers: Record<string, string>;
+  body?: TransportBody;
+
+  // Lifecycle
+  timeout: number; // milliseconds
+  signal?: AbortSignal;
+}
+
+/**
+ * Raw response returned by an HTTP transport
+ */
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>; // lower-cased header names
+  data: any; // parsed JSON body, or null when empty
+}
+
+/**
+ * Swappable network layer used by ApiClient
+ * Implementations: fetch (default), mock, recording, etc.
+ */
+export interface HttpTransport {
+  name: string;
+  send: (request: TransportRequest) => Promise<TransportResponse>;
+}
+
+/**
+ * Runs before every request, may rewrite headers, body or URL
+ */
+export type RequestInterceptor = (
+  config: ApiRequestConfig
+) => ApiRequestConfig | Promise<ApiRequestConfig>;
+
+/**
+ * Runs after every successful response, before it is returned to the caller
+ */
+export type ResponseInterceptor = (
+  response: ApiResponse,
+  config: ApiRequestConfig
+) => ApiResponse | Promise<ApiResponse>;
+
+/**
+ * Runs on every structured error, before it is thrown to the caller
+ */
+export type ErrorInterceptor = (
+  error: ApiError,
+  config: ApiRequestConfig
+) => ApiError | Promise<ApiError>;
+
+// ========================================================================================
+// OFFLINE QUEUE TYPES
+// ========================================================================================
+
+/**
+ * Lifecycle of a queued mutation
+ */
+export type QueuedMutationStatus =
+  | 'queued' // waiting for connectivity
+  | 'replaying' // currently being sent
+  | 'conflict' // server rejected with 409/412 - needs user decision
+  | 'failed'; // rejected for another non-retryable reason
+
+/**
+ * Mutation persisted while the device is offline
+ */
+export interface QueuedMutation {
+  id: string;
+  idempotencyKey: string;
+  method: Exclude<HttpMethod, 'GET' | 'HEAD' | 'OPTIONS'>;
+  url: string;
+  data?: any;
+  requiresAuth: boolean;
+  status: QueuedMutationStatus;
+  attempts: number;
+  createdAt: string; // ISO 8601
+  lastAttemptAt?: string; // ISO 8601
+  lastError?: ApiError;
+}
+
+/**
+ * Snapshot of the offline queue for UI consumers
+ */
+export interface OfflineQueueSnapshot {
+  items: QueuedMutation[];
+  queuedCount: number;
+  conflictCount: number;
+  failedCount: number;
+  isOnline: boolean;
+  isReplaying: boolean;
+}
+
+// ========================================================================================
+// ENDPOINT FAILOVER TYPES
+// ========================================================================================
+
+/**
+ * Network route an endpoint is served from
+ */
+export type EndpointRegion = 'international' | 'domestic';
+
+/**
+ * Health of a single mirror as seen from this device
+ */
+export type EndpointStatus = 'unknown' | 'healthy' | 'degraded' | 'unhealthy';
+
+/**
+ * Mirror of the API or CDN
+ */
+export interface EndpointDescriptor {
+  id: string;
+  url: string; // base URL without trailing slash
+  region: EndpointRegion;
+}
+
+/**
+ * Tracked health of a mirror
+ */
+export interface EndpointHealth extends EndpointDescriptor {
+  status: EndpointStatus;
+  latency?: number; // smoothed round trip in milliseconds
+  consecutiveFailures: number;
+  lastCheck?: string; // ISO 8601
+  lastError?: string;
+  cooldownUntil?: number; // epoch ms - skipped by ranking until then
+}
+
+/**
+ * Ranked view of a mirror pool for UI and diagnostics
+ */
+export interface EndpointPoolSnapshot {
+  active: EndpointHealth;
+  endpoints: EndpointHealth[]; // best first
+  lastProbe?: string; // ISO 8601
+  isProbing: boolean;
+}
+
 // ========================================================================================
 // UTILITY TYPES
 // ========================================================================================
@@ -765,6 +1300,25 @@ export interface ApiClientConfig {
   logErrors: boolean;
 }
 
+/**
+ * API cache strategy for a single endpoint
+ */
+export type ApiCacheStrategy =
+  | 'cache-first'
+  | 'network-first'
+  | 'cache-only'
+  | 'network-only'
+  | 'stale-while-revalidate';
+
+/**
+ * Per-endpoint cache policy
+ */
+export interface ApiCachePolicy {
+  ttl: number; // seconds
+  strategy: ApiCacheStrategy;
+  staleTtl?: number; // seconds a stale entry may still be served
+}
+
 /**
  * API cache configuration
  */
@@ -774,10 +1328,7 @@ export interface ApiCacheConfig {
   maxSize: number; // bytes
   
   strategies: {
-    [endpoint: string]: {
-      ttl: number;
-      strategy: 'cache-first' | 'network-first' | 'cache-only' | 'network-only';
-    };
+    [endpoint: string]: ApiCachePolicy;
   };
 }
 
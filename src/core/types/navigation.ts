@@ -58,7 +58,7 @@ export type RootStackParamList = {
     email?: string;
     inviteCode?: string;
     referralSource?: string;
-  };
+  } | undefined;
   
   /**
    * Email verification waiting screen
@@ -89,7 +89,16 @@ export type RootStackParamList = {
    */
   ForgotPassword: {
     email?: string;
+    token?: string; // from a password reset email link
     returnUrl?: string;
+  } | undefined;
+  
+  /**
+   * Two-factor challenge screen
+   * Authenticator or recovery code after the first sign-in step
+   */
+  TwoFactorChallenge: {
+    email?: string; // absent after social sign-in
   };
   
   /**
@@ -103,6 +112,8 @@ export type RootStackParamList = {
     accessToken: string;
     isNewUser: boolean;
     nextAction: 'avatar_creation' | 'onboarding' | 'home';
+    hasAvatar?: boolean;
+    avatarUrl?: string;
   };
   
   // ========================================================================================
@@ -118,6 +129,8 @@ export type RootStackParamList = {
     email: string;
     userName: string;
     accessToken: string;
+    isRequired?: boolean;
+    skipAllowed?: boolean;
     skipAvatar?: boolean;
     editMode?: boolean;
     returnUrl?: string;
@@ -148,7 +161,8 @@ export type RootStackParamList = {
     avatarUrl?: string;
     isNewUser?: boolean;
     userId: string;
-    accessToken: string;
+    accessToken?: string;
+    userName?: string;
     welcomeMessage?: string;
     deepLinkAction?: string;
   };
@@ -160,8 +174,10 @@ export type RootStackParamList = {
   ThreeDScene: {
     avatarUrl: string;
     sceneId?: string;
-    userId: string;
-    accessToken: string;
+    userId?: string;
+    accessToken?: string;
+    roomId?: string;
+    sceneType?: 'exploration' | 'social' | 'gaming';
     enterMode?: 'normal' | 'ar' | 'vr';
     sharedSession?: string;
   };
@@ -287,6 +303,7 @@ export type AuthStackParamList = Pick<RootStackParamList,
   | 'EmailSent' 
   | 'VerificationError' 
   | 'ForgotPassword' 
+  | 'TwoFactorChallenge'
   | 'AuthComplete'
 >;
 
@@ -0,0 +1,78 @@
+// src/core/utils/__tests__/phone.test.ts
+// IRANVERSE Phone Number Tests
+// E.164 normalization of Iranian numbers however they are typed, operator checks and display forms
+// Built for 90M users - One account per number, whichever digits the keyboard produced
+import { formatPhoneNumber, maskPhoneNumber, parsePhoneNumber, PhoneParseError } from '../phone';
+
+const e164Of = (input: string, defaultCountry?: string) => {
+  const result = parsePhoneNumber(input, defaultCountry);
+  return result.success ? result.data.e164 : result.error;
+};
+
+const errorOf = (input: string): PhoneParseError | null => {
+  const result = parsePhoneNumber(input);
+  return result.success ? null : result.error;
+};
+
+describe('parsePhoneNumber', () => {
+  it.each([
+    ['09123456789'],
+    ['9123456789'],
+    ['+989123456789'],
+    ['+98 912 345 6789'],
+    ['+98 (0)912-345-6789'],
+    ['00989123456789'],
+    ['989123456789'],
+    ['۰۹۱۲ ۳۴۵ ۶۷۸۹'],
+    ['٠٩١٢٣٤٥٦٧٨٩'],
+    ['\u200E+98\u200C912\u200F3456789'], // direction marks and ZWNJ pasted from Persian text
+  ])('normalizes %j to +989123456789', input => {
+    expect(e164Of(input)).toBe('+989123456789');
+  });
+
+  it('reports the Iranian operator from the mobile prefix', () => {
+    const operatorOf = (input: string) => {
+      const result = parsePhoneNumber(input);
+      return result.success ? result.data.operator : undefined;
+    };
+
+    expect(operatorOf('09123456789')).toBe('mci');
+    expect(operatorOf('09351234567')).toBe('irancell');
+    expect(operatorOf('09211234567')).toBe('rightel');
+    expect(operatorOf('09981234567')).toBe('shatel');
+    expect(operatorOf('09991234567')).toBe('mvno');
+  });
+
+  it('rejects Iranian numbers that cannot receive an SMS code', () => {
+    expect(errorOf('02188776655')).toBe('NOT_MOBILE');
+    expect(errorOf('09801234567')).toBe('UNKNOWN_OPERATOR');
+  });
+
+  it('rejects numbers of the wrong length', () => {
+    expect(errorOf('0912345678')).toBe('TOO_SHORT');
+    expect(errorOf('091234567890')).toBe('TOO_LONG');
+  });
+
+  it('rejects empty input, letters and unknown dial codes', () => {
+    expect(errorOf('  ')).toBe('EMPTY');
+    expect(errorOf('0912-abc-6789')).toBe('INVALID_CHARACTERS');
+    expect(errorOf('+88012345678')).toBe('UNKNOWN_COUNTRY');
+  });
+
+  it('matches the longest dial code and reads local numbers in the chosen country', () => {
+    expect(e164Of('+971501234567')).toBe('+971501234567');
+    expect(e164Of('05321234567', 'TR')).toBe('+905321234567');
+    expect(parsePhoneNumber('05321234567', 'TR')).toMatchObject({ success: true, data: { operator: undefined } });
+  });
+});
+
+describe('formatPhoneNumber / maskPhoneNumber', () => {
+  it('groups Iranian numbers as +98 912 345 6789', () => {
+    expect(formatPhoneNumber('+989123456789')).toBe('+98 912 345 6789');
+    expect(formatPhoneNumber('not a number')).toBe('not a number');
+  });
+
+  it('hides the middle digits while waiting for the SMS', () => {
+    expect(maskPhoneNumber('+989123456789')).toBe('+98 912 *** **89');
+  });
+});
@@ -0,0 +1,128 @@
+// src/core/utils/__tests__/schema.test.ts
+// IRANVERSE Schema Validation Tests
+// Every violation reported with its path, optional/nullable handling and value conversion
+// Built for 90M users - A drifted backend contract fails loudly at the boundary
+import { s, SchemaValidationError } from '../schema';
+
+const userSchema = s.object({
+  id: s.string(),
+  email: s.string(),
+  age: s.number().optional(),
+  role: s.enum(['user', 'admin'] as const),
+  createdAt: s.date(),
+  tags: s.array(s.string()),
+});
+
+const parseError = (run: () => unknown): SchemaValidationError => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof SchemaValidationError) return error;
+    throw error;
+  }
+  throw new Error('Expected a SchemaValidationError');
+};
+
+describe('Schema', () => {
+  it('parses a valid value, converting dates and dropping unknown keys', () => {
+    const user = userSchema.parse({
+      id: 'u1',
+      email: 'sara@example.com',
+      role: 'admin',
+      createdAt: '2025-01-01T10:00:00Z',
+      tags: ['beta'],
+      internal: true,
+    });
+
+    expect(user).toEqual({
+      id: 'u1',
+      email: 'sara@example.com',
+      role: 'admin',
+      createdAt: new Date('2025-01-01T10:00:00Z'),
+      tags: ['beta'],
+    });
+  });
+
+  it('collects every violation with its path instead of stopping at the first', () => {
+    const error = parseError(() => userSchema.parse({
+      id: 42,
+      role: 'owner',
+      createdAt: 'yesterday',
+      tags: ['beta', 7],
+    }));
+
+    expect(error.issues).toEqual([
+      { path: 'id', message: 'expected string', received: 'number' },
+      { path: 'email', message: 'expected string', received: 'undefined' },
+      { path: 'role', message: 'expected one of user, admin', received: 'owner' },
+      { path: 'createdAt', message: 'expected date', received: 'string' },
+      { path: 'tags[1]', message: 'expected string', received: 'number' },
+    ]);
+    expect(error.message).toContain('tags[1] expected string');
+  });
+
+  it('reports a wrong root type at <root>', () => {
+    const error = parseError(() => userSchema.parse(['not', 'an', 'object']));
+
+    expect(error.issues).toEqual([{ path: '', message: 'expected object', received: 'array' }]);
+    expect(error.toValidationErrors()).toEqual([
+      { field: '<root>', code: 'SCHEMA_MISMATCH', message: 'expected object', value: 'array' },
+    ]);
+  });
+
+  it('rejects NaN as a number', () => {
+    expect(s.number().safeParse(NaN)).toEqual({
+      success: false,
+      issues: [{ path: '', message: 'expected number', received: 'number' }],
+    });
+  });
+
+  it('accepts only ISO 8601 strings for isoDate', () => {
+    expect(s.isoDate().safeParse('2025-01-01T10:00:00.000Z').success).toBe(true);
+    expect(s.isoDate().safeParse('2025-01-01').success).toBe(true);
+    expect(s.isoDate().safeParse('01/01/2025').success).toBe(false);
+    expect(s.isoDate().safeParse('2025-13-45').success).toBe(false);
+  });
+
+  it('distinguishes optional, nullable and defaulted fields', () => {
+    const schema = s.object({
+      nickname: s.string().optional(),
+      avatarUrl: s.string().nullable(),
+      locale: s.string().withDefault('fa'),
+    });
+
+    expect(schema.parse({})).toEqual({ avatarUrl: null, locale: 'fa' });
+    expect(schema.safeParse({ nickname: null }).success).toBe(false);
+    expect(schema.parse({ nickname: 'sara', avatarUrl: 'https://cdn/a.png', locale: null })).toEqual({
+      nickname: 'sara',
+      avatarUrl: 'https://cdn/a.png',
+      locale: 'fa',
+    });
+  });
+
+  it('validates record values under their keys', () => {
+    const error = parseError(() => s.record(s.number()).parse({ likes: 3, views: '10' }));
+
+    expect(error.issues).toEqual([{ path: 'views', message: 'expected number', received: 'string' }]);
+  });
+
+  it('never runs a transform on a value that failed validation', () => {
+    const mapper = jest.fn((value: string) => value.toUpperCase());
+    const schema = s.string().transform(mapper);
+
+    expect(schema.parse('tehran')).toBe('TEHRAN');
+    expect(schema.safeParse(12).success).toBe(false);
+    expect(mapper).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports nested paths through arrays of objects', () => {
+    const schema = s.object({ results: s.array(s.object({ id: s.string() })) });
+
+    const result = schema.safeParse({ results: [{ id: 'a' }, { id: null }] });
+
+    expect(result).toEqual({
+      success: false,
+      issues: [{ path: 'results[1].id', message: 'expected string', received: 'null' }],
+    });
+  });
+});
@@ -0,0 +1,202 @@
+// src/core/utils/__tests__/storage.test.ts
+// IRANVERSE Secure Storage Tests
+// Encrypt-then-MAC envelopes, tamper detection, 1.0 -> 2.0 upgrades, key rotation and quarantine
+// Built for 90M users - A modified byte on disk is refused, never decrypted
+import { createCipheriv, createHmac, randomBytes } from 'crypto';
+
+type KeychainEntry = { username: string; password: string };
+
+const KEYCHAIN_SERVER = 'iranverse-encryption';
+const KEYRING_USERNAME = 'iranverse-keyring';
+
+/**
+ * Fresh storage module with its own AsyncStorage and keychain - singletons start uninitialized
+ */
+const loadStorage = () => {
+  let loaded!: {
+    storage: typeof import('../storage');
+    asyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+    keychain: Map<string, KeychainEntry>;
+  };
+  jest.isolateModules(() => {
+    loaded = {
+      storage: require('../storage'),
+      asyncStorage: require('@react-native-async-storage/async-storage'),
+      keychain: require('react-native-keychain').__store,
+    };
+  });
+  return loaded;
+};
+
+// Same constructions as storage.ts, built with node crypto so envelopes can be forged or aged
+const hmac = (data: string, keyHex: string) => createHmac('sha256', Buffer.from(keyHex, 'hex')).update(data).digest('hex');
+
+const aesEncrypt = (text: string, keyHex: string, ivHex: string) => {
+  const cipher = createCipheriv('aes-256-cbc', Buffer.from(keyHex, 'hex'), Buffer.from(ivHex, 'hex'));
+  return Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]).toString('base64');
+};
+
+const wrap = (value: unknown) => JSON.stringify({ value, timestamp: Date.now() });
+
+const sealV2 = (value: unknown, keyHex: string, keyId: string) => {
+  const iv = randomBytes(16).toString('hex');
+  const cipherText = aesEncrypt(wrap(value), hmac('iranverse:storage:encryption', keyHex), iv);
+  const tag = hmac(`2.0.${keyId}.${iv}.${cipherText}`, hmac('iranverse:storage:mac', keyHex));
+  return JSON.stringify({ iv, cipherText, tag, keyId, timestamp: Date.now(), version: '2.0' });
+};
+
+const sealV1 = (value: unknown, keyHex: string) => {
+  const iv = randomBytes(16).toString('hex');
+  return JSON.stringify({ iv, cipherText: aesEncrypt(wrap(value), keyHex, iv), timestamp: Date.now(), version: '1.0' });
+};
+
+const newKey = () => ({ key: randomBytes(32).toString('hex'), salt: randomBytes(32).toString('hex'), createdAt: Date.now() });
+
+const readKeyring = (keychain: Map<string, KeychainEntry>) => {
+  const entry = keychain.get(KEYCHAIN_SERVER)!;
+  expect(entry.username).toBe(KEYRING_USERNAME);
+  return JSON.parse(entry.password) as { currentKeyId: string; keys: Record<string, unknown> };
+};
+
+const readEnvelope = async (asyncStorage: ReturnType<typeof loadStorage>['asyncStorage'], key: string) =>
+  JSON.parse((await asyncStorage.getItem(key))!);
+
+describe('secureStorage', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores sensitive keys in an authenticated 2.0 envelope and reads them back', async () => {
+    const { storage, asyncStorage, keychain } = loadStorage();
+    const { secureStorage, STORAGE_KEYS } = storage;
+
+    await secureStorage.setItem(STORAGE_KEYS.refreshToken, 'refresh-secret');
+
+    const raw = (await asyncStorage.getItem(STORAGE_KEYS.refreshToken.key))!;
+    expect(raw).not.toContain('refresh-secret');
+    expect(JSON.parse(raw)).toMatchObject({ version: '2.0', keyId: readKeyring(keychain).currentKeyId, tag: expect.stringMatching(/^[0-9a-f]{64}$/) });
+    expect(await secureStorage.getItem(STORAGE_KEYS.refreshToken)).toEqual({ success: true, data: 'refresh-secret' });
+  });
+
+  it('encrypts login attempt records', async () => {
+    const { storage, asyncStorage } = loadStorage();
+    const { secureStorage, STORAGE_KEYS } = storage;
+
+    await secureStorage.setItem(STORAGE_KEYS.loginAttempts, {
+      'sara@example.com': { failures: 1, lastFailureAt: Date.now(), lockedUntil: null, lockSource: null },
+    });
+
+    const raw = (await asyncStorage.getItem(STORAGE_KEYS.loginAttempts.key))!;
+    expect(raw).not.toContain('sara@example.com');
+    expect(JSON.parse(raw)).toMatchObject({ version: '2.0' });
+  });
+
+  it('refuses a modified ciphertext before decrypting it', async () => {
+    const { storage, asyncStorage } = loadStorage();
+    const { secureStorage, STORAGE_KEYS } = storage;
+    await secureStorage.setItem(STORAGE_KEYS.refreshToken, 'refresh-secret');
+
+    const envelope = await readEnvelope(asyncStorage, STORAGE_KEYS.refreshToken.key);
+    const flipped = envelope.cipherText[0] === 'A' ? 'B' : 'A';
+    await asyncStorage.setItem(STORAGE_KEYS.refreshToken.key, JSON.stringify({ ...envelope, cipherText: flipped + envelope.cipherText.slice(1) }));
+
+    expect(await secureStorage.getItem(STORAGE_KEYS.refreshToken)).toMatchObject({
+      success: false,
+      error: { type: 'CORRUPTION_ERROR', code: 'DECRYPT_AUTH_002' },
+    });
+  });
+
+  it('refuses a modified MAC tag', async () => {
+    const { storage, asyncStorage } = loadStorage();
+    const { secureStorage, STORAGE_KEYS } = storage;
+    await secureStorage.setItem(STORAGE_KEYS.refreshToken, 'refresh-secret');
+
+    const envelope = await readEnvelope(asyncStorage, STORAGE_KEYS.refreshToken.key);
+    await asyncStorage.setItem(STORAGE_KEYS.refreshToken.key, JSON.stringify({ ...envelope, tag: '0'.repeat(64) }));
+
+    expect(await secureStorage.getItem(STORAGE_KEYS.refreshToken)).toMatchObject({
+      success: false,
+      error: { type: 'CORRUPTION_ERROR', code: 'DECRYPT_AUTH_002' },
+    });
+  });
+
+  it('reads a 1.0 item under the pre-keyring key and rewrites it as 2.0 under a fresh key', async () => {
+    const { storage, asyncStorage, keychain } = loadStorage();
+    const { secureStorage, STORAGE_KEYS } = storage;
+    const legacy = newKey();
+    keychain.set(KEYCHAIN_SERVER, { username: legacy.salt, password: legacy.key });
+    await asyncStorage.setItem(STORAGE_KEYS.userProfile.key, sealV1({ id: 'user-1' }, legacy.key));
+
+    expect(await secureStorage.getItem(STORAGE_KEYS.userProfile)).toEqual({ success: true, data: { id: 'user-1' } });
+    await secureStorage.verifyIntegrity(); // waits for the startup rotation away from the legacy key
+
+    const keyring = readKeyring(keychain);
+    expect(Object.keys(keyring.keys)).toEqual([keyring.currentKeyId]);
+    expect(keyring.currentKeyId).not.toBe('legacy');
+    expect(await readEnvelope(asyncStorage, STORAGE_KEYS.userProfile.key)).toMatchObject({ version: '2.0', keyId: keyring.currentKeyId });
+    expect(await secureStorage.getItem(STORAGE_KEYS.userProfile)).toEqual({ success: true, data: { id: 'user-1' } });
+  });
+
+  it('reads items under an older key until a rotation finishes moving them', async () => {
+    const { storage, asyncStorage, keychain } = loadStorage();
+    const { secureStorage, STORAGE_KEYS } = storage;
+    const oldKey = newKey();
+    keychain.set(KEYCHAIN_SERVER, {
+      username: KEYRING_USERNAME,
+      password: JSON.stringify({ currentKeyId: 'key-2', keys: { 'key-1': oldKey, 'key-2': newKey() } }),
+    });
+    await asyncStorage.setItem(STORAGE_KEYS.accessToken.key, sealV2('access-1', oldKey.key, 'key-1'));
+
+    expect(await secureStorage.getItem(STORAGE_KEYS.accessToken)).toEqual({ success: true, data: 'access-1' });
+    await secureStorage.verifyIntegrity(); // waits for the unfinished rotation to complete
+
+    expect(Object.keys(readKeyring(keychain).keys)).toEqual(['key-2']);
+    expect(await readEnvelope(asyncStorage, STORAGE_KEYS.accessToken.key)).toMatchObject({ keyId: 'key-2' });
+    expect(await secureStorage.getItem(STORAGE_KEYS.accessToken)).toEqual({ success: true, data: 'access-1' });
+  });
+
+  it('re-encrypts every item when the key is rotated', async () => {
+    const { storage, asyncStorage, keychain } = loadStorage();
+    const { secureStorage, STORAGE_KEYS } = storage;
+    await secureStorage.setItem(STORAGE_KEYS.accessToken, 'access-1');
+    await secureStorage.setItem(STORAGE_KEYS.refreshToken, 'refresh-1');
+    const before = readKeyring(keychain).currentKeyId;
+
+    expect(await secureStorage.rotateEncryptionKey()).toEqual({ success: true, data: 2 });
+
+    const after = readKeyring(keychain);
+    expect(after.currentKeyId).not.toBe(before);
+    expect(Object.keys(after.keys)).toEqual([after.currentKeyId]);
+    expect(await readEnvelope(asyncStorage, STORAGE_KEYS.refreshToken.key)).toMatchObject({ keyId: after.currentKeyId });
+    expect(await secureStorage.getItem(STORAGE_KEYS.refreshToken)).toEqual({ success: true, data: 'refresh-1' });
+  });
+
+  it('quarantines unreadable items and resets only their namespaces', async () => {
+    const { storage, asyncStorage } = loadStorage();
+    const { secureStorage, STORAGE_KEYS } = storage;
+    await secureStorage.setItem(STORAGE_KEYS.accessToken, 'access-1');
+    await secureStorage.setItem(STORAGE_KEYS.refreshToken, 'refresh-1');
+    await secureStorage.setItem(STORAGE_KEYS.deviceId, 'device-1');
+    const envelope = await readEnvelope(asyncStorage, STORAGE_KEYS.refreshToken.key);
+    await asyncStorage.setItem(STORAGE_KEYS.refreshToken.key, JSON.stringify({ ...envelope, tag: '0'.repeat(64) }));
+    await asyncStorage.setItem(STORAGE_KEYS.userProfile.key, '{not json');
+
+    const report = await secureStorage.verifyIntegrity();
+
+    expect(report.data?.quarantined.map(({ key, namespace, reason }) => ({ key, namespace, reason }))).toEqual([
+      { key: STORAGE_KEYS.refreshToken.key, namespace: 'auth', reason: 'tampered' },
+      { key: STORAGE_KEYS.userProfile.key, namespace: 'user', reason: 'malformed' },
+    ]);
+    expect(report.data?.resetNamespaces).toEqual(['auth', 'user']);
+    expect(await asyncStorage.getItem(STORAGE_KEYS.accessToken.key)).toBeNull();
+    expect(await secureStorage.getItem(STORAGE_KEYS.deviceId)).toEqual({ success: true, data: 'device-1' });
+
+    const quarantine = await secureStorage.getItem(STORAGE_KEYS.quarantine);
+    expect(quarantine.data?.map(item => item.key)).toEqual([STORAGE_KEYS.refreshToken.key, STORAGE_KEYS.userProfile.key]);
+  });
+});
@@ -0,0 +1,143 @@
+// src/core/utils/__tests__/storageRegistry.test.ts
+// IRANVERSE Storage Registry Tests
+// Namespaces, schema versions and every shipped migration step against an in-memory store
+// Built for 90M users - Upgrades never lose or leak what older builds stored
+import {
+  STORAGE_KEYS,
+  STORAGE_MIGRATIONS,
+  StorageKey,
+  StorageMigrationContext,
+  StorageNamespace,
+  getSchemaVersion,
+  getStorageNamespace,
+} from '../storageRegistry';
+
+/**
+ * Raw legacy keys plus typed registry values, like the context storage.ts hands to migrations
+ */
+const createContext = (legacy: Record<string, string>) => {
+  const raw = new Map(Object.entries(legacy));
+  const typed = new Map<string, unknown>();
+
+  const context: StorageMigrationContext = {
+    readLegacy: async key => raw.get(key) ?? null,
+    removeLegacy: async (...keys) => {
+      keys.forEach(key => raw.delete(key));
+    },
+    get: async <T>(key: StorageKey<T>) => (typed.get(key.key) as T | undefined) ?? null,
+    set: async <T>(key: StorageKey<T>, value: T) => {
+      typed.set(key.key, value);
+    },
+  };
+
+  return { context, raw, typed };
+};
+
+const migrate = async (namespace: StorageNamespace, legacy: Record<string, string>) => {
+  const store = createContext(legacy);
+  for (const migration of STORAGE_MIGRATIONS[namespace]) {
+    await migration.migrate(store.context);
+  }
+  return store;
+};
+
+describe('storage key registry', () => {
+  it('derives the namespace from the key', () => {
+    expect(getStorageNamespace('@iranverse:auth:access_token')).toBe('auth');
+    expect(getStorageNamespace('@iranverse:nowhere:key')).toBeNull();
+    expect(getStorageNamespace('device_id')).toBeNull();
+  });
+
+  it('registers every key under its own namespace', () => {
+    Object.values(STORAGE_KEYS).forEach(({ key, namespace }) => {
+      expect(getStorageNamespace(key)).toBe(namespace);
+    });
+  });
+
+  it('starts a namespace without migrations at version 0', () => {
+    expect(getSchemaVersion('storage')).toBe(0);
+    expect(getSchemaVersion('security')).toBeGreaterThan(0);
+  });
+});
+
+describe('storage migrations', () => {
+  it('auth: drops the unencrypted trusted device token', async () => {
+    const { raw } = await migrate('auth', { [STORAGE_KEYS.trustedDeviceToken.key]: 'plaintext-token' });
+
+    expect(raw.has(STORAGE_KEYS.trustedDeviceToken.key)).toBe(false);
+  });
+
+  it('auth: rewrites plaintext login attempts so they are stored encrypted', async () => {
+    const attempts = { 'sara@example.com': { failures: 2, lastFailureAt: 2, lockedUntil: null, lockSource: null } };
+    const { typed } = await migrate('auth', {
+      [STORAGE_KEYS.loginAttempts.key]: JSON.stringify({ value: attempts, timestamp: 1 }),
+    });
+
+    expect(typed.get(STORAGE_KEYS.loginAttempts.key)).toEqual(attempts);
+  });
+
+  it('security: moves the device id and removes the legacy key', async () => {
+    const { raw, typed } = await migrate('security', {
+      device_id: JSON.stringify({ value: 'device-123', timestamp: 1 }),
+    });
+
+    expect(typed.get(STORAGE_KEYS.deviceId.key)).toBe('device-123');
+    expect(raw.has('device_id')).toBe(false);
+  });
+
+  it('security: removes an unreadable device id without copying it', async () => {
+    const { raw, typed } = await migrate('security', { device_id: '{not json' });
+
+    expect(typed.has(STORAGE_KEYS.deviceId.key)).toBe(false);
+    expect(raw.has('device_id')).toBe(false);
+  });
+
+  it('avatar: moves the avatar URL', async () => {
+    const { raw, typed } = await migrate('avatar', { '@avatar_url': 'https://models.example/avatar.glb' });
+
+    expect(typed.get(STORAGE_KEYS.avatarUrl.key)).toBe('https://models.example/avatar.glb');
+    expect(raw.has('@avatar_url')).toBe(false);
+  });
+
+  it('onboarding: keeps the profile without the plaintext access token', async () => {
+    const profile = {
+      userId: 'user-1',
+      email: 'sara@example.com',
+      userName: 'Sara',
+      avatarUrl: 'https://models.example/avatar.glb',
+      setupComplete: true,
+      onboardingDate: '2025-01-01T00:00:00.000Z',
+    };
+    const { raw, typed } = await migrate('onboarding', {
+      '@user_data': JSON.stringify({ ...profile, accessToken: 'secret' }),
+      '@user_id': 'user-1',
+      '@onboarding_complete': 'true',
+    });
+
+    expect(typed.get(STORAGE_KEYS.onboardingProfile.key)).toEqual(profile);
+    expect(typed.get(STORAGE_KEYS.onboardingComplete.key)).toBe(true);
+    expect([...raw.keys()]).toEqual([]);
+  });
+
+  it('onboarding: leaves completion unset unless it was recorded', async () => {
+    const { typed } = await migrate('onboarding', {});
+
+    expect(typed.size).toBe(0);
+  });
+
+  it('config: moves the logo feature flags', async () => {
+    const flags = { useSimpleLogo: true };
+    const { raw, typed } = await migrate('config', { '@iranverse_logo_feature_flags': JSON.stringify(flags) });
+
+    expect(typed.get(STORAGE_KEYS.logoFeatureFlags.key)).toEqual(flags);
+    expect(raw.has('@iranverse_logo_feature_flags')).toBe(false);
+  });
+
+  it('runs again safely on an already migrated store', async () => {
+    for (const namespace of Object.keys(STORAGE_MIGRATIONS) as StorageNamespace[]) {
+      const { raw, typed } = await migrate(namespace, {});
+      expect(raw.size).toBe(0);
+      expect(typed.size).toBe(0);
+    }
+  });
+});
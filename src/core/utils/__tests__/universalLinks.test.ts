@@ -0,0 +1,101 @@
+// src/core/utils/__tests__/universalLinks.test.ts
+// IRANVERSE Universal Links Tests
+// Association files and app.json intent filters against the paths deepLinkRouter opens
+// Built for 90M users - An https link in an email opens the app on every routed path, and only there
+import appJson from '../../../../app.json';
+import { DEEP_LINK_CONFIG } from '../../config/deepLink.config';
+import { getRoutableDeepLinkPatterns } from '../../constants/routes';
+import {
+  buildAppleAppSiteAssociation,
+  buildAssetLinks,
+  generateAssociationFiles,
+  getUniversalLinkPaths,
+} from '../universalLinks';
+
+type IntentFilterData = { scheme?: string; host?: string; path?: string; pathPrefix?: string };
+
+const FINGERPRINT = 'AA:BB:CC:DD';
+
+/**
+ * Android intent filter data entries - `path` is exact, `pathPrefix` covers everything below it
+ */
+const intentFilterData = (): IntentFilterData[] =>
+  appJson.expo.android.intentFilters
+    .filter(filter => filter.autoVerify && filter.action === 'VIEW')
+    .flatMap(filter => filter.data as IntentFilterData[]);
+
+const matches = (entry: IntentFilterData, path: string) =>
+  entry.path !== undefined ? entry.path === path : path.startsWith(entry.pathPrefix ?? '\0');
+
+describe('getUniversalLinkPaths', () => {
+  it('lists one website path per routable deep link pattern', () => {
+    const paths = getUniversalLinkPaths();
+
+    expect(paths).toHaveLength(getRoutableDeepLinkPatterns().length);
+    expect(paths).toEqual(expect.arrayContaining(['/auth/verify-email', '/auth/magic-link', '/auth/reset-password', '/home']));
+    paths.forEach(path => expect(path).toMatch(/^\/[^:]*$/));
+  });
+
+  it('leaves out routes without a screen in this build', () => {
+    expect(getUniversalLinkPaths()).not.toEqual(expect.arrayContaining(['/profile']));
+    expect(getUniversalLinkPaths()).not.toEqual(expect.arrayContaining(['/settings']));
+  });
+});
+
+describe('association files', () => {
+  it('builds apple-app-site-association components from the router paths', () => {
+    const [details] = buildAppleAppSiteAssociation('TEAM123').applinks.details;
+
+    expect(details.appIDs).toEqual([`TEAM123.${DEEP_LINK_CONFIG.universalLinks.iosBundleId}`]);
+    expect(details.components).toEqual(getUniversalLinkPaths().map(path => ({ '/': path })));
+  });
+
+  it('builds assetlinks.json for the Android package and fingerprints', () => {
+    expect(buildAssetLinks([FINGERPRINT])).toEqual([
+      {
+        relation: ['delegate_permission/common.handle_all_urls'],
+        target: {
+          namespace: 'android_app',
+          package_name: DEEP_LINK_CONFIG.universalLinks.androidPackage,
+          sha256_cert_fingerprints: [FINGERPRINT],
+        },
+      },
+    ]);
+  });
+
+  it('writes both files at their .well-known paths', () => {
+    const files = generateAssociationFiles({ appleTeamId: 'TEAM123', androidCertFingerprints: [FINGERPRINT] });
+
+    expect(JSON.parse(files['/.well-known/apple-app-site-association'])).toEqual(buildAppleAppSiteAssociation('TEAM123'));
+    expect(JSON.parse(files['/.well-known/assetlinks.json'])).toEqual(buildAssetLinks([FINGERPRINT]));
+  });
+
+  it('refuses to write files without credentials', () => {
+    expect(() => generateAssociationFiles({ androidCertFingerprints: [FINGERPRINT] })).toThrow('appleTeamId');
+    expect(() => generateAssociationFiles({ appleTeamId: 'TEAM123' })).toThrow('androidCertFingerprints');
+  });
+});
+
+describe('app.json', () => {
+  it('associates every universal link domain on iOS', () => {
+    expect(appJson.expo.ios.associatedDomains).toEqual(
+      DEEP_LINK_CONFIG.universalLinks.domains.map(domain => `applinks:${domain}`)
+    );
+  });
+
+  it.each([...DEEP_LINK_CONFIG.universalLinks.domains])('verifies every router path on %s for Android', domain => {
+    const entries = intentFilterData().filter(entry => entry.scheme === 'https' && entry.host === domain);
+
+    getUniversalLinkPaths().forEach(path => {
+      expect({ path, matched: entries.some(entry => matches(entry, path)) }).toEqual({ path, matched: true });
+    });
+  });
+
+  it('has no Android intent filter path the router cannot open', () => {
+    const paths = getUniversalLinkPaths();
+
+    intentFilterData().forEach(entry => {
+      expect({ entry, used: paths.some(path => matches(entry, path)) }).toEqual({ entry, used: true });
+    });
+  });
+});
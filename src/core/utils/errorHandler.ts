@@ -5,6 +5,7 @@
 
 import { Platform, Alert, Dimensions } from 'react-native';
 import Constants from 'expo-constants';
+import { authEvents } from '../services/authEvents';
 
 // ========================================================================================
 // ERROR TYPES AND INTERFACES
@@ -54,11 +55,23 @@ class GlobalErrorHandler {
 
     this.context = context || {};
     this.setupGlobalHandlers();
+    this.subscribeToAuthEvents();
     this.isInitialized = true;
 
     console.log('🛡️ IRANVERSE Error Handler initialized');
   }
 
+  // Tag reports with the signed-in account and forget it on sign-out
+  private subscribeToAuthEvents() {
+    authEvents.subscribe(event => {
+      if (event.event === 'login_success') {
+        this.updateContext({ userId: event.userId, sessionId: event.metadata?.sessionId });
+      } else if (event.event === 'logout') {
+        this.clearUserContext();
+      }
+    });
+  }
+
   // Setup global error handlers
   private setupGlobalHandlers() {
     // Handle unhandled promise rejections
@@ -0,0 +1,68 @@
+// src/core/utils/pagination.ts
+// IRANVERSE Pagination Helpers
+// Build, read and merge ApiPagination for list endpoints and paginated hooks
+// Built for 90M users - Consistent paging across search and discovery
+import { ApiPagination, ApiPaginationParams, ApiResponse } from '../types/api';
+
+// ========================================================================================
+// PAGINATION DEFAULTS
+// ========================================================================================
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// ========================================================================================
+// PAGINATION HELPERS
+// ========================================================================================
+
+/**
+ * Normalise a page request - 1-based page, page size clamped to MAX_PAGE_SIZE
+ */
+export const toPaginationParams = (params?: Partial<ApiPaginationParams>): ApiPaginationParams => {
+  const page = Math.max(1, Math.floor(params?.page ?? 1));
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(params?.pageSize ?? DEFAULT_PAGE_SIZE)));
+  return { page, pageSize };
+};
+
+/**
+ * Build pagination info from a total count (for endpoints that only return totals)
+ */
+export const buildPagination = (params: ApiPaginationParams, totalItems: number): ApiPagination => {
+  const totalPages = Math.max(1, Math.ceil(totalItems / params.pageSize));
+  return {
+    page: params.page,
+    pageSize: params.pageSize,
+    totalItems,
+    totalPages,
+    hasNext: params.page < totalPages,
+    hasPrevious: params.page > 1,
+  };
+};
+
+/**
+ * Pagination from the response envelope, falling back to the given total count
+ */
+export const getPagination = (
+  response: ApiResponse<unknown>,
+  params: ApiPaginationParams,
+  totalItems: number
+): ApiPagination => {
+  return response.pagination ?? buildPagination(params, totalItems);
+};
+
+/**
+ * Next page number, or null on the last page
+ */
+export const getNextPage = (pagination: ApiPagination | null | undefined): number | null => {
+  if (!pagination) return 1;
+  return pagination.hasNext ? pagination.page + 1 : null;
+};
+
+/**
+ * Append a page to already loaded items, dropping duplicates
+ * Items shift between pages when new results arrive while the user scrolls
+ */
+export const mergePage = <T>(loaded: T[], page: T[], getKey: (item: T) => string): T[] => {
+  const seen = new Set(loaded.map(getKey));
+  return [...loaded, ...page.filter(item => !seen.has(getKey(item)))];
+};
@@ -0,0 +1,207 @@
+// src/core/utils/phone.ts
+// IRANVERSE Phone Numbers
+// E.164 parsing, Iranian mobile operator checks and Persian/Arabic digit normalization
+// Built for 90M users - "۰۹۱۲ ۳۴۵ ۶۷۸۹", "00989123456789" and "+98 912 345 6789" are the same number
+
+// ========================================================================================
+// PHONE TYPES
+// ========================================================================================
+
+export interface PhoneCountry {
+  iso2: string;
+  name: string;
+  dialCode: string; // without the leading +
+  flag: string;
+  nationalLength: [number, number]; // min/max digits after the dial code
+}
+
+export type IranMobileOperator = 'mci' | 'irancell' | 'rightel' | 'shatel' | 'mvno';
+
+export interface ParsedPhoneNumber {
+  e164: string; // +989123456789
+  country: PhoneCountry;
+  nationalNumber: string; // digits after the dial code, no trunk 0
+  operator?: IranMobileOperator; // Iranian numbers only
+}
+
+export type PhoneParseError =
+  | 'EMPTY'
+  | 'INVALID_CHARACTERS'
+  | 'UNKNOWN_COUNTRY' // + prefix that matches no supported dial code
+  | 'TOO_SHORT'
+  | 'TOO_LONG'
+  | 'NOT_MOBILE' // Iranian landline (021...) - cannot receive the SMS code
+  | 'UNKNOWN_OPERATOR'; // 09xx prefix no Iranian operator uses
+
+export type PhoneParseResult =
+  | { success: true; data: ParsedPhoneNumber }
+  | { success: false; error: PhoneParseError };
+
+// ========================================================================================
+// COUNTRIES & OPERATORS
+// ========================================================================================
+
+/**
+ * Countries offered by the picker - Iran first, then where most of the diaspora lives
+ */
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { iso2: 'IR', name: 'Iran', dialCode: '98', flag: '🇮🇷', nationalLength: [10, 10] },
+  { iso2: 'TR', name: 'Turkey', dialCode: '90', flag: '🇹🇷', nationalLength: [10, 10] },
+  { iso2: 'AE', name: 'United Arab Emirates', dialCode: '971', flag: '🇦🇪', nationalLength: [8, 9] },
+  { iso2: 'IQ', name: 'Iraq', dialCode: '964', flag: '🇮🇶', nationalLength: [10, 10] },
+  { iso2: 'AF', name: 'Afghanistan', dialCode: '93', flag: '🇦🇫', nationalLength: [9, 9] },
+  { iso2: 'AM', name: 'Armenia', dialCode: '374', flag: '🇦🇲', nationalLength: [8, 8] },
+  { iso2: 'AZ', name: 'Azerbaijan', dialCode: '994', flag: '🇦🇿', nationalLength: [9, 9] },
+  { iso2: 'DE', name: 'Germany', dialCode: '49', flag: '🇩🇪', nationalLength: [6, 13] },
+  { iso2: 'GB', name: 'United Kingdom', dialCode: '44', flag: '🇬🇧', nationalLength: [10, 10] },
+  { iso2: 'SE', name: 'Sweden', dialCode: '46', flag: '🇸🇪', nationalLength: [7, 13] },
+  { iso2: 'NL', name: 'Netherlands', dialCode: '31', flag: '🇳🇱', nationalLength: [9, 9] },
+  { iso2: 'FR', name: 'France', dialCode: '33', flag: '🇫🇷', nationalLength: [9, 9] },
+  { iso2: 'US', name: 'United States', dialCode: '1', flag: '🇺🇸', nationalLength: [10, 10] },
+  { iso2: 'CA', name: 'Canada', dialCode: '1', flag: '🇨🇦', nationalLength: [10, 10] },
+  { iso2: 'AU', name: 'Australia', dialCode: '61', flag: '🇦🇺', nationalLength: [9, 9] },
+];
+
+export const DEFAULT_PHONE_COUNTRY = 'IR';
+
+/**
+ * Mobile prefixes (first three digits after +98) by operator
+ */
+export const IRAN_MOBILE_OPERATORS: Record<IranMobileOperator, { name: string; nativeName: string; prefixes: string[] }> = {
+  mci: {
+    name: 'Hamrah-e Aval',
+    nativeName: 'همراه اول',
+    prefixes: ['910', '911', '912', '913', '914', '915', '916', '917', '918', '919', '990', '991', '992', '993', '994', '995', '996'],
+  },
+  irancell: {
+    name: 'Irancell',
+    nativeName: 'ایرانسل',
+    prefixes: ['900', '901', '902', '903', '904', '905', '930', '933', '935', '936', '937', '938', '939', '941'],
+  },
+  rightel: {
+    name: 'RighTel',
+    nativeName: 'رایتل',
+    prefixes: ['920', '921', '922', '923'],
+  },
+  shatel: {
+    name: 'Shatel Mobile',
+    nativeName: 'شاتل موبایل',
+    prefixes: ['998'],
+  },
+  mvno: {
+    name: 'Virtual operator',
+    nativeName: 'اپراتور مجازی',
+    prefixes: ['999'],
+  },
+};
+
+// ========================================================================================
+// PARSING & FORMATTING
+// ========================================================================================
+
+/**
+ * Persian (۰-۹) and Arabic-Indic (٠-٩) digits to ASCII - other characters are kept
+ */
+export const normalizeDigits = (value: string): string =>
+  value
+    .replace(/[۰-۹]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+    .replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660));
+
+export const getPhoneCountry = (iso2: string): PhoneCountry | undefined =>
+  PHONE_COUNTRIES.find(country => country.iso2 === iso2.toUpperCase());
+
+/**
+ * Parse what the user typed into E.164
+ * Numbers without + or 00 are read in `defaultCountry`, dropping the trunk 0 (0912... -> +98912...)
+ */
+export const parsePhoneNumber = (input: string, defaultCountry: string = DEFAULT_PHONE_COUNTRY): PhoneParseResult => {
+  const normalized = normalizeDigits(input || '').replace(/[\s\-().\u200C\u200E\u200F]/g, '');
+  if (!normalized) {
+    return { success: false, error: 'EMPTY' };
+  }
+  if (!/^(\+|00)?\d+$/.test(normalized)) {
+    return { success: false, error: 'INVALID_CHARACTERS' };
+  }
+
+  let country: PhoneCountry | undefined;
+  let nationalNumber: string;
+
+  if (normalized.startsWith('+') || normalized.startsWith('00')) {
+    const digits = normalized.replace(/^(\+|00)/, '');
+    // Longest dial code first so +971 is not read as +97...
+    country = [...PHONE_COUNTRIES]
+      .sort((a, b) => b.dialCode.length - a.dialCode.length)
+      .find(item => digits.startsWith(item.dialCode));
+    if (!country) {
+      return { success: false, error: 'UNKNOWN_COUNTRY' };
+    }
+    nationalNumber = digits.slice(country.dialCode.length).replace(/^0/, '');
+  } else {
+    country = getPhoneCountry(defaultCountry) ?? getPhoneCountry(DEFAULT_PHONE_COUNTRY)!;
+    nationalNumber = normalized.replace(/^0/, '');
+    // Iranian numbers are often typed with the country code but no + (989123456789)
+    if (nationalNumber.length > country.nationalLength[1] && nationalNumber.startsWith(country.dialCode)) {
+      nationalNumber = nationalNumber.slice(country.dialCode.length).replace(/^0/, '');
+    }
+  }
+
+  const [minLength, maxLength] = country.nationalLength;
+  if (nationalNumber.length < minLength) {
+    return { success: false, error: 'TOO_SHORT' };
+  }
+  if (nationalNumber.length > maxLength) {
+    return { success: false, error: 'TOO_LONG' };
+  }
+
+  let operator: IranMobileOperator | undefined;
+  if (country.iso2 === 'IR') {
+    if (!nationalNumber.startsWith('9')) {
+      return { success: false, error: 'NOT_MOBILE' };
+    }
+    operator = getIranMobileOperator(nationalNumber);
+    if (!operator) {
+      return { success: false, error: 'UNKNOWN_OPERATOR' };
+    }
+  }
+
+  return {
+    success: true,
+    data: { e164: `+${country.dialCode}${nationalNumber}`, country, nationalNumber, operator },
+  };
+};
+
+/**
+ * Operator for an Iranian national number (9123456789)
+ */
+export const getIranMobileOperator = (nationalNumber: string): IranMobileOperator | undefined => {
+  const prefix = nationalNumber.slice(0, 3);
+  return (Object.keys(IRAN_MOBILE_OPERATORS) as IranMobileOperator[])
+    .find(operator => IRAN_MOBILE_OPERATORS[operator].prefixes.includes(prefix));
+};
+
+/**
+ * Display form - "+98 912 345 6789" for Iran, dial code plus groups of three elsewhere
+ */
+export const formatPhoneNumber = (e164: string): string => {
+  const parsed = parsePhoneNumber(e164);
+  if (!parsed.success) return e164;
+
+  const { country, nationalNumber } = parsed.data;
+  const groups = country.iso2 === 'IR'
+    ? [nationalNumber.slice(0, 3), nationalNumber.slice(3, 6), nationalNumber.slice(6)]
+    : nationalNumber.match(/.{1,3}/g) ?? [nationalNumber];
+  return `+${country.dialCode} ${groups.join(' ')}`;
+};
+
+/**
+ * Masked form shown while waiting for the SMS - "+98 912 *** **67"
+ */
+export const maskPhoneNumber = (e164: string): string => {
+  const parsed = parsePhoneNumber(e164);
+  if (!parsed.success) return e164;
+
+  const { country, nationalNumber } = parsed.data;
+  const hidden = nationalNumber.slice(3, -2).replace(/\d/g, '*');
+  const masked = `${nationalNumber.slice(0, 3)}${hidden}${nationalNumber.slice(-2)}`;
+  return `+${country.dialCode} ${masked.slice(0, 3)} ${masked.slice(3, 6)} ${masked.slice(6)}`;
+};
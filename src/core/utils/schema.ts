@@ -0,0 +1,274 @@
+// src/core/utils/schema.ts
+// IRANVERSE Runtime Schema Validation
+// Declarative schemas for validating untrusted JSON at the API boundary
+// Built for 90M users - Backend contract drift caught in one place
+import { ValidationError } from '../types/api';
+
+// ========================================================================================
+// SCHEMA TYPES
+// ========================================================================================
+
+/**
+ * Single schema violation
+ */
+export interface SchemaIssue {
+  path: string; // dot path, e.g. "user.email" or "results[2].id"
+  message: string;
+  received?: string; // runtime type of the offending value
+}
+
+/**
+ * Thrown by Schema.parse when a value does not match
+ */
+export class SchemaValidationError extends Error {
+  public readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(`Schema validation failed: ${issues.map(issue => `${issue.path || '<root>'} ${issue.message}`).join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+
+  /**
+   * Convert issues to API validation errors
+   */
+  toValidationErrors(): ValidationError[] {
+    return this.issues.map(issue => ({
+      field: issue.path || '<root>',
+      code: 'SCHEMA_MISMATCH',
+      message: issue.message,
+      value: issue.received,
+    }));
+  }
+}
+
+/**
+ * Parse result without throwing
+ */
+export type SafeParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+/**
+ * Output type of a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Parser<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const joinPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+};
+
+// ========================================================================================
+// SCHEMA - CORE CLASS
+// ========================================================================================
+
+/**
+ * Runtime schema producing a value of type T
+ * Issues are collected for the whole value rather than stopping at the first one
+ */
+export class Schema<T> {
+  constructor(private readonly parser: Parser<T>) {}
+
+  /**
+   * Validate and return the parsed value, or throw SchemaValidationError
+   */
+  parse(value: unknown): T {
+    const issues: SchemaIssue[] = [];
+    const result = this.parser(value, '', issues);
+    if (issues.length > 0) {
+      throw new SchemaValidationError(issues);
+    }
+    return result;
+  }
+
+  /**
+   * Validate without throwing
+   */
+  safeParse(value: unknown): SafeParseResult<T> {
+    const issues: SchemaIssue[] = [];
+    const result = this.parser(value, '', issues);
+    return issues.length > 0 ? { success: false, issues } : { success: true, data: result };
+  }
+
+  /**
+   * Parse at a nested path (used by composite schemas)
+   */
+  parseAt(value: unknown, path: string, issues: SchemaIssue[]): T {
+    return this.parser(value, path, issues);
+  }
+
+  /**
+   * Allow undefined (missing key)
+   */
+  optional(): Schema<T | undefined> {
+    return new Schema((value, path, issues) =>
+      value === undefined ? undefined : this.parser(value, path, issues)
+    );
+  }
+
+  /**
+   * Allow null; undefined is also accepted and normalised to null
+   */
+  nullable(): Schema<T | null> {
+    return new Schema((value, path, issues) =>
+      value === null || value === undefined ? null : this.parser(value, path, issues)
+    );
+  }
+
+  /**
+   * Substitute a default for missing or null values
+   */
+  withDefault(defaultValue: T): Schema<T> {
+    return new Schema((value, path, issues) =>
+      value === null || value === undefined ? defaultValue : this.parser(value, path, issues)
+    );
+  }
+
+  /**
+   * Map the parsed value to another shape
+   */
+  transform<U>(mapper: (value: T) => U): Schema<U> {
+    return new Schema((value, path, issues) => {
+      const issueCount = issues.length;
+      const parsed = this.parser(value, path, issues);
+      // Never run the mapper on a value that failed validation
+      return issues.length > issueCount ? (parsed as unknown as U) : mapper(parsed);
+    });
+  }
+}
+
+// ========================================================================================
+// SCHEMA BUILDERS
+// ========================================================================================
+
+const primitive = <T>(type: 'string' | 'number' | 'boolean') =>
+  new Schema<T>((value, path, issues) => {
+    if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+      issues.push({ path, message: `expected ${type}`, received: describe(value) });
+    }
+    return value as T;
+  });
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export const s = {
+  string: () => primitive<string>('string'),
+
+  number: () => primitive<number>('number'),
+
+  boolean: () => primitive<boolean>('boolean'),
+
+  /**
+   * One of a fixed set of literal values
+   */
+  enum: <const V extends readonly (string | number | boolean)[]>(values: V) =>
+    new Schema<V[number]>((value, path, issues) => {
+      if (!values.includes(value as V[number])) {
+        issues.push({ path, message: `expected one of ${values.join(', ')}`, received: String(value) });
+      }
+      return value as V[number];
+    }),
+
+  /**
+   * ISO 8601 timestamp kept as a string
+   */
+  isoDate: () =>
+    new Schema<string>((value, path, issues) => {
+      if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        issues.push({ path, message: 'expected ISO 8601 date string', received: describe(value) });
+      }
+      return value as string;
+    }),
+
+  /**
+   * ISO 8601 string, epoch milliseconds or Date, converted to Date
+   */
+  date: () =>
+    new Schema<Date>((value, path, issues) => {
+      const date = value instanceof Date ? value
+        : typeof value === 'string' || typeof value === 'number' ? new Date(value)
+        : null;
+      if (!date || Number.isNaN(date.getTime())) {
+        issues.push({ path, message: 'expected date', received: describe(value) });
+        return value as Date;
+      }
+      return date;
+    }),
+
+  /**
+   * Array with every item validated
+   */
+  array: <T>(item: Schema<T>) =>
+    new Schema<T[]>((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: 'expected array', received: describe(value) });
+        return value as T[];
+      }
+      return value.map((entry, index) => item.parseAt(entry, joinPath(path, index), issues));
+    }),
+
+  /**
+   * Object with known keys - unknown keys are dropped
+   */
+  object: <S extends Record<string, Schema<any>>>(shape: S) =>
+    new Schema<{ [K in keyof S]: Infer<S[K]> }>((value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: 'expected object', received: describe(value) });
+        return value as { [K in keyof S]: Infer<S[K]> };
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const key of Object.keys(shape)) {
+        const parsed = shape[key].parseAt(input[key], joinPath(path, key), issues);
+        if (parsed !== undefined) {
+          output[key] = parsed;
+        }
+      }
+      return output as { [K in keyof S]: Infer<S[K]> };
+    }),
+
+  /**
+   * Object map with validated values
+   */
+  record: <T>(valueSchema: Schema<T>) =>
+    new Schema<Record<string, T>>((value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: 'expected object', received: describe(value) });
+        return value as Record<string, T>;
+      }
+
+      const output: Record<string, T> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        output[key] = valueSchema.parseAt(entry, joinPath(path, key), issues);
+      }
+      return output;
+    }),
+
+  /**
+   * Any object, passed through untouched (for free-form payloads)
+   */
+  opaque: <T extends object = Record<string, any>>() =>
+    new Schema<T>((value, path, issues) => {
+      if (typeof value !== 'object' || value === null) {
+        issues.push({ path, message: 'expected object', received: describe(value) });
+      }
+      return value as T;
+    }),
+
+  /**
+   * Any value, passed through untouched
+   */
+  any: <T = any>() => new Schema<T>(value => value as T),
+};
+
+export default s;
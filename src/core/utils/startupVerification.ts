@@ -2,6 +2,7 @@
 // IRANVERSE Enterprise Startup Verification System
 // Comprehensive dependency and component validation
 // Built for 90M users - Production-ready error prevention
+import { secureStorage, StorageIntegrityReport } from './storage';
 
 export interface StartupCheck {
   name: string;
@@ -15,6 +16,7 @@ export interface StartupResult {
   failedChecks: string[];
   warnings: string[];
   timestamp: number;
+  storageIntegrity?: StorageIntegrityReport; // absent when the scan itself failed
 }
 
 class StartupVerificationSystem {
@@ -162,6 +164,8 @@ class StartupVerificationSystem {
       }
     }
 
+    await this.verifyStorageIntegrity(result);
+
     console.log('========================================');
     if (result.success) {
       console.log('✅ All critical startup checks passed!');
@@ -175,6 +179,33 @@ class StartupVerificationSystem {
 
     return result;
   }
+
+  /**
+   * Corrupted storage never fails startup - unreadable items are quarantined and their
+   * namespaces start empty, so a broken session becomes a clean sign-in
+   */
+  private async verifyStorageIntegrity(result: StartupResult) {
+    console.log('Checking storage-integrity...');
+    const integrity = await secureStorage.verifyIntegrity();
+
+    if (!integrity.success || !integrity.data) {
+      result.warnings.push(`storage-integrity: ${integrity.error?.message ?? 'Scan failed'}`);
+      console.warn('⚠️  WARNING: storage-integrity scan failed', integrity.error);
+      return;
+    }
+
+    result.storageIntegrity = integrity.data;
+    const { scanned, quarantined, resetNamespaces } = integrity.data;
+
+    if (resetNamespaces.length > 0) {
+      result.warnings.push(
+        `storage-integrity: Reset ${resetNamespaces.join(', ')} after ${quarantined.length} unreadable items`
+      );
+      console.warn('⚠️  WARNING: storage-integrity quarantined', quarantined.map(item => `${item.key} (${item.reason})`));
+    } else {
+      console.log(`✅ storage-integrity passed (${scanned} items)`);
+    }
+  }
 }
 
 export const startupVerification = new StartupVerificationSystem();
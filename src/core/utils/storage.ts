@@ -1,24 +1,36 @@
 // src/utils/storage.ts
 // IRANVERSE Enterprise Secure Storage
-// AES-256-CBC encrypted AsyncStorage with device-specific key derivation
+// Authenticated AES-256 (encrypt-then-MAC) AsyncStorage with a rotating device keyring
 // Built for 90M users - PBKDF2 + Hardware-Backed Security
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Keychain from 'react-native-keychain';
 import * as AesCrypto from 'react-native-aes-crypto';
 import { Platform } from 'react-native';
 import { ENCRYPTION_CONFIG } from '../config/app.config';
+import {
+  STORAGE_KEYS,
+  STORAGE_MIGRATIONS,
+  STORAGE_NAMESPACES,
+  StorageKey,
+  StorageMigrationContext,
+  StorageNamespace,
+  QuarantinedItem,
+  getStorageNamespace,
+} from './storageRegistry';
 
 // ========================================================================================
 // TYPES & INTERFACES - ENTERPRISE SECURITY
 // ========================================================================================
 
 /**
- * Production encrypted storage envelope with AES-256-CBC
+ * Encrypted storage envelope - AES-256-CBC, then HMAC-SHA256 over version, key id, IV and ciphertext
+ * '1.0' envelopes (CBC without a tag) are still read and rewritten as '2.0'
  */
 export interface EncryptedEnvelope {
-  iv: string; // base64 - 12-byte initialization vector
+  iv: string; // hex - 16-byte CSPRNG initialization vector
   cipherText: string; // base64 - encrypted data
-  tag: string; // base64 - authentication tag
+  tag: string; // hex - HMAC-SHA256 authentication tag
+  keyId?: string; // keyring entry that encrypted the item (2.0+)
   timestamp: number; // creation timestamp
   version: string; // encryption version for migration
 }
@@ -63,6 +75,25 @@ export interface StorageOptions {
   priority?: 'low' | 'normal' | 'high';
 }
 
+/**
+ * Approximate space in use, per namespace and against ENCRYPTION_CONFIG.storageQuota
+ */
+export interface StorageUsage {
+  totalBytes: number;
+  quotaBytes: number;
+  usedRatio: number; // 0-1
+  namespaces: Partial<Record<StorageNamespace | 'unregistered', { items: number; bytes: number }>>;
+}
+
+/**
+ * Outcome of the startup integrity scan
+ */
+export interface StorageIntegrityReport {
+  scanned: number;
+  quarantined: QuarantinedItem[];
+  resetNamespaces: StorageNamespace[]; // emptied because one of their items was unreadable
+}
+
 /**
  * Storage error class for proper error instantiation
  */
@@ -81,17 +112,49 @@ export class StorageErrorClass extends Error implements StorageError {
 }
 
 // ========================================================================================
-// ENCRYPTION UTILITIES - AES-256-CBC WITH PBKDF2
+// ENCRYPTION UTILITIES - PBKDF2 KEYRING WITH ROTATION
 // ========================================================================================
 
+const KEYCHAIN_SERVER = 'iranverse-encryption';
+const KEYRING_USERNAME = 'iranverse-keyring'; // older installs kept the salt here and one key as the password
+const LEGACY_KEY_ID = 'legacy';
+const ENVELOPE_VERSION = '2.0';
+const LEGACY_ENVELOPE_VERSION = '1.0';
+const QUARANTINE_SAMPLE_LENGTH = 256;
+
+/**
+ * One storage key - items carry its id, so older keys keep decrypting until a rotation finishes
+ */
+interface EncryptionKeyRecord {
+  key: string; // hex - PBKDF2-derived master key
+  salt: string; // hex
+  createdAt: number;
+}
+
+interface EncryptionKeyring {
+  currentKeyId: string;
+  keys: Record<string, EncryptionKeyRecord>;
+}
+
+/**
+ * Subkeys of one master key - encryption and MAC never share a key
+ */
+interface DerivedKeys {
+  keyId: string;
+  masterKey: string;
+  encryptionKey: string;
+  macKey: string;
+}
+
 /**
  * Enterprise encryption key management with Hardware Security Module
- * Uses react-native-keychain for HSM-backed secure key storage
+ * Uses react-native-keychain for HSM-backed secure keyring storage
  */
 class EncryptionKeyManager {
   private static instance: EncryptionKeyManager;
-  private encryptionKey: string | null = null;
-  private salt: string | null = null;
+  private keyring: EncryptionKeyring | null = null;
+  private derivedKeys = new Map<string, DerivedKeys>();
+  private keyringUpdate: Promise<unknown> = Promise.resolve(); // rotate/retire run one at a time
 
   static getInstance(): EncryptionKeyManager {
     if (!EncryptionKeyManager.instance) {
@@ -101,20 +164,25 @@ class EncryptionKeyManager {
   }
 
   /**
-   * Initialize encryption key from HSM-backed storage or generate new one
+   * Load the keyring from HSM-backed storage or generate the first key
    */
   async initialize(): Promise<void> {
     try {
-      // Try to retrieve existing key and salt from hardware-backed keychain
-      const credentials = await Keychain.getInternetCredentials('iranverse-encryption');
-      
-      if (credentials && credentials.password && credentials.username) {
-        // Use existing key and salt
-        this.encryptionKey = credentials.password;
-        this.salt = credentials.username;
+      const credentials = await Keychain.getInternetCredentials(KEYCHAIN_SERVER);
+
+      if (credentials && credentials.username === KEYRING_USERNAME) {
+        this.keyring = JSON.parse(credentials.password);
+      } else if (credentials && credentials.password && credentials.username) {
+        // Single key from before the keyring - created "at epoch" so it is rotated out on this start
+        this.keyring = {
+          currentKeyId: LEGACY_KEY_ID,
+          keys: { [LEGACY_KEY_ID]: { key: credentials.password, salt: credentials.username, createdAt: 0 } },
+        };
+        await this.saveKeyring();
       } else {
-        // Generate new key and salt
-        await this.generateNewKey();
+        const [keyId, record] = await this.generateKey();
+        this.keyring = { currentKeyId: keyId, keys: { [keyId]: record } };
+        await this.saveKeyring();
       }
     } catch (error) {
       console.error('Failed to initialize encryption key:', error);
@@ -123,41 +191,22 @@ class EncryptionKeyManager {
   }
 
   /**
-   * Generate new encryption key with PBKDF2 derivation
+   * Generate a key from CSPRNG material with PBKDF2 derivation
    */
-  private async generateNewKey(): Promise<void> {
+  private async generateKey(): Promise<[string, EncryptionKeyRecord]> {
     try {
-      // Generate cryptographically secure random salt (32 bytes)
-      const saltHex = await AesCrypto.sha1(Date.now().toString() + Math.random().toString());
-      this.salt = saltHex.substring(0, 64); // 32 bytes in hex
-
-      // Generate random master key (32 bytes)
-      const masterKeyHex = await AesCrypto.sha1(
-        Date.now().toString() + 
-        Math.random().toString() + 
-        Platform.OS + 
-        Math.random().toString()
-      );
+      const salt = await AesCrypto.randomKey(32);
+      const masterKey = await AesCrypto.randomKey(32);
 
-      // Derive encryption key using PBKDF2
-      this.encryptionKey = await AesCrypto.pbkdf2(
-        masterKeyHex,
-        this.salt,
+      const key = await AesCrypto.pbkdf2(
+        masterKey,
+        salt,
         ENCRYPTION_CONFIG.keyDerivation.iterations,
-        ENCRYPTION_CONFIG.keyDerivation.keyLength,
+        ENCRYPTION_CONFIG.keyDerivation.keyLength * 8, // the native module takes bits
         'sha256'
       );
 
-      // Store in hardware-backed keychain with highest security level
-      await Keychain.setInternetCredentials(
-        'iranverse-encryption',
-        this.salt || 'iranverse-salt', // username = salt (cannot be undefined)
-        this.encryptionKey, // password = derived key
-        {
-          accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_ANY,
-          securityLevel: Keychain.SECURITY_LEVEL.SECURE_HARDWARE,
-        }
-      );
+      return [await AesCrypto.randomKey(8), { key, salt, createdAt: Date.now() }];
     } catch (error) {
       console.error('Failed to generate encryption key:', error);
       throw new Error('Key generation failed');
@@ -165,29 +214,125 @@ class EncryptionKeyManager {
   }
 
   /**
-   * Get current encryption key
+   * Store the keyring in hardware-backed keychain with highest security level
    */
-  async getEncryptionKey(): Promise<string> {
-    if (!this.encryptionKey) {
+  private async saveKeyring(): Promise<void> {
+    await Keychain.setInternetCredentials(
+      KEYCHAIN_SERVER,
+      KEYRING_USERNAME,
+      JSON.stringify(this.keyring),
+      {
+        accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_ANY,
+        securityLevel: Keychain.SECURITY_LEVEL.SECURE_HARDWARE,
+      }
+    );
+  }
+
+  private async getKeyring(): Promise<EncryptionKeyring> {
+    if (!this.keyring) {
       await this.initialize();
     }
-    if (!this.encryptionKey) {
+    if (!this.keyring) {
       throw new Error('Encryption key not available');
     }
-    return this.encryptionKey;
+    return this.keyring;
   }
 
   /**
-   * Get current salt
+   * Subkeys for the key an item names - the current key when omitted
    */
-  async getSalt(): Promise<string> {
-    if (!this.salt) {
-      await this.initialize();
+  async getKeys(keyId?: string): Promise<DerivedKeys> {
+    const keyring = await this.getKeyring();
+    const id = keyId ?? keyring.currentKeyId;
+
+    const cached = this.derivedKeys.get(id);
+    if (cached) return cached;
+
+    const record = keyring.keys[id];
+    if (!record) {
+      throw new Error(`Unknown encryption key: ${id}`);
     }
-    if (!this.salt) {
-      throw new Error('Salt not available');
+
+    const derived: DerivedKeys = {
+      keyId: id,
+      masterKey: record.key,
+      encryptionKey: await AesCrypto.hmac256('iranverse:storage:encryption', record.key),
+      macKey: await AesCrypto.hmac256('iranverse:storage:mac', record.key),
+    };
+    this.derivedKeys.set(id, derived);
+    return derived;
+  }
+
+  async getCurrentKeyId(): Promise<string> {
+    return (await this.getKeyring()).currentKeyId;
+  }
+
+  /**
+   * Current key is older than ENCRYPTION_CONFIG.keyRotationInterval
+   */
+  async isRotationDue(): Promise<boolean> {
+    const keyring = await this.getKeyring();
+    const current = keyring.keys[keyring.currentKeyId];
+    return !current || Date.now() - current.createdAt >= ENCRYPTION_CONFIG.keyRotationInterval * 1000;
+  }
+
+  /**
+   * Keys kept only to read items not yet re-encrypted (an unfinished rotation)
+   */
+  async hasOldKeys(): Promise<boolean> {
+    return Object.keys((await this.getKeyring()).keys).length > 1;
+  }
+
+  /**
+   * Make a fresh key current - older keys stay readable until retired
+   */
+  rotate(): Promise<string> {
+    return this.serialize(async () => {
+      await this.getKeyring();
+      const [keyId, record] = await this.generateKey();
+
+      // Key generation is slow - merge into the keyring as stored now, not as it was before
+      const { keys } = await this.loadKeyring();
+      this.keyring = { currentKeyId: keyId, keys: { ...keys, [keyId]: record } };
+      await this.saveKeyring();
+      return keyId;
+    });
+  }
+
+  /**
+   * Forget every key but the current one - only once no stored item needs them
+   * Skipped when the current key is no longer the one items were re-encrypted under,
+   * since a newer rotation is still moving items and retires the old keys itself
+   */
+  retireOldKeys(reencryptedKeyId: string): Promise<boolean> {
+    return this.serialize(async () => {
+      const { currentKeyId, keys } = await this.loadKeyring();
+      if (currentKeyId !== reencryptedKeyId) return false;
+
+      this.keyring = { currentKeyId, keys: { [currentKeyId]: keys[currentKeyId] } };
+      [...this.derivedKeys.keys()]
+        .filter(id => id !== currentKeyId)
+        .forEach(id => this.derivedKeys.delete(id));
+      await this.saveKeyring();
+      return true;
+    });
+  }
+
+  /**
+   * Re-read the stored keyring - the in-memory copy may predate another writer's update
+   */
+  private async loadKeyring(): Promise<EncryptionKeyring> {
+    const credentials = await Keychain.getInternetCredentials(KEYCHAIN_SERVER);
+    if (credentials && credentials.username === KEYRING_USERNAME) {
+      this.keyring = JSON.parse(credentials.password);
     }
-    return this.salt;
+    return this.getKeyring();
+  }
+
+  private serialize<T>(update: () => Promise<T>): Promise<T> {
+    const run = this.keyringUpdate.then(update, update);
+    this.keyringUpdate = run.catch(() => undefined);
+    return run;
   }
 
   /**
@@ -195,22 +340,35 @@ class EncryptionKeyManager {
    */
   async clearKeys(): Promise<void> {
     try {
-      await Keychain.resetGenericPassword();
-      this.encryptionKey = null;
-      this.salt = null;
+      await Keychain.resetInternetCredentials({ server: KEYCHAIN_SERVER });
+      this.keyring = null;
+      this.derivedKeys.clear();
     } catch (error) {
       console.error('Failed to clear encryption keys:', error);
     }
   }
 }
 
+/**
+ * Compare MAC tags without revealing where the first mismatch is
+ */
+const tagsMatch = (expected: string, actual: unknown): boolean => {
+  if (typeof actual !== 'string' || actual.length !== expected.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
 // ========================================================================================
-// ENCRYPTION SERVICE - AES-256-CBC IMPLEMENTATION
+// ENCRYPTION SERVICE - AES-256-CBC + HMAC-SHA256 (ENCRYPT-THEN-MAC)
 // ========================================================================================
 
 /**
- * Production-grade encryption service using AES-256-CBC
- * Implements authenticated encryption with proper IV generation and tag verification
+ * Authenticated encryption - the native crypto module has no GCM, so AES-256-CBC under one subkey
+ * is followed by HMAC-SHA256 under another, and the tag is checked before anything is decrypted
  */
 class EncryptionService {
   private keyManager: EncryptionKeyManager;
@@ -220,30 +378,27 @@ class EncryptionService {
   }
 
   /**
-   * Encrypt data using AES-256-CBC with authentication
+   * Encrypt data with the current key
    */
   async encrypt(data: string): Promise<EncryptedEnvelope> {
     try {
-      // Generate cryptographically secure random IV (12 bytes for GCM)
-      const ivHex = await AesCrypto.sha1(Date.now().toString() + Math.random().toString());
-      const iv = ivHex.substring(0, 24); // 12 bytes in hex = 24 characters
-
-      // Get encryption key
-      const key = await this.keyManager.getEncryptionKey();
-
-      // Encrypt using AES-256-CBC (supported algorithm)
-      const encryptionResult = await AesCrypto.encrypt(data, key, iv, 'aes-256-cbc');
-      
-      // For simplicity, use the result as ciphertext and generate a dummy tag
-      const cipherText = encryptionResult;
-      const tag = 'dummy_tag'; // For CBC mode, we don't have authentication tag
+      const keys = await this.keyManager.getKeys();
+
+      // CSPRNG IV - 16 bytes for CBC, never reused
+      const iv = await AesCrypto.randomKey(16);
+      const cipherText = await AesCrypto.encrypt(data, keys.encryptionKey, iv, 'aes-256-cbc');
+      const tag = await AesCrypto.hmac256(
+        this.getAuthenticatedData(ENVELOPE_VERSION, keys.keyId, iv, cipherText),
+        keys.macKey
+      );
 
       return {
         iv,
         cipherText,
         tag,
+        keyId: keys.keyId,
         timestamp: Date.now(),
-        version: '1.0',
+        version: ENVELOPE_VERSION,
       };
     } catch (error) {
       console.error('Encryption failed:', error);
@@ -257,38 +412,45 @@ class EncryptionService {
   }
 
   /**
-   * Decrypt data using AES-256-CBC with authentication verification
+   * Verify the tag, then decrypt with the key the envelope names
    */
   async decrypt(encryptedEnvelope: EncryptedEnvelope): Promise<string> {
     try {
-      const { iv, cipherText, version } = encryptedEnvelope;
+      const { iv, cipherText, tag, keyId, version } = encryptedEnvelope;
 
-      // Verify version compatibility
-      if (version !== '1.0') {
-        throw new Error(`Unsupported encryption version: ${version}`);
+      if (version === LEGACY_ENVELOPE_VERSION) {
+        // No tag to check - the caller rewrites the item as 2.0
+        const { masterKey } = await this.keyManager.getKeys(LEGACY_KEY_ID);
+        return await AesCrypto.decrypt(cipherText, masterKey, iv, 'aes-256-cbc');
       }
 
-      // Get encryption key
-      const key = await this.keyManager.getEncryptionKey();
-
-      // Decrypt using AES-256-CBC (exactly 4 arguments)
-      const decryptedData = await AesCrypto.decrypt(cipherText, key, iv, 'aes-256-cbc');
+      if (version !== ENVELOPE_VERSION || !keyId) {
+        throw new StorageErrorClass({
+          type: 'DECRYPTION_ERROR',
+          message: `Unsupported encryption version: ${version}`,
+          code: 'DECRYPT_VERSION_001',
+        });
+      }
 
-      return decryptedData;
-    } catch (error) {
-      console.error('Decryption failed:', error);
-      
-      // Check for authentication failure
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('authentication') || errorMessage.includes('tag')) {
+      const keys = await this.keyManager.getKeys(keyId);
+      const expectedTag = await AesCrypto.hmac256(
+        this.getAuthenticatedData(version, keyId, iv, cipherText),
+        keys.macKey
+      );
+      if (!tagsMatch(expectedTag, tag)) {
         throw new StorageErrorClass({
           type: 'CORRUPTION_ERROR',
           message: 'Data integrity check failed - possible tampering detected',
           code: 'DECRYPT_AUTH_001',
-          details: error,
         });
       }
-      
+
+      return await AesCrypto.decrypt(cipherText, keys.encryptionKey, iv, 'aes-256-cbc');
+    } catch (error) {
+      if (error instanceof StorageErrorClass) {
+        throw error;
+      }
+      console.error('Decryption failed:', error);
       throw new StorageErrorClass({
         type: 'DECRYPTION_ERROR',
         message: 'Failed to decrypt data',
@@ -299,17 +461,18 @@ class EncryptionService {
   }
 
   /**
-   * Parse encryption result to extract ciphertext and authentication tag
-   * Adapts to react-native-aes-crypto's actual response format
+   * Old envelope format or an older key - the item should be rewritten
    */
-  private parseEncryptionResult(encryptionResult: string): [string, string] {
-    try {
-      // For AES-256-CBC, just return the result as ciphertext
-      return [encryptionResult, 'dummy_tag'];
-    } catch (error) {
-      console.error('Failed to parse encryption result:', error);
-      throw new Error('Invalid encryption result format');
-    }
+  async isStale(encryptedEnvelope: EncryptedEnvelope): Promise<boolean> {
+    return encryptedEnvelope.version !== ENVELOPE_VERSION ||
+      encryptedEnvelope.keyId !== await this.keyManager.getCurrentKeyId();
+  }
+
+  /**
+   * Everything the tag covers - swapping any field between envelopes breaks it
+   */
+  private getAuthenticatedData(version: string, keyId: string, iv: string, cipherText: string): string {
+    return `${version}.${keyId}.${iv}.${cipherText}`;
   }
 }
 
@@ -324,20 +487,38 @@ class EncryptionService {
 class EnterpriseStorageService {
   private encryptionService: EncryptionService;
   private initialized: boolean = false;
+  private initializing: Promise<void> | null = null;
+  private rotation: Promise<StorageResult<number>> | null = null;
+  private keyMaintenance: Promise<void> = Promise.resolve(); // started by initialize, awaited by the integrity scan
 
   constructor() {
     this.encryptionService = new EncryptionService();
   }
 
   /**
-   * Initialize storage service
+   * Initialize storage service - load keys, then upgrade namespaces before the first read
+   * Concurrent callers share one run
    */
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
+    if (!this.initializing) {
+      this.initializing = (async () => {
+        await EncryptionKeyManager.getInstance().initialize();
+        await this.runMigrations();
+        this.initialized = true;
+
+        // Reads keep working with older keys while items are re-encrypted in the background
+        this.rotateKeyIfDue();
+        this.purgeExpired();
+        this.checkQuota();
+      })().finally(() => {
+        this.initializing = null;
+      });
+    }
+
     try {
-      await EncryptionKeyManager.getInstance().initialize();
-      this.initialized = true;
+      await this.initializing;
     } catch (error) {
       console.error('Storage service initialization failed:', error);
       throw error;
@@ -352,9 +533,24 @@ class EnterpriseStorageService {
     value: T,
     options: StorageOptions = {}
   ): Promise<StorageResult<boolean>> {
-    try {
-      await this.ensureInitialized();
+    await this.ensureInitialized();
+    return this.writeItem(key, value, options);
+  }
+
+  /**
+   * Retrieve and decrypt data with TTL validation
+   */
+  async getItem<T>(key: string): Promise<StorageResult<T>> {
+    await this.ensureInitialized();
+    return this.readItem<T>(key);
+  }
 
+  private async writeItem<T>(
+    key: string,
+    value: T,
+    options: StorageOptions = {}
+  ): Promise<StorageResult<boolean>> {
+    try {
       // Serialize data
       const serializedData = JSON.stringify({
         value,
@@ -386,13 +582,8 @@ class EnterpriseStorageService {
     }
   }
 
-  /**
-   * Retrieve and decrypt data with TTL validation
-   */
-  async getItem<T>(key: string): Promise<StorageResult<T>> {
+  private async readItem<T>(key: string): Promise<StorageResult<T>> {
     try {
-      await this.ensureInitialized();
-
       const rawData = await AsyncStorage.getItem(key);
       if (!rawData) {
         return { success: false };
@@ -405,14 +596,22 @@ class EnterpriseStorageService {
         try {
           const encryptedEnvelope: EncryptedEnvelope = JSON.parse(rawData);
           serializedData = await this.encryptionService.decrypt(encryptedEnvelope);
+
+          // Old format or key - rewrite without holding up the read
+          if (await this.encryptionService.isStale(encryptedEnvelope)) {
+            this.reencryptItem(key).catch(error => {
+              console.warn(`Failed to re-encrypt item for key: ${key}`, error);
+            });
+          }
         } catch (decryptError) {
           console.error('Failed to decrypt data:', decryptError);
+          const isTampered = decryptError instanceof StorageErrorClass && decryptError.type === 'CORRUPTION_ERROR';
           return {
             success: false,
             error: {
-              type: 'DECRYPTION_ERROR',
-              message: 'Failed to decrypt stored data',
-              code: 'DECRYPT_002',
+              type: isTampered ? 'CORRUPTION_ERROR' : 'DECRYPTION_ERROR',
+              message: isTampered ? 'Stored data failed its integrity check' : 'Failed to decrypt stored data',
+              code: isTampered ? 'DECRYPT_AUTH_002' : 'DECRYPT_002',
               details: decryptError,
             },
           };
@@ -509,6 +708,338 @@ class EnterpriseStorageService {
     }
   }
 
+  /**
+   * Approximate bytes per namespace - string lengths, close to bytes for the JSON stored here
+   */
+  async getUsage(): Promise<StorageResult<StorageUsage>> {
+    try {
+      const entries = await AsyncStorage.multiGet(await AsyncStorage.getAllKeys());
+      const namespaces: StorageUsage['namespaces'] = {};
+      let totalBytes = 0;
+
+      entries.forEach(([key, value]) => {
+        const bytes = key.length + (value?.length ?? 0);
+        const namespace = getStorageNamespace(key) ?? 'unregistered';
+        const usage = namespaces[namespace] ?? { items: 0, bytes: 0 };
+
+        namespaces[namespace] = { items: usage.items + 1, bytes: usage.bytes + bytes };
+        totalBytes += bytes;
+      });
+
+      return {
+        success: true,
+        data: {
+          totalBytes,
+          quotaBytes: ENCRYPTION_CONFIG.storageQuota,
+          usedRatio: totalBytes / ENCRYPTION_CONFIG.storageQuota,
+          namespaces,
+        },
+      };
+    } catch (error) {
+      console.error('Failed to measure storage usage:', error);
+      return {
+        success: false,
+        error: {
+          type: 'STORAGE_ERROR',
+          message: 'Failed to measure storage usage',
+          code: 'USAGE_001',
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Quarantine every registered item that cannot be read and empty the namespaces they lived in
+   * A namespace's items are written together (token pairs, cache index and entries), so the rest
+   * cannot be trusted either - server-backed data is fetched again when next needed
+   */
+  async verifyIntegrity(): Promise<StorageResult<StorageIntegrityReport>> {
+    try {
+      await this.ensureInitialized();
+      // Items under a key being retired would read as undecryptable mid-rotation
+      await Promise.all([this.keyMaintenance, this.rotation]);
+
+      const entries = await AsyncStorage.multiGet(await AsyncStorage.getAllKeys());
+      const quarantined: QuarantinedItem[] = [];
+      let scanned = 0;
+
+      for (const [key, snapshot] of entries) {
+        if (!getStorageNamespace(key) || snapshot === null || key === STORAGE_KEYS.quarantine.key) continue;
+
+        scanned++;
+        if (!(await this.inspectItem(key, snapshot))) continue;
+
+        // Confirm against the stored value - a write since the snapshot may have replaced it
+        const rawData = await AsyncStorage.getItem(key);
+        const reason = rawData === null ? null : await this.inspectItem(key, rawData);
+        if (rawData !== null && reason) {
+          quarantined.push(this.toQuarantinedItem(key, reason, rawData));
+        }
+      }
+
+      const resetNamespaces = await this.quarantine(quarantined);
+      return { success: true, data: { scanned, quarantined, resetNamespaces } };
+    } catch (error) {
+      console.error('Storage integrity scan failed:', error);
+      return {
+        success: false,
+        error: {
+          type: 'STORAGE_ERROR',
+          message: 'Failed to verify stored data',
+          code: 'INTEGRITY_001',
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Why an item cannot be read, or null when it is intact - mirrors readItem without side effects
+   */
+  private async inspectItem(key: string, rawData: string): Promise<QuarantinedItem['reason'] | null> {
+    let serializedData = rawData;
+
+    if (this.isSensitiveKey(key)) {
+      let encryptedEnvelope: EncryptedEnvelope;
+      try {
+        encryptedEnvelope = JSON.parse(rawData);
+      } catch {
+        return 'malformed';
+      }
+
+      try {
+        serializedData = await this.encryptionService.decrypt(encryptedEnvelope);
+      } catch (error) {
+        return error instanceof StorageErrorClass && error.type === 'CORRUPTION_ERROR' ? 'tampered' : 'undecryptable';
+      }
+    }
+
+    try {
+      const parsedData = JSON.parse(serializedData);
+      const isWrapped = typeof parsedData === 'object' && parsedData !== null &&
+        'value' in parsedData && typeof parsedData.timestamp === 'number';
+      return isWrapped ? null : 'malformed';
+    } catch {
+      return 'malformed';
+    }
+  }
+
+  private toQuarantinedItem(key: string, reason: QuarantinedItem['reason'], rawData: string): QuarantinedItem {
+    return {
+      key,
+      namespace: getStorageNamespace(key)!,
+      reason,
+      quarantinedAt: new Date().toISOString(),
+      sample: rawData.slice(0, QUARANTINE_SAMPLE_LENGTH),
+    };
+  }
+
+  /**
+   * Record unreadable items and empty the namespaces they lived in - returns those namespaces
+   */
+  private async quarantine(items: QuarantinedItem[]): Promise<StorageNamespace[]> {
+    const resetNamespaces = [...new Set(items.map(item => item.namespace))];
+    if (items.length === 0) return resetNamespaces;
+
+    const stored = await this.readItem<QuarantinedItem[]>(STORAGE_KEYS.quarantine.key);
+    const existing = stored.success && Array.isArray(stored.data) ? stored.data : [];
+
+    await this.writeItem(
+      STORAGE_KEYS.quarantine.key,
+      [...items, ...existing].slice(0, ENCRYPTION_CONFIG.storageQuarantineSize)
+    );
+    await AsyncStorage.multiRemove(
+      (await AsyncStorage.getAllKeys()).filter(key => {
+        const namespace = getStorageNamespace(key);
+        return namespace !== null && resetNamespaces.includes(namespace) && key !== STORAGE_KEYS.quarantine.key;
+      })
+    );
+
+    console.warn(`Quarantined ${items.length} unreadable storage items, reset namespaces: ${resetNamespaces.join(', ')}`);
+    return resetNamespaces;
+  }
+
+  /**
+   * Bring every namespace up to its registry schema version
+   * Each finished step is recorded, so an interrupted upgrade resumes where it stopped
+   */
+  private async runMigrations(): Promise<void> {
+    const stored = await this.readItem<Partial<Record<StorageNamespace, number>>>(STORAGE_KEYS.schemaVersions.key);
+    const versions = stored.success && stored.data ? stored.data : {};
+    const context = this.createMigrationContext();
+
+    for (const namespace of STORAGE_NAMESPACES) {
+      const migrations = STORAGE_MIGRATIONS[namespace];
+
+      for (let version = versions[namespace] ?? 0; version < migrations.length; version++) {
+        try {
+          await migrations[version].migrate(context);
+        } catch (error) {
+          // Later steps may build on this one - the namespace retries on next start
+          console.error(`Storage migration ${namespace} v${version + 1} failed: ${migrations[version].description}`, error);
+          break;
+        }
+
+        versions[namespace] = version + 1;
+        await this.writeItem(STORAGE_KEYS.schemaVersions.key, versions);
+      }
+    }
+  }
+
+  private createMigrationContext(): StorageMigrationContext {
+    return {
+      readLegacy: key => AsyncStorage.getItem(key),
+      removeLegacy: async (...keys) => {
+        await AsyncStorage.multiRemove(keys);
+      },
+      get: async <T>(key: StorageKey<T>): Promise<T | null> => {
+        const result = await this.readItem<T>(key.key);
+        return result.success && result.data !== undefined ? result.data : null;
+      },
+      set: async <T>(key: StorageKey<T>, value: T): Promise<void> => {
+        const result = await this.writeItem(key.key, value, { ttl: key.ttl });
+        if (!result.success) {
+          throw new StorageErrorClass(result.error!);
+        }
+      },
+    };
+  }
+
+  /**
+   * Drop expired values of keys registered with a TTL - reads drop them too, this catches unread ones
+   */
+  private purgeExpired(): void {
+    const expiringKeys = Object.values(STORAGE_KEYS).filter(definition => definition.ttl);
+
+    Promise.all(expiringKeys.map(definition => this.readItem(definition.key))).catch(error => {
+      console.warn('Failed to purge expired storage items:', error);
+    });
+  }
+
+  private checkQuota(): void {
+    this.getUsage().then(usage => {
+      if (usage.success && usage.data && usage.data.usedRatio >= ENCRYPTION_CONFIG.storageQuotaWarning) {
+        console.warn(
+          `Storage is ${Math.round(usage.data.usedRatio * 100)}% full (${usage.data.totalBytes} bytes)`,
+          usage.data.namespaces
+        );
+      }
+    });
+  }
+
+  /**
+   * Switch to a fresh encryption key and re-encrypt every stored item with it
+   * Joins a rotation already running; resolves with the number of items rewritten
+   */
+  rotateEncryptionKey(): Promise<StorageResult<number>> {
+    if (!this.rotation) {
+      this.rotation = (async () => {
+        await this.ensureInitialized();
+        await EncryptionKeyManager.getInstance().rotate();
+        return this.reencryptAll();
+      })()
+        .catch((error): StorageResult<number> => {
+          console.error('Encryption key rotation failed:', error);
+          return {
+            success: false,
+            error: {
+              type: 'KEY_GENERATION_ERROR',
+              message: 'Failed to rotate the encryption key',
+              code: 'ROTATE_001',
+              details: error,
+            },
+          };
+        })
+        .finally(() => {
+          this.rotation = null;
+        });
+    }
+    return this.rotation;
+  }
+
+  /**
+   * Start a due rotation, or finish one an earlier app run was killed during
+   */
+  private rotateKeyIfDue(): void {
+    const keyManager = EncryptionKeyManager.getInstance();
+
+    this.keyMaintenance = (async () => {
+      if (await keyManager.isRotationDue()) {
+        await this.rotateEncryptionKey();
+      } else if (await keyManager.hasOldKeys()) {
+        await this.reencryptAll();
+      }
+    })().catch(error => {
+      console.warn('Background key rotation failed:', error);
+    });
+  }
+
+  /**
+   * Rewrite every encrypted item under the current key, then forget the old keys
+   * Items failing their integrity check are quarantined - they cannot be trusted or migrated
+   */
+  private async reencryptAll(): Promise<StorageResult<number>> {
+    const keyManager = EncryptionKeyManager.getInstance();
+    const currentKeyId = await keyManager.getCurrentKeyId();
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => this.isSensitiveKey(key));
+    const tampered: QuarantinedItem[] = [];
+    let rewritten = 0;
+    let failed = 0;
+
+    for (const key of keys) {
+      try {
+        if (await this.reencryptItem(key)) rewritten++;
+      } catch (error) {
+        if (error instanceof StorageErrorClass && error.type === 'CORRUPTION_ERROR') {
+          const rawData = await AsyncStorage.getItem(key);
+          if (rawData !== null) tampered.push(this.toQuarantinedItem(key, 'tampered', rawData));
+        } else {
+          console.warn(`Failed to re-encrypt item for key: ${key}`, error);
+          failed++;
+        }
+      }
+    }
+
+    await this.quarantine(tampered);
+
+    if (failed > 0) {
+      // Old keys stay until every item has moved - the next start retries
+      return {
+        success: false,
+        data: rewritten,
+        error: {
+          type: 'ENCRYPTION_ERROR',
+          message: `${failed} stored items could not be re-encrypted`,
+          code: 'ROTATE_002',
+        },
+      };
+    }
+
+    await keyManager.retireOldKeys(currentKeyId);
+    return { success: true, data: rewritten };
+  }
+
+  /**
+   * Re-encrypt one item if it uses an old format or key - true when rewritten
+   */
+  private async reencryptItem(key: string): Promise<boolean> {
+    const rawData = await AsyncStorage.getItem(key);
+    if (!rawData) return false;
+
+    const encryptedEnvelope: EncryptedEnvelope = JSON.parse(rawData);
+    if (!(await this.encryptionService.isStale(encryptedEnvelope))) return false;
+
+    const serializedData = await this.encryptionService.decrypt(encryptedEnvelope);
+    const reencrypted = await this.encryptionService.encrypt(serializedData);
+
+    // A write that landed meanwhile already used the current key
+    if ((await AsyncStorage.getItem(key)) !== rawData) return false;
+
+    await AsyncStorage.setItem(key, JSON.stringify(reencrypted));
+    return true;
+  }
+
   /**
    * Check if key contains sensitive data that should be encrypted
    */
@@ -517,9 +1048,16 @@ class EnterpriseStorageService {
       ENCRYPTION_CONFIG.storageKeys.accessToken,
       ENCRYPTION_CONFIG.storageKeys.refreshToken,
       ENCRYPTION_CONFIG.storageKeys.userProfile,
+      ENCRYPTION_CONFIG.storageKeys.sessionMetadata, // IP address and location of the sign-in
       ENCRYPTION_CONFIG.storageKeys.avatarMetadata,
+      ENCRYPTION_CONFIG.storageKeys.offlineQueue,
+      ENCRYPTION_CONFIG.storageKeys.onboardingProfile,
+      ENCRYPTION_CONFIG.storageKeys.trustedDeviceToken, // bearer credential - skips the second factor
+      ENCRYPTION_CONFIG.storageKeys.loginAttempts, // which emails were tried on this device
     ];
-    return sensitiveKeys.includes(key as any);
+    // Cached API responses may contain profile data
+    return sensitiveKeys.includes(key as any) ||
+      key.startsWith(ENCRYPTION_CONFIG.storageKeys.responseCachePrefix);
   }
 
   /**
@@ -540,45 +1078,27 @@ class EnterpriseStorageService {
  * Authentication token storage utilities
  */
 export class AuthTokenStorage {
-  private storage: EnterpriseStorageService;
-
-  constructor() {
-    this.storage = new EnterpriseStorageService();
-  }
-
+  // Shares the app-wide service - a second instance would start its own key rotation
   async storeTokens(accessToken: string, refreshToken: string): Promise<boolean> {
-    const accessResult = await this.storage.setItem(
-      ENCRYPTION_CONFIG.storageKeys.accessToken,
-      accessToken,
-      { encrypt: true }
-    );
-
-    const refreshResult = await this.storage.setItem(
-      ENCRYPTION_CONFIG.storageKeys.refreshToken,
-      refreshToken,
-      { encrypt: true }
-    );
+    const accessResult = await secureStorage.setItem(STORAGE_KEYS.accessToken, accessToken, { encrypt: true });
+    const refreshResult = await secureStorage.setItem(STORAGE_KEYS.refreshToken, refreshToken, { encrypt: true });
 
     return accessResult.success && refreshResult.success;
   }
 
   async getAccessToken(): Promise<string | null> {
-    const result = await this.storage.getItem<string>(
-      ENCRYPTION_CONFIG.storageKeys.accessToken
-    );
+    const result = await secureStorage.getItem(STORAGE_KEYS.accessToken);
     return result.success ? result.data || null : null;
   }
 
   async getRefreshToken(): Promise<string | null> {
-    const result = await this.storage.getItem<string>(
-      ENCRYPTION_CONFIG.storageKeys.refreshToken
-    );
+    const result = await secureStorage.getItem(STORAGE_KEYS.refreshToken);
     return result.success ? result.data || null : null;
   }
 
   async clearTokens(): Promise<void> {
-    await this.storage.removeItem(ENCRYPTION_CONFIG.storageKeys.accessToken);
-    await this.storage.removeItem(ENCRYPTION_CONFIG.storageKeys.refreshToken);
+    await secureStorage.removeItem(STORAGE_KEYS.accessToken);
+    await secureStorage.removeItem(STORAGE_KEYS.refreshToken);
   }
 
   /**
@@ -617,6 +1137,10 @@ export class AuthTokenStorage {
 // Create singleton instance
 const storageService = new EnterpriseStorageService();
 
+// Callers address storage through the registry only
+export { STORAGE_KEYS, responseCacheEntryKey } from './storageRegistry';
+export type { StorageKey, StorageNamespace, OnboardingProfile, QuarantinedItem } from './storageRegistry';
+
 // High-level utility functions
 export const secureStorage = {
   /**
@@ -625,20 +1149,20 @@ export const secureStorage = {
   initialize: () => storageService.initialize(),
 
   /**
-   * Store encrypted data
+   * Store a registered key - the key's TTL applies unless options override it
    */
-  setItem: <T>(key: string, value: T, options?: StorageOptions) =>
-    storageService.setItem(key, value, options),
+  setItem: <T>(key: StorageKey<T>, value: NoInfer<T>, options?: StorageOptions) =>
+    storageService.setItem(key.key, value, { ttl: key.ttl, ...options }),
 
   /**
-   * Retrieve encrypted data
+   * Retrieve a registered key
    */
-  getItem: <T>(key: string) => storageService.getItem<T>(key),
+  getItem: <T>(key: StorageKey<T>) => storageService.getItem<T>(key.key),
 
   /**
-   * Remove item
+   * Remove a registered key
    */
-  removeItem: (key: string) => storageService.removeItem(key),
+  removeItem: <T>(key: StorageKey<T>) => storageService.removeItem(key.key),
 
   /**
    * Clear all storage
@@ -649,6 +1173,21 @@ export const secureStorage = {
    * Get all keys
    */
   getAllKeys: () => storageService.getAllKeys(),
+
+  /**
+   * Switch to a fresh encryption key and re-encrypt stored items
+   */
+  rotateEncryptionKey: () => storageService.rotateEncryptionKey(),
+
+  /**
+   * Approximate space in use per namespace and against the quota
+   */
+  getUsage: () => storageService.getUsage(),
+
+  /**
+   * Quarantine unreadable items and reset their namespaces - run once at startup
+   */
+  verifyIntegrity: () => storageService.verifyIntegrity(),
 };
 
 // Authentication token utilities
@@ -661,6 +1200,26 @@ export const clearAuthData = async (): Promise<void> => {
   await storageService.removeItem(ENCRYPTION_CONFIG.storageKeys.avatarMetadata);
 };
 
+/**
+ * Read the exp/iat claims of a JWT without verifying it (base64url aware)
+ */
+export const getTokenClaims = (token: string): { exp?: number; iat?: number } | null => {
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const payload = JSON.parse(atob(padded));
+    return {
+      exp: typeof payload.exp === 'number' ? payload.exp : undefined,
+      iat: typeof payload.iat === 'number' ? payload.iat : undefined,
+    };
+  } catch (error) {
+    return null;
+  }
+};
+
 // Check if token is expired
 export const isTokenExpired = (token: string): boolean => {
   try {
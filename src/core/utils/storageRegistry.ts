@@ -0,0 +1,267 @@
+// src/core/utils/storageRegistry.ts
+// IRANVERSE Storage Registry - Every persisted key, its value type and its namespace schema version
+// Namespaces upgrade through ordered migrations run once at startup by secureStorage.initialize()
+// Built for 90M users - No module reads or writes storage under an untyped string key
+import { ENCRYPTION_CONFIG } from '../config/app.config';
+import type { LogoFeatureFlags } from '../config/logoFeatureFlags';
+import type { QueuedMutation } from '../types/api';
+import type { StoredUploadSession } from '../services/uploadManager';
+import type { CachedResponse, CacheIndexEntry } from '../services/responseCache';
+import type { AuthenticatedUser, AuthAuditEntry, BiometricUnlockPreference, SessionMetadata } from '../../features/auth/types';
+import type { LoginAttemptRecord } from '../../features/auth/utils/loginThrottle';
+import type { PersistedSessionLock } from '../../features/auth/utils/sessionSupervisor';
+import type { AvatarState } from '../../features/avatar/types';
+
+// ========================================================================================
+// REGISTRY TYPES
+// ========================================================================================
+
+/**
+ * Second segment of '@iranverse:<namespace>:<name>' - versioned and reported on separately
+ */
+export const STORAGE_NAMESPACES = [
+  'auth',
+  'security',
+  'user',
+  'avatar',
+  'onboarding',
+  'cache',
+  'sync',
+  'upload',
+  'config',
+  'storage',
+] as const;
+
+export type StorageNamespace = (typeof STORAGE_NAMESPACES)[number];
+
+/**
+ * A registered key - T is the stored value, carried only in the type
+ */
+export interface StorageKey<T> {
+  readonly key: string;
+  readonly namespace: StorageNamespace;
+  readonly ttl?: number; // seconds - default expiry for every write
+  readonly __value?: T;
+}
+
+/**
+ * Raw and typed access for migrations - legacy keys predate the registry
+ */
+export interface StorageMigrationContext {
+  readLegacy(key: string): Promise<string | null>;
+  removeLegacy(...keys: string[]): Promise<void>;
+  get<T>(key: StorageKey<T>): Promise<T | null>;
+  set<T>(key: StorageKey<T>, value: T): Promise<void>;
+}
+
+/**
+ * One schema step - a namespace's version is the number of steps it has
+ */
+export interface StorageMigration {
+  description: string;
+  migrate(context: StorageMigrationContext): Promise<void>;
+}
+
+// ========================================================================================
+// STORED VALUE TYPES
+// ========================================================================================
+
+/**
+ * Account summary saved when onboarding finishes - tokens live in the auth namespace only
+ */
+export interface OnboardingProfile {
+  userId: string;
+  email: string;
+  userName: string;
+  avatarUrl: string;
+  setupComplete: boolean;
+  onboardingDate: string; // ISO 8601
+}
+
+/**
+ * A stored item that failed the startup integrity scan - kept for diagnostics, never read back
+ */
+export interface QuarantinedItem {
+  key: string;
+  namespace: StorageNamespace;
+  reason: 'malformed' | 'undecryptable' | 'tampered';
+  quarantinedAt: string; // ISO 8601
+  sample: string; // start of the raw stored value
+}
+
+// ========================================================================================
+// KEY REGISTRY
+// ========================================================================================
+
+const KEY_PREFIX = '@iranverse:';
+
+/**
+ * Namespace of a raw key - null for keys written before the registry (or by libraries)
+ */
+export const getStorageNamespace = (key: string): StorageNamespace | null => {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+  const namespace = key.slice(KEY_PREFIX.length).split(':')[0] as StorageNamespace;
+  return STORAGE_NAMESPACES.includes(namespace) ? namespace : null;
+};
+
+const defineStorageKey = <T>(key: string, options: { ttl?: number } = {}): StorageKey<T> => {
+  const namespace = getStorageNamespace(key);
+  if (!namespace) {
+    throw new Error(`Storage key outside a registered namespace: ${key}`);
+  }
+  return { key, namespace, ...options };
+};
+
+const { storageKeys } = ENCRYPTION_CONFIG;
+
+export const STORAGE_KEYS = {
+  // Auth
+  accessToken: defineStorageKey<string>(storageKeys.accessToken),
+  refreshToken: defineStorageKey<string>(storageKeys.refreshToken),
+  trustedDeviceToken: defineStorageKey<string>(storageKeys.trustedDeviceToken),
+  loginAttempts: defineStorageKey<Record<string, LoginAttemptRecord>>(storageKeys.loginAttempts),
+  biometricUnlock: defineStorageKey<BiometricUnlockPreference>(storageKeys.biometricUnlock),
+  sessionStartedAt: defineStorageKey<number>(storageKeys.sessionStartedAt),
+  sessionLock: defineStorageKey<PersistedSessionLock>(storageKeys.sessionLock),
+  sessionMetadata: defineStorageKey<SessionMetadata>(storageKeys.sessionMetadata),
+  authAuditLog: defineStorageKey<AuthAuditEntry[]>(storageKeys.authAuditLog),
+
+  // Security
+  deviceId: defineStorageKey<string>(storageKeys.deviceId),
+
+  // User & Avatar
+  userProfile: defineStorageKey<AuthenticatedUser>(storageKeys.userProfile),
+  avatarMetadata: defineStorageKey<AvatarState>(storageKeys.avatarMetadata),
+  avatarUrl: defineStorageKey<string>(storageKeys.avatarUrl),
+
+  // Onboarding
+  onboardingProfile: defineStorageKey<OnboardingProfile>(storageKeys.onboardingProfile),
+  onboardingComplete: defineStorageKey<boolean>(storageKeys.onboardingComplete),
+
+  // Network
+  responseCacheIndex: defineStorageKey<Record<string, CacheIndexEntry>>(storageKeys.responseCacheIndex),
+  offlineQueue: defineStorageKey<QueuedMutation[]>(storageKeys.offlineQueue),
+  uploadSessions: defineStorageKey<Record<string, StoredUploadSession>>(storageKeys.uploadSessions, {
+    ttl: 7 * 24 * 60 * 60, // abandoned resumable uploads
+  }),
+
+  // Config
+  logoFeatureFlags: defineStorageKey<Partial<LogoFeatureFlags>>(storageKeys.logoFeatureFlags),
+
+  // Storage bookkeeping
+  schemaVersions: defineStorageKey<Partial<Record<StorageNamespace, number>>>(storageKeys.schemaVersions),
+  quarantine: defineStorageKey<QuarantinedItem[]>(storageKeys.quarantine),
+} as const;
+
+/**
+ * One cached API response - the cache keeps its own index, so these are not listed above
+ */
+export const responseCacheEntryKey = <T>(cacheKey: string): StorageKey<CachedResponse<T>> =>
+  defineStorageKey<CachedResponse<T>>(`${storageKeys.responseCachePrefix}${cacheKey}`);
+
+// ========================================================================================
+// SCHEMA MIGRATIONS
+// ========================================================================================
+
+/**
+ * Parse a legacy JSON value, treating unreadable data as missing
+ */
+const parseLegacy = <T>(raw: string | null): T | null => {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Ordered upgrade steps per namespace - append only, never edit a shipped step
+ */
+export const STORAGE_MIGRATIONS: Record<StorageNamespace, StorageMigration[]> = {
+  auth: [
+    {
+      description: 'Drop the trusted device token stored before it was encrypted',
+      async migrate(context) {
+        // Its expiry was never kept - the next two-factor sign-in trusts the device again
+        await context.removeLegacy(STORAGE_KEYS.trustedDeviceToken.key);
+      },
+    },
+    {
+      description: 'Encrypt the login attempt records stored before they were sensitive',
+      async migrate(context) {
+        // Plaintext { value, timestamp } wrapper - set() now encrypts it in place
+        const legacy = parseLegacy<{ value?: Record<string, LoginAttemptRecord> }>(
+          await context.readLegacy(STORAGE_KEYS.loginAttempts.key)
+        );
+        if (legacy?.value) {
+          await context.set(STORAGE_KEYS.loginAttempts, legacy.value);
+        }
+      },
+    },
+  ],
+  security: [
+    {
+      description: 'Move the device id under the security namespace',
+      async migrate(context) {
+        // Written through secureStorage as a plaintext { value, timestamp } wrapper
+        const legacy = parseLegacy<{ value?: unknown }>(await context.readLegacy('device_id'));
+        if (typeof legacy?.value === 'string') {
+          await context.set(STORAGE_KEYS.deviceId, legacy.value);
+        }
+        await context.removeLegacy('device_id');
+      },
+    },
+  ],
+  user: [],
+  avatar: [
+    {
+      description: 'Move the Ready Player Me avatar URL under the avatar namespace',
+      async migrate(context) {
+        const avatarUrl = await context.readLegacy('@avatar_url');
+        if (avatarUrl) {
+          await context.set(STORAGE_KEYS.avatarUrl, avatarUrl);
+        }
+        await context.removeLegacy('@avatar_url');
+      },
+    },
+  ],
+  onboarding: [
+    {
+      description: 'Move onboarding data under the onboarding namespace and drop the plaintext access token',
+      async migrate(context) {
+        const legacy = parseLegacy<OnboardingProfile & { accessToken?: string }>(await context.readLegacy('@user_data'));
+        if (legacy) {
+          const { accessToken: _accessToken, ...profile } = legacy;
+          await context.set(STORAGE_KEYS.onboardingProfile, profile);
+        }
+        if ((await context.readLegacy('@onboarding_complete')) === 'true') {
+          await context.set(STORAGE_KEYS.onboardingComplete, true);
+        }
+        await context.removeLegacy('@user_data', '@user_id', '@onboarding_complete');
+      },
+    },
+  ],
+  cache: [],
+  sync: [],
+  upload: [],
+  config: [
+    {
+      description: 'Move logo feature flags under the config namespace',
+      async migrate(context) {
+        const flags = parseLegacy<Partial<LogoFeatureFlags>>(await context.readLegacy('@iranverse_logo_feature_flags'));
+        if (flags) {
+          await context.set(STORAGE_KEYS.logoFeatureFlags, flags);
+        }
+        await context.removeLegacy('@iranverse_logo_feature_flags');
+      },
+    },
+  ],
+  storage: [],
+};
+
+/**
+ * Current schema version of a namespace
+ */
+export const getSchemaVersion = (namespace: StorageNamespace): number =>
+  STORAGE_MIGRATIONS[namespace].length;
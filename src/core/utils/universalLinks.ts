@@ -0,0 +1,82 @@
+// src/core/utils/universalLinks.ts
+// IRANVERSE Universal Links - Association files for https links on DEEP_LINK_CONFIG.universalLinks.domains
+// apple-app-site-association (iOS) and assetlinks.json (Android) list exactly the paths deepLinkRouter opens
+// Built for 90M users - Links in email open the app instead of a blocked custom scheme
+// No native imports - written by scripts/generate-association-files.js (npm run generate:association-files)
+import { DEEP_LINK_CONFIG } from '../config/deepLink.config';
+import { getRoutableDeepLinkPatterns } from '../constants/routes';
+
+// ========================================================================================
+// ASSOCIATION FILE TYPES
+// ========================================================================================
+
+export interface AssociationCredentials {
+  appleTeamId: string;
+  androidCertFingerprints: string[]; // SHA-256, colon separated
+}
+
+/**
+ * File contents keyed by the path the website serves them at (application/json, no redirects)
+ */
+export type AssociationFiles = Record<
+  '/.well-known/apple-app-site-association' | '/.well-known/assetlinks.json',
+  string
+>;
+
+// ========================================================================================
+// ASSOCIATION FILE BUILDERS
+// ========================================================================================
+
+/**
+ * Router paths as website paths - ':name' params become wildcards
+ */
+export const getUniversalLinkPaths = (): string[] =>
+  getRoutableDeepLinkPatterns().map(pattern =>
+    `/${pattern
+      .replace(`${DEEP_LINK_CONFIG.scheme}://`, '')
+      .split('/')
+      .filter(Boolean)
+      .map(segment => (segment.startsWith(':') ? '*' : segment))
+      .join('/')}`
+  );
+
+export const buildAppleAppSiteAssociation = (appleTeamId: string) => ({
+  applinks: {
+    details: [
+      {
+        appIDs: [`${appleTeamId}.${DEEP_LINK_CONFIG.universalLinks.iosBundleId}`],
+        components: getUniversalLinkPaths().map(path => ({ '/': path })),
+      },
+    ],
+  },
+});
+
+export const buildAssetLinks = (androidCertFingerprints: string[]) => [
+  {
+    relation: ['delegate_permission/common.handle_all_urls'],
+    target: {
+      namespace: 'android_app',
+      package_name: DEEP_LINK_CONFIG.universalLinks.androidPackage,
+      sha256_cert_fingerprints: androidCertFingerprints,
+    },
+  },
+];
+
+/**
+ * Both files for the website - the script passes credentials from app.json `extra`
+ */
+export const generateAssociationFiles = (
+  credentials: Partial<AssociationCredentials>
+): AssociationFiles => {
+  const { appleTeamId, androidCertFingerprints = [] } = credentials;
+
+  // The OS rejects the whole file for a missing ID - fail here instead
+  if (!appleTeamId || androidCertFingerprints.length === 0) {
+    throw new Error('Universal links need appleTeamId and androidCertFingerprints (see UNIVERSAL_LINKS_SETUP.md)');
+  }
+
+  return {
+    '/.well-known/apple-app-site-association': JSON.stringify(buildAppleAppSiteAssociation(appleTeamId), null, 2),
+    '/.well-known/assetlinks.json': JSON.stringify(buildAssetLinks(androidCertFingerprints), null, 2),
+  };
+};
@@ -3,6 +3,7 @@
 // Comprehensive validation system with Persian/RTL support
 // Built for 90M users - RFC Compliant + Cultural Sensitivity
 import { ValidationError } from '../types/api';
+import { parsePhoneNumber, PhoneParseError, DEFAULT_PHONE_COUNTRY } from './phone';
 
 // ========================================================================================
 // VALIDATION RESULT TYPES - ENTERPRISE STANDARDS
@@ -183,6 +184,40 @@ export const validateEmail = (
   };
 };
 
+// ========================================================================================
+// PHONE VALIDATION - E.164 + IRANIAN OPERATORS
+// ========================================================================================
+
+const PHONE_ERROR_MESSAGES: Record<PhoneParseError, [string, string]> = {
+  EMPTY: ['Phone number is required', 'شماره موبایل الزامی است'],
+  INVALID_CHARACTERS: ['Phone number can only contain digits', 'شماره موبایل فقط می‌تواند شامل رقم باشد'],
+  UNKNOWN_COUNTRY: ['This country code is not supported yet', 'این پیش‌شماره کشور هنوز پشتیبانی نمی‌شود'],
+  TOO_SHORT: ['Phone number is too short', 'شماره موبایل کوتاه است'],
+  TOO_LONG: ['Phone number is too long', 'شماره موبایل طولانی است'],
+  NOT_MOBILE: ['Enter a mobile number starting with 09', 'شماره موبایل باید با ۰۹ شروع شود'],
+  UNKNOWN_OPERATOR: ['This is not a valid Iranian mobile number', 'این شماره موبایل ایرانی معتبر نیست'],
+};
+
+/**
+ * Mobile number validation - accepts Persian digits, 0912..., 98912..., +98912... and 0098912...
+ * Iranian numbers must use a known operator prefix
+ */
+export const validatePhoneNumber = (
+  phone: string,
+  options: ValidationOptions & { country?: string } = {}
+): FieldValidationResult => {
+  const parsed = parsePhoneNumber(phone, options.country || DEFAULT_PHONE_COUNTRY);
+  if (parsed.success) {
+    return { isValid: true, errors: [] };
+  }
+
+  const [englishMessage, persianMessage] = PHONE_ERROR_MESSAGES[parsed.error];
+  return {
+    isValid: false,
+    errors: [createValidationError('phone', parsed.error, englishMessage, persianMessage, options.language)],
+  };
+};
+
 // ========================================================================================
 // PASSWORD VALIDATION - ENTERPRISE SECURITY
 // ========================================================================================
@@ -832,13 +867,15 @@ export const createDebouncedValidator = (
  * Validate field based on type
  */
 export const validateField = (
-  fieldType: 'email' | 'password' | 'username' | 'firstName' | 'lastName' | 'displayName',
+  fieldType: 'email' | 'phone' | 'password' | 'username' | 'firstName' | 'lastName' | 'displayName',
   value: string,
   options: ValidationOptions = {}
 ): FieldValidationResult => {
   switch (fieldType) {
     case 'email':
       return validateEmail(value, options);
+    case 'phone':
+      return validatePhoneNumber(value, options);
     case 'password':
       return validatePassword(value, options);
     case 'username':
@@ -892,6 +929,7 @@ export const getAllValidationErrors = (result: FormValidationResult): Validation
 export default {
   // Individual field validators
   validateEmail,
+  validatePhoneNumber,
   validatePassword,
   validateUsername,
   validateFullName,
@@ -0,0 +1,290 @@
+// src/features/auth/components/SessionLockModal.tsx
+// IRANVERSE Session Lock - Full-screen cover after idle or background time
+// Shown by AuthProvider until the user passes biometrics, re-enters the password or a one-time code
+// Built for 90M users - The session stays alive, the screen stays private
+import React, { memo, useState, useCallback, useEffect, useRef } from 'react';
+import {
+  View,
+  Modal,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import Text from '../../../shared/components/ui/Text';
+import Button from '../../../shared/components/ui/Button';
+import Input from '../../../shared/components/forms/Input';
+import FieldError from '../../../shared/components/forms/FieldError';
+import Loader from '../../../shared/components/ui/Loader';
+import { useTheme } from '../../../shared/theme/ThemeProvider';
+import { BiometryKind, StepUpCodeDispatch } from '../types';
+
+// ========================================================================================
+// TYPES
+// ========================================================================================
+
+export interface SessionLockModalProps {
+  visible: boolean;
+  email?: string;
+  biometryType: BiometryKind | null; // null hides the biometric option
+  unlockMethod: 'password' | 'code'; // 'code' for accounts without a password (phone, social)
+  onUnlockWithPassword: (password: string) => Promise<void>; // rejects when the password is wrong
+  onRequestCode: () => Promise<StepUpCodeDispatch>;
+  onUnlockWithCode: (code: string) => Promise<void>; // rejects when the code is wrong or expired
+  onUnlockWithBiometrics: () => Promise<void>; // rejects when cancelled or unavailable
+  onSignOut: () => void;
+}
+
+const BIOMETRY_LABELS: Record<BiometryKind, string> = {
+  face: 'Unlock with Face ID',
+  fingerprint: 'Unlock with Fingerprint',
+  iris: 'Unlock with Iris',
+};
+
+// ========================================================================================
+// SESSION LOCK MODAL IMPLEMENTATION
+// ========================================================================================
+
+const SessionLockModal: React.FC<SessionLockModalProps> = ({
+  visible,
+  email,
+  biometryType,
+  unlockMethod,
+  onUnlockWithPassword,
+  onRequestCode,
+  onUnlockWithCode,
+  onUnlockWithBiometrics,
+  onSignOut,
+}) => {
+  const theme = useTheme();
+  const { colors } = theme;
+
+  const [secret, setSecret] = useState('');
+  const [codeDispatch, setCodeDispatch] = useState<StepUpCodeDispatch | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const hasPromptedRef = useRef(false);
+
+  const handleBiometrics = useCallback(async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onUnlockWithBiometrics();
+    } catch (unlockError: any) {
+      // Cancelling just leaves the password or code field
+      if (unlockError?.type !== 'STEP_UP_CANCELLED') {
+        setError(unlockError?.userMessage || unlockError?.message || 'Biometric unlock failed');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [onUnlockWithBiometrics]);
+
+  // Start clean every time the lock appears, offering biometrics straight away
+  useEffect(() => {
+    if (!visible) {
+      hasPromptedRef.current = false;
+      return;
+    }
+
+    setSecret('');
+    setCodeDispatch(null);
+    setError(null);
+    setIsSubmitting(false);
+    if (biometryType && !hasPromptedRef.current) {
+      hasPromptedRef.current = true;
+      handleBiometrics();
+    }
+  }, [visible, biometryType, handleBiometrics]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!secret || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (unlockMethod === 'code') {
+        await onUnlockWithCode(secret);
+      } else {
+        await onUnlockWithPassword(secret);
+      }
+    } catch (submitError: any) {
+      setError(submitError?.userMessage || submitError?.message || (unlockMethod === 'code' ? 'Invalid code' : 'Incorrect password'));
+      setSecret('');
+      if (submitError?.type === 'OTP_EXPIRED') {
+        setCodeDispatch(null);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [secret, isSubmitting, unlockMethod, onUnlockWithCode, onUnlockWithPassword]);
+
+  const handleRequestCode = useCallback(async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      setCodeDispatch(await onRequestCode());
+    } catch (requestError: any) {
+      setError(requestError?.userMessage || requestError?.message || 'Could not send a code');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [onRequestCode]);
+
+  const needsCode = unlockMethod === 'code' && !codeDispatch;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      onRequestClose={() => {}} // the back button must not dismiss the lock
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={[styles.container, { backgroundColor: colors.foundation.darkest }]}
+      >
+        <View style={styles.content}>
+          <Text variant="h2" align="center" style={[styles.title, { color: colors.interactive.text.primary }]}>
+            IRANVERSE is locked
+          </Text>
+          <Text variant="body" align="center" style={[styles.subtitle, { color: colors.interactive.text.secondary }]}>
+            {email ? `Signed in as ${email}. ` : ''}Confirm it's you to continue.
+          </Text>
+
+          {biometryType && (
+            <Button
+              variant="primary"
+              size="large"
+              fullWidth
+              onPress={handleBiometrics}
+              disabled={isSubmitting}
+              style={styles.biometricButton}
+              accessibilityLabel={BIOMETRY_LABELS[biometryType]}
+              testID="session-lock-biometric"
+            >
+              {BIOMETRY_LABELS[biometryType]}
+            </Button>
+          )}
+
+          {unlockMethod === 'password' && (
+            <Input
+              label="Password"
+              value={secret}
+              onChangeText={setSecret}
+              secureTextEntry
+              showPasswordToggle
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoComplete="password"
+              returnKeyType="done"
+              onSubmitEditing={handleSubmit}
+              accessibilityLabel="Password"
+              testID="session-lock-password"
+            />
+          )}
+
+          {unlockMethod === 'code' && codeDispatch && (
+            <>
+              <Text variant="caption" style={[styles.codeHint, { color: colors.interactive.text.secondary }]}>
+                We sent a code by {codeDispatch.channel === 'sms' ? 'SMS' : 'email'} to {codeDispatch.destinationHint}.
+              </Text>
+              <Input
+                label="Verification code"
+                value={secret}
+                onChangeText={setSecret}
+                keyboardType="number-pad"
+                autoComplete="one-time-code"
+                returnKeyType="done"
+                onSubmitEditing={handleSubmit}
+                accessibilityLabel="Verification code"
+                testID="session-lock-code"
+              />
+            </>
+          )}
+
+          {error && (
+            <FieldError message={error} visible={!!error} style={styles.error} testID="session-lock-error" />
+          )}
+
+          <Button
+            variant={biometryType ? 'secondary' : 'primary'}
+            size="large"
+            fullWidth
+            onPress={needsCode ? handleRequestCode : handleSubmit}
+            disabled={(!needsCode && !secret) || isSubmitting}
+            style={styles.unlockButton}
+            accessibilityLabel={needsCode ? 'Send a verification code' : unlockMethod === 'code' ? 'Unlock with code' : 'Unlock with password'}
+            testID={needsCode ? 'session-lock-send-code' : 'session-lock-unlock'}
+          >
+            {isSubmitting ? <Loader size="small" color={colors.interactive.surface} /> : needsCode ? 'Send Code' : 'Unlock'}
+          </Button>
+
+          {unlockMethod === 'code' && codeDispatch && (
+            <Button
+              variant="ghost"
+              size="medium"
+              fullWidth
+              onPress={handleRequestCode}
+              disabled={isSubmitting}
+              accessibilityLabel="Send a new code"
+              testID="session-lock-resend-code"
+            >
+              Send a New Code
+            </Button>
+          )}
+
+          <Button
+            variant="ghost"
+            size="medium"
+            fullWidth
+            onPress={onSignOut}
+            disabled={isSubmitting}
+            accessibilityLabel="Sign out"
+            testID="session-lock-sign-out"
+          >
+            Sign Out
+          </Button>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+// ========================================================================================
+// STYLES
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  content: {
+    width: '100%',
+    maxWidth: 400,
+    alignSelf: 'center',
+  },
+  title: {
+    marginBottom: 8,
+    fontWeight: '600',
+  },
+  subtitle: {
+    marginBottom: 32,
+    opacity: 0.8,
+  },
+  biometricButton: {
+    marginBottom: 24,
+  },
+  error: {
+    marginTop: 8,
+  },
+  codeHint: {
+    marginBottom: 8,
+  },
+  unlockButton: {
+    marginTop: 24,
+    marginBottom: 8,
+  },
+});
+
+export default memo(SessionLockModal);
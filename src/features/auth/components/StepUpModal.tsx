@@ -0,0 +1,176 @@
+// src/features/auth/components/StepUpModal.tsx
+// IRANVERSE Step-Up Prompt - Password re-entry before sensitive actions
+// Shown by AuthProvider when biometric step-up is unavailable or declined
+// Built for 90M users - Confirms it is really the owner before irreversible changes
+import React, { memo, useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Modal,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import Text from '../../../shared/components/ui/Text';
+import Button from '../../../shared/components/ui/Button';
+import Input from '../../../shared/components/forms/Input';
+import FieldError from '../../../shared/components/forms/FieldError';
+import Loader from '../../../shared/components/ui/Loader';
+import { useTheme } from '../../../shared/theme/ThemeProvider';
+
+// ========================================================================================
+// TYPES
+// ========================================================================================
+
+export interface StepUpModalProps {
+  visible: boolean;
+  reason: string; // e.g. "Sign out of all devices"
+  onSubmit: (password: string) => Promise<void>; // rejects when the password is wrong
+  onCancel: () => void;
+}
+
+// ========================================================================================
+// STEP-UP MODAL IMPLEMENTATION
+// ========================================================================================
+
+const StepUpModal: React.FC<StepUpModalProps> = ({ visible, reason, onSubmit, onCancel }) => {
+  const theme = useTheme();
+  const { colors } = theme;
+
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start clean every time the prompt opens
+  useEffect(() => {
+    if (visible) {
+      setPassword('');
+      setError(null);
+      setIsSubmitting(false);
+    }
+  }, [visible]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!password || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(password);
+    } catch (submitError: any) {
+      setError(submitError?.userMessage || submitError?.message || 'Incorrect password');
+      setPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [password, isSubmitting, onSubmit]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.backdrop}
+      >
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: colors.foundation.darker, borderColor: colors.interactive.border.subtle },
+          ]}
+        >
+          <Text variant="h3" align="center" style={[styles.title, { color: colors.interactive.text.primary }]}>
+            Confirm it's you
+          </Text>
+          <Text variant="body" align="center" style={[styles.subtitle, { color: colors.interactive.text.secondary }]}>
+            Enter your password to continue: {reason}
+          </Text>
+
+          <Input
+            label="Password"
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry
+            showPasswordToggle
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoComplete="password"
+            returnKeyType="done"
+            onSubmitEditing={handleSubmit}
+            accessibilityLabel="Password"
+            testID="step-up-password"
+          />
+
+          {error && (
+            <FieldError message={error} visible={!!error} style={styles.error} testID="step-up-error" />
+          )}
+
+          <Button
+            variant="primary"
+            size="large"
+            fullWidth
+            onPress={handleSubmit}
+            disabled={!password || isSubmitting}
+            style={styles.confirmButton}
+            accessibilityLabel="Confirm password"
+            testID="step-up-confirm"
+          >
+            {isSubmitting ? <Loader size="small" color={colors.interactive.surface} /> : 'Confirm'}
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="medium"
+            fullWidth
+            onPress={onCancel}
+            disabled={isSubmitting}
+            accessibilityLabel="Cancel"
+            testID="step-up-cancel"
+          >
+            Cancel
+          </Button>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+// ========================================================================================
+// STYLES
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+    alignSelf: 'center',
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 24,
+  },
+  title: {
+    marginBottom: 8,
+    fontWeight: '600',
+  },
+  subtitle: {
+    marginBottom: 24,
+    opacity: 0.8,
+  },
+  error: {
+    marginTop: 8,
+  },
+  confirmButton: {
+    marginTop: 24,
+    marginBottom: 8,
+  },
+});
+
+export default memo(StepUpModal);
@@ -2,12 +2,24 @@
 // IRANVERSE Enterprise Authentication Context
 // Complete authentication state management with enterprise security
 // Built for 90M users - JWT + Token Refresh + Secure Storage
-import React, { createContext, useContext, useReducer, useEffect, useCallback, ReactNode } from 'react';
-import { AuthState, AuthContextValue, LoginRequest, SignupRequest, AuthResponse, AuthError, AuthenticatedUser, TokenRefreshResponse } from '../types';
-import { authApi } from '../../../core/constants/api';
-import { authTokenStorage, secureStorage } from '../../../core/utils/storage';
-import { ENCRYPTION_CONFIG } from '../../../core/config/app.config';
-import { Platform } from 'react-native';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useRef, useState, ReactNode } from 'react';
+import { AuthState, AuthContextValue, LoginRequest, SignupRequest, AuthResponse, AuthError, AuthenticatedUser, AuthTokens, TokenRefreshResponse, SessionMetadata, MfaChallenge, MfaVerifyRequest, AuthEvent, LoginAttemptStatus, BiometricState, BiometricUnlockPreference, OAuthProviderId, OAuthLinkChallenge, MagicLinkDispatch, PhoneOtpRequest, PhoneOtpDispatch, PhoneOtpChallenge, AuthErrorType, PasswordResetConfirmRequest, StepUpCodeDispatch } from '../types';
+import { authApi, analyticsApi, getApiClient, isApiError } from '../../../core/constants/api';
+import { mfaChallengeSchema, oauthLinkChallengeSchema } from '../../../core/constants/apiSchemas';
+import { LoginApiRequest, LoginApiResponse, MfaVerifyApiResponse } from '../../../core/types/api';
+import { authTokenStorage, getTokenClaims, secureStorage, STORAGE_KEYS } from '../../../core/utils/storage';
+import { ENCRYPTION_CONFIG, FEATURE_FLAGS, OAUTH_CONFIG } from '../../../core/config/app.config';
+import { loginThrottle, LoginThrottleUpdate } from '../utils/loginThrottle';
+import { biometricVault } from '../../../core/services/biometricVault';
+import { sessionSupervisor } from '../utils/sessionSupervisor';
+import { authorizeWithProvider, OAuthFlowError } from '../utils/oauthFlow';
+import { tokenRefreshScheduler, SessionTokens } from '../../../core/services/tokenRefreshScheduler';
+import { authEvents, AuthMethod } from '../../../core/services/authEvents';
+import { authAuditLog } from '../utils/authAuditLog';
+import { normalizeDigits, parsePhoneNumber } from '../../../core/utils/phone';
+import StepUpModal from '../components/StepUpModal';
+import SessionLockModal from '../components/SessionLockModal';
+import { Platform, View, Alert, StyleSheet } from 'react-native';
 
 // ========================================================================================
 // AUTHENTICATION CONTEXT SETUP - ENTERPRISE STATE MANAGEMENT
@@ -24,12 +36,20 @@ const AuthContext = createContext<AuthContextValue | null>(null);
 type AuthAction =
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_REFRESHING'; payload: boolean }
-  | { type: 'SET_AUTHENTICATED'; payload: { user: AuthenticatedUser; tokens: any } }
+  | { type: 'SET_AUTHENTICATED'; payload: { user: AuthenticatedUser; tokens: any; session?: SessionMetadata } }
+  | { type: 'SET_TOKENS'; payload: AuthTokens }
+  | { type: 'SET_MFA_CHALLENGE'; payload: MfaChallenge | null }
+  | { type: 'SET_OAUTH_LINK'; payload: OAuthLinkChallenge | null }
+  | { type: 'SET_PHONE_OTP'; payload: PhoneOtpChallenge | null }
+  | { type: 'SET_BIOMETRIC'; payload: Partial<BiometricState> }
+  | { type: 'UPDATE_SESSION'; payload: Partial<SessionMetadata> }
   | { type: 'SET_USER'; payload: AuthenticatedUser }
   | { type: 'SET_ERROR'; payload: AuthError | null }
   | { type: 'CLEAR_AUTH' }
   | { type: 'UPDATE_LAST_ACTIVITY' }
-  | { type: 'SET_DEVICE_ID'; payload: string };
+  | { type: 'SET_DEVICE_ID'; payload: string }
+  | { type: 'SET_SESSION_LOCK'; payload: boolean }
+  | { type: 'SET_SESSION_EXPIRY'; payload: Date | null };
 
 /**
  * Initial authentication state
@@ -42,10 +62,26 @@ const initialAuthState: AuthState = {
   tokens: null,
   error: null,
   sessionMetadata: null,
+  mfaChallenge: null,
+  oauthLink: null,
+  phoneOtp: null,
+  biometric: {
+    biometryType: null,
+    isEnabled: false,
+    isLocked: false,
+    email: null,
+  },
   lastActivity: null,
   deviceId: null,
+  isSessionLocked: false,
+  sessionExpiresAt: null,
 };
 
+/**
+ * Why a session ended - metadata.reason on logout events
+ */
+type SignOutReason = 'user' | 'all_devices' | 'session_expired' | 'session_revoked';
+
 /**
  * Authentication state reducer
  */
@@ -72,10 +108,52 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isRefreshing: false,
         user: action.payload.user,
         tokens: action.payload.tokens,
+        sessionMetadata: action.payload.session ?? state.sessionMetadata,
+        mfaChallenge: null,
+        oauthLink: null,
+        phoneOtp: null,
         error: null,
         lastActivity: new Date(),
       };
 
+    case 'SET_TOKENS':
+      return {
+        ...state,
+        tokens: action.payload,
+      };
+
+    case 'SET_MFA_CHALLENGE':
+      return {
+        ...state,
+        isLoading: false,
+        mfaChallenge: action.payload,
+      };
+
+    case 'SET_OAUTH_LINK':
+      return {
+        ...state,
+        isLoading: false,
+        oauthLink: action.payload,
+      };
+
+    case 'SET_PHONE_OTP':
+      return {
+        ...state,
+        phoneOtp: action.payload,
+      };
+
+    case 'SET_BIOMETRIC':
+      return {
+        ...state,
+        biometric: { ...state.biometric, ...action.payload },
+      };
+
+    case 'UPDATE_SESSION':
+      return {
+        ...state,
+        sessionMetadata: state.sessionMetadata ? { ...state.sessionMetadata, ...action.payload } : null,
+      };
+
     case 'SET_USER':
       return {
         ...state,
@@ -95,6 +173,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
       return {
         ...initialAuthState,
         deviceId: state.deviceId, // Preserve device ID
+        biometric: { ...state.biometric, isLocked: false }, // Device-level opt-in survives sign out
       };
 
     case 'UPDATE_LAST_ACTIVITY':
@@ -109,6 +188,18 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         deviceId: action.payload,
       };
 
+    case 'SET_SESSION_LOCK':
+      return {
+        ...state,
+        isSessionLocked: action.payload,
+      };
+
+    case 'SET_SESSION_EXPIRY':
+      return {
+        ...state,
+        sessionExpiresAt: action.payload,
+      };
+
     default:
       return state;
   }
@@ -131,6 +222,70 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialAuthState);
 
+  // Password fallback for step-up, shown while a requireStepUp() call is waiting
+  const [stepUpReason, setStepUpReason] = useState<string | null>(null);
+  const stepUpResolver = useRef<{ resolve: () => void; reject: (error: AuthError) => void } | null>(null);
+
+  // Touches are recorded on every event but only reach state once a minute
+  const lastActivityDispatchRef = useRef(0);
+
+  // Events outlive renders - stamp them with the latest device and account
+  const eventContextRef = useRef({ deviceId: state.deviceId, userId: state.user?.id });
+  eventContextRef.current = { deviceId: state.deviceId, userId: state.user?.id };
+
+  // ========================================================================================
+  // AUTH EVENTS - PUBLISHING & BUILT-IN SUBSCRIBERS
+  // ========================================================================================
+
+  /**
+   * Publish on the auth event bus - userId defaults to the signed-in account
+   */
+  const emitAuthEvent = useCallback((event: AuthEvent, metadata?: Record<string, any>, userId?: string) => {
+    const { deviceId, userId: currentUserId } = eventContextRef.current;
+    authEvents.emit(event, {
+      userId: userId ?? currentUserId,
+      deviceId: deviceId || 'unknown',
+      metadata,
+    });
+  }, []);
+
+  /**
+   * Report a rejected sign-in attempt
+   */
+  const reportLoginFailure = useCallback((method: AuthMethod, error: AuthError) => {
+    emitAuthEvent('login_failure', { method, reason: error.type });
+  }, [emitAuthEvent]);
+
+  /**
+   * A remembered device that still gets challenged is no longer trusted
+   */
+  const forgetTrustedDevice = useCallback(async (method: AuthMethod) => {
+    await secureStorage.removeItem(STORAGE_KEYS.trustedDeviceToken);
+    emitAuthEvent('suspicious_activity', { reason: 'trusted_device_rejected', method });
+  }, [emitAuthEvent]);
+
+  /**
+   * The audit log and analytics hear every auth event while the provider is mounted
+   */
+  useEffect(() => {
+    const unsubscribeAuditLog = authEvents.subscribe(authAuditLog.record);
+    const unsubscribeAnalytics = authEvents.subscribe(event => {
+      analyticsApi.track({
+        eventType: event.event,
+        timestamp: event.timestamp.toISOString(),
+        userId: event.userId,
+        deviceId: event.deviceId,
+        properties: event.metadata,
+        context: { feature: 'auth' },
+      });
+    });
+
+    return () => {
+      unsubscribeAuditLog();
+      unsubscribeAnalytics();
+    };
+  }, []);
+
   // ========================================================================================
   // INITIALIZATION - RESTORE SESSION ON APP START
   // ========================================================================================
@@ -148,6 +303,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Generate or retrieve device ID
       const deviceId = await getOrCreateDeviceId();
       dispatch({ type: 'SET_DEVICE_ID', payload: deviceId });
+      tokenRefreshScheduler.setDeviceId(deviceId);
+
+      // Biometric unlock keeps a stored session closed until the user passes the prompt
+      const biometryType = await biometricVault.getBiometryType();
+      const preference = await secureStorage.getItem<BiometricUnlockPreference>(STORAGE_KEYS.biometricUnlock);
+      const biometricEmail = preference.success ? preference.data?.email ?? null : null;
+      const isEnabled = FEATURE_FLAGS.biometricAuth && !!biometricEmail && !!biometryType;
+      const isLocked = isEnabled && await biometricVault.hasToken();
+
+      dispatch({ type: 'SET_BIOMETRIC', payload: { biometryType, isEnabled, isLocked, email: biometricEmail } });
+      if (isLocked) {
+        return;
+      }
 
       // Attempt to restore session from stored tokens
       const accessToken = await authTokenStorage.getAccessToken();
@@ -156,14 +324,28 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       if (accessToken && refreshToken) {
         // Check if access token is still valid
         const isExpired = await authTokenStorage.isTokenExpired(accessToken);
-        
+
         if (!isExpired) {
-          // Token is valid, get user profile
-          await getCurrentUser();
-        } else {
-          // Token expired, try to refresh
-          await handleTokenRefresh();
+          getApiClient().setTokens(accessToken, refreshToken);
+        } else if (!await handleTokenRefresh()) {
+          // Token expired and could not be refreshed - stay signed out
+          return;
         }
+
+        // Signed in again - starts the supervisor, which brings back a saved lock
+        const user = await getCurrentUser();
+        const stored = await secureStorage.getItem<SessionMetadata>(STORAGE_KEYS.sessionMetadata);
+        dispatch({
+          type: 'SET_AUTHENTICATED',
+          payload: {
+            user,
+            tokens: toAuthTokens(tokenRefreshScheduler.getTokens() ?? { accessToken, refreshToken }),
+            // A restart is not a fresh verification - sensitive actions prompt again
+            session: stored.success && stored.data
+              ? { ...stored.data, requiresStepUp: true, lastVerifiedAt: undefined }
+              : undefined,
+          },
+        });
       }
     } catch (error) {
       console.error('Failed to initialize auth:', error);
@@ -178,14 +360,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
    */
   const getOrCreateDeviceId = async (): Promise<string> => {
     try {
-      const existingId = await secureStorage.getItem<string>('device_id');
+      const existingId = await secureStorage.getItem(STORAGE_KEYS.deviceId);
       if (existingId.success && existingId.data) {
         return existingId.data;
       }
 
       // Generate new device ID
       const newDeviceId = `device_${Platform.OS}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await secureStorage.setItem('device_id', newDeviceId);
+      await secureStorage.setItem(STORAGE_KEYS.deviceId, newDeviceId);
       return newDeviceId;
     } catch (error) {
       // Fallback device ID
@@ -202,80 +384,866 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // AUTHENTICATION METHODS - CORE AUTH OPERATIONS
   // ========================================================================================
 
+  /**
+   * Persist a completed login (password or password + second factor) and enter the app
+   */
+  const completeLogin = useCallback(async (
+    data: LoginApiResponse | MfaVerifyApiResponse,
+    message: string,
+    method: AuthMethod
+  ): Promise<AuthResponse> => {
+    // Store tokens securely
+    await authTokenStorage.storeTokens(data.tokens.accessToken, data.tokens.refreshToken);
+    getApiClient().setTokens(data.tokens.accessToken, data.tokens.refreshToken);
+
+    // Store user profile
+    await secureStorage.setItem(STORAGE_KEYS.userProfile, data.user);
+
+    // Remember this device so its next login skips the challenge
+    if ('trustedDevice' in data && data.trustedDevice) {
+      // Expires with the server's trust - an expired token would only be rejected
+      const ttl = Math.floor((Date.parse(data.trustedDevice.expiresAt) - Date.now()) / 1000);
+      if (ttl > 0) {
+        await secureStorage.setItem(STORAGE_KEYS.trustedDeviceToken, data.trustedDevice.token, { ttl });
+      }
+    }
+
+    // Re-arm biometric unlock for the account that opted in
+    const preference = await secureStorage.getItem<BiometricUnlockPreference>(STORAGE_KEYS.biometricUnlock);
+    if (preference.success && preference.data?.email === data.user.email) {
+      await biometricVault.store(data.tokens.refreshToken);
+    }
+    dispatch({ type: 'SET_BIOMETRIC', payload: { isLocked: false } });
+
+    const session: SessionMetadata = {
+      sessionId: data.session.sessionId,
+      deviceId: data.session.deviceId,
+      deviceInfo: getDeviceInfo(),
+      isTrustedDevice: !!data.session.isTrustedDevice || ('trustedDevice' in data && !!data.trustedDevice),
+      requiresStepUp: !!data.session.requiresStepUp,
+      lastVerifiedAt: new Date(),
+    };
+
+    await sessionSupervisor.beginSession();
+    dispatch({
+      type: 'SET_AUTHENTICATED',
+      payload: {
+        user: data.user,
+        tokens: data.tokens,
+        session,
+      },
+    });
+    emitAuthEvent('login_success', {
+      method,
+      sessionId: session.sessionId,
+      isNewUser: !!data.isNewUser,
+      trustedDevice: session.isTrustedDevice,
+    }, data.user.id);
+
+    return {
+      success: true,
+      message,
+      user: data.user,
+      tokens: data.tokens,
+      session,
+      isNewUser: data.isNewUser,
+      nextAction: data.nextAction,
+    };
+  }, [emitAuthEvent]);
+
+  /**
+   * Report the start of an account lock
+   */
+  const trackAccountLocked = useCallback((update: LoginThrottleUpdate, source: 'client' | 'server') => {
+    emitAuthEvent('account_locked', {
+      source,
+      lockedUntil: update.lockedUntil ? new Date(update.lockedUntil).toISOString() : null,
+      lockDuration: update.retryAfter,
+    });
+  }, [emitAuthEvent]);
+
   /**
    * User login with credentials
+   * Throws an MFA_REQUIRED AuthError (challenge in state.mfaChallenge) when a second factor is needed
    */
   const login = useCallback(async (credentials: LoginRequest): Promise<AuthResponse> => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       dispatch({ type: 'SET_ERROR', payload: null });
+      dispatch({ type: 'SET_MFA_CHALLENGE', payload: null });
+
+      // Refuse early while the account is locked or backing off
+      const throttle = await loginThrottle.getStatus(credentials.email);
+      if (throttle.retryAfter > 0) {
+        throw createThrottleError(throttle);
+      }
 
       // Add device information to login request
       const loginData = {
         ...credentials,
-        deviceInfo: {
-          platform: Platform.OS as 'ios' | 'android',
-          osVersion: Platform.Version.toString(),
-          appVersion: '1.0.0', // Should come from config
-          deviceId: state.deviceId || 'unknown',
-        },
+        trustedDeviceToken: await getTrustedDeviceToken(),
+        deviceInfo: getLoginDeviceInfo(state.deviceId),
       };
 
-      const response = await authApi.login(loginData);
+      let response;
+      try {
+        response = await authApi.login(loginData);
+      } catch (error) {
+        const serverLockedUntil = getServerLockedUntil(error);
+        if (serverLockedUntil) {
+          const update = await loginThrottle.applyServerLock(credentials.email, serverLockedUntil);
+          if (update.lockStarted) trackAccountLocked(update, 'server');
+          throw createThrottleError(update);
+        }
 
-      if (response.success && response.data) {
-        // Store tokens securely
-        await authTokenStorage.storeTokens(
-          response.data.tokens.accessToken,
-          response.data.tokens.refreshToken
-        );
+        const challenge = getMfaChallenge(error);
+        if (!challenge) {
+          // Only a rejected password counts - network and server failures do not
+          if (isApiError(error) && error.type === 'AUTHENTICATION_ERROR') {
+            const update = await loginThrottle.recordFailure(credentials.email);
+            if (update.lockStarted) {
+              trackAccountLocked(update, 'client');
+              throw createThrottleError(update);
+            }
+            throw createInvalidCredentialsError(getErrorMessage(error), update);
+          }
+          throw error;
+        }
 
-        // Store user profile
-        await secureStorage.setItem(
-          ENCRYPTION_CONFIG.storageKeys.userProfile,
-          response.data.user
-        );
+        // The password was right - the second factor is tracked separately
+        await loginThrottle.recordSuccess(credentials.email);
 
-        // Update state
-        dispatch({
-          type: 'SET_AUTHENTICATED',
-          payload: {
-            user: response.data.user,
-            tokens: response.data.tokens,
-          },
-        });
+        if (loginData.trustedDeviceToken) {
+          await forgetTrustedDevice('password');
+        }
 
-        return {
-          success: true,
-          message: 'Login successful',
-          user: response.data.user,
-          tokens: response.data.tokens,
-          session: {
-            sessionId: response.data.session.sessionId,
-            deviceId: response.data.session.deviceId,
-            deviceInfo: {
-              platform: Platform.OS as 'ios' | 'android',
-              osVersion: Platform.Version.toString(),
-              appVersion: '1.0.0',
-            },
-            isTrustedDevice: true,
-          },
-          isNewUser: response.data.isNewUser,
-          nextAction: response.data.nextAction,
-        };
+        dispatch({ type: 'SET_MFA_CHALLENGE', payload: challenge });
+        throw createMfaRequiredError(challenge);
+      }
+
+      if (response.success && response.data) {
+        await loginThrottle.recordSuccess(credentials.email);
+        return await completeLogin(response.data, 'Login successful', 'password');
       } else {
         const error = createAuthError('LOGIN_FAILED', response.error?.message || 'Login failed');
         dispatch({ type: 'SET_ERROR', payload: error });
         throw error;
       }
     } catch (error) {
-      const authError = createAuthError('LOGIN_ERROR', getErrorMessage(error));
+      if (isMfaRequiredError(error)) {
+        throw error;
+      }
+      const authError = isAuthError(error) ? error : createAuthError('LOGIN_ERROR', getErrorMessage(error));
+      reportLoginFailure('password', authError);
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.deviceId, completeLogin, trackAccountLocked, forgetTrustedDevice, reportLoginFailure]);
+
+  /**
+   * Lockout/backoff state for an account - lets the login form restore its countdown
+   */
+  const getLoginStatus = useCallback((email: string): Promise<LoginAttemptStatus> => {
+    return loginThrottle.getStatus(email);
+  }, []);
+
+  // ========================================================================================
+  // SOCIAL SIGN-IN - OAUTH (PKCE) & ACCOUNT LINKING
+  // ========================================================================================
+
+  /**
+   * Turn an MFA_REQUIRED or ACCOUNT_LINK_REQUIRED answer into pending state and its AuthError
+   */
+  const raiseSocialLoginChallenge = useCallback(async (error: unknown, trustedDeviceToken?: string): Promise<never> => {
+    const challenge = getMfaChallenge(error);
+    if (challenge) {
+      if (trustedDeviceToken) {
+        await forgetTrustedDevice('oauth');
+      }
+      dispatch({ type: 'SET_OAUTH_LINK', payload: null });
+      dispatch({ type: 'SET_MFA_CHALLENGE', payload: challenge });
+      throw createMfaRequiredError(challenge);
+    }
+
+    const link = getOAuthLinkChallenge(error);
+    if (link) {
+      dispatch({ type: 'SET_OAUTH_LINK', payload: link });
+      throw createLinkRequiredError(link);
+    }
+
+    throw error;
+  }, [forgetTrustedDevice]);
+
+  /**
+   * Sign in with Google or Apple - runs the consent page, then exchanges the code
+   * Throws MFA_REQUIRED like login(), ACCOUNT_LINK_REQUIRED (challenge in state.oauthLink) when the
+   * provider email belongs to a password account, and OAUTH_CANCELLED when the browser was closed
+   */
+  const loginWithOAuth = useCallback(async (provider: OAuthProviderId): Promise<AuthResponse> => {
+    const providerName = OAUTH_CONFIG.providers[provider].name;
+
+    try {
+      if (!FEATURE_FLAGS.oauthEnabled) {
+        throw createAuthError('OAUTH_FAILED', `${providerName} sign-in is not available yet`);
+      }
+
+      dispatch({ type: 'SET_ERROR', payload: null });
+      dispatch({ type: 'SET_MFA_CHALLENGE', payload: null });
+      dispatch({ type: 'SET_OAUTH_LINK', payload: null });
+
+      // The browser step runs without the loading overlay - the user is on the provider's page
+      const authorization = await authorizeWithProvider(provider);
+      dispatch({ type: 'SET_LOADING', payload: true });
+
+      const trustedDeviceToken = await getTrustedDeviceToken();
+      let response;
+      try {
+        response = await authApi.oauthExchange({
+          provider,
+          code: authorization.authorizationCode,
+          codeVerifier: authorization.codeVerifier,
+          redirectUri: authorization.redirectUri,
+          nonce: authorization.nonce,
+          deviceInfo: getLoginDeviceInfo(state.deviceId),
+          trustedDeviceToken,
+        });
+      } catch (error) {
+        return await raiseSocialLoginChallenge(error, trustedDeviceToken);
+      }
+
+      if (!response.success || !response.data) {
+        throw createAuthError('OAUTH_FAILED', response.error?.message || `${providerName} sign-in failed`);
+      }
+      return await completeLogin(response.data, `Signed in with ${providerName}`, 'oauth');
+    } catch (error) {
+      if (isMfaRequiredError(error) || isLinkRequiredError(error)) {
+        throw error;
+      }
+      if (error instanceof OAuthFlowError && error.code === 'CANCELLED') {
+        throw createAuthError('OAUTH_CANCELLED', error.message);
+      }
+      if (error instanceof OAuthFlowError && error.code === 'STATE_MISMATCH') {
+        emitAuthEvent('suspicious_activity', { reason: 'oauth_state_mismatch', provider });
+      }
+      const authError = isAuthError(error) ? error : createAuthError('OAUTH_FAILED', getErrorMessage(error));
+      reportLoginFailure('oauth', authError);
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.deviceId, completeLogin, raiseSocialLoginChallenge, emitAuthEvent, reportLoginFailure]);
+
+  /**
+   * Prove ownership of the existing account with its password, then link the provider and sign in
+   * Wrong passwords count towards the same lockout as the login form
+   */
+  const linkOAuthAccount = useCallback(async (password: string): Promise<AuthResponse> => {
+    const link = state.oauthLink;
+    if (!link) {
+      throw createAuthError('OAUTH_FAILED', 'No account link is pending. Please sign in again.');
+    }
+
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      dispatch({ type: 'SET_ERROR', payload: null });
+
+      const throttle = await loginThrottle.getStatus(link.email);
+      if (throttle.retryAfter > 0) {
+        throw createThrottleError(throttle);
+      }
+
+      const trustedDeviceToken = await getTrustedDeviceToken();
+      let response;
+      try {
+        response = await authApi.oauthLink({
+          linkToken: link.linkToken,
+          password,
+          deviceInfo: getLoginDeviceInfo(state.deviceId),
+          trustedDeviceToken,
+        });
+      } catch (error) {
+        const serverLockedUntil = getServerLockedUntil(error);
+        if (serverLockedUntil) {
+          const update = await loginThrottle.applyServerLock(link.email, serverLockedUntil);
+          if (update.lockStarted) trackAccountLocked(update, 'server');
+          throw createThrottleError(update);
+        }
+        if (isApiError(error) && error.type === 'AUTHENTICATION_ERROR' && !getMfaChallenge(error)) {
+          const update = await loginThrottle.recordFailure(link.email);
+          if (update.lockStarted) {
+            trackAccountLocked(update, 'client');
+            throw createThrottleError(update);
+          }
+          throw createInvalidCredentialsError(getErrorMessage(error), update);
+        }
+
+        // The password was right - the second factor is tracked separately
+        if (getMfaChallenge(error)) {
+          await loginThrottle.recordSuccess(link.email);
+        }
+        return await raiseSocialLoginChallenge(error, trustedDeviceToken);
+      }
+
+      if (!response.success || !response.data) {
+        throw createAuthError('OAUTH_FAILED', response.error?.message || 'Account linking failed');
+      }
+      await loginThrottle.recordSuccess(link.email);
+      return await completeLogin(
+        response.data,
+        `${OAUTH_CONFIG.providers[link.provider].name} linked to your account`,
+        'oauth'
+      );
+    } catch (error) {
+      if (isMfaRequiredError(error)) {
+        throw error;
+      }
+      const authError = isAuthError(error) ? error : createAuthError('OAUTH_FAILED', getErrorMessage(error));
+      reportLoginFailure('oauth', authError);
       dispatch({ type: 'SET_ERROR', payload: authError });
       throw authError;
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.deviceId]);
+  }, [state.oauthLink, state.deviceId, completeLogin, raiseSocialLoginChallenge, trackAccountLocked, reportLoginFailure]);
+
+  /**
+   * Abandon the pending link (the provider stays unlinked)
+   */
+  const cancelOAuthLink = useCallback(() => {
+    dispatch({ type: 'SET_OAUTH_LINK', payload: null });
+  }, []);
+
+  // ========================================================================================
+  // MAGIC LINK - PASSWORDLESS EMAIL SIGN-IN
+  // ========================================================================================
+
+  /**
+   * Email a single-use sign-in link that only works on this device
+   * Resolves for unknown emails too - the backend does not reveal which addresses have accounts
+   */
+  const requestMagicLink = useCallback(async (email: string): Promise<MagicLinkDispatch> => {
+    if (!FEATURE_FLAGS.magicLinkLogin) {
+      throw createAuthError('SERVICE_UNAVAILABLE', 'Email sign-in links are not available yet');
+    }
+
+    try {
+      dispatch({ type: 'SET_ERROR', payload: null });
+
+      const response = await authApi.requestMagicLink({
+        email: email.trim().toLowerCase(),
+        deviceId: state.deviceId || 'unknown',
+      });
+      if (!response.success || !response.data) {
+        throw createAuthError('SERVER_ERROR', response.error?.message || 'Could not send the sign-in link');
+      }
+      return response.data;
+    } catch (error) {
+      const authError = isAuthError(error)
+        ? error
+        : createAuthError(isApiError(error) && error.type === 'RATE_LIMITED' ? 'TOO_MANY_ATTEMPTS' : 'SERVER_ERROR', getErrorMessage(error));
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    }
+  }, [state.deviceId]);
+
+  /**
+   * Exchange the token from an opened sign-in link for a session
+   * Throws MFA_REQUIRED like login(); replayed links and links opened on another device are rejected
+   */
+  const loginWithMagicLink = useCallback(async (token: string): Promise<AuthResponse> => {
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      dispatch({ type: 'SET_ERROR', payload: null });
+      dispatch({ type: 'SET_MFA_CHALLENGE', payload: null });
+      dispatch({ type: 'SET_OAUTH_LINK', payload: null });
+
+      const trustedDeviceToken = await getTrustedDeviceToken();
+      let response;
+      try {
+        response = await authApi.verifyMagicLink({
+          token,
+          deviceInfo: getLoginDeviceInfo(state.deviceId),
+          trustedDeviceToken,
+        });
+      } catch (error) {
+        const challenge = getMfaChallenge(error);
+        if (!challenge) {
+          const type = getMagicLinkErrorType(error);
+          if (type === 'MAGIC_LINK_DEVICE_MISMATCH') {
+            emitAuthEvent('suspicious_activity', { reason: 'magic_link_device_mismatch' });
+          }
+          throw createAuthError(type, getErrorMessage(error));
+        }
+
+        if (trustedDeviceToken) {
+          await forgetTrustedDevice('magic_link');
+        }
+        dispatch({ type: 'SET_MFA_CHALLENGE', payload: challenge });
+        throw createMfaRequiredError(challenge);
+      }
+
+      if (!response.success || !response.data) {
+        throw createAuthError('MAGIC_LINK_INVALID', response.error?.message || 'Sign-in link could not be verified');
+      }
+      return await completeLogin(response.data, 'Signed in with email link', 'magic_link');
+    } catch (error) {
+      if (isMfaRequiredError(error)) {
+        throw error;
+      }
+      const authError = isAuthError(error) ? error : createAuthError('MAGIC_LINK_INVALID', getErrorMessage(error));
+      reportLoginFailure('magic_link', authError);
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.deviceId, completeLogin, emitAuthEvent, forgetTrustedDevice, reportLoginFailure]);
+
+  // ========================================================================================
+  // PHONE SIGN-IN - SMS ONE-TIME CODES
+  // ========================================================================================
+
+  /**
+   * Text a code to the number (challenge in state.phoneOtp)
+   * Login resolves for unknown numbers too; sign-up throws PHONE_ALREADY_REGISTERED
+   */
+  const requestPhoneOtp = useCallback(async (request: PhoneOtpRequest): Promise<PhoneOtpDispatch> => {
+    if (!FEATURE_FLAGS.phoneLogin) {
+      throw createAuthError('SERVICE_UNAVAILABLE', 'Phone sign-in is not available yet');
+    }
+
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      dispatch({ type: 'SET_ERROR', payload: null });
+      dispatch({ type: 'SET_PHONE_OTP', payload: null });
+
+      const parsed = parsePhoneNumber(request.phoneNumber);
+      if (!parsed.success) {
+        throw createAuthError('INVALID_PHONE_NUMBER', 'Enter a valid mobile number');
+      }
+
+      let response;
+      try {
+        response = await authApi.requestPhoneOtp({
+          ...request,
+          phoneNumber: parsed.data.e164,
+          deviceId: state.deviceId || 'unknown',
+        });
+      } catch (error) {
+        throw createAuthError(getPhoneOtpErrorType(error), getErrorMessage(error));
+      }
+      if (!response.success || !response.data) {
+        throw createAuthError('SERVER_ERROR', response.error?.message || 'Could not send the verification code');
+      }
+
+      dispatch({
+        type: 'SET_PHONE_OTP',
+        payload: { ...response.data, phoneNumber: parsed.data.e164, purpose: request.purpose },
+      });
+      return response.data;
+    } catch (error) {
+      const authError = isAuthError(error) ? error : createAuthError('SERVER_ERROR', getErrorMessage(error));
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.deviceId]);
+
+  /**
+   * Send the pending code again - the backend enforces the resend window
+   */
+  const resendPhoneOtp = useCallback(async (): Promise<PhoneOtpDispatch> => {
+    const pending = state.phoneOtp;
+    if (!pending) {
+      throw createAuthError('OTP_EXPIRED', 'Verification expired. Please enter your number again.');
+    }
+
+    try {
+      dispatch({ type: 'SET_ERROR', payload: null });
+
+      let response;
+      try {
+        response = await authApi.resendPhoneOtp({ otpId: pending.otpId });
+      } catch (error) {
+        throw createAuthError(getPhoneOtpErrorType(error), getErrorMessage(error));
+      }
+      if (!response.success || !response.data) {
+        throw createAuthError('SERVER_ERROR', response.error?.message || 'Could not send the verification code');
+      }
+
+      dispatch({ type: 'SET_PHONE_OTP', payload: { ...pending, ...response.data } });
+      return response.data;
+    } catch (error) {
+      const authError = isAuthError(error) ? error : createAuthError('SERVER_ERROR', getErrorMessage(error));
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    }
+  }, [state.phoneOtp]);
+
+  /**
+   * Answer the pending SMS code - signs in, or creates the account for sign-up
+   * Throws MFA_REQUIRED like login() when the account has a second factor
+   */
+  const verifyPhoneOtp = useCallback(async (code: string): Promise<AuthResponse> => {
+    const pending = state.phoneOtp;
+    if (!pending) {
+      throw createAuthError('OTP_EXPIRED', 'Verification expired. Please enter your number again.');
+    }
+
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      dispatch({ type: 'SET_ERROR', payload: null });
+      dispatch({ type: 'SET_MFA_CHALLENGE', payload: null });
+
+      const trustedDeviceToken = await getTrustedDeviceToken();
+      let response;
+      try {
+        response = await authApi.verifyPhoneOtp({
+          otpId: pending.otpId,
+          code: normalizeDigits(code).trim(),
+          deviceInfo: getLoginDeviceInfo(state.deviceId),
+          trustedDeviceToken,
+        });
+      } catch (error) {
+        const challenge = getMfaChallenge(error);
+        if (!challenge) {
+          const type = getPhoneOtpErrorType(error);
+          // An expired code cannot be retried - start over from the number
+          if (type === 'OTP_EXPIRED') {
+            dispatch({ type: 'SET_PHONE_OTP', payload: null });
+          }
+          throw createAuthError(type, getErrorMessage(error));
+        }
+
+        if (trustedDeviceToken) {
+          await forgetTrustedDevice('phone');
+        }
+        dispatch({ type: 'SET_PHONE_OTP', payload: null });
+        dispatch({ type: 'SET_MFA_CHALLENGE', payload: challenge });
+        throw createMfaRequiredError(challenge);
+      }
+
+      if (!response.success || !response.data) {
+        throw createAuthError('OTP_INVALID', response.error?.message || 'Verification code could not be checked');
+      }
+      return await completeLogin(
+        response.data,
+        pending.purpose === 'signup' ? 'Account created' : 'Signed in with phone number',
+        'phone'
+      );
+    } catch (error) {
+      if (isMfaRequiredError(error)) {
+        throw error;
+      }
+      const authError = isAuthError(error) ? error : createAuthError('OTP_INVALID', getErrorMessage(error));
+      reportLoginFailure('phone', authError);
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.phoneOtp, state.deviceId, completeLogin, forgetTrustedDevice, reportLoginFailure]);
+
+  /**
+   * Abandon the pending code (back to the number entry)
+   */
+  const cancelPhoneOtp = useCallback(() => {
+    dispatch({ type: 'SET_PHONE_OTP', payload: null });
+  }, []);
+
+  // ========================================================================================
+  // BIOMETRIC UNLOCK & STEP-UP - RE-VERIFICATION
+  // ========================================================================================
+
+  /**
+   * Record a successful re-verification on the session
+   */
+  const markStepUpVerified = useCallback((verifiedAt: Date) => {
+    dispatch({ type: 'UPDATE_SESSION', payload: { requiresStepUp: false, lastVerifiedAt: verifiedAt } });
+  }, []);
+
+  /**
+   * Make sure the user re-verified recently before a sensitive action
+   * Tries the biometric prompt first and falls back to the password prompt
+   */
+  const requireStepUp = useCallback(async (reason: string): Promise<void> => {
+    if (!needsStepUp(state.sessionMetadata)) {
+      return;
+    }
+
+    if (state.biometric.isEnabled) {
+      const result = await biometricVault.unlock(reason);
+      if (result.status === 'success') {
+        try {
+          const response = await authApi.stepUp({ method: 'biometric', refreshToken: result.refreshToken });
+          if (response.success && response.data) {
+            markStepUpVerified(new Date(response.data.verifiedAt));
+            return;
+          }
+        } catch (error) {
+          console.warn('Biometric step-up rejected, asking for the password:', error);
+        }
+      }
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      stepUpResolver.current?.reject(createAuthError('STEP_UP_CANCELLED', 'Verification was cancelled'));
+      stepUpResolver.current = { resolve, reject };
+      setStepUpReason(reason);
+    });
+  }, [state.sessionMetadata, state.biometric.isEnabled, markStepUpVerified]);
+
+  /**
+   * Password submitted from the step-up prompt - throws to keep the prompt open
+   */
+  const submitStepUpPassword = useCallback(async (password: string): Promise<void> => {
+    const response = await authApi.stepUp({ method: 'password', password });
+    if (!response.success || !response.data) {
+      throw createAuthError('INVALID_PASSWORD', response.error?.message || 'Incorrect password');
+    }
+
+    markStepUpVerified(new Date(response.data.verifiedAt));
+    setStepUpReason(null);
+    stepUpResolver.current?.resolve();
+    stepUpResolver.current = null;
+  }, [markStepUpVerified]);
+
+  const cancelStepUp = useCallback(() => {
+    setStepUpReason(null);
+    stepUpResolver.current?.reject(createAuthError('STEP_UP_CANCELLED', 'Verification was cancelled'));
+    stepUpResolver.current = null;
+  }, []);
+
+  /**
+   * Opt in to biometric unlock with the current session's refresh token
+   */
+  const enableBiometricUnlock = useCallback(async (): Promise<boolean> => {
+    if (!FEATURE_FLAGS.biometricAuth || !state.user) {
+      return false;
+    }
+
+    const biometryType = await biometricVault.getBiometryType();
+    const refreshToken = await authTokenStorage.getRefreshToken();
+    if (!biometryType || !refreshToken) {
+      return false;
+    }
+
+    await requireStepUp('Turn on biometric unlock');
+    if (!(await biometricVault.store(refreshToken))) {
+      return false;
+    }
+
+    const preference: BiometricUnlockPreference = { email: state.user.email };
+    await secureStorage.setItem(STORAGE_KEYS.biometricUnlock, preference);
+    dispatch({ type: 'SET_BIOMETRIC', payload: { biometryType, isEnabled: true, isLocked: false, email: preference.email } });
+    return true;
+  }, [state.user, requireStepUp]);
+
+  /**
+   * Opt out and forget the gated token
+   */
+  const disableBiometricUnlock = useCallback(async (): Promise<void> => {
+    await biometricVault.clear();
+    await secureStorage.removeItem(STORAGE_KEYS.biometricUnlock);
+    dispatch({ type: 'SET_BIOMETRIC', payload: { isEnabled: false, isLocked: false, email: null } });
+  }, []);
+
+  /**
+   * Re-enter a stored session after the biometric prompt releases its refresh token
+   * The token itself is the proof - the server never sees a biometric-signed challenge, and the same
+   * token also sits un-gated in authTokenStorage, so this is a convenience lock rather than a second factor
+   */
+  const unlockWithBiometrics = useCallback(async (): Promise<AuthResponse> => {
+    const result = await biometricVault.unlock('Unlock IRANVERSE');
+    if (result.status === 'cancelled') {
+      throw createAuthError('STEP_UP_CANCELLED', 'Biometric unlock was cancelled');
+    }
+    if (result.status !== 'success') {
+      dispatch({ type: 'SET_BIOMETRIC', payload: { isLocked: false } });
+      throw createAuthError('BIOMETRIC_UNAVAILABLE', 'Biometric unlock is unavailable. Please sign in with your password.');
+    }
+
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+
+      // Nothing is replaced until the server accepts the vault's token - the token listener persists the rotated pair
+      const { data } = await tokenRefreshScheduler.refreshFrom(result.refreshToken);
+      const { tokens } = data;
+
+      const cachedUser = await secureStorage.getItem<AuthenticatedUser>(STORAGE_KEYS.userProfile);
+      let user = cachedUser.success ? cachedUser.data : null;
+      if (!user) {
+        const me = await authApi.getMe();
+        if (!me.success || !me.data) {
+          throw new Error('Could not load the user profile');
+        }
+        user = me.data.user;
+      }
+      user = { ...user, ...data.user };
+      await secureStorage.setItem(STORAGE_KEYS.userProfile, user);
+
+      // Unlocking the app is not consent for sensitive actions - those prompt again
+      const session: SessionMetadata = {
+        sessionId: data.session.sessionId,
+        deviceId: state.deviceId || 'unknown',
+        deviceInfo: getDeviceInfo(),
+        isTrustedDevice: true,
+        requiresStepUp: true,
+      };
+
+      dispatch({ type: 'SET_AUTHENTICATED', payload: { user, tokens, session } });
+      dispatch({ type: 'SET_BIOMETRIC', payload: { isLocked: false } });
+      emitAuthEvent('login_success', { method: 'biometric', sessionId: session.sessionId }, user.id);
+
+      return {
+        success: true,
+        message: 'Unlocked',
+        user,
+        tokens,
+        session,
+        isNewUser: false,
+        nextAction: 'home',
+      };
+    } catch (error) {
+      // The gated token was revoked or expired - only the password can get back in
+      getApiClient().clearTokens();
+      await biometricVault.clear();
+      dispatch({ type: 'SET_BIOMETRIC', payload: { isLocked: false } });
+
+      const authError = createAuthError('TOKEN_REVOKED', 'Your session has ended. Please sign in with your password.');
+      reportLoginFailure('biometric', authError);
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.deviceId, emitAuthEvent, reportLoginFailure]);
+
+  // ========================================================================================
+  // TWO-FACTOR AUTHENTICATION - CHALLENGE & ENROLLMENT
+  // ========================================================================================
+
+  /**
+   * Answer the pending MFA challenge with a TOTP, SMS or recovery code
+   */
+  const verifyTwoFactor = useCallback(async (request: MfaVerifyRequest): Promise<AuthResponse> => {
+    const challenge = state.mfaChallenge;
+    if (!challenge) {
+      throw createAuthError('MFA_INVALID', 'No two-factor challenge is pending. Please sign in again.');
+    }
+
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      dispatch({ type: 'SET_ERROR', payload: null });
+
+      const response = await authApi.verifyMfa({
+        challengeId: challenge.challengeId,
+        method: request.method,
+        code: request.code.replace(/\s+/g, ''),
+        rememberDevice: !!request.rememberDevice,
+        deviceId: state.deviceId || 'unknown',
+      });
+
+      if (!response.success || !response.data) {
+        throw createAuthError('MFA_INVALID', response.error?.message || 'Verification failed');
+      }
+
+      return await completeLogin(response.data, 'Two-factor verification successful', 'two_factor');
+    } catch (error) {
+      const authError = createAuthError('MFA_INVALID', getErrorMessage(error));
+      reportLoginFailure('two_factor', authError);
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.mfaChallenge, state.deviceId, completeLogin, reportLoginFailure]);
+
+  /**
+   * Text a one-time code for the pending challenge
+   */
+  const sendTwoFactorSms = useCallback(async () => {
+    if (!state.mfaChallenge) {
+      throw createAuthError('MFA_INVALID', 'No two-factor challenge is pending. Please sign in again.');
+    }
+
+    const response = await authApi.sendMfaSms({ challengeId: state.mfaChallenge.challengeId });
+    if (!response.success || !response.data) {
+      throw createAuthError('MFA_INVALID', response.error?.message || 'Could not send the SMS code');
+    }
+    return response.data;
+  }, [state.mfaChallenge]);
+
+  /**
+   * Abandon the pending challenge (back to the login form)
+   */
+  const cancelTwoFactor = useCallback(() => {
+    dispatch({ type: 'SET_MFA_CHALLENGE', payload: null });
+  }, []);
+
+  /**
+   * Start TOTP enrollment - returns the secret and QR code to show once
+   */
+  const enableTwoFactor = useCallback(async () => {
+    if (!FEATURE_FLAGS.twoFactorAuth) {
+      throw createAuthError('SERVICE_UNAVAILABLE', 'Two-factor authentication is not available yet');
+    }
+
+    const response = await authApi.setupTotp();
+    if (!response.success || !response.data) {
+      throw createAuthError('SERVER_ERROR', response.error?.message || 'Could not start two-factor setup');
+    }
+    return response.data;
+  }, []);
+
+  /**
+   * Finish TOTP enrollment with the first code from the authenticator app
+   */
+  const confirmTwoFactor = useCallback(async (code: string): Promise<string[]> => {
+    const response = await authApi.confirmTotp({ code: code.replace(/\s+/g, '') });
+    if (!response.success || !response.data) {
+      throw createAuthError('MFA_INVALID', response.error?.message || 'Invalid verification code');
+    }
+
+    if (state.user) {
+      const updatedUser: AuthenticatedUser = { ...state.user, is2FAEnabled: true };
+      dispatch({ type: 'SET_USER', payload: updatedUser });
+      await secureStorage.setItem(STORAGE_KEYS.userProfile, updatedUser);
+    }
+    return response.data.recoveryCodes;
+  }, [state.user]);
+
+  /**
+   * Turn 2FA off - remembered devices are forgotten too
+   */
+  const disableTwoFactor = useCallback(async (code: string): Promise<void> => {
+    const response = await authApi.disableMfa({ code: code.replace(/\s+/g, '') });
+    if (!response.success) {
+      throw createAuthError('MFA_INVALID', response.error?.message || 'Invalid verification code');
+    }
+
+    await secureStorage.removeItem(STORAGE_KEYS.trustedDeviceToken);
+    if (state.user) {
+      const updatedUser: AuthenticatedUser = { ...state.user, is2FAEnabled: false };
+      dispatch({ type: 'SET_USER', payload: updatedUser });
+      await secureStorage.setItem(STORAGE_KEYS.userProfile, updatedUser);
+    }
+  }, [state.user]);
+
+  /**
+   * Replace all recovery codes - the old ones stop working
+   */
+  const regenerateRecoveryCodes = useCallback(async (code: string): Promise<string[]> => {
+    const response = await authApi.regenerateRecoveryCodes({ code: code.replace(/\s+/g, '') });
+    if (!response.success || !response.data) {
+      throw createAuthError('MFA_INVALID', response.error?.message || 'Invalid verification code');
+    }
+    return response.data.recoveryCodes;
+  }, []);
 
   /**
    * User signup with registration data
@@ -308,14 +1276,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           response.data.tokens.accessToken,
           response.data.tokens.refreshToken
         );
+        getApiClient().setTokens(response.data.tokens.accessToken, response.data.tokens.refreshToken);
+
+        // Only the account that opted in keeps its vault token
+        const preference = await secureStorage.getItem<BiometricUnlockPreference>(STORAGE_KEYS.biometricUnlock);
+        if (preference.success && preference.data?.email === response.data.user.email) {
+          await biometricVault.update(response.data.tokens.refreshToken);
+        }
 
         // Store user profile
         await secureStorage.setItem(
-          ENCRYPTION_CONFIG.storageKeys.userProfile,
+          STORAGE_KEYS.userProfile,
           response.data.user
         );
 
         // Update state
+        await sessionSupervisor.beginSession();
         dispatch({
           type: 'SET_AUTHENTICATED',
           payload: {
@@ -323,6 +1299,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             tokens: response.data.tokens,
           },
         });
+        emitAuthEvent('login_success', {
+          method: 'password',
+          sessionId: response.data.session.sessionId,
+          isNewUser: true,
+        }, response.data.user.id);
 
         return {
           success: true,
@@ -355,12 +1336,35 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.deviceId]);
+  }, [state.deviceId, emitAuthEvent]);
 
   /**
-   * User logout with optional device management
+   * Forget the session on this device - tokens, vault, cached profile and queued work
+   */
+  const clearLocalSession = useCallback(async (): Promise<void> => {
+    await authTokenStorage.clearTokens();
+    getApiClient().clearTokens();
+    await biometricVault.clear(); // revoked with the session - the opt-in re-arms on next login
+    await sessionSupervisor.endSession();
+    await secureStorage.removeItem(STORAGE_KEYS.sessionMetadata);
+    await secureStorage.removeItem(STORAGE_KEYS.userProfile);
+    await secureStorage.removeItem(STORAGE_KEYS.avatarMetadata);
+    await getApiClient().clearCache();
+    await getApiClient().getOfflineQueue()?.clear();
+  }, []);
+
+  /**
+   * Sign out with optional device management - the reason is reported on the logout event
    */
-  const logout = useCallback(async (options: { allDevices?: boolean } = {}): Promise<void> => {
+  const signOut = useCallback(async (options: { allDevices?: boolean }, reason: SignOutReason): Promise<void> => {
+    // Signing every device out is sensitive - rejects with STEP_UP_CANCELLED before anything happens
+    if (options.allDevices && state.isAuthenticated) {
+      await requireStepUp('Sign out of all devices');
+    }
+
+    const wasAuthenticated = state.isAuthenticated;
+    const userId = state.user?.id;
+
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
 
@@ -378,9 +1382,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
 
       // Clear stored tokens and user data
-      await authTokenStorage.clearTokens();
-      await secureStorage.removeItem(ENCRYPTION_CONFIG.storageKeys.userProfile);
-      await secureStorage.removeItem(ENCRYPTION_CONFIG.storageKeys.avatarMetadata);
+      await clearLocalSession();
 
       // Clear auth state
       dispatch({ type: 'CLEAR_AUTH' });
@@ -390,67 +1392,52 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       dispatch({ type: 'CLEAR_AUTH' });
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
+      if (wasAuthenticated) {
+        emitAuthEvent('logout', { reason }, userId);
+      }
     }
-  }, [state.isAuthenticated]);
+  }, [state.isAuthenticated, state.user?.id, requireStepUp, clearLocalSession, emitAuthEvent]);
+
+  /**
+   * User logout with optional device management
+   */
+  const logout = useCallback((options: { allDevices?: boolean } = {}): Promise<void> => {
+    return signOut(options, options.allDevices ? 'all_devices' : 'user');
+  }, [signOut]);
 
   /**
    * Refresh authentication tokens
+   * Joins any refresh already running; the token listener persists the rotated pair
    */
   const refreshToken = useCallback(async (): Promise<TokenRefreshResponse> => {
-    if (state.isRefreshing) {
-      throw new Error('Token refresh already in progress');
-    }
-
     try {
       dispatch({ type: 'SET_REFRESHING', payload: true });
 
-      const currentRefreshToken = await authTokenStorage.getRefreshToken();
-      if (!currentRefreshToken) {
-        throw new Error('No refresh token available');
+      // Restored sessions hand the stored pair to the scheduler first
+      if (!tokenRefreshScheduler.getTokens()) {
+        const currentAccessToken = await authTokenStorage.getAccessToken();
+        const currentRefreshToken = await authTokenStorage.getRefreshToken();
+        if (!currentRefreshToken) {
+          throw new Error('No refresh token available');
+        }
+        getApiClient().setTokens(currentAccessToken || '', currentRefreshToken);
       }
 
-      const response = await authApi.refresh({ 
-        refreshToken: currentRefreshToken,
-        deviceId: state.deviceId || 'unknown'
-      });
-
-      if (response.success && response.data) {
-        // Store new tokens
-        await authTokenStorage.storeTokens(
-          response.data.tokens.accessToken,
-          response.data.tokens.refreshToken
-        );
-
-        // Update user data if provided
-        if (response.data.user) {
-          const updatedUser: AuthenticatedUser = {
-            ...state.user!,
-            ...response.data.user
-          };
-          dispatch({ type: 'SET_USER', payload: updatedUser });
-          await secureStorage.setItem(
-            ENCRYPTION_CONFIG.storageKeys.userProfile,
-            updatedUser
-          );
-        }
+      const data = await getApiClient().refreshTokens();
 
-        return {
-          success: true,
-          tokens: response.data.tokens,
-          user: response.data.user
-        };
-      } else {
-        throw new Error('Token refresh failed');
-      }
+      return {
+        success: true,
+        tokens: data.tokens,
+        user: data.user
+      };
     } catch (error) {
+      // A rejected refresh token has already signed the session out via the token listener
       console.error('Token refresh error:', error);
-      // Clear auth state on refresh failure
-      await logout();
       throw error;
     } finally {
       dispatch({ type: 'SET_REFRESHING', payload: false });
     }
-  }, [state.isRefreshing, logout]);
+  }, []);
 
   /**
    * Handle automatic token refresh
@@ -467,24 +1454,119 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   }, [refreshToken]);
 
   /**
-   * Get current user profile from cache
+   * Get current user profile from cache, or from the server when the cache is gone
+   * (first run after an update, or reset by the startup integrity scan)
    */
   const getCurrentUser = useCallback(async (): Promise<AuthenticatedUser> => {
     try {
       // Get cached user data from secure storage
-      const cachedUser = await secureStorage.getItem<AuthenticatedUser>(ENCRYPTION_CONFIG.storageKeys.userProfile);
+      const cachedUser = await secureStorage.getItem<AuthenticatedUser>(STORAGE_KEYS.userProfile);
       if (cachedUser.success && cachedUser.data) {
         dispatch({ type: 'SET_USER', payload: cachedUser.data });
         return cachedUser.data;
       }
-      
-      throw new Error('No cached user data available');
+
+      const me = await authApi.getMe();
+      if (!me.success || !me.data) {
+        throw new Error(me.error?.message || 'Could not load the user profile');
+      }
+
+      await secureStorage.setItem(STORAGE_KEYS.userProfile, me.data.user);
+      dispatch({ type: 'SET_USER', payload: me.data.user });
+      return me.data.user;
     } catch (error) {
       console.error('Get user profile error:', error);
       throw error;
     }
   }, []);
 
+  // ========================================================================================
+  // PASSWORD RESET & EMAIL VERIFICATION
+  // ========================================================================================
+
+  /**
+   * Email a password reset link
+   * Resolves for unknown emails too - the backend does not reveal which addresses have accounts
+   */
+  const requestPasswordReset = useCallback(async (email: string): Promise<void> => {
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      dispatch({ type: 'SET_ERROR', payload: null });
+
+      const response = await authApi.requestPasswordReset({ email: email.trim().toLowerCase() });
+      if (!response.success) {
+        throw createAuthError('SERVER_ERROR', response.error?.message || 'Could not send the reset email');
+      }
+      emitAuthEvent('password_reset', { stage: 'requested' });
+    } catch (error) {
+      const authError = isAuthError(error)
+        ? error
+        : createAuthError(isApiError(error) && error.type === 'RATE_LIMITED' ? 'TOO_MANY_ATTEMPTS' : 'SERVER_ERROR', getErrorMessage(error));
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [emitAuthEvent]);
+
+  /**
+   * Set a new password with the token from the reset email - the backend signs out every device
+   */
+  const confirmPasswordReset = useCallback(async (request: PasswordResetConfirmRequest): Promise<void> => {
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      dispatch({ type: 'SET_ERROR', payload: null });
+
+      if (request.newPassword !== request.confirmPassword) {
+        throw createAuthError('VALIDATION_ERROR', 'Passwords do not match');
+      }
+
+      const response = await authApi.confirmPasswordReset({
+        token: request.token,
+        newPassword: request.newPassword,
+        deviceId: state.deviceId || 'unknown',
+      });
+      if (!response.success) {
+        throw createAuthError('TOKEN_INVALID', response.error?.message || 'Reset link is invalid or expired');
+      }
+      emitAuthEvent('password_reset', { stage: 'completed' });
+    } catch (error) {
+      const authError = isAuthError(error) ? error : createAuthError('TOKEN_INVALID', getErrorMessage(error));
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.deviceId, emitAuthEvent]);
+
+  /**
+   * Confirm the email address with the token from the verification email
+   */
+  const verifyEmail = useCallback(async (token: string): Promise<void> => {
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+      dispatch({ type: 'SET_ERROR', payload: null });
+
+      const response = await authApi.verifyEmail({ token, email: state.user?.email });
+      if (!response.success) {
+        throw createAuthError('TOKEN_INVALID', response.error?.message || 'Verification link is invalid or expired');
+      }
+
+      if (state.user) {
+        const updatedUser = { ...state.user, isEmailVerified: true };
+        dispatch({ type: 'SET_USER', payload: updatedUser });
+        await secureStorage.setItem(STORAGE_KEYS.userProfile, updatedUser);
+      }
+      emitAuthEvent('email_verified', { source: 'app' });
+    } catch (error) {
+      const authError = isAuthError(error) ? error : createAuthError('TOKEN_INVALID', getErrorMessage(error));
+      dispatch({ type: 'SET_ERROR', payload: authError });
+      throw authError;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  }, [state.user, emitAuthEvent]);
+
   // ========================================================================================
   // UTILITY METHODS - HELPER FUNCTIONS
   // ========================================================================================
@@ -518,49 +1600,202 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   }, [handleTokenRefresh]);
 
   /**
-   * Update last activity timestamp
+   * Record user interaction - restarts the idle clock
    */
   const updateActivity = useCallback(() => {
-    dispatch({ type: 'UPDATE_LAST_ACTIVITY' });
+    sessionSupervisor.recordActivity();
+
+    const now = Date.now();
+    if (now - lastActivityDispatchRef.current >= 60 * 1000) {
+      lastActivityDispatchRef.current = now;
+      dispatch({ type: 'UPDATE_LAST_ACTIVITY' });
+    }
   }, []);
 
   // ========================================================================================
-  // SESSION MANAGEMENT - ACTIVITY TRACKING
+  // TOKEN REFRESH - SHARED SCHEDULER
   // ========================================================================================
 
+  // Token events outlive renders - merge refreshed profile fields into the latest user
+  const userRef = useRef(state.user);
+  userRef.current = state.user;
+
   /**
-   * Set up session timeout monitoring
+   * Persist every rotation (proactive, 401-driven or manual) and end the session when
+   * the server rejects the refresh token
    */
   useEffect(() => {
-    if (!state.isAuthenticated) return;
+    return tokenRefreshScheduler.subscribe(event => {
+      if (event.type === 'refreshed') {
+        const { data } = event;
+        dispatch({ type: 'SET_TOKENS', payload: data.tokens });
+        emitAuthEvent('token_refresh', { sessionId: data.session.sessionId });
+
+        const updatedUser = data.user && userRef.current
+          ? { ...userRef.current, ...data.user }
+          : null;
+        if (updatedUser) {
+          dispatch({ type: 'SET_USER', payload: updatedUser });
+        }
 
-    const sessionTimeout = ENCRYPTION_CONFIG.sessionTimeout * 1000; // Convert to milliseconds
-    let timeoutId: NodeJS.Timeout;
+        (async () => {
+          await authTokenStorage.storeTokens(event.tokens.accessToken, event.tokens.refreshToken);
+          await biometricVault.update(event.tokens.refreshToken);
+          if (updatedUser) {
+            await secureStorage.setItem(STORAGE_KEYS.userProfile, updatedUser);
+          }
+        })().catch(error => {
+          console.warn('Failed to persist refreshed tokens:', error);
+        });
+      } else if (event.type === 'refresh_failed' && event.sessionEnded) {
+        // No logout request - the server already considers this session gone
+        const userId = userRef.current?.id;
+        clearLocalSession()
+          .catch(error => console.warn('Failed to clear revoked session:', error))
+          .finally(() => {
+            dispatch({ type: 'CLEAR_AUTH' });
+            dispatch({ type: 'SET_ERROR', payload: createAuthError('TOKEN_REVOKED', 'Your session has ended. Please sign in again.') });
+            emitAuthEvent('logout', { reason: 'session_revoked' }, userId);
+          });
+      }
+    });
+  }, [clearLocalSession, emitAuthEvent]);
 
-    const resetSessionTimeout = () => {
-      clearTimeout(timeoutId);
-      timeoutId = setTimeout(() => {
-        console.log('Session timeout - logging out user');
-        logout();
-      }, sessionTimeout);
-    };
+  /**
+   * Keep the session metadata for the next launch's restore
+   */
+  useEffect(() => {
+    if (!state.isAuthenticated || !state.sessionMetadata) return;
+    secureStorage.setItem(STORAGE_KEYS.sessionMetadata, state.sessionMetadata).catch(error => {
+      console.warn('Failed to save session metadata:', error);
+    });
+  }, [state.isAuthenticated, state.sessionMetadata]);
 
-    // Initial timeout setup
-    resetSessionTimeout();
+  // ========================================================================================
+  // SESSION SUPERVISION - IDLE LOCK & HARD EXPIRY
+  // ========================================================================================
 
-    // Reset timeout on activity
-    const handleActivity = () => {
-      updateActivity();
-      resetSessionTimeout();
-    };
+  // Supervisor callbacks outlive renders - always call the latest sign-out
+  const signOutRef = useRef(signOut);
+  signOutRef.current = signOut;
+
+  /**
+   * Supervise the session while signed in: lock when idle, warn, then sign out at expiry
+   */
+  useEffect(() => {
+    if (!state.isAuthenticated) return;
 
-    // Note: In a real app, you'd add event listeners for user activity
-    // For now, we'll rely on manual activity updates
+    let isActive = true;
+    sessionSupervisor.start({
+      onLock: () => dispatch({ type: 'SET_SESSION_LOCK', payload: true }),
+      onExpiryWarning: (expiresAt) => {
+        const minutes = Math.max(1, Math.round((expiresAt.getTime() - Date.now()) / 60000));
+        Alert.alert(
+          'Session ending soon',
+          `For your security you will be signed out in ${minutes} min. Save your work and sign in again to continue.`,
+          [
+            { text: 'Sign Out Now', style: 'destructive', onPress: () => signOutRef.current({}, 'user') },
+            { text: 'OK', style: 'cancel' },
+          ]
+        );
+      },
+      onExpired: async () => {
+        await signOutRef.current({}, 'session_expired');
+        dispatch({ type: 'SET_ERROR', payload: createAuthError('SESSION_EXPIRED', 'Your session has expired. Please sign in again.') });
+      },
+    }).then(expiresAt => {
+      if (isActive) {
+        dispatch({ type: 'SET_SESSION_EXPIRY', payload: expiresAt });
+      }
+    }).catch(error => {
+      console.warn('Session supervisor failed to start:', error);
+    });
 
     return () => {
-      clearTimeout(timeoutId);
+      isActive = false;
+      sessionSupervisor.stop();
     };
-  }, [state.isAuthenticated, logout, updateActivity]);
+  }, [state.isAuthenticated]);
+
+  /**
+   * Cover the app now (e.g. a "lock" button in settings)
+   */
+  const lockSession = useCallback(() => {
+    sessionSupervisor.lock();
+  }, []);
+
+  const completeSessionUnlock = useCallback((verifiedAt: string) => {
+    markStepUpVerified(new Date(verifiedAt));
+    sessionSupervisor.unlock();
+    dispatch({ type: 'SET_SESSION_LOCK', payload: false });
+  }, [markStepUpVerified]);
+
+  /**
+   * Password entered on the lock screen - throws to keep the lock up
+   */
+  const unlockSessionWithPassword = useCallback(async (password: string): Promise<void> => {
+    const response = await authApi.stepUp({ method: 'password', password });
+    if (!response.success || !response.data) {
+      throw createAuthError('INVALID_PASSWORD', response.error?.message || 'Incorrect password');
+    }
+    completeSessionUnlock(response.data.verifiedAt);
+  }, [completeSessionUnlock]);
+
+  /**
+   * Send a lock screen code - accounts without a password (phone, social) unlock with it
+   */
+  const requestSessionUnlockCode = useCallback(async (): Promise<StepUpCodeDispatch> => {
+    try {
+      const response = await authApi.requestStepUpCode();
+      if (!response.success || !response.data) {
+        throw createAuthError('SERVER_ERROR', response.error?.message || 'Could not send a code');
+      }
+      return response.data;
+    } catch (error) {
+      throw isAuthError(error) ? error : createAuthError(getPhoneOtpErrorType(error), getErrorMessage(error));
+    }
+  }, []);
+
+  /**
+   * Code entered on the lock screen - throws to keep the lock up
+   */
+  const unlockSessionWithCode = useCallback(async (code: string): Promise<void> => {
+    try {
+      const response = await authApi.stepUp({ method: 'code', code: normalizeDigits(code).trim() });
+      if (!response.success || !response.data) {
+        throw createAuthError('OTP_INVALID', response.error?.message || 'Invalid verification code');
+      }
+      completeSessionUnlock(response.data.verifiedAt);
+    } catch (error) {
+      throw isAuthError(error) ? error : createAuthError(getPhoneOtpErrorType(error), getErrorMessage(error));
+    }
+  }, [completeSessionUnlock]);
+
+  /**
+   * Biometric prompt on the lock screen - the released refresh token proves the re-check
+   */
+  const unlockSessionWithBiometrics = useCallback(async (): Promise<void> => {
+    const result = await biometricVault.unlock('Unlock IRANVERSE');
+    if (result.status === 'cancelled') {
+      throw createAuthError('STEP_UP_CANCELLED', 'Biometric unlock was cancelled');
+    }
+    if (result.status !== 'success') {
+      throw createAuthError('BIOMETRIC_UNAVAILABLE', 'Biometric unlock is unavailable. Please enter your password.');
+    }
+
+    const response = await authApi.stepUp({ method: 'biometric', refreshToken: result.refreshToken });
+    if (!response.success || !response.data) {
+      throw createAuthError('BIOMETRIC_UNAVAILABLE', 'Biometric unlock failed. Please enter your password.');
+    }
+    completeSessionUnlock(response.data.verifiedAt);
+  }, [completeSessionUnlock]);
+
+  const handleTouchCapture = useCallback(() => {
+    if (state.isAuthenticated) {
+      updateActivity();
+    }
+    return false; // observe only - never steal the touch
+  }, [state.isAuthenticated, updateActivity]);
 
   // ========================================================================================
   // CONTEXT VALUE - COMPLETE AUTH INTERFACE
@@ -574,11 +1809,38 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     login,
     signup,
     logout,
+    getLoginStatus,
+    
+    // Social Sign-In
+    loginWithOAuth,
+    linkOAuthAccount,
+    cancelOAuthLink,
+    
+    // Magic Link
+    requestMagicLink,
+    loginWithMagicLink,
+    
+    // Phone Sign-In
+    requestPhoneOtp,
+    verifyPhoneOtp,
+    resendPhoneOtp,
+    cancelPhoneOtp,
+    
+    // Biometric Unlock & Step-Up
+    enableBiometricUnlock,
+    disableBiometricUnlock,
+    unlockWithBiometrics,
+    requireStepUp,
+    
+    // Session Supervision
+    lockSession,
+    updateActivity,
     
     // Token Management
     refreshToken,
     clearTokens: async () => {
       await authTokenStorage.clearTokens();
+      await sessionSupervisor.endSession();
       dispatch({ type: 'CLEAR_AUTH' });
     },
     
@@ -609,40 +1871,30 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       dispatch({ type: 'SET_USER', payload: updatedUser });
       
       await secureStorage.setItem(
-        ENCRYPTION_CONFIG.storageKeys.userProfile,
+        STORAGE_KEYS.userProfile,
         updatedUser
       );
       
       return updatedUser;
     },
     
-    // Email/Password (placeholder implementations)
-    requestPasswordReset: async (email: string) => {
-      // Placeholder - would call password reset API
-      console.log('Password reset requested for:', email);
-    },
-    confirmPasswordReset: async (request) => {
-      // Placeholder - would call password reset confirmation API
-      console.log('Password reset confirmation:', request);
-    },
-    verifyEmail: async (token: string) => {
-      // Placeholder - would call email verification API
-      console.log('Email verification:', token);
-    },
+    // Email/Password
+    requestPasswordReset,
+    confirmPasswordReset,
+    verifyEmail,
     resendEmailVerification: async () => {
       // Placeholder - would call resend verification API
       console.log('Resend email verification');
     },
     
-    // Security (placeholder implementations)
-    enableTwoFactor: async () => {
-      // Placeholder - would enable 2FA
-      console.log('Enable 2FA');
-    },
-    disableTwoFactor: async (code: string) => {
-      // Placeholder - would disable 2FA
-      console.log('Disable 2FA:', code);
-    },
+    // Two-Factor Authentication
+    verifyTwoFactor,
+    sendTwoFactorSms,
+    cancelTwoFactor,
+    enableTwoFactor,
+    confirmTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
     
     // Utility
     checkAuthStatus,
@@ -651,7 +1903,26 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   return (
     <AuthContext.Provider value={contextValue}>
-      {children}
+      <View style={styles.activityCapture} onStartShouldSetResponderCapture={handleTouchCapture}>
+        {children}
+      </View>
+      <SessionLockModal
+        visible={state.isAuthenticated && state.isSessionLocked}
+        email={state.user?.email}
+        biometryType={state.biometric.isEnabled ? state.biometric.biometryType : null}
+        unlockMethod={state.user?.hasPassword === false ? 'code' : 'password'}
+        onUnlockWithPassword={unlockSessionWithPassword}
+        onRequestCode={requestSessionUnlockCode}
+        onUnlockWithCode={unlockSessionWithCode}
+        onUnlockWithBiometrics={unlockSessionWithBiometrics}
+        onSignOut={() => logout()}
+      />
+      <StepUpModal
+        visible={stepUpReason !== null}
+        reason={stepUpReason ?? ''}
+        onSubmit={submitStepUpPassword}
+        onCancel={cancelStepUp}
+      />
     </AuthContext.Provider>
   );
 };
@@ -674,6 +1945,188 @@ const createAuthError = (type: string, message: string): AuthError => {
   };
 };
 
+/**
+ * Device details attached to session metadata
+ */
+const getDeviceInfo = (): SessionMetadata['deviceInfo'] => ({
+  platform: Platform.OS as 'ios' | 'android',
+  osVersion: Platform.Version.toString(),
+  appVersion: '1.0.0',
+});
+
+/**
+ * Token state for a pair read back from storage - expiry comes from the access token
+ */
+const toAuthTokens = ({ accessToken, refreshToken }: SessionTokens): AuthTokens => {
+  const exp = getTokenClaims(accessToken)?.exp;
+  const expiresAt = exp ? new Date(exp * 1000) : new Date();
+  return {
+    accessToken,
+    refreshToken,
+    tokenType: 'Bearer',
+    expiresIn: Math.max(0, Math.round((expiresAt.getTime() - Date.now()) / 1000)),
+    expiresAt,
+  };
+};
+
+/**
+ * Device details sent with every sign-in request
+ */
+const getLoginDeviceInfo = (deviceId: string | null): LoginApiRequest['deviceInfo'] => ({
+  platform: Platform.OS as 'ios' | 'android',
+  osVersion: Platform.Version.toString(),
+  appVersion: '1.0.0', // Should come from config
+  deviceId: deviceId || 'unknown',
+});
+
+/**
+ * Token from an earlier "trust this device" - lets sign-in skip the second factor
+ */
+const getTrustedDeviceToken = async (): Promise<string | undefined> => {
+  const stored = await secureStorage.getItem<string>(STORAGE_KEYS.trustedDeviceToken);
+  return stored.success ? stored.data ?? undefined : undefined;
+};
+
+/**
+ * Whether sensitive actions need a fresh password or biometric check
+ */
+const needsStepUp = (session: SessionMetadata | null): boolean => {
+  if (!session || session.requiresStepUp || !session.lastVerifiedAt) return true;
+  return Date.now() - session.lastVerifiedAt.getTime() > ENCRYPTION_CONFIG.stepUpWindow * 1000;
+};
+
+/**
+ * Read the MFA challenge from a 401 MFA_REQUIRED login response, if that is what failed
+ */
+const getMfaChallenge = (error: unknown): MfaChallenge | null => {
+  const body = isApiError(error) ? error.details?.responseBody : undefined;
+  if (body?.code !== 'MFA_REQUIRED') return null;
+
+  const parsed = mfaChallengeSchema.safeParse(body.data);
+  return parsed.success ? parsed.data : null;
+};
+
+/**
+ * Error thrown by login() when the second factor is still missing
+ */
+const createMfaRequiredError = (challenge: MfaChallenge): AuthError => ({
+  ...createAuthError('MFA_REQUIRED', 'Enter the verification code to finish signing in'),
+  details: { challenge },
+  retryable: true,
+  suggestedAction: 'verify_two_factor',
+});
+
+const isMfaRequiredError = (error: any): error is AuthError => error?.type === 'MFA_REQUIRED';
+
+/**
+ * Read the link challenge from a 409 ACCOUNT_LINK_REQUIRED OAuth response, if that is what failed
+ */
+const getOAuthLinkChallenge = (error: any): OAuthLinkChallenge | null => {
+  const body = error?.details?.responseBody;
+  if (body?.code !== 'ACCOUNT_LINK_REQUIRED') return null;
+
+  const parsed = oauthLinkChallengeSchema.safeParse(body.data);
+  return parsed.success ? parsed.data : null;
+};
+
+/**
+ * Error thrown by loginWithOAuth() when the provider email needs the account password first
+ */
+const createLinkRequiredError = (link: OAuthLinkChallenge): AuthError => ({
+  ...createAuthError(
+    'ACCOUNT_LINK_REQUIRED',
+    `${link.email} already has an IRANVERSE account. Enter its password to link ${OAUTH_CONFIG.providers[link.provider].name}.`
+  ),
+  details: { link },
+  retryable: true,
+});
+
+const isLinkRequiredError = (error: any): error is AuthError => error?.type === 'ACCOUNT_LINK_REQUIRED';
+
+/**
+ * Auth error type for a rejected sign-in link - network failures keep their own type
+ */
+const getMagicLinkErrorType = (error: any): AuthErrorType => {
+  switch (error?.details?.responseBody?.code) {
+    case 'MAGIC_LINK_USED':
+      return 'MAGIC_LINK_USED';
+    case 'MAGIC_LINK_DEVICE_MISMATCH':
+      return 'MAGIC_LINK_DEVICE_MISMATCH';
+    default:
+      return error?.type === 'NETWORK_ERROR' || error?.type === 'TIMEOUT_ERROR' ? 'NETWORK_ERROR' : 'MAGIC_LINK_INVALID';
+  }
+};
+
+/**
+ * Auth error type for a failed phone code request or check - network failures keep their own type
+ */
+const getPhoneOtpErrorType = (error: any): AuthErrorType => {
+  switch (error?.details?.responseBody?.code) {
+    case 'INVALID_PHONE_NUMBER':
+      return 'INVALID_PHONE_NUMBER';
+    case 'PHONE_EXISTS':
+      return 'PHONE_ALREADY_REGISTERED';
+    case 'OTP_INVALID':
+      return 'OTP_INVALID';
+    case 'OTP_EXPIRED':
+      return 'OTP_EXPIRED';
+    default:
+      if (error?.type === 'RATE_LIMITED') return 'TOO_MANY_ATTEMPTS';
+      return error?.type === 'NETWORK_ERROR' || error?.type === 'TIMEOUT_ERROR' ? 'NETWORK_ERROR' : 'SERVER_ERROR';
+  }
+};
+
+const isAuthError = (error: any): error is AuthError =>
+  typeof error?.type === 'string' && typeof error?.userMessage === 'string' && error?.timestamp instanceof Date;
+
+/**
+ * Lock end (epoch ms) from a server ACCOUNT_LOCKED response, if that is what failed
+ * Falls back to Retry-After, then to the configured lockout duration
+ */
+const getServerLockedUntil = (error: any): number | null => {
+  const body = error?.details?.responseBody;
+  if (body?.code !== 'ACCOUNT_LOCKED') return null;
+
+  const lockedUntil = typeof body.data?.lockedUntil === 'string' ? Date.parse(body.data.lockedUntil) : NaN;
+  if (!isNaN(lockedUntil)) return lockedUntil;
+
+  const seconds = typeof error.retryAfter === 'number' ? error.retryAfter : ENCRYPTION_CONFIG.lockoutDuration;
+  return Date.now() + seconds * 1000;
+};
+
+/**
+ * Error thrown by login() while the account is locked or backing off
+ */
+const createThrottleError = (status: LoginAttemptStatus): AuthError => {
+  if (status.isLocked) {
+    const minutes = Math.ceil(status.retryAfter / 60);
+    return {
+      ...createAuthError('ACCOUNT_LOCKED', `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`),
+      details: { lockedUntil: status.lockedUntil, source: status.lockSource },
+      retryable: true,
+      retryAfter: status.retryAfter,
+      suggestedAction: 'reset_password',
+    };
+  }
+
+  return {
+    ...createAuthError('TOO_MANY_ATTEMPTS', `Please wait ${status.retryAfter} seconds before trying again.`),
+    details: { attemptsRemaining: status.attemptsRemaining },
+    retryable: true,
+    retryAfter: status.retryAfter,
+  };
+};
+
+/**
+ * Error thrown by login() for a rejected password, with the attempts left before lockout
+ */
+const createInvalidCredentialsError = (message: string, status: LoginAttemptStatus): AuthError => ({
+  ...createAuthError('INVALID_CREDENTIALS', message),
+  details: { attemptsRemaining: status.attemptsRemaining },
+  retryable: true,
+  retryAfter: status.retryAfter || undefined,
+});
+
 /**
  * Extract error message from various error types
  */
@@ -684,6 +2137,12 @@ const getErrorMessage = (error: any): string => {
   return 'An unknown error occurred';
 };
 
+const styles = StyleSheet.create({
+  activityCapture: {
+    flex: 1,
+  },
+});
+
 // ========================================================================================
 // CUSTOM HOOK - EASY CONTEXT ACCESS
 // ========================================================================================
@@ -0,0 +1,125 @@
+// src/features/auth/contexts/__tests__/AuthContext.test.tsx
+// IRANVERSE Auth Context Tests
+// Restoring a stored session on launch - signed in, supervised and still locked if it was
+// Built for 90M users - A force-quit app comes back exactly as it was left
+import React from 'react';
+import { act, create, ReactTestRenderer } from 'react-test-renderer';
+import { AuthContextValue } from '../../types';
+import { AuthProvider, useAuthContext } from '../AuthContext';
+
+const mockStore = new Map<string, unknown>();
+
+jest.mock('../../../../core/utils/storage', () => ({
+  ...jest.requireActual('../../../../core/utils/storage'),
+  secureStorage: {
+    initialize: jest.fn(async () => undefined),
+    getItem: jest.fn(async ({ key }: { key: string }) => ({ success: true, data: mockStore.get(key) ?? null })),
+    setItem: jest.fn(async ({ key }: { key: string }, value: unknown) => {
+      mockStore.set(key, JSON.parse(JSON.stringify(value)));
+      return { success: true };
+    }),
+    removeItem: jest.fn(async ({ key }: { key: string }) => {
+      mockStore.delete(key);
+      return { success: true };
+    }),
+  },
+  authTokenStorage: {
+    getAccessToken: jest.fn(async () => mockStore.get('access') ?? null),
+    getRefreshToken: jest.fn(async () => mockStore.get('refresh') ?? null),
+    isTokenExpired: jest.fn(async () => false),
+    storeTokens: jest.fn(async () => undefined),
+    clearTokens: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../../../../core/constants/api', () => {
+  const mockClient = { setTokens: jest.fn(), clearTokens: jest.fn() };
+  return {
+    ...jest.requireActual('../../../../core/constants/api'),
+    getApiClient: () => mockClient,
+    analyticsApi: { track: jest.fn() },
+  };
+});
+
+jest.mock('../../../../core/services/biometricVault', () => ({
+  biometricVault: { getBiometryType: jest.fn(async () => null), hasToken: jest.fn(async () => false) },
+}));
+
+jest.mock('../../components/StepUpModal', () => () => null);
+jest.mock('../../components/SessionLockModal', () => () => null);
+
+const NOW = new Date('2025-01-01T12:00:00.000Z').getTime();
+const ACCESS_TOKEN = `header.${btoa(JSON.stringify({ exp: NOW / 1000 + 3600 }))}.signature`;
+const USER = { id: 'user-1', email: 'sara@example.com' };
+
+/**
+ * Mount the provider and let the restore, the supervisor start and their storage reads settle
+ */
+const mountProvider = async () => {
+  let context!: AuthContextValue;
+  const Probe = () => {
+    context = useAuthContext();
+    return null;
+  };
+
+  let renderer!: ReactTestRenderer;
+  await act(async () => {
+    renderer = create(<AuthProvider><Probe /></AuthProvider>);
+  });
+  for (let i = 0; i < 10; i++) {
+    await act(async () => {
+      await new Promise(resolve => setImmediate(resolve));
+    });
+  }
+  return { getContext: () => context, renderer };
+};
+
+describe('AuthProvider session restore', () => {
+  beforeEach(() => {
+    mockStore.clear();
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    jest.setSystemTime(NOW);
+    mockStore.set('access', ACCESS_TOKEN);
+    mockStore.set('refresh', 'refresh-1');
+    mockStore.set('@iranverse:user:profile_encrypted', USER);
+    mockStore.set('@iranverse:auth:session_started_at', NOW - 60 * 1000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('signs back in from stored tokens and starts the session supervisor', async () => {
+    const { getContext, renderer } = await mountProvider();
+
+    expect(getContext()).toMatchObject({ isAuthenticated: true, isLoading: false, user: USER, isSessionLocked: false });
+    expect(getContext().tokens).toMatchObject({ accessToken: ACCESS_TOKEN, refreshToken: 'refresh-1', expiresIn: 3600 });
+    expect(getContext().sessionExpiresAt).toBeInstanceOf(Date);
+    act(() => renderer.unmount());
+  });
+
+  it('brings back a lock saved before the app was closed', async () => {
+    mockStore.set('@iranverse:auth:session_lock', { lockedReason: 'idle', lastActivityAt: NOW - 30 * 1000, backgroundedAt: null });
+
+    const { getContext, renderer } = await mountProvider();
+
+    expect(getContext()).toMatchObject({ isAuthenticated: true, isSessionLocked: true });
+    act(() => renderer.unmount());
+  });
+
+  it('restores the saved session metadata but asks for a fresh check before sensitive actions', async () => {
+    mockStore.set('@iranverse:auth:session_metadata', {
+      sessionId: 'session-1',
+      deviceId: 'device-1',
+      deviceInfo: { platform: 'ios', osVersion: '18.0', appVersion: '1.0.0' },
+      isTrustedDevice: true,
+      requiresStepUp: false,
+      lastVerifiedAt: new Date(NOW - 60 * 1000).toISOString(),
+    });
+
+    const { getContext, renderer } = await mountProvider();
+
+    expect(getContext().sessionMetadata).toMatchObject({ sessionId: 'session-1', requiresStepUp: true, lastVerifiedAt: undefined });
+    act(() => renderer.unmount());
+  });
+});
@@ -4,8 +4,9 @@
 // Built for 90M users - Complete Auth Interface + Error Handling
 import { useCallback, useMemo } from 'react';
 import { useAuthContext } from '../contexts/AuthContext';
-import { LoginRequest, SignupRequest, AuthenticatedUser, AuthResponse, LogoutRequest } from '../types';
+import { LoginRequest, SignupRequest, AuthenticatedUser, AuthResponse, LogoutRequest, MfaChallenge, MfaVerifyRequest, MfaSmsDispatch, TotpEnrollment, LoginAttemptStatus, BiometricState, OAuthProviderId, OAuthLinkChallenge, MagicLinkDispatch, PhoneOtpRequest, PhoneOtpDispatch, PhoneOtpChallenge } from '../types';
 import { isTokenExpired } from '../../../core/utils/storage';
+import { tokenRefreshScheduler } from '../../../core/services/tokenRefreshScheduler';
 
 // ========================================================================================
 // ENHANCED AUTHENTICATION HOOK - ENTERPRISE INTERFACE
@@ -21,6 +22,11 @@ export interface UseAuthReturn {
   isRefreshing: boolean;
   user: AuthenticatedUser | null;
   error: any;
+  mfaChallenge: MfaChallenge | null;
+  oauthLink: OAuthLinkChallenge | null;
+  phoneOtp: PhoneOtpChallenge | null;
+  biometric: BiometricState;
+  deviceId: string | null; // this install's ID, sent with every login and refresh
   
   // Computed Properties
   isTokenExpired: boolean;
@@ -33,6 +39,28 @@ export interface UseAuthReturn {
   login: (credentials: LoginRequest) => Promise<AuthResponse>;
   signup: (data: SignupRequest) => Promise<AuthResponse>;
   logout: (options?: { allDevices?: boolean; deviceId?: string }) => Promise<void>;
+  getLoginStatus: (email: string) => Promise<LoginAttemptStatus>;
+  
+  // Social Sign-In
+  loginWithOAuth: (provider: OAuthProviderId) => Promise<AuthResponse>;
+  linkOAuthAccount: (password: string) => Promise<AuthResponse>;
+  cancelOAuthLink: () => void;
+  
+  // Magic Link
+  requestMagicLink: (email: string) => Promise<MagicLinkDispatch>;
+  loginWithMagicLink: (token: string) => Promise<AuthResponse>;
+  
+  // Phone Sign-In
+  requestPhoneOtp: (request: PhoneOtpRequest) => Promise<PhoneOtpDispatch>;
+  verifyPhoneOtp: (code: string) => Promise<AuthResponse>;
+  resendPhoneOtp: () => Promise<PhoneOtpDispatch>;
+  cancelPhoneOtp: () => void;
+  
+  // Biometric Unlock & Step-Up
+  enableBiometricUnlock: () => Promise<boolean>;
+  disableBiometricUnlock: () => Promise<void>;
+  unlockWithBiometrics: () => Promise<AuthResponse>;
+  requireStepUp: (reason: string) => Promise<void>;
   
   // Token Management
   refreshToken: () => Promise<any>;
@@ -50,9 +78,16 @@ export interface UseAuthReturn {
   verifyEmail: (token: string) => Promise<void>;
   resendEmailVerification: () => Promise<void>;
   
+  // Two-Factor Challenge
+  verifyTwoFactor: (request: MfaVerifyRequest) => Promise<AuthResponse>;
+  sendTwoFactorSms: () => Promise<MfaSmsDispatch>;
+  cancelTwoFactor: () => void;
+  
   // Security Features
-  enableTwoFactor: () => Promise<void>;
+  enableTwoFactor: () => Promise<TotpEnrollment>;
+  confirmTwoFactor: (code: string) => Promise<string[]>;
   disableTwoFactor: (code: string) => Promise<void>;
+  regenerateRecoveryCodes: (code: string) => Promise<string[]>;
   
   // Utility Methods
   checkAuthStatus: () => Promise<boolean>;
@@ -62,6 +97,7 @@ export interface UseAuthReturn {
   
   // Session Management
   updateActivity: () => void;
+  lockSession: () => void;
   getSessionInfo: () => any;
 }
 
@@ -167,7 +203,10 @@ export const useAuth = (): UseAuthReturn => {
       
       return response;
     } catch (error) {
-      console.error('Enhanced login failed:', error);
+      // A second-factor challenge is a normal step, not a failure
+      if ((error as any)?.type !== 'MFA_REQUIRED') {
+        console.error('Enhanced login failed:', error);
+      }
       throw error;
     }
   }, [authContext]);
@@ -206,7 +245,10 @@ export const useAuth = (): UseAuthReturn => {
       };
       
       await authContext.logout(logoutRequest);
-    } catch (error) {
+    } catch (error: any) {
+      // Declining the step-up for "all devices" keeps this device signed in
+      if (error?.type === 'STEP_UP_CANCELLED') throw error;
+      
       console.error('Enhanced logout failed:', error);
       // Force local logout even if API fails
       await authContext.clearTokens();
@@ -253,12 +295,13 @@ export const useAuth = (): UseAuthReturn => {
         return null;
       }
       
-      return authContext.tokens?.accessToken || null;
+      // Read from the scheduler - this render's tokens predate the refresh
+      return tokenRefreshScheduler.getTokens()?.accessToken || null;
     } catch (error) {
       console.error('Failed to get valid token:', error);
       return null;
     }
-  }, [authContext.tokens?.accessToken, refreshIfNeeded]);
+  }, [refreshIfNeeded]);
   
   // ========================================================================================
   // PROFILE MANAGEMENT METHODS
@@ -317,14 +360,6 @@ export const useAuth = (): UseAuthReturn => {
     return true;
   }, [authContext.user?.isEmailVerified, requireAuth]);
   
-  /**
-   * Update user activity timestamp
-   */
-  const updateActivity = useCallback(() => {
-    // This would typically call a method on the auth context
-    // For now, we'll use the existing activity tracking
-    console.log('User activity updated');
-  }, []);
   
   /**
    * Get session information
@@ -338,11 +373,17 @@ export const useAuth = (): UseAuthReturn => {
       lastActivity: authContext.lastActivity,
       tokenExpiresIn: timeUntilExpiry,
       sessionValid: hasValidSession,
+      isTrustedDevice: authContext.sessionMetadata?.isTrustedDevice ?? false,
+      requiresStepUp: authContext.sessionMetadata?.requiresStepUp ?? true,
+      lastVerifiedAt: authContext.sessionMetadata?.lastVerifiedAt ?? null,
+      isLocked: authContext.isSessionLocked,
+      expiresAt: authContext.sessionExpiresAt,
     };
   }, [
     authContext.isAuthenticated,
     authContext.user,
     authContext.lastActivity,
+    authContext.sessionMetadata,
     timeUntilExpiry,
     hasValidSession,
   ]);
@@ -358,6 +399,11 @@ export const useAuth = (): UseAuthReturn => {
     isRefreshing: authContext.isRefreshing,
     user: authContext.user,
     error: authContext.error,
+    mfaChallenge: authContext.mfaChallenge,
+    oauthLink: authContext.oauthLink,
+    phoneOtp: authContext.phoneOtp,
+    biometric: authContext.biometric,
+    deviceId: authContext.deviceId,
     
     // Computed Properties
     isTokenExpired: isTokenExpiredComputed,
@@ -370,6 +416,28 @@ export const useAuth = (): UseAuthReturn => {
     login,
     signup,
     logout,
+    getLoginStatus: authContext.getLoginStatus,
+    
+    // Social Sign-In
+    loginWithOAuth: authContext.loginWithOAuth,
+    linkOAuthAccount: authContext.linkOAuthAccount,
+    cancelOAuthLink: authContext.cancelOAuthLink,
+    
+    // Magic Link
+    requestMagicLink: authContext.requestMagicLink,
+    loginWithMagicLink: authContext.loginWithMagicLink,
+    
+    // Phone Sign-In
+    requestPhoneOtp: authContext.requestPhoneOtp,
+    verifyPhoneOtp: authContext.verifyPhoneOtp,
+    resendPhoneOtp: authContext.resendPhoneOtp,
+    cancelPhoneOtp: authContext.cancelPhoneOtp,
+    
+    // Biometric Unlock & Step-Up
+    enableBiometricUnlock: authContext.enableBiometricUnlock,
+    disableBiometricUnlock: authContext.disableBiometricUnlock,
+    unlockWithBiometrics: authContext.unlockWithBiometrics,
+    requireStepUp: authContext.requireStepUp,
     
     // Token Management
     refreshToken: authContext.refreshToken,
@@ -387,9 +455,16 @@ export const useAuth = (): UseAuthReturn => {
     verifyEmail: authContext.verifyEmail,
     resendEmailVerification: authContext.resendEmailVerification,
     
+    // Two-Factor Challenge
+    verifyTwoFactor: authContext.verifyTwoFactor,
+    sendTwoFactorSms: authContext.sendTwoFactorSms,
+    cancelTwoFactor: authContext.cancelTwoFactor,
+    
     // Security Features
     enableTwoFactor: authContext.enableTwoFactor,
+    confirmTwoFactor: authContext.confirmTwoFactor,
     disableTwoFactor: authContext.disableTwoFactor,
+    regenerateRecoveryCodes: authContext.regenerateRecoveryCodes,
     
     // Utility Methods
     checkAuthStatus: authContext.checkAuthStatus,
@@ -398,7 +473,8 @@ export const useAuth = (): UseAuthReturn => {
     clearError: authContext.clearError,
     
     // Session Management
-    updateActivity,
+    updateActivity: authContext.updateActivity,
+    lockSession: authContext.lockSession,
     getSessionInfo,
   };
 };
@@ -6,6 +6,8 @@ export { default as AuthHeader } from './components/AuthHeader';
 export * from './components/AuthHeader';
 export { default as OAuthButton } from './components/OAuthButton';
 export * from './components/OAuthButton';
+export { default as StepUpModal } from './components/StepUpModal';
+export { default as SessionLockModal } from './components/SessionLockModal';
 
 // Screens
 export { default as AuthWelcomeScreen } from './screens/AuthWelcomeScreen';
@@ -15,6 +17,10 @@ export { default as ForgotPasswordScreen } from './screens/ForgotPasswordScreen'
 export { default as LoginScreen } from './screens/LoginScreen';
 export { default as SignUpScreen } from './screens/SignUpScreen';
 export { default as VerificationErrorScreen } from './screens/VerificationErrorScreen';
+export { default as TwoFactorChallengeScreen } from './screens/TwoFactorChallengeScreen';
+export { default as TwoFactorSetupScreen } from './screens/TwoFactorSetupScreen';
+export { default as SecuritySettingsScreen } from './screens/SecuritySettingsScreen';
+export { default as ActiveSessionsScreen } from './screens/ActiveSessionsScreen';
 
 // Hooks
 export { default as useAuth } from './hooks/useAuth';
@@ -23,4 +29,4 @@ export { default as useAuth } from './hooks/useAuth';
 export { default as AuthContext, AuthProvider, useAuthContext } from './contexts/AuthContext';
 
 // Types
-export type { AuthenticatedUser, AuthState, AuthError } from './types';
\ No newline at end of file
+export type { AuthenticatedUser, AuthState, AuthError, MfaChallenge, MfaMethod, TotpEnrollment, BiometricState, BiometryKind, OAuthProviderId, OAuthLinkChallenge, MagicLinkDispatch, PhoneOtpRequest, PhoneOtpDispatch, PhoneOtpChallenge } from './types';
\ No newline at end of file
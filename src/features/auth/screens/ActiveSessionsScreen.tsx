@@ -0,0 +1,421 @@
+// src/features/auth/screens/ActiveSessionsScreen.tsx
+// IRANVERSE Active Sessions - Signed-in devices under account settings
+// Last activity and location per device, single-device sign-out, trusted devices
+// Built for 90M users - Spot and cut off a device you don't recognise
+import React, { useCallback, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  Platform,
+  BackHandler,
+  ScrollView,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../../../App';
+
+// Enterprise Component Library
+import SafeArea from '../../../shared/components/layout/SafeArea';
+import GradientBackground from '../../../shared/components/layout/GradientBackground';
+import Text from '../../../shared/components/ui/Text';
+import Button from '../../../shared/components/ui/Button';
+import FieldError from '../../../shared/components/forms/FieldError';
+import Loader from '../../../shared/components/ui/Loader';
+import { useTheme } from '../../../shared/theme/ThemeProvider';
+
+// Auth Components
+import AuthHeader from '../components/AuthHeader';
+
+import { useAuth } from '../hooks/useAuth';
+import { useSessions } from '../../../core/hooks/useSessions';
+import { SessionApiInfo } from '../../../core/types/api';
+
+// ========================================================================================
+// TYPES & HELPERS - ACTIVE SESSIONS
+// ========================================================================================
+
+type ActiveSessionsScreenProps = NativeStackScreenProps<RootStackParamList, 'ActiveSessions'>;
+
+const PLATFORM_NAMES: Record<string, string> = {
+  ios: 'iPhone / iPad',
+  android: 'Android',
+  web: 'Web browser',
+};
+
+/**
+ * "Android 14 · IRANVERSE 1.2.0"
+ */
+const describeDevice = ({ deviceInfo }: SessionApiInfo): string => {
+  const name = deviceInfo.deviceModel || PLATFORM_NAMES[deviceInfo.platform] || deviceInfo.platform;
+  const parts = [deviceInfo.osVersion ? `${name} ${deviceInfo.osVersion}` : name];
+  if (deviceInfo.appVersion) {
+    parts.push(`IRANVERSE ${deviceInfo.appVersion}`);
+  }
+  return parts.join(' · ');
+};
+
+const describeLocation = ({ location }: SessionApiInfo): string => {
+  if (!location) return 'Unknown location';
+  return [location.city, location.region, location.country].filter(Boolean).join(', ') || 'Unknown location';
+};
+
+const describeActivity = (session: SessionApiInfo): string => {
+  if (session.isCurrent) return 'Active now';
+
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(session.lastActivityAt).getTime()) / 1000));
+  if (seconds < 60) return 'Active just now';
+  if (seconds < 60 * 60) return `Active ${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 24 * 60 * 60) return `Active ${Math.floor(seconds / 3600)} h ago`;
+  return `Last active ${new Date(session.lastActivityAt).toLocaleDateString()}`;
+};
+
+const getErrorMessage = (error: any): string =>
+  error?.userMessage || error?.message || 'Something went wrong. Please try again.';
+
+// ========================================================================================
+// ACTIVE SESSIONS SCREEN IMPLEMENTATION
+// ========================================================================================
+
+const ActiveSessionsScreen: React.FC<ActiveSessionsScreenProps> = ({ navigation }) => {
+  // Theme System
+  const theme = useTheme();
+  const { colors } = theme;
+
+  // Authentication
+  const { deviceId, requireStepUp, logout } = useAuth();
+  const {
+    sessions,
+    currentSession,
+    error,
+    isLoading,
+    pendingSessionId,
+    refetch,
+    revokeSession,
+    setTrusted,
+  } = useSessions();
+
+  const otherSessions = sessions.filter(session => !session.isCurrent);
+
+  // ========================================================================================
+  // ACTIONS
+  // ========================================================================================
+
+  const handleRevoke = useCallback((session: SessionApiInfo) => {
+    Alert.alert(
+      'Sign out this device?',
+      `${describeDevice(session)} in ${describeLocation(session)} will need to sign in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await requireStepUp('Sign out another device');
+              await revokeSession(session.sessionId);
+            } catch (revokeError: any) {
+              // Cancelling the step-up prompt leaves the device signed in
+              if (revokeError?.type === 'STEP_UP_CANCELLED') return;
+              Alert.alert('Could not sign out device', getErrorMessage(revokeError));
+            }
+          },
+        },
+      ]
+    );
+  }, [requireStepUp, revokeSession]);
+
+  const handleToggleTrust = useCallback(async (session: SessionApiInfo) => {
+    try {
+      if (!session.isTrusted) {
+        // Trusting skips two-factor on this device - removing trust is always allowed
+        await requireStepUp('Trust this device');
+      }
+      await setTrusted(session.sessionId, !session.isTrusted);
+    } catch (trustError: any) {
+      if (trustError?.type === 'STEP_UP_CANCELLED') return;
+      Alert.alert('Could not update device', getErrorMessage(trustError));
+    }
+  }, [requireStepUp, setTrusted]);
+
+  const handleSignOutEverywhere = useCallback(() => {
+    Alert.alert(
+      'Sign out of all devices?',
+      'Every device, including this one, will need to sign in again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out All',
+          style: 'destructive',
+          onPress: () => {
+            logout({ allDevices: true }).catch(logoutError => {
+              if (logoutError?.type === 'STEP_UP_CANCELLED') return;
+              Alert.alert('Could not sign out', getErrorMessage(logoutError));
+            });
+          },
+        },
+      ]
+    );
+  }, [logout]);
+
+  const handleBackPress = useCallback(() => {
+    navigation.goBack();
+  }, [navigation]);
+
+  // Android back button handling
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
+      handleBackPress();
+      return true;
+    });
+
+    return () => backHandler.remove();
+  }, [handleBackPress]);
+
+  // ========================================================================================
+  // RENDER HELPERS
+  // ========================================================================================
+
+  const renderBadge = (label: string) => (
+    <View style={[styles.badge, { borderColor: colors.interactive.border.subtle }]}>
+      <Text variant="caption" style={{ color: colors.interactive.text.secondary }}>
+        {label}
+      </Text>
+    </View>
+  );
+
+  const renderSession = (session: SessionApiInfo) => {
+    const isPending = pendingSessionId === session.sessionId;
+
+    return (
+      <View
+        key={session.sessionId}
+        style={[styles.sessionCard, { borderColor: colors.interactive.border.subtle }]}
+        testID={`session-${session.sessionId}`}
+      >
+        <View style={styles.sessionHeader}>
+          <Text variant="body" style={[styles.deviceName, { color: colors.interactive.text.primary }]}>
+            {describeDevice(session)}
+          </Text>
+          {session.isCurrent && renderBadge('This device')}
+          {session.isTrusted && renderBadge('Trusted')}
+        </View>
+
+        <Text variant="caption" style={{ color: colors.interactive.text.secondary }}>
+          {describeLocation(session)}
+        </Text>
+        <Text variant="caption" style={{ color: colors.interactive.text.secondary }}>
+          {describeActivity(session)} · Signed in {new Date(session.createdAt).toLocaleDateString()}
+        </Text>
+
+        <View style={styles.sessionActions}>
+          <Button
+            variant="ghost"
+            size="small"
+            onPress={() => handleToggleTrust(session)}
+            disabled={isPending}
+            accessibilityLabel={session.isTrusted ? 'Stop trusting this device' : 'Trust this device'}
+            testID={`trust-${session.sessionId}`}
+          >
+            {session.isTrusted ? 'Remove Trust' : 'Trust Device'}
+          </Button>
+          {!session.isCurrent && (
+            <Button
+              variant="ghost"
+              size="small"
+              onPress={() => handleRevoke(session)}
+              disabled={isPending}
+              accessibilityLabel="Sign out this device"
+              testID={`revoke-${session.sessionId}`}
+            >
+              {isPending ? <Loader size="small" /> : 'Sign Out'}
+            </Button>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  // ========================================================================================
+  // COMPONENT RENDER
+  // ========================================================================================
+
+  return (
+    <SafeArea edges={['top', 'bottom']} style={styles.container}>
+      <GradientBackground animated style={styles.background}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={isLoading && sessions.length > 0} onRefresh={refetch} />}
+        >
+          <AuthHeader showBackButton onBackPress={handleBackPress} style={styles.header} />
+
+          <View style={styles.content}>
+            <View style={styles.headerContainer}>
+              <Text variant="h2" align="center" style={[styles.title, { color: colors.interactive.text.primary }]}>
+                Where You're Signed In
+              </Text>
+              <Text variant="body" align="center" style={[styles.subtitle, { color: colors.interactive.text.secondary }]}>
+                Sign out any device you don't recognise. Trusted devices skip the two-factor code when signing in.
+              </Text>
+            </View>
+
+            {isLoading && sessions.length === 0 ? (
+              <Loader size="large" style={styles.loader} />
+            ) : (
+              <>
+                <Text variant="caption" style={[styles.sectionTitle, { color: colors.interactive.text.secondary }]}>
+                  THIS DEVICE
+                </Text>
+                {currentSession && renderSession(currentSession)}
+                <Text
+                  variant="caption"
+                  selectable
+                  style={[styles.deviceId, { color: colors.interactive.text.secondary }]}
+                  testID="current-device-id"
+                >
+                  Device ID: {deviceId ?? 'unavailable'}
+                </Text>
+
+                {otherSessions.length > 0 && (
+                  <Text variant="caption" style={[styles.sectionTitle, { color: colors.interactive.text.secondary }]}>
+                    OTHER DEVICES
+                  </Text>
+                )}
+                {otherSessions.map(renderSession)}
+              </>
+            )}
+
+            {error && (
+              <FieldError
+                message={getErrorMessage(error)}
+                visible={!!error}
+                style={styles.globalError}
+                testID="global-error"
+              />
+            )}
+
+            <Button
+              variant="ghost"
+              size="medium"
+              fullWidth
+              onPress={() => navigation.navigate('SecurityActivity')}
+              style={styles.signOutAllButton}
+              accessibilityLabel="View security activity"
+              testID="security-activity-button"
+            >
+              View Security Activity
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="medium"
+              fullWidth
+              onPress={handleSignOutEverywhere}
+              style={styles.signOutAllButton}
+              accessibilityLabel="Sign out of all devices"
+              testID="sign-out-all-button"
+            >
+              Sign Out of All Devices
+            </Button>
+          </View>
+        </ScrollView>
+      </GradientBackground>
+    </SafeArea>
+  );
+};
+
+// ========================================================================================
+// STYLES - ENTERPRISE DESIGN SYSTEM
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  headerContainer: {
+    marginTop: 24,
+    marginBottom: 32,
+    alignItems: 'center',
+  },
+  title: {
+    marginBottom: 16,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  subtitle: {
+    lineHeight: 24,
+    opacity: 0.8,
+    paddingHorizontal: 8,
+  },
+  loader: {
+    marginTop: 32,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+    letterSpacing: 1,
+  },
+  sessionCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+    marginBottom: 12,
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  deviceName: {
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginRight: 6,
+  },
+  sessionActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  deviceId: {
+    marginBottom: 24,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  globalError: {
+    marginTop: 8,
+  },
+  signOutAllButton: {
+    marginTop: 16,
+  },
+});
+
+export default ActiveSessionsScreen;
@@ -3,7 +3,7 @@
 // Clean integration with GradientBackground
 // Built for 90M users - Production launch ready
 
-import React, { useEffect, useRef, useCallback, memo } from 'react';
+import React, { useEffect, useRef, useCallback, useState, memo } from 'react';
 import {
   View,
   StyleSheet,
@@ -11,6 +11,7 @@ import {
   Dimensions,
   Platform,
   AccessibilityInfo,
+  Alert,
 } from 'react-native';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../../../App';
@@ -29,6 +30,10 @@ import {
 import Text from '../../../shared/components/ui/Text';
 import { useTheme } from '../../../shared/theme/ThemeProvider';
 import { useErrorHandler } from '../../../core/hooks/useErrorHandler';
+import { OAUTH_CONFIG } from '../../../core/config/app.config';
+import useAuth from '../hooks/useAuth';
+import StepUpModal from '../components/StepUpModal';
+import { AuthError, AuthResponse, OAuthProviderId } from '../types';
 
 // ========================================================================================
 // CONFIGURATION - ENTERPRISE STANDARDS
@@ -223,6 +228,10 @@ const AuthWelcomeScreen: React.FC<AuthWelcomeScreenProps> = ({ navigation }) =>
   // Accessibility state
   const [reducedMotion, setReducedMotion] = React.useState(false);
 
+  // Social sign-in
+  const { loginWithOAuth, linkOAuthAccount, cancelOAuthLink, oauthLink } = useAuth();
+  const [pendingProvider, setPendingProvider] = useState<OAuthProviderId | null>(null);
+
   // ========================================================================================
   // LIFECYCLE & ACCESSIBILITY
   // ========================================================================================
@@ -241,14 +250,57 @@ const AuthWelcomeScreen: React.FC<AuthWelcomeScreenProps> = ({ navigation }) =>
   // EVENT HANDLERS - OAUTH & NAVIGATION
   // ========================================================================================
 
-  const handleOAuthPress = useCallback((provider: 'x' | 'google' | 'apple') => {
-    try {
-      // TODO: Implement OAuth flow
+  const navigateToAuthComplete = useCallback((response: AuthResponse) => {
+    navigation.navigate('AuthComplete', {
+      userId: response.user.id,
+      email: response.user.email,
+      userName: response.user.displayName,
+      accessToken: response.tokens.accessToken,
+      isNewUser: !!response.isNewUser,
+      nextAction: response.nextAction === 'avatar_creation' ? 'avatar_creation' : 'home',
+      hasAvatar: response.user.hasAvatar,
+      avatarUrl: undefined,
+    });
+  }, [navigation]);
+
+  const handleOAuthPress = useCallback(async (provider: 'x' | 'google' | 'apple') => {
+    // X has no OAuth integration yet - email sign-in instead
+    if (provider === 'x') {
       navigation.navigate('Login', { email: undefined });
+      return;
+    }
+    if (pendingProvider) return;
+
+    setPendingProvider(provider);
+    try {
+      const response = await loginWithOAuth(provider);
+      navigateToAuthComplete(response);
+    } catch (error) {
+      const authError = error as AuthError;
+      if (authError?.type === 'MFA_REQUIRED') {
+        navigation.navigate('TwoFactorChallenge', {});
+      } else if (authError?.type !== 'OAUTH_CANCELLED' && authError?.type !== 'ACCOUNT_LINK_REQUIRED') {
+        // ACCOUNT_LINK_REQUIRED opens the password prompt below
+        Alert.alert(`${OAUTH_CONFIG.providers[provider].name} sign-in failed`, authError?.userMessage || 'Please try again.');
+        captureError(error as Error, 'medium');
+      }
+    } finally {
+      setPendingProvider(null);
+    }
+  }, [navigation, pendingProvider, loginWithOAuth, navigateToAuthComplete, captureError]);
+
+  const handleLinkSubmit = useCallback(async (password: string) => {
+    const email = oauthLink?.email;
+    try {
+      navigateToAuthComplete(await linkOAuthAccount(password));
     } catch (error) {
-      captureError(error as Error, 'high');
+      if ((error as AuthError)?.type === 'MFA_REQUIRED') {
+        navigation.navigate('TwoFactorChallenge', { email });
+        return;
+      }
+      throw error; // shown in the prompt
     }
-  }, [navigation, captureError]);
+  }, [oauthLink, linkOAuthAccount, navigateToAuthComplete, navigation]);
 
   const handleEmailPress = useCallback(() => {
     navigation.navigate('Login', { email: undefined });
@@ -328,6 +380,8 @@ const AuthWelcomeScreen: React.FC<AuthWelcomeScreenProps> = ({ navigation }) =>
             >
               <GoogleAuthButton
                 onPress={() => handleOAuthPress('google')}
+                loading={pendingProvider === 'google'}
+                disabled={!!pendingProvider}
                 fullWidth
                 style={styles.authButton}
               >
@@ -344,6 +398,8 @@ const AuthWelcomeScreen: React.FC<AuthWelcomeScreenProps> = ({ navigation }) =>
             >
               <AppleAuthButton
                 onPress={() => handleOAuthPress('apple')}
+                loading={pendingProvider === 'apple'}
+                disabled={!!pendingProvider}
                 fullWidth
                 style={styles.authButton}
               >
@@ -397,6 +453,14 @@ const AuthWelcomeScreen: React.FC<AuthWelcomeScreenProps> = ({ navigation }) =>
           </Animated.View>
         </View>
       </SafeArea>
+
+      {/* Provider email already has a password account - confirm it before linking */}
+      <StepUpModal
+        visible={!!oauthLink}
+        reason={oauthLink ? `link ${OAUTH_CONFIG.providers[oauthLink.provider].name} to ${oauthLink.email}` : ''}
+        onSubmit={handleLinkSubmit}
+        onCancel={cancelOAuthLink}
+      />
     </GradientBackground>
   );
 };
@@ -20,10 +20,15 @@ import SafeArea from '../../../shared/components/layout/SafeArea';
 import GradientBackground from '../../../shared/components/layout/GradientBackground';
 import Text from '../../../shared/components/ui/Text';
 import Button from '../../../shared/components/ui/Button';
+import FieldError from '../../../shared/components/forms/FieldError';
 import { useTheme } from '../../../shared/theme/ThemeProvider';
 
 // Auth Components
 import AuthHeader from '../components/AuthHeader';
+import { authApi } from '../../../core/constants/api';
+import { ApiError } from '../../../core/types/api';
+import { useAuth } from '../hooks/useAuth';
+import { AuthError } from '../types';
 
 // ========================================================================================
 // TYPES & INTERFACES - ENTERPRISE EMAIL VERIFICATION
@@ -38,16 +43,19 @@ const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 // ========================================================================================
 
 const EmailSentScreen: React.FC<EmailSentScreenProps> = ({ navigation, route }) => {
-  const { email, tempUserId } = route.params;
+  const { email, tempUserId, verificationType, resendAfter = 60 } = route.params;
+  const isMagicLink = verificationType === 'magic_link';
+  const { requestMagicLink } = useAuth();
   
   // Theme System
   const theme = useTheme();
   const { colors, spacing, animations } = theme;
   
   // State Management
-  const [resendCooldown, setResendCooldown] = useState(60); // 60 seconds cooldown
+  const [resendCooldown, setResendCooldown] = useState(resendAfter); // seconds until resend is allowed
   const [isResending, setIsResending] = useState(false);
   const [resendCount, setResendCount] = useState(0);
+  const [resendError, setResendError] = useState<string | null>(null);
   
   // Animation Values with cleanup
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -175,37 +183,30 @@ const EmailSentScreen: React.FC<EmailSentScreenProps> = ({ navigation, route })
     if (resendCooldown > 0 || isResending) return;
     
     setIsResending(true);
+    setResendError(null);
     
     try {
-      const response = await fetch(
-        `${process.env.EXPO_PUBLIC_API_URL || 'https://api.iranverse.com'}/auth/resend-verification`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ tempUserId }),
-        }
-      );
-      
-      if (response.ok) {
-        setResendCount(prev => prev + 1);
+      if (isMagicLink) {
+        // A new link replaces the previous one
+        const dispatch = await requestMagicLink(email);
+        setResendCooldown(dispatch.resendAfter);
+      } else {
+        await authApi.resendVerification({ tempUserId });
         setResendCooldown(60); // Reset cooldown
-        
-        // Show success feedback
-        // Could add a toast notification here
+      }
+      
+      setResendCount(prev => prev + 1);
+    } catch (error) {
+      if (isMagicLink) {
+        setResendError((error as AuthError).userMessage || 'Could not send a new link. Please try again.');
       } else {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('Resend failed:', errorData.message);
+        console.error('Resend failed:', (error as ApiError).message);
         // Could show error toast here
       }
-    } catch (error) {
-      console.error('Resend error:', error);
-      // Could show network error toast here
     } finally {
       setIsResending(false);
     }
-  }, [tempUserId, resendCooldown, isResending]);
+  }, [email, tempUserId, isMagicLink, requestMagicLink, resendCooldown, isResending]);
   
   // ========================================================================================
   // EMAIL CLIENT HANDLER - ENTERPRISE UX
@@ -279,7 +280,7 @@ const EmailSentScreen: React.FC<EmailSentScreenProps> = ({ navigation, route })
             showBackButton
             onBackPress={handleBackToSignup}
             title="Check Your Email"
-            subtitle={`We sent a verification link to ${email}`}
+            subtitle={`We sent a ${isMagicLink ? 'sign-in' : 'verification'} link to ${email}`}
             style={{ marginBottom: spacing.xl }}
           />
           
@@ -309,7 +310,7 @@ const EmailSentScreen: React.FC<EmailSentScreenProps> = ({ navigation, route })
               align="center"
               style={[styles.instructionTitle, { color: colors.interactive.text.primary }]}
             >
-              Verification Email Sent
+              {isMagicLink ? 'Sign-In Link Sent' : 'Verification Email Sent'}
             </Text>
             
             <Text
@@ -317,7 +318,9 @@ const EmailSentScreen: React.FC<EmailSentScreenProps> = ({ navigation, route })
               align="center"
               style={[styles.instructionText, { color: colors.interactive.text.secondary }]}
             >
-              Click the verification link in your email to continue setting up your IRANVERSE account.
+              {isMagicLink
+                ? 'Open the link in your email on this device to sign in to IRANVERSE. It works once and expires in 15 minutes.'
+                : 'Click the verification link in your email to continue setting up your IRANVERSE account.'}
             </Text>
             
             <Text
@@ -325,7 +328,9 @@ const EmailSentScreen: React.FC<EmailSentScreenProps> = ({ navigation, route })
               align="center"
               style={[styles.helperText, { color: colors.interactive.text.secondary }]}
             >
-              The link will open IRANVERSE automatically and verify your account.
+              {isMagicLink
+                ? 'The link will open IRANVERSE automatically and sign you in.'
+                : 'The link will open IRANVERSE automatically and verify your account.'}
             </Text>
           </View>
           
@@ -353,7 +358,7 @@ const EmailSentScreen: React.FC<EmailSentScreenProps> = ({ navigation, route })
               accessibilityLabel={
                 resendCooldown > 0 
                   ? `Resend email in ${resendCooldown} seconds`
-                  : 'Resend verification email'
+                  : isMagicLink ? 'Send a new sign-in link' : 'Resend verification email'
               }
               testID="resend-email-button"
             >
@@ -366,6 +371,10 @@ const EmailSentScreen: React.FC<EmailSentScreenProps> = ({ navigation, route })
                     : 'Resend Email'
               }
             </Button>
+            
+            {resendError && (
+              <FieldError message={resendError} visible={!!resendError} testID="resend-email-error" />
+            )}
           </View>
           
           {/* Help Section */}
@@ -384,10 +393,10 @@ const EmailSentScreen: React.FC<EmailSentScreenProps> = ({ navigation, route })
               fullWidth
               onPress={handleBackToLogin}
               style={styles.loginButton}
-              accessibilityLabel="Already have an account? Sign in"
+              accessibilityLabel={isMagicLink ? 'Sign in with password instead' : 'Already have an account? Sign in'}
               testID="back-to-login-button"
             >
-              Already have an account? Sign In
+              {isMagicLink ? 'Sign In with Password Instead' : 'Already have an account? Sign In'}
             </Button>
           </View>
         </Animated.View>
@@ -26,6 +26,9 @@ import Text from '../../../shared/components/ui/Text';
 
 // Import the centralized type definitions from App.tsx
 import { RootStackParamList } from '../../../../App';
+import { useAuth } from '../hooks/useAuth';
+import { AuthError, AuthResponse, LoginAttemptStatus } from '../types';
+import { ENCRYPTION_CONFIG, FEATURE_FLAGS } from '../../../core/config/app.config';
 
 // ========================================================================================
 // TYPES & INTERFACES - ENTERPRISE LOGIN SYSTEM
@@ -41,9 +44,10 @@ interface LoginState {
   isSubmitting: boolean;
   validationErrors: Record<string, string>;
   showPassword: boolean;
-  loginAttempts: number;
+  attemptsRemaining: number;
   isLocked: boolean;
-  lockoutTimer: number;
+  lockoutTimer: number; // seconds left on the lock
+  retryTimer: number; // seconds left on the backoff between failed attempts
 }
 
 // ========================================================================================
@@ -55,6 +59,7 @@ const LoginScreen: React.FC = () => {
   const navigation = useNavigation<LoginScreenNavigationProp>();
   const route = useRoute<LoginScreenRouteProp>();
   const { email: routeEmail } = route.params || {};
+  const { login, getLoginStatus, biometric, unlockWithBiometrics, enableBiometricUnlock, requestMagicLink } = useAuth();
 
   // Screen Dimensions
   const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -67,9 +72,10 @@ const LoginScreen: React.FC = () => {
     isSubmitting: false,
     validationErrors: {},
     showPassword: false,
-    loginAttempts: 0,
+    attemptsRemaining: ENCRYPTION_CONFIG.maxLoginAttempts,
     isLocked: false,
     lockoutTimer: 0,
+    retryTimer: 0,
   });
 
   // Animation Values with cleanup
@@ -186,13 +192,57 @@ const LoginScreen: React.FC = () => {
   // AUTHENTICATION HANDLERS - ENTERPRISE SECURITY
   // ========================================================================================
 
+  /**
+   * Mirror the persisted lockout/backoff state for an account into the form
+   */
+  const applyLoginStatus = useCallback((status: LoginAttemptStatus) => {
+    setState(prev => ({
+      ...prev,
+      attemptsRemaining: status.attemptsRemaining,
+      isLocked: status.isLocked,
+      lockoutTimer: status.isLocked ? status.retryAfter : 0,
+      retryTimer: status.isLocked ? 0 : status.retryAfter,
+    }));
+  }, []);
+
+  const refreshLoginStatus = useCallback(async (email: string) => {
+    if (!email.trim()) return;
+    try {
+      applyLoginStatus(await getLoginStatus(email.trim()));
+    } catch (error) {
+      console.warn('Failed to read login attempt status:', error);
+    }
+  }, [getLoginStatus, applyLoginStatus]);
+
+  const handleEmailChange = useCallback((text: string) => {
+    // Lockout is per account - a different email starts clean until it is checked on blur
+    setState(prev => ({
+      ...prev,
+      email: text,
+      attemptsRemaining: ENCRYPTION_CONFIG.maxLoginAttempts,
+      isLocked: false,
+      lockoutTimer: 0,
+      retryTimer: 0,
+      validationErrors: { ...prev.validationErrors, email: '' },
+    }));
+  }, []);
+
+  const navigateToAuthComplete = useCallback((response: AuthResponse) => {
+    // Navigate to AuthComplete screen (successful authentication)
+    navigation.navigate('AuthComplete', {
+      userId: response.user.id,
+      email: response.user.email,
+      userName: response.user.displayName,
+      accessToken: response.tokens.accessToken,
+      isNewUser: !!response.isNewUser,
+      nextAction: response.nextAction === 'avatar_creation' ? 'avatar_creation' : 'home',
+      hasAvatar: response.user.hasAvatar,
+      avatarUrl: undefined,
+    });
+  }, [navigation]);
+
   const handleLogin = useCallback(async () => {
-    if (state.isLocked) {
-      Alert.alert(
-        'Account Locked',
-        `Please wait ${Math.ceil(state.lockoutTimer / 60)} minutes before trying again.`,
-        [{ text: 'OK', style: 'default' }]
-      );
+    if (state.isLocked || state.retryTimer > 0) {
       return;
     }
 
@@ -203,69 +253,167 @@ const LoginScreen: React.FC = () => {
     setState(prev => ({ ...prev, isSubmitting: true }));
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // For demo purposes, accept any valid email/password combination
-      if (state.email && state.password.length >= 3) {
-        triggerHaptic();
-        
-        // Navigate to AuthComplete screen (successful authentication)
-        navigation.navigate('AuthComplete', {
-          userId: `user_${Date.now()}`,
-          email: state.email,
-          userName: state.email.split('@')[0], // Extract username from email
-          accessToken: `token_${Date.now()}`,
-          isNewUser: false,
-          nextAction: 'home',
-          hasAvatar: true,
-          avatarUrl: undefined,
-        });
+      const response = await login({
+        email: state.email.trim(),
+        password: state.password,
+        rememberMe: state.rememberMe,
+        // Device details are filled in by AuthContext
+        deviceInfo: {
+          platform: Platform.OS as 'ios' | 'android',
+          osVersion: String(Platform.Version),
+          appVersion: '1.0.0',
+          deviceId: '',
+        },
+      });
+
+      triggerHaptic();
+      navigateToAuthComplete(response);
+
+      setState(prev => ({
+        ...prev,
+        isSubmitting: false,
+        attemptsRemaining: ENCRYPTION_CONFIG.maxLoginAttempts,
+        validationErrors: {},
+      }));
+
+      // Offer biometric unlock while the password check is fresh
+      if (FEATURE_FLAGS.biometricAuth && biometric.biometryType && !biometric.isEnabled) {
+        Alert.alert(
+          biometric.biometryType === 'face' ? 'Use Face ID?' : 'Use fingerprint?',
+          'Unlock IRANVERSE without your password next time.',
+          [
+            { text: 'Not now', style: 'cancel' },
+            {
+              text: 'Enable',
+              onPress: () => {
+                enableBiometricUnlock().catch(error => console.warn('Failed to enable biometric unlock:', error));
+              },
+            },
+          ]
+        );
+      }
+    } catch (error) {
+      const authError = error as AuthError;
 
+      // Correct password - the account wants a second factor
+      if (authError?.type === 'MFA_REQUIRED') {
         setState(prev => ({
           ...prev,
           isSubmitting: false,
-          loginAttempts: 0,
-          validationErrors: {},
+          attemptsRemaining: ENCRYPTION_CONFIG.maxLoginAttempts,
+          password: '',
         }));
-      } else {
-        throw new Error('Invalid credentials');
+        navigation.navigate('TwoFactorChallenge', { email: state.email.trim() });
+        return;
       }
-    } catch (error) {
+
       triggerHaptic();
       triggerShakeAnimation();
-      
-      const newAttempts = state.loginAttempts + 1;
-      
-      // Check for lockout after 5 failed attempts
-      if (newAttempts >= 5) {
+
+      if (authError?.type === 'ACCOUNT_LOCKED') {
         setState(prev => ({
           ...prev,
           isSubmitting: false,
-          loginAttempts: newAttempts,
+          password: '',
+          attemptsRemaining: 0,
           isLocked: true,
-          lockoutTimer: 300, // 5 minutes lockout
+          lockoutTimer: authError.retryAfter ?? ENCRYPTION_CONFIG.lockoutDuration,
+          retryTimer: 0,
+        }));
+
+        Alert.alert('Account Locked', authError.userMessage, [{ text: 'OK', style: 'default' }]);
+        return;
+      }
+
+      if (authError?.type === 'TOO_MANY_ATTEMPTS') {
+        setState(prev => ({
+          ...prev,
+          isSubmitting: false,
+          retryTimer: authError.retryAfter ?? 0,
+        }));
+        return;
+      }
+
+      if (authError?.type === 'INVALID_CREDENTIALS') {
+        setState(prev => ({
+          ...prev,
+          validationErrors: {
+            email: 'Invalid email or password',
+            password: 'Invalid email or password',
+          },
+          isSubmitting: false,
+          attemptsRemaining: authError.details?.attemptsRemaining ?? prev.attemptsRemaining,
+          retryTimer: authError.retryAfter ?? 0,
         }));
-        
-        Alert.alert(
-          'Account Locked',
-          'Too many failed login attempts. Please try again in 5 minutes.',
-          [{ text: 'OK', style: 'default' }]
-        );
         return;
       }
 
+      // Network and server failures do not count against the account
       setState(prev => ({
         ...prev,
         validationErrors: {
-          email: 'Invalid email or password',
-          password: 'Invalid email or password',
+          password: authError?.userMessage || 'Sign in failed. Please try again.',
         },
         isSubmitting: false,
-        loginAttempts: newAttempts,
       }));
     }
-  }, [state, validateForm, navigation]);
+  }, [state, validateForm, navigateToAuthComplete, login, biometric, enableBiometricUnlock]);
+
+  /**
+   * Re-enter the stored session with Face ID / fingerprint
+   */
+  const handleBiometricUnlock = useCallback(async () => {
+    setState(prev => ({ ...prev, isSubmitting: true }));
+
+    try {
+      const response = await unlockWithBiometrics();
+      triggerHaptic();
+      navigateToAuthComplete(response);
+      setState(prev => ({ ...prev, isSubmitting: false, validationErrors: {} }));
+    } catch (error) {
+      const authError = error as AuthError;
+      // Dismissing the prompt just leaves the password form
+      const validationErrors: Record<string, string> = authError?.type === 'STEP_UP_CANCELLED'
+        ? {}
+        : { password: authError?.userMessage || 'Biometric unlock failed' };
+      setState(prev => ({ ...prev, isSubmitting: false, validationErrors }));
+    }
+  }, [unlockWithBiometrics, navigateToAuthComplete]);
+
+  /**
+   * Email a passwordless sign-in link - only the email field is needed
+   */
+  const handleMagicLinkRequest = useCallback(async () => {
+    const email = state.email.trim();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setState(prev => ({
+        ...prev,
+        validationErrors: { email: email ? 'Please enter a valid email address' : 'Enter your email to get a sign-in link' },
+      }));
+      triggerShakeAnimation();
+      triggerHaptic();
+      return;
+    }
+
+    setState(prev => ({ ...prev, isSubmitting: true, validationErrors: {} }));
+
+    try {
+      const dispatch = await requestMagicLink(email);
+      setState(prev => ({ ...prev, isSubmitting: false, password: '' }));
+      navigation.navigate('EmailSent', {
+        email,
+        tempUserId: '',
+        verificationType: 'magic_link',
+        resendAfter: dispatch.resendAfter,
+      });
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isSubmitting: false,
+        validationErrors: { email: (error as AuthError)?.userMessage || 'Could not send the sign-in link' },
+      }));
+    }
+  }, [state.email, requestMagicLink, navigation]);
 
   // ========================================================================================
   // NAVIGATION HANDLERS - ENTERPRISE FLOW CONTROL
@@ -275,6 +423,10 @@ const LoginScreen: React.FC = () => {
     navigation.navigate('AuthWelcome');
   }, [navigation]);
 
+  const handlePhonePress = useCallback(() => {
+    navigation.navigate('PhoneAuth', { mode: 'login' });
+  }, [navigation]);
+
   const handleSignupPress = useCallback(() => {
     navigation.navigate('Signup');
   }, [navigation]);
@@ -304,7 +456,12 @@ const LoginScreen: React.FC = () => {
       interval = setInterval(() => {
         setState(prev => {
           if (prev.lockoutTimer <= 1) {
-            return { ...prev, isLocked: false, lockoutTimer: 0, loginAttempts: 0 };
+            return {
+              ...prev,
+              isLocked: false,
+              lockoutTimer: 0,
+              attemptsRemaining: ENCRYPTION_CONFIG.maxLoginAttempts,
+            };
           }
           return { ...prev, lockoutTimer: prev.lockoutTimer - 1 };
         });
@@ -316,6 +473,28 @@ const LoginScreen: React.FC = () => {
     };
   }, [state.isLocked, state.lockoutTimer]);
 
+  // Backoff timer effect
+  useEffect(() => {
+    let interval: NodeJS.Timeout;
+
+    if (state.retryTimer > 0) {
+      interval = setInterval(() => {
+        setState(prev => ({ ...prev, retryTimer: Math.max(0, prev.retryTimer - 1) }));
+      }, 1000);
+    }
+
+    return () => {
+      if (interval) clearInterval(interval);
+    };
+  }, [state.retryTimer]);
+
+  // Restore a lock that outlived the previous session
+  useEffect(() => {
+    if (routeEmail) {
+      refreshLoginStatus(routeEmail);
+    }
+  }, [routeEmail, refreshLoginStatus]);
+
   // ========================================================================================
   // LIFECYCLE EFFECTS - ENTERPRISE INITIALIZATION
   // ========================================================================================
@@ -388,13 +567,13 @@ const LoginScreen: React.FC = () => {
             ref={emailRef}
             style={styles.textInput}
             value={state.email}
-            onChangeText={(text: string) => updateField('email', text)}
+            onChangeText={handleEmailChange}
+            onBlur={() => refreshLoginStatus(state.email)}
             placeholder="Enter your email address"
             placeholderTextColor="rgba(255, 255, 255, 0.5)"
             keyboardType="email-address"
             autoCapitalize="none"
             autoCorrect={false}
-            editable={!state.isLocked}
             onSubmitEditing={() => passwordRef.current?.focus()}
             returnKeyType="next"
             blurOnSubmit={false}
@@ -481,21 +660,71 @@ const LoginScreen: React.FC = () => {
 
       {/* Login Button */}
       <TouchableOpacity
-        style={[styles.loginButton, (state.isSubmitting || state.isLocked) && styles.loginButtonDisabled]}
+        style={[
+          styles.loginButton,
+          (state.isSubmitting || state.isLocked || state.retryTimer > 0) && styles.loginButtonDisabled,
+        ]}
         onPress={handleLogin}
-        disabled={state.isSubmitting || state.isLocked}
+        disabled={state.isSubmitting || state.isLocked || state.retryTimer > 0}
       >
         <Text style={styles.loginButtonText}>
-          {state.isSubmitting ? 'Signing In...' : 'Sign In'}
+          {state.isSubmitting
+            ? 'Signing In...'
+            : state.retryTimer > 0 && !state.isLocked
+              ? `Try again in ${state.retryTimer}s`
+              : 'Sign In'}
         </Text>
       </TouchableOpacity>
 
+      {/* Passwordless Sign-In */}
+      {FEATURE_FLAGS.magicLinkLogin && (
+        <TouchableOpacity
+          style={[styles.biometricButton, state.isSubmitting && styles.loginButtonDisabled]}
+          onPress={handleMagicLinkRequest}
+          disabled={state.isSubmitting}
+          accessibilityRole="button"
+          accessibilityLabel="Email me a sign-in link"
+        >
+          <Text style={styles.biometricButtonText}>✉️ Email me a sign-in link</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Phone Sign-In */}
+      {FEATURE_FLAGS.phoneLogin && (
+        <TouchableOpacity
+          style={[styles.biometricButton, state.isSubmitting && styles.loginButtonDisabled]}
+          onPress={handlePhonePress}
+          disabled={state.isSubmitting}
+          accessibilityRole="button"
+          accessibilityLabel="Continue with phone number"
+        >
+          <Text style={styles.biometricButtonText}>📱 Continue with phone number</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Biometric Unlock */}
+      {biometric.isLocked && (
+        <TouchableOpacity
+          style={[styles.biometricButton, state.isSubmitting && styles.loginButtonDisabled]}
+          onPress={handleBiometricUnlock}
+          disabled={state.isSubmitting}
+          accessibilityRole="button"
+          accessibilityLabel={biometric.biometryType === 'face' ? 'Unlock with Face ID' : 'Unlock with fingerprint'}
+        >
+          <Text style={styles.biometricButtonText}>
+            {biometric.biometryType === 'face' ? '👤 Unlock with Face ID' : '👆 Unlock with fingerprint'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Login Attempts Warning */}
-      {state.loginAttempts > 0 && state.loginAttempts < 5 && (
+      {!state.isLocked &&
+        state.attemptsRemaining > 0 &&
+        state.attemptsRemaining < ENCRYPTION_CONFIG.maxLoginAttempts && (
         <View style={styles.warningContainer}>
           <Text style={styles.warningIcon}>⚠️</Text>
           <Text style={styles.warningText}>
-            {5 - state.loginAttempts} attempts remaining before account lockout
+            {state.attemptsRemaining} attempts remaining before account lockout
           </Text>
         </View>
       )}
@@ -759,6 +988,19 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  biometricButton: {
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(138, 92, 246, 0.6)',
+  },
+  biometricButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
   warningContainer: {
     flexDirection: 'row',
     alignItems: 'center',
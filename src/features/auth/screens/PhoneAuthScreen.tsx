@@ -0,0 +1,428 @@
+// src/features/auth/screens/PhoneAuthScreen.tsx
+// IRANVERSE Phone Sign-In - Mobile number entry for login and sign-up
+// Validates Iranian operator prefixes and Persian digits before an SMS code is sent
+// Built for 90M users - Most Iranians have a phone number before an email address
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  Animated,
+  Platform,
+  Dimensions,
+  KeyboardAvoidingView,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../../../App';
+
+// Enterprise Component Library
+import SafeArea from '../../../shared/components/layout/SafeArea';
+import GradientBackground from '../../../shared/components/layout/GradientBackground';
+import Text from '../../../shared/components/ui/Text';
+import Button from '../../../shared/components/ui/Button';
+import Input from '../../../shared/components/forms/Input';
+import PhoneInput from '../../../shared/components/forms/PhoneInput';
+import FieldError from '../../../shared/components/forms/FieldError';
+import Loader from '../../../shared/components/ui/Loader';
+import { useTheme } from '../../../shared/theme/ThemeProvider';
+
+// Auth Components
+import AuthHeader from '../components/AuthHeader';
+import AuthFooter from '../components/AuthFooter';
+
+import { useAuth } from '../hooks/useAuth';
+import { validatePhoneNumber, validateFullName } from '../../../core/utils/validation';
+import { DEFAULT_PHONE_COUNTRY, parsePhoneNumber } from '../../../core/utils/phone';
+
+// ========================================================================================
+// TYPES & CONSTANTS - PHONE SIGN-IN
+// ========================================================================================
+
+type PhoneAuthScreenProps = NativeStackScreenProps<RootStackParamList, 'PhoneAuth'>;
+
+const { height: SCREEN_HEIGHT } = Dimensions.get('window');
+
+interface PhoneFormErrors {
+  phone?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+// ========================================================================================
+// PHONE AUTH SCREEN IMPLEMENTATION
+// ========================================================================================
+
+const PhoneAuthScreen: React.FC<PhoneAuthScreenProps> = ({ navigation, route }) => {
+  const { mode } = route.params;
+  const isSignup = mode === 'signup';
+
+  // Theme System
+  const theme = useTheme();
+  const { colors, animations } = theme;
+
+  // Authentication
+  const { requestPhoneOtp, isLoading, error, clearError } = useAuth();
+
+  // Form State
+  const [country, setCountry] = useState(DEFAULT_PHONE_COUNTRY);
+  const [phone, setPhone] = useState('');
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [formErrors, setFormErrors] = useState<PhoneFormErrors>({});
+
+  // Animation Values
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(50)).current;
+
+  // ========================================================================================
+  // ENTRANCE ANIMATION
+  // ========================================================================================
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: animations.duration.medium,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 300,
+          friction: 12,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [animations, fadeAnim, slideAnim]);
+
+  // ========================================================================================
+  // HANDLERS
+  // ========================================================================================
+
+  const handlePhoneChange = useCallback((value: string) => {
+    clearError();
+    setPhone(value);
+    setFormErrors(prev => ({ ...prev, phone: undefined }));
+  }, [clearError]);
+
+  const validateForm = useCallback((): boolean => {
+    const errors: PhoneFormErrors = {};
+
+    const phoneResult = validatePhoneNumber(phone, { country });
+    if (!phoneResult.isValid) {
+      errors.phone = phoneResult.errors[0]?.message;
+    }
+
+    if (isSignup) {
+      const firstNameResult = validateFullName(firstName.trim(), 'firstName');
+      if (!firstNameResult.isValid) {
+        errors.firstName = firstNameResult.errors[0]?.message;
+      }
+      const lastNameResult = validateFullName(lastName.trim(), 'lastName');
+      if (!lastNameResult.isValid) {
+        errors.lastName = lastNameResult.errors[0]?.message;
+      }
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  }, [phone, country, isSignup, firstName, lastName]);
+
+  const handleSubmit = useCallback(async () => {
+    if (isLoading || !validateForm()) return;
+
+    const parsed = parsePhoneNumber(phone, country);
+    if (!parsed.success) return;
+
+    try {
+      await requestPhoneOtp({
+        phoneNumber: parsed.data.e164,
+        purpose: mode,
+        ...(isSignup && { firstName: firstName.trim(), lastName: lastName.trim() }),
+      });
+      navigation.navigate('PhoneVerification');
+    } catch (err) {
+      // Error is handled by auth context
+    }
+  }, [isLoading, validateForm, phone, country, requestPhoneOtp, mode, isSignup, firstName, lastName, navigation]);
+
+  const handleSwitchMode = useCallback(() => {
+    clearError();
+    navigation.replace('PhoneAuth', { mode: isSignup ? 'login' : 'signup' });
+  }, [clearError, navigation, isSignup]);
+
+  const handleUseEmail = useCallback(() => {
+    clearError();
+    if (isSignup) {
+      navigation.replace('Signup');
+    } else {
+      navigation.replace('Login', {});
+    }
+  }, [clearError, navigation, isSignup]);
+
+  // ========================================================================================
+  // COMPONENT RENDER
+  // ========================================================================================
+
+  return (
+    <SafeArea edges={['top', 'bottom']} style={styles.container}>
+      <GradientBackground animated style={styles.background}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoid}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 20}
+        >
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            <AuthHeader
+              showBackButton
+              onBackPress={() => navigation.goBack()}
+              style={styles.header}
+            />
+
+            <View style={styles.content}>
+              <Animated.View
+                style={[
+                  styles.formContainer,
+                  {
+                    opacity: fadeAnim,
+                    transform: [{ translateY: slideAnim }],
+                  },
+                ]}
+              >
+                <View style={styles.headerContainer}>
+                  <Text
+                    variant="h2"
+                    align="center"
+                    style={[styles.title, { color: colors.interactive.text.primary }]}
+                  >
+                    {isSignup ? 'Sign Up with Phone' : 'Sign In with Phone'}
+                  </Text>
+
+                  <Text
+                    variant="body"
+                    align="center"
+                    style={[styles.subtitle, { color: colors.interactive.text.secondary }]}
+                  >
+                    We will text a verification code to your mobile number.
+                  </Text>
+                </View>
+
+                {isSignup && (
+                  <View style={styles.nameRow}>
+                    <View style={styles.nameField}>
+                      <Input
+                        label="First name"
+                        value={firstName}
+                        onChangeText={value => {
+                          setFirstName(value);
+                          setFormErrors(prev => ({ ...prev, firstName: undefined }));
+                        }}
+                        error={formErrors.firstName}
+                        autoCapitalize="words"
+                        autoComplete="given-name"
+                        returnKeyType="next"
+                        accessibilityLabel="First name input"
+                        testID="first-name-input"
+                      />
+                    </View>
+                    <View style={styles.nameField}>
+                      <Input
+                        label="Last name"
+                        value={lastName}
+                        onChangeText={value => {
+                          setLastName(value);
+                          setFormErrors(prev => ({ ...prev, lastName: undefined }));
+                        }}
+                        error={formErrors.lastName}
+                        autoCapitalize="words"
+                        autoComplete="family-name"
+                        returnKeyType="next"
+                        accessibilityLabel="Last name input"
+                        testID="last-name-input"
+                      />
+                    </View>
+                  </View>
+                )}
+
+                <View style={styles.inputContainer}>
+                  <PhoneInput
+                    label="Mobile number"
+                    value={phone}
+                    onChangeText={handlePhoneChange}
+                    country={country}
+                    onCountryChange={item => setCountry(item.iso2)}
+                    error={formErrors.phone}
+                    returnKeyType="done"
+                    onSubmitEditing={handleSubmit}
+                    accessibilityLabel="Mobile number input"
+                    testID="phone-input"
+                  />
+                </View>
+
+                {error && (
+                  <FieldError
+                    message={error.userMessage || error.message}
+                    visible={!!error}
+                    style={styles.globalError}
+                    testID="global-error"
+                  />
+                )}
+
+                {error?.type === 'PHONE_ALREADY_REGISTERED' && (
+                  <Button
+                    variant="ghost"
+                    size="small"
+                    onPress={handleSwitchMode}
+                    style={styles.globalError}
+                    accessibilityLabel="Sign in with this number instead"
+                    testID="switch-to-login"
+                  >
+                    Sign in with this number instead
+                  </Button>
+                )}
+
+                <Button
+                  variant="primary"
+                  size="large"
+                  fullWidth
+                  onPress={handleSubmit}
+                  disabled={isLoading || !phone}
+                  style={styles.submitButton}
+                  accessibilityLabel="Send verification code"
+                  testID="send-code-button"
+                >
+                  {isLoading ? (
+                    <Loader size="small" color={colors.interactive.surface} />
+                  ) : (
+                    'Send Code'
+                  )}
+                </Button>
+
+                <TouchableOpacity
+                  onPress={handleUseEmail}
+                  style={styles.linkRow}
+                  accessibilityRole="button"
+                  testID="use-email-button"
+                >
+                  <Text style={[styles.linkText, { color: colors.interactive.text.secondary }]}>
+                    {isSignup ? 'Sign up with email instead' : 'Sign in with email instead'}
+                  </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  onPress={handleSwitchMode}
+                  style={styles.linkRow}
+                  accessibilityRole="button"
+                  testID="switch-mode-button"
+                >
+                  <Text style={[styles.linkText, { color: colors.interactive.text.secondary }]}>
+                    {isSignup ? 'Already have an account? Sign in' : "Don't have an account? Sign up"}
+                  </Text>
+                </TouchableOpacity>
+              </Animated.View>
+            </View>
+
+            <AuthFooter style={styles.footer} />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </GradientBackground>
+    </SafeArea>
+  );
+};
+
+// ========================================================================================
+// STYLES - ENTERPRISE DESIGN SYSTEM
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    justifyContent: 'center',
+    minHeight: SCREEN_HEIGHT * 0.6,
+  },
+  formContainer: {
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  headerContainer: {
+    marginBottom: 32,
+    alignItems: 'center',
+  },
+  title: {
+    marginBottom: 16,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  subtitle: {
+    lineHeight: 24,
+    opacity: 0.8,
+    paddingHorizontal: 16,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  nameField: {
+    flex: 1,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  globalError: {
+    marginBottom: 16,
+  },
+  submitButton: {
+    height: 56,
+    borderRadius: 16,
+    marginBottom: 24,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  linkRow: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    textDecorationLine: 'underline',
+  },
+  footer: {
+    paddingHorizontal: 24,
+    marginTop: 'auto',
+  },
+});
+
+export default PhoneAuthScreen;
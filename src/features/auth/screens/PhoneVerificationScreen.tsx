@@ -0,0 +1,427 @@
+// src/features/auth/screens/PhoneVerificationScreen.tsx
+// IRANVERSE Phone Verification - SMS code entry for phone sign-in and sign-up
+// Autofills the code from the SMS, counts down to resend and to expiry
+// Built for 90M users - One text message between a phone number and an account
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  Animated,
+  Platform,
+  Dimensions,
+  BackHandler,
+  KeyboardAvoidingView,
+  ScrollView,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../../../App';
+
+// Enterprise Component Library
+import SafeArea from '../../../shared/components/layout/SafeArea';
+import GradientBackground from '../../../shared/components/layout/GradientBackground';
+import Text from '../../../shared/components/ui/Text';
+import Button from '../../../shared/components/ui/Button';
+import Input from '../../../shared/components/forms/Input';
+import FieldError from '../../../shared/components/forms/FieldError';
+import Loader from '../../../shared/components/ui/Loader';
+import { useTheme } from '../../../shared/theme/ThemeProvider';
+
+// Auth Components
+import AuthHeader from '../components/AuthHeader';
+import AuthFooter from '../components/AuthFooter';
+
+import { useAuth } from '../hooks/useAuth';
+import { normalizeDigits } from '../../../core/utils/phone';
+
+// ========================================================================================
+// TYPES & CONSTANTS - PHONE VERIFICATION
+// ========================================================================================
+
+type PhoneVerificationScreenProps = NativeStackScreenProps<RootStackParamList, 'PhoneVerification'>;
+
+const { height: SCREEN_HEIGHT } = Dimensions.get('window');
+
+const secondsUntil = (isoDate: string): number =>
+  Math.max(0, Math.ceil((Date.parse(isoDate) - Date.now()) / 1000));
+
+const formatCountdown = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// ========================================================================================
+// PHONE VERIFICATION SCREEN IMPLEMENTATION
+// ========================================================================================
+
+const PhoneVerificationScreen: React.FC<PhoneVerificationScreenProps> = ({ navigation }) => {
+  // Theme System
+  const theme = useTheme();
+  const { colors, animations } = theme;
+
+  // Authentication
+  const {
+    phoneOtp,
+    isAuthenticated,
+    verifyPhoneOtp,
+    resendPhoneOtp,
+    cancelPhoneOtp,
+    isLoading,
+    error,
+    clearError,
+  } = useAuth();
+
+  const codeLength = phoneOtp?.codeLength ?? 6;
+
+  // Form State
+  const [code, setCode] = useState('');
+  const [resendError, setResendError] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+  const [resendCountdown, setResendCountdown] = useState(phoneOtp?.resendAfter ?? 0);
+  const [expiresIn, setExpiresIn] = useState(phoneOtp ? secondsUntil(phoneOtp.expiresAt) : 0);
+  const submittedCodeRef = useRef<string | null>(null);
+
+  // Animation Values
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(50)).current;
+
+  // ========================================================================================
+  // ENTRANCE ANIMATION & GUARDS
+  // ========================================================================================
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: animations.duration.medium,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 300,
+          friction: 12,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [animations, fadeAnim, slideAnim]);
+
+  // Without a pending code there is nothing to verify - back to the number entry
+  useEffect(() => {
+    if (!phoneOtp && !isLoading && !isAuthenticated) {
+      navigation.goBack();
+    }
+  }, [phoneOtp, isLoading, isAuthenticated, navigation]);
+
+  // Resend countdown
+  useEffect(() => {
+    if (resendCountdown <= 0) return;
+    const timer = setTimeout(() => setResendCountdown(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendCountdown]);
+
+  // Expiry countdown - recomputed from the timestamp so backgrounding does not drift
+  useEffect(() => {
+    if (!phoneOtp) return;
+    setExpiresIn(secondsUntil(phoneOtp.expiresAt));
+    const interval = setInterval(() => setExpiresIn(secondsUntil(phoneOtp.expiresAt)), 1000);
+    return () => clearInterval(interval);
+  }, [phoneOtp]);
+
+  // ========================================================================================
+  // HANDLERS
+  // ========================================================================================
+
+  const handleVerify = useCallback(async (value: string) => {
+    if (value.length !== codeLength || isLoading) return;
+    submittedCodeRef.current = value;
+
+    try {
+      const response = await verifyPhoneOtp(value);
+
+      navigation.replace('AuthComplete', {
+        userId: response.user.id,
+        email: response.user.email,
+        userName: response.user.displayName,
+        accessToken: response.tokens.accessToken,
+        isNewUser: !!response.isNewUser,
+        nextAction: response.nextAction === 'avatar_creation' ? 'avatar_creation' : 'home',
+        hasAvatar: response.user.hasAvatar,
+      });
+    } catch (err: any) {
+      if (err?.type === 'MFA_REQUIRED') {
+        navigation.replace('TwoFactorChallenge', {});
+        return;
+      }
+      // Error is handled by auth context
+      setCode('');
+    }
+  }, [codeLength, isLoading, verifyPhoneOtp, navigation]);
+
+  // SMS autofill delivers the whole code at once - verify without a tap
+  const handleCodeChange = useCallback((value: string) => {
+    clearError();
+    const digits = normalizeDigits(value).replace(/\D/g, '').slice(0, codeLength);
+    setCode(digits);
+    if (digits.length === codeLength && digits !== submittedCodeRef.current) {
+      handleVerify(digits);
+    }
+  }, [clearError, codeLength, handleVerify]);
+
+  const handleResend = useCallback(async () => {
+    setIsResending(true);
+    setResendError(null);
+    clearError();
+
+    try {
+      const dispatch = await resendPhoneOtp();
+      setResendCountdown(dispatch.resendAfter);
+      setCode('');
+      submittedCodeRef.current = null;
+    } catch (err: any) {
+      setResendError(err?.userMessage || err?.message || 'Could not send the code. Please try again.');
+    } finally {
+      setIsResending(false);
+    }
+  }, [clearError, resendPhoneOtp]);
+
+  // Dropping the pending code sends the guard above back to the number entry
+  const handleBackPress = useCallback(() => {
+    cancelPhoneOtp();
+  }, [cancelPhoneOtp]);
+
+  // Android back button handling
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
+      handleBackPress();
+      return true;
+    });
+
+    return () => backHandler.remove();
+  }, [handleBackPress]);
+
+  const isExpired = !!phoneOtp && expiresIn <= 0;
+
+  // ========================================================================================
+  // COMPONENT RENDER
+  // ========================================================================================
+
+  return (
+    <SafeArea edges={['top', 'bottom']} style={styles.container}>
+      <GradientBackground animated style={styles.background}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoid}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 20}
+        >
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            <AuthHeader
+              showBackButton
+              onBackPress={handleBackPress}
+              style={styles.header}
+            />
+
+            <View style={styles.content}>
+              <Animated.View
+                style={[
+                  styles.formContainer,
+                  {
+                    opacity: fadeAnim,
+                    transform: [{ translateY: slideAnim }],
+                  },
+                ]}
+              >
+                <View style={styles.headerContainer}>
+                  <Text
+                    variant="h2"
+                    align="center"
+                    style={[styles.title, { color: colors.interactive.text.primary }]}
+                  >
+                    Verify Your Number
+                  </Text>
+
+                  <Text
+                    variant="body"
+                    align="center"
+                    style={[styles.subtitle, { color: colors.interactive.text.secondary }]}
+                  >
+                    {`Enter the ${codeLength}-digit code we texted to ${phoneOtp?.phoneHint ?? 'your phone'}.`}
+                  </Text>
+                </View>
+
+                <View style={styles.inputContainer}>
+                  <Input
+                    label="Verification code"
+                    value={code}
+                    onChangeText={handleCodeChange}
+                    placeholder={'0'.repeat(codeLength)}
+                    keyboardType="number-pad"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    autoComplete="sms-otp"
+                    maxLength={codeLength}
+                    disabled={isExpired}
+                    returnKeyType="done"
+                    onSubmitEditing={() => handleVerify(code)}
+                    accessibilityLabel="Verification code input"
+                    testID="code-input"
+                  />
+                </View>
+
+                <Text
+                  variant="caption"
+                  align="center"
+                  style={[styles.expiry, { color: colors.interactive.text.secondary }]}
+                  testID="code-expiry"
+                >
+                  {isExpired
+                    ? 'This code has expired. Request a new one.'
+                    : `Code expires in ${formatCountdown(expiresIn)}`}
+                </Text>
+
+                {error && (
+                  <FieldError
+                    message={error.userMessage || error.message}
+                    visible={!!error}
+                    style={styles.globalError}
+                    testID="global-error"
+                  />
+                )}
+
+                <Button
+                  variant="primary"
+                  size="large"
+                  fullWidth
+                  onPress={() => handleVerify(code)}
+                  disabled={isLoading || isExpired || code.length !== codeLength}
+                  style={styles.submitButton}
+                  accessibilityLabel="Verify code"
+                  testID="verify-button"
+                >
+                  {isLoading ? (
+                    <Loader size="small" color={colors.interactive.surface} />
+                  ) : (
+                    'Verify'
+                  )}
+                </Button>
+
+                <View style={styles.resendRow}>
+                  <Button
+                    variant="ghost"
+                    size="small"
+                    onPress={handleResend}
+                    disabled={isResending || resendCountdown > 0}
+                    accessibilityLabel="Send the code again"
+                    testID="resend-button"
+                  >
+                    {resendCountdown > 0 ? `Resend code in ${resendCountdown}s` : 'Resend code'}
+                  </Button>
+                  {resendError && (
+                    <FieldError message={resendError} visible={!!resendError} testID="resend-error" />
+                  )}
+                </View>
+
+                <Button
+                  variant="ghost"
+                  size="small"
+                  onPress={handleBackPress}
+                  accessibilityLabel="Change phone number"
+                  testID="change-number-button"
+                >
+                  Change number
+                </Button>
+              </Animated.View>
+            </View>
+
+            <AuthFooter style={styles.footer} />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </GradientBackground>
+    </SafeArea>
+  );
+};
+
+// ========================================================================================
+// STYLES - ENTERPRISE DESIGN SYSTEM
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    justifyContent: 'center',
+    minHeight: SCREEN_HEIGHT * 0.6,
+  },
+  formContainer: {
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  headerContainer: {
+    marginBottom: 32,
+    alignItems: 'center',
+  },
+  title: {
+    marginBottom: 16,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  subtitle: {
+    lineHeight: 24,
+    opacity: 0.8,
+    paddingHorizontal: 16,
+  },
+  inputContainer: {
+    marginBottom: 8,
+  },
+  expiry: {
+    marginBottom: 24,
+    opacity: 0.8,
+  },
+  globalError: {
+    marginBottom: 16,
+  },
+  submitButton: {
+    height: 56,
+    borderRadius: 16,
+    marginBottom: 16,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  resendRow: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  footer: {
+    paddingHorizontal: 24,
+    marginTop: 'auto',
+  },
+});
+
+export default PhoneVerificationScreen;
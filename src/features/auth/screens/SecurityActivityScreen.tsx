@@ -0,0 +1,329 @@
+// src/features/auth/screens/SecurityActivityScreen.tsx
+// IRANVERSE Security Activity - On-device auth history, opened from the Security screen
+// Sign-ins, failed attempts, sign-outs, lockouts and suspicious events recorded on this phone
+// Built for 90M users - See what happened to your account without contacting support
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  BackHandler,
+  ScrollView,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../../../App';
+
+// Enterprise Component Library
+import SafeArea from '../../../shared/components/layout/SafeArea';
+import GradientBackground from '../../../shared/components/layout/GradientBackground';
+import Text from '../../../shared/components/ui/Text';
+import Button from '../../../shared/components/ui/Button';
+import Loader from '../../../shared/components/ui/Loader';
+import { useTheme } from '../../../shared/theme/ThemeProvider';
+
+// Auth Components
+import AuthHeader from '../components/AuthHeader';
+
+import { useAuth } from '../hooks/useAuth';
+import { authAuditLog } from '../utils/authAuditLog';
+import { AuthAuditEntry, AuthEvent } from '../types';
+
+// ========================================================================================
+// TYPES & HELPERS - SECURITY ACTIVITY
+// ========================================================================================
+
+type SecurityActivityScreenProps = NativeStackScreenProps<RootStackParamList, 'SecurityActivity'>;
+
+const EVENT_LABELS: Record<AuthEvent, string> = {
+  login_success: 'Signed in',
+  login_failure: 'Sign-in failed',
+  logout: 'Signed out',
+  token_refresh: 'Session renewed',
+  password_reset: 'Password reset',
+  email_verified: 'Email verified',
+  account_locked: 'Account locked',
+  suspicious_activity: 'Suspicious activity',
+};
+
+const ALERT_EVENTS: AuthEvent[] = ['login_failure', 'account_locked', 'suspicious_activity'];
+
+const METHOD_NAMES: Record<string, string> = {
+  password: 'password',
+  two_factor: 'two-factor code',
+  oauth: 'Google or Apple',
+  magic_link: 'email link',
+  phone: 'phone number',
+  biometric: 'biometrics',
+};
+
+const DETAIL_TEXT: Record<string, string> = {
+  all_devices: 'All devices were signed out',
+  session_expired: 'Session expired',
+  session_revoked: 'Session was ended by the server',
+  trusted_device_rejected: 'This device was no longer trusted',
+  magic_link_device_mismatch: 'A sign-in link was opened on another device',
+  oauth_state_mismatch: 'A social sign-in response could not be verified',
+  requested: 'Reset email requested',
+  completed: 'New password set',
+};
+
+/**
+ * "with password · INVALID_CREDENTIALS"
+ */
+const describeEntry = ({ metadata }: AuthAuditEntry): string | null => {
+  if (!metadata) return null;
+
+  const parts: string[] = [];
+  if (metadata.method) parts.push(`with ${METHOD_NAMES[metadata.method] ?? metadata.method}`);
+  const detail = metadata.reason ?? metadata.stage;
+  if (detail && detail !== 'user') parts.push(DETAIL_TEXT[detail] ?? detail);
+  if (metadata.source === 'deep_link') parts.push('from email link');
+  return parts.length ? parts.join(' · ') : null;
+};
+
+const describeTime = ({ timestamp }: AuthAuditEntry): string => {
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(timestamp).getTime()) / 1000));
+  if (seconds < 60) return 'Just now';
+  if (seconds < 60 * 60) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 24 * 60 * 60) return `${Math.floor(seconds / 3600)} h ago`;
+  return new Date(timestamp).toLocaleString();
+};
+
+const getErrorMessage = (error: any): string =>
+  error?.userMessage || error?.message || 'Something went wrong. Please try again.';
+
+// ========================================================================================
+// SECURITY ACTIVITY SCREEN IMPLEMENTATION
+// ========================================================================================
+
+const SecurityActivityScreen: React.FC<SecurityActivityScreenProps> = ({ navigation }) => {
+  // Theme System
+  const theme = useTheme();
+  const { colors } = theme;
+
+  // Authentication
+  const { user, requireStepUp } = useAuth();
+  const userId = user?.id;
+
+  const [entries, setEntries] = useState<AuthAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // ========================================================================================
+  // ACTIONS
+  // ========================================================================================
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await authAuditLog.getEntries(userId));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleClear = useCallback(() => {
+    Alert.alert(
+      'Clear security activity?',
+      'The history on this device will be deleted. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await requireStepUp('Clear security activity');
+              await authAuditLog.clear();
+              setEntries([]);
+            } catch (clearError: any) {
+              if (clearError?.type === 'STEP_UP_CANCELLED') return;
+              Alert.alert('Could not clear activity', getErrorMessage(clearError));
+            }
+          },
+        },
+      ]
+    );
+  }, [requireStepUp]);
+
+  const handleBackPress = useCallback(() => {
+    navigation.goBack();
+  }, [navigation]);
+
+  // Android back button handling
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
+      handleBackPress();
+      return true;
+    });
+
+    return () => backHandler.remove();
+  }, [handleBackPress]);
+
+  // ========================================================================================
+  // RENDER HELPERS
+  // ========================================================================================
+
+  const renderEntry = (entry: AuthAuditEntry) => {
+    const isAlert = ALERT_EVENTS.includes(entry.event);
+    const description = describeEntry(entry);
+
+    return (
+      <View
+        key={entry.id}
+        style={[
+          styles.entryCard,
+          { borderColor: isAlert ? colors.interactive.text.primary : colors.interactive.border.subtle },
+        ]}
+        testID={`activity-${entry.id}`}
+      >
+        <View style={styles.entryHeader}>
+          <Text variant="body" style={[styles.entryTitle, { color: colors.interactive.text.primary }]}>
+            {isAlert ? '⚠️ ' : ''}{EVENT_LABELS[entry.event]}
+          </Text>
+          <Text variant="caption" style={{ color: colors.interactive.text.secondary }}>
+            {describeTime(entry)}
+          </Text>
+        </View>
+        {description && (
+          <Text variant="caption" style={{ color: colors.interactive.text.secondary }}>
+            {description}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  // ========================================================================================
+  // COMPONENT RENDER
+  // ========================================================================================
+
+  return (
+    <SafeArea edges={['top', 'bottom']} style={styles.container}>
+      <GradientBackground animated style={styles.background}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={isLoading && entries.length > 0} onRefresh={loadEntries} />}
+        >
+          <AuthHeader showBackButton onBackPress={handleBackPress} style={styles.header} />
+
+          <View style={styles.content}>
+            <View style={styles.headerContainer}>
+              <Text variant="h2" align="center" style={[styles.title, { color: colors.interactive.text.primary }]}>
+                Security Activity
+              </Text>
+              <Text variant="body" align="center" style={[styles.subtitle, { color: colors.interactive.text.secondary }]}>
+                Sign-ins and security events recorded on this device. If something looks unfamiliar, change your password.
+              </Text>
+            </View>
+
+            {isLoading && entries.length === 0 ? (
+              <Loader size="large" style={styles.loader} />
+            ) : entries.length === 0 ? (
+              <Text variant="body" align="center" style={[styles.empty, { color: colors.interactive.text.secondary }]}>
+                No activity recorded yet.
+              </Text>
+            ) : (
+              entries.map(renderEntry)
+            )}
+
+            {entries.length > 0 && (
+              <Button
+                variant="ghost"
+                size="medium"
+                fullWidth
+                onPress={handleClear}
+                style={styles.clearButton}
+                accessibilityLabel="Clear security activity"
+                testID="clear-activity-button"
+              >
+                Clear History
+              </Button>
+            )}
+          </View>
+        </ScrollView>
+      </GradientBackground>
+    </SafeArea>
+  );
+};
+
+// ========================================================================================
+// STYLES - ENTERPRISE DESIGN SYSTEM
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  headerContainer: {
+    marginTop: 24,
+    marginBottom: 32,
+    alignItems: 'center',
+  },
+  title: {
+    marginBottom: 16,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  subtitle: {
+    lineHeight: 24,
+    opacity: 0.8,
+    paddingHorizontal: 8,
+  },
+  loader: {
+    marginTop: 32,
+  },
+  empty: {
+    marginTop: 32,
+    opacity: 0.8,
+  },
+  entryCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+    marginBottom: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  entryTitle: {
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  clearButton: {
+    marginTop: 16,
+  },
+});
+
+export default SecurityActivityScreen;
@@ -0,0 +1,213 @@
+// src/features/auth/screens/SecuritySettingsScreen.tsx
+// IRANVERSE Security Settings - Account protection for signed-in users
+// Two-factor setup, signed-in devices and security activity, opened from Home
+// Built for 90M users - Every security control one tap from the main screen
+import React, { useCallback, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  BackHandler,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../../../App';
+
+// Enterprise Component Library
+import SafeArea from '../../../shared/components/layout/SafeArea';
+import GradientBackground from '../../../shared/components/layout/GradientBackground';
+import Text from '../../../shared/components/ui/Text';
+import { useTheme } from '../../../shared/theme/ThemeProvider';
+
+// Auth Components
+import AuthHeader from '../components/AuthHeader';
+
+import { useAuth } from '../hooks/useAuth';
+
+// ========================================================================================
+// TYPES - SECURITY SETTINGS
+// ========================================================================================
+
+type SecuritySettingsScreenProps = NativeStackScreenProps<RootStackParamList, 'SecuritySettings'>;
+
+interface SecurityRow {
+  title: string;
+  description: string;
+  status?: string;
+  onPress: () => void;
+  testID: string;
+}
+
+// ========================================================================================
+// SECURITY SETTINGS SCREEN IMPLEMENTATION
+// ========================================================================================
+
+const SecuritySettingsScreen: React.FC<SecuritySettingsScreenProps> = ({ navigation }) => {
+  // Theme System
+  const theme = useTheme();
+  const { colors } = theme;
+
+  // Authentication
+  const { user } = useAuth();
+
+  const rows: SecurityRow[] = [
+    {
+      title: 'Two-Factor Authentication',
+      description: 'Ask for a code from your authenticator app when signing in. Manage recovery codes.',
+      status: user?.is2FAEnabled ? 'On' : 'Off',
+      onPress: () => navigation.navigate('TwoFactorSetup'),
+      testID: 'two-factor-row',
+    },
+    {
+      title: 'Where You\'re Signed In',
+      description: 'See the devices signed in to your account and sign out the ones you don\'t recognise.',
+      onPress: () => navigation.navigate('ActiveSessions'),
+      testID: 'active-sessions-row',
+    },
+    {
+      title: 'Security Activity',
+      description: 'Review recent sign-ins, password changes and other security events.',
+      onPress: () => navigation.navigate('SecurityActivity'),
+      testID: 'security-activity-row',
+    },
+  ];
+
+  const handleBackPress = useCallback(() => {
+    navigation.goBack();
+  }, [navigation]);
+
+  // Android back button handling
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
+      handleBackPress();
+      return true;
+    });
+
+    return () => backHandler.remove();
+  }, [handleBackPress]);
+
+  // ========================================================================================
+  // RENDER HELPERS
+  // ========================================================================================
+
+  const renderRow = ({ title, description, status, onPress, testID }: SecurityRow) => (
+    <TouchableOpacity
+      key={testID}
+      style={[styles.row, { borderColor: colors.interactive.border.subtle }]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={status ? `${title}, ${status}` : title}
+      testID={testID}
+    >
+      <View style={styles.rowHeader}>
+        <Text variant="body" style={[styles.rowTitle, { color: colors.interactive.text.primary }]}>
+          {title}
+        </Text>
+        {status && (
+          <Text variant="caption" style={{ color: colors.interactive.text.secondary }}>
+            {status}
+          </Text>
+        )}
+      </View>
+      <Text variant="caption" style={{ color: colors.interactive.text.secondary }}>
+        {description}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  // ========================================================================================
+  // COMPONENT RENDER
+  // ========================================================================================
+
+  return (
+    <SafeArea edges={['top', 'bottom']} style={styles.container}>
+      <GradientBackground animated style={styles.background}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <AuthHeader showBackButton onBackPress={handleBackPress} style={styles.header} />
+
+          <View style={styles.content}>
+            <View style={styles.headerContainer}>
+              <Text variant="h2" align="center" style={[styles.title, { color: colors.interactive.text.primary }]}>
+                Security
+              </Text>
+              <Text variant="body" align="center" style={[styles.subtitle, { color: colors.interactive.text.secondary }]}>
+                Protect your account and review how it is used.
+              </Text>
+            </View>
+
+            {rows.map(renderRow)}
+          </View>
+        </ScrollView>
+      </GradientBackground>
+    </SafeArea>
+  );
+};
+
+// ========================================================================================
+// STYLES - ENTERPRISE DESIGN SYSTEM
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  headerContainer: {
+    marginTop: 24,
+    marginBottom: 32,
+    alignItems: 'center',
+  },
+  title: {
+    marginBottom: 16,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  subtitle: {
+    lineHeight: 24,
+    opacity: 0.8,
+    paddingHorizontal: 8,
+  },
+  row: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+    marginBottom: 12,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  rowTitle: {
+    fontWeight: '600',
+    marginRight: 8,
+  },
+});
+
+export default SecuritySettingsScreen;
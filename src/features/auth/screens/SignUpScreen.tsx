@@ -26,39 +26,14 @@ import Card from '../../../shared/components/ui/Card';
 import KeyboardAvoidingView from '../../../shared/components/layout/KeyboardAvoidingView';
 import AuthHeader from '../components/AuthHeader';
 import AuthFooter from '../components/AuthFooter';
+import { useAuth } from '../hooks/useAuth';
+import { AuthError } from '../types';
+import { systemApi } from '../../../core/constants/api';
+import { FEATURE_FLAGS } from '../../../core/config/app.config';
 
 // Import the centralized type definitions from App.tsx
 import { RootStackParamList } from '../../../../App';
 
-// ========================================================================================
-// ENTERPRISE API CONFIGURATION - PRODUCTION DEPLOYMENT
-// ========================================================================================
-
-const getApiBaseUrl = () => {
-  if (__DEV__) {
-    // Development mode - use production API for testing
-    return 'https://api.iranverse.io/api/v1';
-  } else {
-    // Production mode
-    return 'https://api.iranverse.io/api/v1';
-  }
-};
-
-const IRANVERSE_API = {
-  baseURL: getApiBaseUrl(),
-  auth: {
-    register: '/auth/register',
-    login: '/auth/login',
-    verifyEmail: '/auth/verify-email',
-    health: '/health'
-  },
-  timeout: 30000, // 30 seconds for auth operations
-  headers: {
-    'Content-Type': 'application/json',
-    'X-Iranian-Verified': 'true', // Higher rate limits (2000 requests per 15 min)
-  }
-};
-
 // ========================================================================================
 // TYPES & INTERFACES - ENTERPRISE SIGNUP SYSTEM
 // ========================================================================================
@@ -87,18 +62,6 @@ interface SignupState {
   stepProgress: number;
 }
 
-interface ApiResponse {
-  success: boolean;
-  message: string;
-  data?: {
-    timezone?: string;
-    language?: string;
-    locale?: string;
-    userId?: string;
-  };
-  error?: string;
-}
-
 // ========================================================================================
 // OAUTH BUTTON COMPONENT - ENTERPRISE COMPLIANT
 // ========================================================================================
@@ -174,6 +137,7 @@ const OAuthButton: React.FC<OAuthButtonProps> = ({ provider, onPress, disabled =
 const SignupScreen: React.FC = () => {
   // Navigation
   const navigation = useNavigation<SignupScreenNavigationProp>();
+  const { signup } = useAuth();
 
   // Component State
   const [state, setState] = useState<SignupState>({
@@ -223,32 +187,13 @@ const SignupScreen: React.FC = () => {
   // ENTERPRISE API HANDLERS - PRODUCTION AUTHENTICATION
   // ========================================================================================
 
-  const handleAuthResponse = useCallback((response: ApiResponse) => {
-    if (response.success) {
-      // Registration successful - user will receive Persian email
-      return { status: 'success', data: response.data };
-    } else {
-      // Handle Persian error messages
-      return { status: 'error', message: response.error || response.message };
-    }
-  }, []);
-
   const checkSystemHealth = useCallback(async (): Promise<boolean> => {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-      // Use the main health endpoint for production
-      const response = await fetch('https://api.iranverse.io/health', {
-        method: 'GET',
-        headers: IRANVERSE_API.headers,
-        signal: controller.signal,
-      });
-      
-      clearTimeout(timeoutId);
+      // Health probe runs against whichever API mirror is currently reachable
+      const response = await systemApi.getHealth({ timeout: 10000, retries: 0 });
       
-      // Production health check - expect 200 for healthy system
-      return response.status === 200;
+      // Degraded backends still accept registrations
+      return response.data?.status !== 'unhealthy';
     } catch (error) {
       console.warn('Health check failed - proceeding with authentication attempt:', error);
       // Enterprise fallback: Attempt authentication even if health check fails
@@ -449,82 +394,48 @@ const SignupScreen: React.FC = () => {
         console.warn('System health check failed - attempting registration anyway');
       }
 
-      // Enterprise API Gateway call with production configuration
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), IRANVERSE_API.timeout);
-
-      const requestBody = {
-        email: state.email.trim().toLowerCase(),
+      const email = state.email.trim().toLowerCase();
+      const response = await signup({
+        email,
         password: state.password,
+        username: email.split('@')[0],
         firstName: state.firstName.trim(),
-        lastName: state.lastName.trim() || '',
-      };
-
-      console.log('IRANVERSE Registration Request:', {
-        url: `${IRANVERSE_API.baseURL}${IRANVERSE_API.auth.register}`,
-        headers: IRANVERSE_API.headers,
-        body: { ...requestBody, password: '[REDACTED]' }
+        lastName: state.lastName.trim() || undefined,
+        preferredLanguage: 'auto',
+        termsAccepted: state.termsAccepted,
+        privacyPolicyAccepted: state.privacyPolicyAccepted,
+        marketingOptIn: state.marketingConsent,
+        // Device details are filled in by AuthContext
+        deviceInfo: {
+          platform: Platform.OS as 'ios' | 'android',
+          osVersion: String(Platform.Version),
+          appVersion: '1.0.0',
+          deviceId: '',
+        },
       });
 
-      const response = await fetch(`${IRANVERSE_API.baseURL}${IRANVERSE_API.auth.register}`, {
-        method: 'POST',
-        headers: IRANVERSE_API.headers,
-        body: JSON.stringify(requestBody),
-        signal: controller.signal,
+      // Enterprise success - Navigate to email verification screen
+      navigation.navigate('EmailSent', {
+        email: state.email,
+        tempUserId: response.user.id,
+        verificationType: 'signup',
       });
 
-      clearTimeout(timeoutId);
-
-      const data: ApiResponse = await response.json();
-
-      console.log('IRANVERSE Registration Response:', {
-        status: response.status,
-        success: data.success,
-        message: data.message,
-        data: data.data
-      });
-
-      const result = handleAuthResponse(data);
-
-      if (result.status === 'success') {
-        // Enterprise success - Navigate to email verification screen
-        navigation.navigate('EmailSent', {
-          email: state.email,
-          tempUserId: data.data?.userId || `temp_${Date.now()}`,
-          verificationType: 'signup',
-        });
-
-        setState(prev => ({ ...prev, isSubmitting: false, validationErrors: {} }));
-        triggerHaptic();
-
-        console.log('✅ IRANVERSE Registration Success - Persian email verification sent');
-      } else {
-        throw new Error(result.message || 'Registration failed');
-      }
-
+      setState(prev => ({ ...prev, isSubmitting: false, validationErrors: {} }));
+      triggerHaptic();
     } catch (error) {
-      console.error('IRANVERSE Registration Error:', error);
-      
-      let errorMessage = 'Registration failed. Please try again.';
-      
-      if (error instanceof TypeError && error.message.includes('Network request failed')) {
-        errorMessage = 'Enterprise API Gateway not reachable. Please ensure:\n• Backend server is running on localhost:3000\n• API Gateway is operational\n• Network configuration is correct';
-      } else if (error instanceof Error && error.name === 'AbortError') {
-        errorMessage = 'Request timed out after 30 seconds. Please check your connection and try again.';
-      } else if (error instanceof Error && error.message) {
-        errorMessage = error.message;
-      }
+      const authError = error as AuthError;
 
       setState(prev => ({
         ...prev,
         isSubmitting: false,
         validationErrors: {
-          general: errorMessage,
+          general: authError?.userMessage || 'Registration failed. Please try again.',
         },
       }));
       triggerShakeAnimation();
     }
-  }, [state, navigation, triggerShakeAnimation, checkSystemHealth, handleAuthResponse]);
+  }, [state, navigation, signup, triggerShakeAnimation, checkSystemHealth]);
 
   // ========================================================================================
   // NAVIGATION HANDLERS - ENTERPRISE PATTERNS
@@ -534,6 +445,10 @@ const SignupScreen: React.FC = () => {
     navigation.navigate('Login', { email: state.email });
   }, [navigation, state.email]);
 
+  const handlePhoneSignupPress = useCallback(() => {
+    navigation.navigate('PhoneAuth', { mode: 'signup' });
+  }, [navigation]);
+
   // Android back button handling
   useFocusEffect(
     useCallback(() => {
@@ -972,6 +887,21 @@ const SignupScreen: React.FC = () => {
               {/* Action Button */}
               {renderActionButton()}
 
+              {/* Phone Sign-Up */}
+              {FEATURE_FLAGS.phoneLogin && state.currentStep === 'personal' && (
+                <Button
+                  variant="ghost"
+                  size="medium"
+                  fullWidth
+                  onPress={handlePhoneSignupPress}
+                  disabled={state.isSubmitting}
+                  accessibilityLabel="Sign up with phone number instead"
+                  testID="phone-signup-button"
+                >
+                  📱 Sign up with phone number instead
+                </Button>
+              )}
+
               {/* Footer */}
               {renderFooter()}
 
@@ -0,0 +1,493 @@
+// src/features/auth/screens/TwoFactorChallengeScreen.tsx
+// IRANVERSE Two-Factor Challenge - Second step of password login
+// Authenticator app, SMS or recovery code, with "remember this device"
+// Built for 90M users - Account takeover protection without friction on trusted devices
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  Animated,
+  Platform,
+  Dimensions,
+  BackHandler,
+  KeyboardAvoidingView,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../../../App';
+
+// Enterprise Component Library
+import SafeArea from '../../../shared/components/layout/SafeArea';
+import GradientBackground from '../../../shared/components/layout/GradientBackground';
+import Text from '../../../shared/components/ui/Text';
+import Button from '../../../shared/components/ui/Button';
+import Input from '../../../shared/components/forms/Input';
+import FieldError from '../../../shared/components/forms/FieldError';
+import Loader from '../../../shared/components/ui/Loader';
+import { useTheme } from '../../../shared/theme/ThemeProvider';
+
+// Auth Components
+import AuthHeader from '../components/AuthHeader';
+import AuthFooter from '../components/AuthFooter';
+
+import { useAuth } from '../hooks/useAuth';
+import { MfaMethod } from '../types';
+
+// ========================================================================================
+// TYPES & CONSTANTS - TWO-FACTOR CHALLENGE
+// ========================================================================================
+
+type TwoFactorChallengeScreenProps = NativeStackScreenProps<RootStackParamList, 'TwoFactorChallenge'>;
+
+const { height: SCREEN_HEIGHT } = Dimensions.get('window');
+
+const METHOD_LABELS: Record<MfaMethod, string> = {
+  totp: 'Authenticator app',
+  sms: 'Text message',
+  recovery_code: 'Recovery code',
+};
+
+const CODE_LENGTH = 6;
+
+// ========================================================================================
+// TWO-FACTOR CHALLENGE SCREEN IMPLEMENTATION
+// ========================================================================================
+
+const TwoFactorChallengeScreen: React.FC<TwoFactorChallengeScreenProps> = ({ navigation, route }) => {
+  const { email } = route.params;
+
+  // Theme System
+  const theme = useTheme();
+  const { colors, animations } = theme;
+
+  // Authentication
+  const {
+    mfaChallenge,
+    isAuthenticated,
+    verifyTwoFactor,
+    sendTwoFactorSms,
+    cancelTwoFactor,
+    isLoading,
+    error,
+    clearError,
+  } = useAuth();
+
+  // Form State
+  const [method, setMethod] = useState<MfaMethod>(mfaChallenge?.preferredMethod ?? 'totp');
+  const [code, setCode] = useState('');
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [smsHint, setSmsHint] = useState<string | null>(mfaChallenge?.phoneHint ?? null);
+  const [smsError, setSmsError] = useState<string | null>(null);
+  const [isSendingSms, setIsSendingSms] = useState(false);
+  const [resendCountdown, setResendCountdown] = useState(0);
+
+  // Animation Values
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const slideAnim = useRef(new Animated.Value(50)).current;
+
+  // ========================================================================================
+  // ENTRANCE ANIMATION & GUARDS
+  // ========================================================================================
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: animations.duration.medium,
+          useNativeDriver: true,
+        }),
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 300,
+          friction: 12,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [animations, fadeAnim, slideAnim]);
+
+  // Without a pending challenge there is nothing to answer - back to the password step
+  useEffect(() => {
+    if (!mfaChallenge && !isLoading && !isAuthenticated) {
+      navigation.replace('Login', { email });
+    }
+  }, [mfaChallenge, isLoading, isAuthenticated, navigation, email]);
+
+  // SMS resend countdown
+  useEffect(() => {
+    if (resendCountdown <= 0) return;
+    const timer = setTimeout(() => setResendCountdown(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendCountdown]);
+
+  // ========================================================================================
+  // HANDLERS
+  // ========================================================================================
+
+  const handleSendSms = useCallback(async () => {
+    setIsSendingSms(true);
+    setSmsError(null);
+
+    try {
+      const dispatch = await sendTwoFactorSms();
+      setSmsHint(dispatch.phoneHint);
+      setResendCountdown(dispatch.resendAfter);
+    } catch (err: any) {
+      setSmsError(err?.userMessage || err?.message || 'Could not send the code. Please try again.');
+    } finally {
+      setIsSendingSms(false);
+    }
+  }, [sendTwoFactorSms]);
+
+  const handleMethodChange = useCallback((next: MfaMethod) => {
+    setMethod(next);
+    setCode('');
+    clearError();
+
+    // Text the code as soon as SMS is picked, unless one was just sent
+    if (next === 'sms' && resendCountdown <= 0) {
+      handleSendSms();
+    }
+  }, [clearError, handleSendSms, resendCountdown]);
+
+  const handleCodeChange = useCallback((value: string) => {
+    clearError();
+    setCode(method === 'recovery_code'
+      ? value.toUpperCase()
+      : value.replace(/\D/g, '').slice(0, CODE_LENGTH));
+  }, [clearError, method]);
+
+  const isCodeComplete = method === 'recovery_code' ? code.trim().length >= 8 : code.length === CODE_LENGTH;
+
+  const handleVerify = useCallback(async () => {
+    if (!isCodeComplete) return;
+
+    try {
+      const response = await verifyTwoFactor({ method, code, rememberDevice });
+
+      navigation.replace('AuthComplete', {
+        userId: response.user.id,
+        email: response.user.email,
+        userName: response.user.displayName,
+        accessToken: response.tokens.accessToken,
+        isNewUser: !!response.isNewUser,
+        nextAction: response.nextAction === 'avatar_creation' ? 'avatar_creation' : 'home',
+        hasAvatar: response.user.hasAvatar,
+      });
+    } catch (err) {
+      // Error is handled by auth context
+      setCode('');
+    }
+  }, [isCodeComplete, verifyTwoFactor, method, code, rememberDevice, navigation]);
+
+  // Dropping the challenge sends the guard above back to the password step
+  const handleBackPress = useCallback(() => {
+    cancelTwoFactor();
+  }, [cancelTwoFactor]);
+
+  // Android back button handling
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
+      handleBackPress();
+      return true;
+    });
+
+    return () => backHandler.remove();
+  }, [handleBackPress]);
+
+  // ========================================================================================
+  // RENDER HELPERS
+  // ========================================================================================
+
+  const renderMethodPicker = () => {
+    const methods = mfaChallenge?.methods ?? [];
+    if (methods.length < 2) return null;
+
+    return (
+      <View style={styles.methodRow}>
+        {methods.map(item => (
+          <Button
+            key={item}
+            variant={item === method ? 'secondary' : 'ghost'}
+            size="small"
+            onPress={() => handleMethodChange(item)}
+            style={styles.methodButton}
+            accessibilityLabel={`Use ${METHOD_LABELS[item]}`}
+            testID={`method-${item}`}
+          >
+            {METHOD_LABELS[item]}
+          </Button>
+        ))}
+      </View>
+    );
+  };
+
+  const getInstructions = (): string => {
+    switch (method) {
+      case 'sms':
+        return smsHint
+          ? `Enter the 6-digit code we texted to ${smsHint}.`
+          : 'We will text a 6-digit code to your phone.';
+      case 'recovery_code':
+        return 'Enter one of the recovery codes you saved when you turned on two-factor authentication. Each code works once.';
+      case 'totp':
+      default:
+        return 'Enter the 6-digit code from your authenticator app.';
+    }
+  };
+
+  // ========================================================================================
+  // COMPONENT RENDER
+  // ========================================================================================
+
+  return (
+    <SafeArea edges={['top', 'bottom']} style={styles.container}>
+      <GradientBackground animated style={styles.background}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoid}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 20}
+        >
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            <AuthHeader
+              showBackButton
+              onBackPress={handleBackPress}
+              style={styles.header}
+            />
+
+            <View style={styles.content}>
+              <Animated.View
+                style={[
+                  styles.formContainer,
+                  {
+                    opacity: fadeAnim,
+                    transform: [{ translateY: slideAnim }],
+                  },
+                ]}
+              >
+                <View style={styles.headerContainer}>
+                  <Text
+                    variant="h2"
+                    align="center"
+                    style={[styles.title, { color: colors.interactive.text.primary }]}
+                  >
+                    Two-Factor Verification
+                  </Text>
+
+                  <Text
+                    variant="body"
+                    align="center"
+                    style={[styles.subtitle, { color: colors.interactive.text.secondary }]}
+                  >
+                    {getInstructions()}
+                  </Text>
+                </View>
+
+                {renderMethodPicker()}
+
+                {method === 'sms' && (
+                  <View style={styles.smsRow}>
+                    <Button
+                      variant="ghost"
+                      size="small"
+                      onPress={handleSendSms}
+                      disabled={isSendingSms || resendCountdown > 0}
+                      accessibilityLabel="Send code by text message"
+                      testID="send-sms-button"
+                    >
+                      {resendCountdown > 0
+                        ? `Resend code in ${resendCountdown}s`
+                        : smsHint ? 'Resend code' : 'Send code'}
+                    </Button>
+                    {smsError && (
+                      <FieldError message={smsError} visible={!!smsError} testID="sms-error" />
+                    )}
+                  </View>
+                )}
+
+                <View style={styles.inputContainer}>
+                  <Input
+                    label={method === 'recovery_code' ? 'Recovery code' : 'Verification code'}
+                    value={code}
+                    onChangeText={handleCodeChange}
+                    placeholder={method === 'recovery_code' ? 'XXXX-XXXX' : '123456'}
+                    keyboardType={method === 'recovery_code' ? 'default' : 'number-pad'}
+                    autoCapitalize={method === 'recovery_code' ? 'characters' : 'none'}
+                    autoCorrect={false}
+                    autoComplete={method === 'recovery_code' ? 'off' : 'one-time-code'}
+                    maxLength={method === 'recovery_code' ? 20 : CODE_LENGTH}
+                    returnKeyType="done"
+                    onSubmitEditing={handleVerify}
+                    accessibilityLabel="Verification code input"
+                    testID="code-input"
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={styles.checkboxRow}
+                  onPress={() => setRememberDevice(prev => !prev)}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: rememberDevice }}
+                  testID="remember-device"
+                >
+                  <View style={[styles.checkbox, rememberDevice && { backgroundColor: colors.accent.success }]}>
+                    {rememberDevice && <Text style={styles.checkmark}>✓</Text>}
+                  </View>
+                  <Text style={[styles.checkboxLabel, { color: colors.interactive.text.secondary }]}>
+                    Remember this device
+                  </Text>
+                </TouchableOpacity>
+
+                {error && (
+                  <FieldError
+                    message={error.userMessage || error.message}
+                    visible={!!error}
+                    style={styles.globalError}
+                    testID="global-error"
+                  />
+                )}
+
+                <Button
+                  variant="primary"
+                  size="large"
+                  fullWidth
+                  onPress={handleVerify}
+                  disabled={isLoading || !isCodeComplete}
+                  style={styles.submitButton}
+                  accessibilityLabel="Verify code"
+                  testID="verify-button"
+                >
+                  {isLoading ? (
+                    <Loader size="small" color={colors.interactive.surface} />
+                  ) : (
+                    'Verify'
+                  )}
+                </Button>
+              </Animated.View>
+            </View>
+
+            <AuthFooter style={styles.footer} />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </GradientBackground>
+    </SafeArea>
+  );
+};
+
+// ========================================================================================
+// STYLES - ENTERPRISE DESIGN SYSTEM
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    justifyContent: 'center',
+    minHeight: SCREEN_HEIGHT * 0.6,
+  },
+  formContainer: {
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  headerContainer: {
+    marginBottom: 32,
+    alignItems: 'center',
+  },
+  title: {
+    marginBottom: 16,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  subtitle: {
+    lineHeight: 24,
+    opacity: 0.8,
+    paddingHorizontal: 16,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  methodButton: {
+    marginHorizontal: 4,
+    marginBottom: 8,
+  },
+  smsRow: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  checkmark: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  checkboxLabel: {
+    fontSize: 14,
+  },
+  globalError: {
+    marginBottom: 16,
+  },
+  submitButton: {
+    height: 56,
+    borderRadius: 16,
+    marginBottom: 32,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  footer: {
+    paddingHorizontal: 24,
+    marginTop: 'auto',
+  },
+});
+
+export default TwoFactorChallengeScreen;
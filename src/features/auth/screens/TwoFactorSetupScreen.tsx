@@ -0,0 +1,468 @@
+// src/features/auth/screens/TwoFactorSetupScreen.tsx
+// IRANVERSE Two-Factor Setup - TOTP enrollment and recovery codes
+// QR code / secret display, first-code confirmation, recovery code handoff
+// Built for 90M users - Works with any RFC 6238 authenticator app
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  Animated,
+  Platform,
+  Dimensions,
+  BackHandler,
+  KeyboardAvoidingView,
+  ScrollView,
+  Image,
+  Share,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../../../App';
+
+// Enterprise Component Library
+import SafeArea from '../../../shared/components/layout/SafeArea';
+import GradientBackground from '../../../shared/components/layout/GradientBackground';
+import Text from '../../../shared/components/ui/Text';
+import Button from '../../../shared/components/ui/Button';
+import Input from '../../../shared/components/forms/Input';
+import FieldError from '../../../shared/components/forms/FieldError';
+import Loader from '../../../shared/components/ui/Loader';
+import { useTheme } from '../../../shared/theme/ThemeProvider';
+
+// Auth Components
+import AuthHeader from '../components/AuthHeader';
+
+import { useAuth } from '../hooks/useAuth';
+import { TotpEnrollment } from '../types';
+
+// ========================================================================================
+// TYPES & CONSTANTS - TWO-FACTOR SETUP
+// ========================================================================================
+
+type TwoFactorSetupScreenProps = NativeStackScreenProps<RootStackParamList, 'TwoFactorSetup'>;
+
+/**
+ * intro -> scan -> recovery for enrollment, manage when 2FA is already on
+ */
+type SetupStep = 'intro' | 'scan' | 'recovery' | 'manage';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+const CODE_LENGTH = 6;
+const QR_SIZE = Math.min(220, SCREEN_WIDTH - 96);
+
+/**
+ * Base32 secret in groups of four for manual entry
+ */
+const formatSecret = (secret: string): string => secret.replace(/(.{4})/g, '$1 ').trim();
+
+// ========================================================================================
+// TWO-FACTOR SETUP SCREEN IMPLEMENTATION
+// ========================================================================================
+
+const TwoFactorSetupScreen: React.FC<TwoFactorSetupScreenProps> = ({ navigation }) => {
+  // Theme System
+  const theme = useTheme();
+  const { colors, animations } = theme;
+
+  // Authentication
+  const {
+    user,
+    enableTwoFactor,
+    confirmTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+  } = useAuth();
+
+  // Flow State
+  const [step, setStep] = useState<SetupStep>(user?.is2FAEnabled ? 'manage' : 'intro');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Animation Values
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+
+  // ========================================================================================
+  // STEP TRANSITIONS
+  // ========================================================================================
+
+  useEffect(() => {
+    fadeAnim.setValue(0);
+    Animated.timing(fadeAnim, {
+      toValue: 1,
+      duration: animations.duration.medium,
+      useNativeDriver: true,
+    }).start();
+  }, [step, animations, fadeAnim]);
+
+  /**
+   * Run an API action with shared busy/error handling
+   */
+  const runAction = useCallback(async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setErrorMessage(null);
+
+    try {
+      await action();
+    } catch (err: any) {
+      setErrorMessage(err?.userMessage || err?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsBusy(false);
+      setCode('');
+    }
+  }, []);
+
+  const handleStart = useCallback(() => runAction(async () => {
+    setEnrollment(await enableTwoFactor());
+    setStep('scan');
+  }), [runAction, enableTwoFactor]);
+
+  const handleConfirm = useCallback(() => runAction(async () => {
+    setRecoveryCodes(await confirmTwoFactor(code));
+    setEnrollment(null); // the secret is never shown again
+    setStep('recovery');
+  }), [runAction, confirmTwoFactor, code]);
+
+  const handleRegenerate = useCallback(() => runAction(async () => {
+    setRecoveryCodes(await regenerateRecoveryCodes(code));
+    setStep('recovery');
+  }), [runAction, regenerateRecoveryCodes, code]);
+
+  const handleDisable = useCallback(() => runAction(async () => {
+    await disableTwoFactor(code);
+    navigation.goBack();
+  }), [runAction, disableTwoFactor, code, navigation]);
+
+  const handleShareCodes = useCallback(() => {
+    Share.share({
+      title: 'IRANVERSE recovery codes',
+      message: `IRANVERSE recovery codes - each works once:\n\n${recoveryCodes.join('\n')}`,
+    }).catch(() => {});
+  }, [recoveryCodes]);
+
+  const handleCodeChange = useCallback((value: string) => {
+    setErrorMessage(null);
+    setCode(value.replace(/\D/g, '').slice(0, CODE_LENGTH));
+  }, []);
+
+  const handleBackPress = useCallback(() => {
+    // Leaving mid-enrollment is fine - 2FA only turns on after confirmation
+    navigation.goBack();
+  }, [navigation]);
+
+  // Android back button handling
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
+      handleBackPress();
+      return true;
+    });
+
+    return () => backHandler.remove();
+  }, [handleBackPress]);
+
+  // ========================================================================================
+  // RENDER HELPERS
+  // ========================================================================================
+
+  const renderTitle = (title: string, subtitle: string) => (
+    <View style={styles.headerContainer}>
+      <Text
+        variant="h2"
+        align="center"
+        style={[styles.title, { color: colors.interactive.text.primary }]}
+      >
+        {title}
+      </Text>
+      <Text
+        variant="body"
+        align="center"
+        style={[styles.subtitle, { color: colors.interactive.text.secondary }]}
+      >
+        {subtitle}
+      </Text>
+    </View>
+  );
+
+  const renderCodeInput = (onSubmit: () => void) => (
+    <View style={styles.inputContainer}>
+      <Input
+        label="Verification code"
+        value={code}
+        onChangeText={handleCodeChange}
+        placeholder="123456"
+        keyboardType="number-pad"
+        autoComplete="one-time-code"
+        maxLength={CODE_LENGTH}
+        returnKeyType="done"
+        onSubmitEditing={onSubmit}
+        accessibilityLabel="Verification code input"
+        testID="code-input"
+      />
+    </View>
+  );
+
+  const renderPrimaryButton = (label: string, onPress: () => void, disabled = false) => (
+    <Button
+      variant="primary"
+      size="large"
+      fullWidth
+      onPress={onPress}
+      disabled={isBusy || disabled}
+      style={styles.primaryButton}
+      accessibilityLabel={label}
+      testID="primary-button"
+    >
+      {isBusy ? <Loader size="small" color={colors.interactive.surface} /> : label}
+    </Button>
+  );
+
+  const renderStep = () => {
+    switch (step) {
+      case 'intro':
+        return (
+          <>
+            {renderTitle(
+              'Two-Factor Authentication',
+              'Protect your account with a 6-digit code from an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password and others) every time you sign in on a new device.'
+            )}
+            {renderPrimaryButton('Set Up Authenticator App', handleStart)}
+          </>
+        );
+
+      case 'scan':
+        return (
+          <>
+            {renderTitle(
+              'Scan the QR Code',
+              'Scan this code with your authenticator app, then enter the 6-digit code it shows.'
+            )}
+            {enrollment && (
+              <View style={styles.qrContainer}>
+                <Image
+                  source={{ uri: enrollment.qrCodeDataUrl }}
+                  style={styles.qrCode}
+                  accessibilityLabel="Authenticator QR code"
+                />
+                <Text variant="caption" align="center" style={{ color: colors.interactive.text.secondary }}>
+                  Can't scan? Enter this key manually:
+                </Text>
+                <Text
+                  selectable
+                  align="center"
+                  style={[styles.secret, { color: colors.interactive.text.primary }]}
+                  testID="totp-secret"
+                >
+                  {formatSecret(enrollment.secret)}
+                </Text>
+              </View>
+            )}
+            {renderCodeInput(handleConfirm)}
+            {renderPrimaryButton('Turn On Two-Factor', handleConfirm, code.length !== CODE_LENGTH)}
+          </>
+        );
+
+      case 'recovery':
+        return (
+          <>
+            {renderTitle(
+              'Save Your Recovery Codes',
+              'If you lose your phone, each of these codes can be used once instead of an authenticator code. Store them somewhere safe - they will not be shown again.'
+            )}
+            <View style={styles.codesContainer}>
+              {recoveryCodes.map(item => (
+                <Text
+                  key={item}
+                  selectable
+                  style={[styles.recoveryCode, { color: colors.interactive.text.primary }]}
+                >
+                  {item}
+                </Text>
+              ))}
+            </View>
+            <Button
+              variant="ghost"
+              size="medium"
+              onPress={handleShareCodes}
+              style={styles.secondaryButton}
+              accessibilityLabel="Save recovery codes"
+              testID="share-codes-button"
+            >
+              Save or Share Codes
+            </Button>
+            {renderPrimaryButton("I've Saved My Codes", () => navigation.goBack())}
+          </>
+        );
+
+      case 'manage':
+      default:
+        return (
+          <>
+            {renderTitle(
+              'Two-Factor Is On',
+              'Enter a code from your authenticator app to get new recovery codes or to turn two-factor authentication off.'
+            )}
+            {renderCodeInput(handleRegenerate)}
+            {renderPrimaryButton('Get New Recovery Codes', handleRegenerate, code.length !== CODE_LENGTH)}
+            <Button
+              variant="ghost"
+              size="medium"
+              onPress={handleDisable}
+              disabled={isBusy || code.length !== CODE_LENGTH}
+              style={styles.secondaryButton}
+              accessibilityLabel="Turn off two-factor authentication"
+              testID="disable-button"
+            >
+              Turn Off Two-Factor
+            </Button>
+          </>
+        );
+    }
+  };
+
+  // ========================================================================================
+  // COMPONENT RENDER
+  // ========================================================================================
+
+  return (
+    <SafeArea edges={['top', 'bottom']} style={styles.container}>
+      <GradientBackground animated style={styles.background}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoid}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 20}
+        >
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            <AuthHeader
+              showBackButton={step !== 'recovery'}
+              onBackPress={handleBackPress}
+              style={styles.header}
+            />
+
+            <Animated.View style={[styles.content, { opacity: fadeAnim }]}>
+              {renderStep()}
+
+              {errorMessage && (
+                <FieldError
+                  message={errorMessage}
+                  visible={!!errorMessage}
+                  style={styles.globalError}
+                  testID="global-error"
+                />
+              )}
+            </Animated.View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </GradientBackground>
+    </SafeArea>
+  );
+};
+
+// ========================================================================================
+// STYLES - ENTERPRISE DESIGN SYSTEM
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  headerContainer: {
+    marginTop: 24,
+    marginBottom: 32,
+    alignItems: 'center',
+  },
+  title: {
+    marginBottom: 16,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  subtitle: {
+    lineHeight: 24,
+    opacity: 0.8,
+    paddingHorizontal: 8,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  qrCode: {
+    width: QR_SIZE,
+    height: QR_SIZE,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    marginBottom: 16,
+  },
+  secret: {
+    marginTop: 8,
+    fontSize: 16,
+    letterSpacing: 1.5,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  inputContainer: {
+    marginBottom: 24,
+  },
+  codesContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+    marginBottom: 16,
+  },
+  recoveryCode: {
+    width: '48%',
+    paddingVertical: 6,
+    fontSize: 16,
+    textAlign: 'center',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  primaryButton: {
+    height: 56,
+    borderRadius: 16,
+    marginBottom: 16,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  secondaryButton: {
+    marginBottom: 16,
+  },
+  globalError: {
+    marginTop: 8,
+  },
+});
+
+export default TwoFactorSetupScreen;
@@ -30,9 +30,25 @@ export interface AuthState {
   // Session Metadata
   sessionMetadata: SessionMetadata | null;
   
+  // Second Factor (credentials accepted, waiting for a code)
+  mfaChallenge: MfaChallenge | null;
+  
+  // Social Sign-In (provider email belongs to a password account, waiting for the password)
+  oauthLink: OAuthLinkChallenge | null;
+  
+  // Phone Sign-In (SMS code sent, waiting for the user to enter it)
+  phoneOtp: PhoneOtpChallenge | null;
+  
+  // Biometric Unlock
+  biometric: BiometricState;
+  
   // Security Tracking
   lastActivity: Date | null;
   deviceId: string | null;
+  
+  // Session Supervision
+  isSessionLocked: boolean; // idle lock - covered until the user re-verifies
+  sessionExpiresAt: Date | null; // hard expiry, forced sign-out
 }
 
 /**
@@ -42,8 +58,9 @@ export interface AuthState {
 export interface AuthenticatedUser {
   // Core Identity
   id: string;
-  email: string;
+  email: string; // empty for accounts created with a phone number
   username: string;
+  phoneNumber?: string; // E.164
   
   // Profile Information
   firstName?: string;
@@ -54,6 +71,7 @@ export interface AuthenticatedUser {
   isEmailVerified: boolean;
   isPhoneVerified?: boolean;
   is2FAEnabled?: boolean;
+  hasPassword?: boolean; // false for phone and social sign-ups until a password is set
   
   // Persian/Localization Support
   preferredLanguage: 'en' | 'fa' | 'auto';
@@ -125,6 +143,7 @@ export interface SessionMetadata {
   // Security Flags
   isTrustedDevice: boolean;
   requiresStepUp?: boolean; // For sensitive operations
+  lastVerifiedAt?: Date; // Last password, second-factor, biometric or step-up check
 }
 
 // ========================================================================================
@@ -155,6 +174,7 @@ export interface LoginRequest {
   // Optional MFA
   mfaCode?: string;
   mfaMethod?: 'totp' | 'sms' | 'email';
+  trustedDeviceToken?: string; // skips the challenge on remembered devices
 }
 
 /**
@@ -277,6 +297,109 @@ export interface PasswordResetConfirmRequest {
   confirmPassword: string;
 }
 
+// ========================================================================================
+// TWO-FACTOR AUTHENTICATION TYPES
+// ========================================================================================
+
+/**
+ * Second factors a challenge can be answered with
+ */
+export type MfaMethod = 'totp' | 'sms' | 'recovery_code';
+
+/**
+ * Issued by the server when a password login needs a second factor
+ */
+export interface MfaChallenge {
+  challengeId: string;
+  methods: MfaMethod[];
+  preferredMethod: MfaMethod;
+  phoneHint?: string; // masked number for SMS, e.g. +98 912 *** **67
+  expiresAt: string; // ISO 8601
+}
+
+/**
+ * Answer to the pending MFA challenge
+ */
+export interface MfaVerifyRequest {
+  method: MfaMethod;
+  code: string;
+  rememberDevice?: boolean; // marks this device trusted (SessionMetadata.isTrustedDevice)
+}
+
+/**
+ * SMS one-time code dispatch receipt
+ */
+export interface MfaSmsDispatch {
+  phoneHint: string;
+  expiresAt: string; // ISO 8601
+  resendAfter: number; // seconds
+}
+
+/**
+ * Step-up code receipt - texted to a verified phone number, otherwise emailed
+ */
+export interface StepUpCodeDispatch {
+  channel: 'sms' | 'email';
+  destinationHint: string;
+  expiresAt: string; // ISO 8601
+  resendAfter: number; // seconds
+}
+
+/**
+ * Magic link dispatch receipt - the same whether or not the email has an account
+ */
+export interface MagicLinkDispatch {
+  expiresAt: string; // ISO 8601
+  resendAfter: number; // seconds
+}
+
+/**
+ * TOTP enrollment material shown once during setup
+ */
+export interface TotpEnrollment {
+  secret: string; // base32, for manual entry
+  otpauthUrl: string;
+  qrCodeDataUrl: string; // PNG data URI rendered by the server
+}
+
+// ========================================================================================
+// LOGIN THROTTLING TYPES
+// ========================================================================================
+
+/**
+ * Failed-login lockout state for one account (client counter reconciled with server locks)
+ */
+export interface LoginAttemptStatus {
+  isLocked: boolean;
+  lockedUntil: number | null; // epoch ms
+  lockSource: 'client' | 'server' | null;
+  retryAfter: number; // seconds until the next attempt is allowed (lock or backoff)
+  attemptsRemaining: number;
+}
+
+// ========================================================================================
+// BIOMETRIC & STEP-UP TYPES
+// ========================================================================================
+
+export type BiometryKind = 'face' | 'fingerprint' | 'iris';
+
+/**
+ * Biometric unlock availability and enrollment on this device
+ */
+export interface BiometricState {
+  biometryType: BiometryKind | null; // null when no biometrics are enrolled
+  isEnabled: boolean; // user opted in to biometric unlock
+  isLocked: boolean; // a stored session is waiting for a biometric unlock
+  email: string | null; // account the gated token belongs to
+}
+
+/**
+ * Biometric unlock opt-in, persisted in secure storage
+ */
+export interface BiometricUnlockPreference {
+  email: string;
+}
+
 // ========================================================================================
 // ERROR HANDLING TYPES - ENTERPRISE GRADE
 // ========================================================================================
@@ -330,6 +453,7 @@ export type AuthErrorType =
   | 'TOKEN_INVALID'
   | 'TOKEN_REVOKED'
   | 'REFRESH_TOKEN_EXPIRED'
+  | 'SESSION_EXPIRED'
   
   // Security Errors
   | 'TOO_MANY_ATTEMPTS'
@@ -337,6 +461,24 @@ export type AuthErrorType =
   | 'DEVICE_NOT_TRUSTED'
   | 'MFA_REQUIRED'
   | 'MFA_INVALID'
+  | 'BIOMETRIC_UNAVAILABLE'
+  | 'STEP_UP_CANCELLED'
+  
+  // Social Sign-In Errors
+  | 'OAUTH_CANCELLED'
+  | 'OAUTH_FAILED'
+  | 'ACCOUNT_LINK_REQUIRED'
+  
+  // Magic Link Errors
+  | 'MAGIC_LINK_INVALID'
+  | 'MAGIC_LINK_USED'
+  | 'MAGIC_LINK_DEVICE_MISMATCH'
+  
+  // Phone Sign-In Errors
+  | 'INVALID_PHONE_NUMBER'
+  | 'PHONE_ALREADY_REGISTERED'
+  | 'OTP_INVALID'
+  | 'OTP_EXPIRED'
   
   // Network/Server Errors
   | 'NETWORK_ERROR'
@@ -365,6 +507,34 @@ export interface AuthContextMethods {
   login: (credentials: LoginRequest) => Promise<AuthResponse>;
   signup: (data: SignupRequest) => Promise<AuthResponse>;
   logout: (options?: LogoutRequest) => Promise<void>;
+  getLoginStatus: (email: string) => Promise<LoginAttemptStatus>;
+  
+  // Social Sign-In (throws MFA_REQUIRED like login, ACCOUNT_LINK_REQUIRED, or OAUTH_CANCELLED)
+  loginWithOAuth: (provider: OAuthProviderId) => Promise<AuthResponse>;
+  linkOAuthAccount: (password: string) => Promise<AuthResponse>;
+  cancelOAuthLink: () => void;
+  
+  // Magic Link (loginWithMagicLink throws MFA_REQUIRED like login)
+  requestMagicLink: (email: string) => Promise<MagicLinkDispatch>;
+  loginWithMagicLink: (token: string) => Promise<AuthResponse>;
+  
+  // Phone Sign-In (verifyPhoneOtp throws MFA_REQUIRED like login)
+  requestPhoneOtp: (request: PhoneOtpRequest) => Promise<PhoneOtpDispatch>;
+  verifyPhoneOtp: (code: string) => Promise<AuthResponse>;
+  resendPhoneOtp: () => Promise<PhoneOtpDispatch>;
+  cancelPhoneOtp: () => void;
+  
+  // Biometric Unlock
+  enableBiometricUnlock: () => Promise<boolean>;
+  disableBiometricUnlock: () => Promise<void>;
+  unlockWithBiometrics: () => Promise<AuthResponse>;
+  
+  // Step-Up (resolves once the user re-verified, rejects with STEP_UP_CANCELLED)
+  requireStepUp: (reason: string) => Promise<void>;
+  
+  // Session Supervision
+  lockSession: () => void;
+  updateActivity: () => void;
   
   // Token Management
   refreshToken: () => Promise<TokenRefreshResponse>;
@@ -380,9 +550,16 @@ export interface AuthContextMethods {
   verifyEmail: (token: string) => Promise<void>;
   resendEmailVerification: () => Promise<void>;
   
-  // Security
-  enableTwoFactor: () => Promise<void>;
+  // Two-Factor Challenge (after login throws MFA_REQUIRED)
+  verifyTwoFactor: (request: MfaVerifyRequest) => Promise<AuthResponse>;
+  sendTwoFactorSms: () => Promise<MfaSmsDispatch>;
+  cancelTwoFactor: () => void;
+  
+  // Two-Factor Enrollment
+  enableTwoFactor: () => Promise<TotpEnrollment>;
+  confirmTwoFactor: (code: string) => Promise<string[]>; // recovery codes
   disableTwoFactor: (code: string) => Promise<void>;
+  regenerateRecoveryCodes: (code: string) => Promise<string[]>;
   
   // Utility
   checkAuthStatus: () => Promise<boolean>;
@@ -414,9 +591,14 @@ export interface UseAuthReturn extends AuthContextValue {
 }
 
 // ========================================================================================
-// OAUTH TYPES - FUTURE READY
+// OAUTH TYPES - AUTHORIZATION CODE + PKCE
 // ========================================================================================
 
+/**
+ * Providers wired into OAUTH_CONFIG
+ */
+export type OAuthProviderId = 'google' | 'apple';
+
 /**
  * OAuth provider configuration
  */
@@ -429,11 +611,14 @@ export interface OAuthProvider {
 }
 
 /**
- * OAuth authentication request
+ * OAuth authentication request - the provider's code plus the PKCE verifier that redeems it
  */
 export interface OAuthRequest {
-  provider: string;
+  provider: OAuthProviderId;
   authorizationCode: string;
+  codeVerifier: string;
+  redirectUri: string; // must match the authorization request
+  nonce: string; // echoed in the provider's ID token
   deviceInfo: {
     platform: 'ios' | 'android';
     osVersion: string;
@@ -452,6 +637,53 @@ export interface OAuthResponse extends AuthResponse {
   isLinkedAccount: boolean;
 }
 
+/**
+ * Issued when the provider email already belongs to a password account
+ * The password proves ownership before the provider is linked
+ */
+export interface OAuthLinkChallenge {
+  linkToken: string;
+  provider: OAuthProviderId;
+  email: string;
+  expiresAt: string; // ISO 8601
+}
+
+// ========================================================================================
+// PHONE SIGN-IN TYPES - SMS ONE-TIME CODES
+// ========================================================================================
+
+export type PhoneOtpPurpose = 'login' | 'signup';
+
+/**
+ * Start phone sign-in or sign-up - names are only used when signing up
+ */
+export interface PhoneOtpRequest {
+  phoneNumber: string; // E.164, see core/utils/phone
+  purpose: PhoneOtpPurpose;
+  firstName?: string;
+  lastName?: string;
+  preferredLanguage?: 'en' | 'fa' | 'auto';
+}
+
+/**
+ * SMS code dispatch receipt - login receipts look the same whether or not the number has an account
+ */
+export interface PhoneOtpDispatch {
+  otpId: string;
+  phoneHint: string; // +98 912 *** **67
+  codeLength: number;
+  expiresAt: string; // ISO 8601
+  resendAfter: number; // seconds
+}
+
+/**
+ * Pending phone verification kept in AuthState until the code is entered
+ */
+export interface PhoneOtpChallenge extends PhoneOtpDispatch {
+  phoneNumber: string; // E.164
+  purpose: PhoneOtpPurpose;
+}
+
 // ========================================================================================
 // UTILITY TYPES
 // ========================================================================================
@@ -480,6 +712,18 @@ export interface AuthAnalytics {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Auth event as kept in the on-device audit log
+ */
+export interface AuthAuditEntry {
+  id: string;
+  event: AuthEvent;
+  timestamp: string; // ISO 8601
+  userId?: string;
+  deviceId: string;
+  metadata?: Record<string, any>;
+}
+
 /**
  * Deep link authentication data
  */
@@ -0,0 +1,125 @@
+// src/features/auth/utils/__tests__/loginThrottle.test.ts
+// IRANVERSE Login Throttle Tests
+// Backoff, lockout, server locks and expiry of the failure window
+// Built for 90M users - Guessing passwords gets slower, a real user gets back in
+import { LoginThrottle } from '../loginThrottle';
+
+const mockStore = new Map<string, unknown>();
+
+jest.mock('../../../../core/utils/storage', () => ({
+  STORAGE_KEYS: { loginAttempts: { key: '@iranverse:auth:login_attempts', namespace: 'auth' } },
+  secureStorage: {
+    getItem: jest.fn(async ({ key }: { key: string }) => ({ success: true, data: mockStore.get(key) ?? null })),
+    setItem: jest.fn(async ({ key }: { key: string }, value: unknown) => {
+      mockStore.set(key, JSON.parse(JSON.stringify(value)));
+      return { success: true };
+    }),
+  },
+}));
+
+const CONFIG = { maxAttempts: 5, lockoutDuration: 900, backoffBase: 2, backoffMax: 30 };
+const EMAIL = 'sara@example.com';
+
+describe('LoginThrottle', () => {
+  beforeEach(() => {
+    mockStore.clear();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts with every attempt available', async () => {
+    const throttle = new LoginThrottle(CONFIG);
+
+    expect(await throttle.getStatus(EMAIL)).toEqual({
+      isLocked: false,
+      lockedUntil: null,
+      lockSource: null,
+      retryAfter: 0,
+      attemptsRemaining: 5,
+    });
+  });
+
+  it('backs off from the second failure, doubling up to backoffMax', async () => {
+    const throttle = new LoginThrottle({ ...CONFIG, maxAttempts: 10 });
+    const delays: number[] = [];
+
+    for (let failure = 1; failure <= 6; failure++) {
+      delays.push((await throttle.recordFailure(EMAIL)).retryAfter);
+    }
+
+    expect(delays).toEqual([0, 2, 4, 8, 16, 30]);
+  });
+
+  it('locks the account at maxAttempts', async () => {
+    const throttle = new LoginThrottle(CONFIG);
+    for (let failure = 1; failure < 5; failure++) {
+      await throttle.recordFailure(EMAIL);
+    }
+
+    const update = await throttle.recordFailure(EMAIL);
+
+    expect(update).toMatchObject({ isLocked: true, lockSource: 'client', lockStarted: true, attemptsRemaining: 0, retryAfter: 900 });
+  });
+
+  it('keys accounts by normalized email', async () => {
+    const throttle = new LoginThrottle(CONFIG);
+
+    await throttle.recordFailure('  Sara@Example.com ');
+
+    expect((await throttle.getStatus(EMAIL)).attemptsRemaining).toBe(4);
+  });
+
+  it('clears the record after a successful login', async () => {
+    const throttle = new LoginThrottle(CONFIG);
+    await throttle.recordFailure(EMAIL);
+    await throttle.recordFailure(EMAIL);
+
+    await throttle.recordSuccess(EMAIL);
+
+    expect((await throttle.getStatus(EMAIL)).attemptsRemaining).toBe(5);
+    expect(mockStore.get('@iranverse:auth:login_attempts')).toEqual({});
+  });
+
+  it('forgets failures once the window passes without another', async () => {
+    const throttle = new LoginThrottle(CONFIG);
+    await throttle.recordFailure(EMAIL);
+
+    jest.advanceTimersByTime(900 * 1000);
+
+    expect((await throttle.getStatus(EMAIL)).attemptsRemaining).toBe(5);
+  });
+
+  it('leaves a clean slate when the lock expires', async () => {
+    const throttle = new LoginThrottle(CONFIG);
+    for (let failure = 1; failure <= 5; failure++) {
+      await throttle.recordFailure(EMAIL);
+    }
+
+    jest.advanceTimersByTime(900 * 1000 + 1);
+
+    expect(await throttle.getStatus(EMAIL)).toMatchObject({ isLocked: false, attemptsRemaining: 5 });
+  });
+
+  it('adopts the later of the client and server locks', async () => {
+    const throttle = new LoginThrottle(CONFIG);
+    const serverLockedUntil = Date.now() + 3600 * 1000;
+
+    const update = await throttle.applyServerLock(EMAIL, serverLockedUntil);
+    expect(update).toMatchObject({ isLocked: true, lockSource: 'server', lockedUntil: serverLockedUntil, lockStarted: true });
+
+    const earlier = await throttle.applyServerLock(EMAIL, Date.now() + 60 * 1000);
+    expect(earlier).toMatchObject({ lockedUntil: serverLockedUntil, lockStarted: false });
+  });
+
+  it('restores failures persisted by an earlier launch', async () => {
+    await new LoginThrottle(CONFIG).recordFailure(EMAIL);
+
+    const relaunched = new LoginThrottle(CONFIG);
+
+    expect((await relaunched.getStatus(EMAIL)).attemptsRemaining).toBe(4);
+  });
+});
@@ -0,0 +1,117 @@
+// src/features/auth/utils/__tests__/oauthFlow.test.ts
+// IRANVERSE OAuth Flow Tests
+// PKCE challenge, state verification and the browser outcomes
+// Built for 90M users - A code is only accepted for the request that asked for it
+import { createHash } from 'crypto';
+import * as WebBrowser from 'expo-web-browser';
+import { OAuthFlowError, authorizeWithProvider } from '../oauthFlow';
+
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: { expoConfig: { extra: { googleClientId: 'google-client-id' } } },
+}));
+
+jest.mock('expo-crypto', () => {
+  const nodeCrypto = jest.requireActual<typeof import('crypto')>('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    CryptoEncoding: { BASE64: 'base64' },
+    getRandomBytes: (byteCount: number) => new Uint8Array(nodeCrypto.randomBytes(byteCount)),
+    digestStringAsync: async (_algorithm: string, data: string) =>
+      nodeCrypto.createHash('sha256').update(data).digest('base64'),
+  };
+});
+
+jest.mock('expo-web-browser', () => ({
+  openAuthSessionAsync: jest.fn(),
+}));
+
+const openAuthSession = WebBrowser.openAuthSessionAsync as jest.Mock;
+
+/**
+ * Answer the consent page with `respond(query of the authorization URL)`
+ */
+const browserReturns = (respond: (request: URLSearchParams) => WebBrowser.WebBrowserAuthSessionResult) => {
+  openAuthSession.mockImplementationOnce(async (url: string) => respond(new URL(url).searchParams));
+};
+
+const toBase64Url = (buffer: Buffer) =>
+  buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('authorizeWithProvider', () => {
+  afterEach(() => {
+    openAuthSession.mockReset();
+  });
+
+  it('sends the S256 challenge of the verifier it returns', async () => {
+    let request!: URLSearchParams;
+    browserReturns(query => {
+      request = query;
+      return { type: 'success', url: `iranverse://oauth/callback?code=auth-code&state=${query.get('state')}` };
+    });
+
+    const authorization = await authorizeWithProvider('google');
+
+    expect(authorization.authorizationCode).toBe('auth-code');
+    expect(authorization.codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(request.get('code_challenge_method')).toBe('S256');
+    expect(request.get('code_challenge')).toBe(toBase64Url(createHash('sha256').update(authorization.codeVerifier).digest()));
+    expect(request.get('nonce')).toBe(authorization.nonce);
+    expect(request.get('client_id')).toBe('google-client-id');
+    expect(request.get('response_type')).toBe('code');
+  });
+
+  it('uses a fresh verifier, state and nonce for every sign-in', async () => {
+    const states: string[] = [];
+    const respond = (query: URLSearchParams): WebBrowser.WebBrowserAuthSessionResult => {
+      states.push(query.get('state')!);
+      return { type: 'success', url: `iranverse://oauth/callback?code=auth-code&state=${query.get('state')}` };
+    };
+    browserReturns(respond);
+    browserReturns(respond);
+
+    const first = await authorizeWithProvider('google');
+    const second = await authorizeWithProvider('google');
+
+    expect(second.codeVerifier).not.toBe(first.codeVerifier);
+    expect(second.nonce).not.toBe(first.nonce);
+    expect(states[1]).not.toBe(states[0]);
+  });
+
+  it('rejects a callback for another request', async () => {
+    browserReturns(() => ({ type: 'success', url: 'iranverse://oauth/callback?code=auth-code&state=forged' }));
+
+    await expect(authorizeWithProvider('google')).rejects.toMatchObject({ code: 'STATE_MISMATCH' });
+  });
+
+  it('reads parameters from the fragment', async () => {
+    browserReturns(query => ({ type: 'success', url: `iranverse://oauth/callback#code=auth-code&state=${query.get('state')}` }));
+
+    await expect(authorizeWithProvider('google')).resolves.toMatchObject({ authorizationCode: 'auth-code' });
+  });
+
+  it('treats a closed browser or denied consent as cancelled', async () => {
+    browserReturns(() => ({ type: 'cancel' as WebBrowser.WebBrowserResultType }));
+    await expect(authorizeWithProvider('google')).rejects.toMatchObject({ code: 'CANCELLED' });
+
+    browserReturns(query => ({ type: 'success', url: `iranverse://oauth/callback?error=access_denied&state=${query.get('state')}` }));
+    await expect(authorizeWithProvider('google')).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+
+  it('reports provider errors with their description', async () => {
+    browserReturns(query => ({
+      type: 'success',
+      url: `iranverse://oauth/callback?error=server_error&error_description=Try+again+later&state=${query.get('state')}`,
+    }));
+
+    const error = await authorizeWithProvider('google').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(OAuthFlowError);
+    expect(error).toMatchObject({ code: 'PROVIDER_ERROR', message: 'Try again later' });
+  });
+
+  it('refuses providers without a client ID', async () => {
+    await expect(authorizeWithProvider('apple')).rejects.toMatchObject({ code: 'NOT_CONFIGURED' });
+    expect(openAuthSession).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+// src/features/auth/utils/authAuditLog.ts
+// IRANVERSE Auth Audit Log
+// On-device history of sign-ins, sign-outs and security events, shown on the Security screen
+// Built for 90M users - The user can see what happened to their account on this phone
+import { ENCRYPTION_CONFIG } from '../../../core/config/app.config';
+import { secureStorage, STORAGE_KEYS } from '../../../core/utils/storage';
+import { AuthAnalytics, AuthAuditEntry, AuthEvent } from '../types';
+
+// ========================================================================================
+// AUDIT LOG TYPES
+// ========================================================================================
+
+export interface AuthAuditLogConfig {
+  maxEntries: number; // oldest entries are dropped beyond this
+  ignoredEvents: AuthEvent[]; // too frequent to be useful to the user
+}
+
+// ========================================================================================
+// AUTH AUDIT LOG
+// ========================================================================================
+
+/**
+ * Append-only list in secure storage, newest first
+ * Writes are chained so events arriving together are never lost
+ */
+export class AuthAuditLog {
+  private writeChain: Promise<void> = Promise.resolve();
+  private sequence = 0;
+
+  constructor(
+    private readonly config: AuthAuditLogConfig = {
+      maxEntries: ENCRYPTION_CONFIG.authAuditLogSize,
+      ignoredEvents: ['token_refresh'],
+    }
+  ) {}
+
+  /**
+   * Auth event listener - pass to authEvents.subscribe
+   */
+  record = (event: AuthAnalytics): void => {
+    if (this.config.ignoredEvents.includes(event.event)) return;
+
+    const entry: AuthAuditEntry = {
+      id: `${event.timestamp.getTime().toString(36)}_${(this.sequence++).toString(36)}`,
+      event: event.event,
+      timestamp: event.timestamp.toISOString(),
+      userId: event.userId,
+      deviceId: event.deviceId,
+      metadata: event.metadata,
+    };
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        const entries = await this.read();
+        await secureStorage.setItem(
+          STORAGE_KEYS.authAuditLog,
+          [entry, ...entries].slice(0, this.config.maxEntries)
+        );
+      })
+      .catch(error => {
+        console.warn('Failed to write auth audit entry:', error);
+      });
+  };
+
+  /**
+   * Entries for one account, newest first - events without an account (failed sign-ins) are included
+   */
+  async getEntries(userId?: string): Promise<AuthAuditEntry[]> {
+    await this.writeChain;
+    const entries = await this.read();
+    return userId ? entries.filter(entry => !entry.userId || entry.userId === userId) : entries;
+  }
+
+  async clear(): Promise<void> {
+    const cleared = this.writeChain.then(async () => {
+      await secureStorage.removeItem(STORAGE_KEYS.authAuditLog);
+    });
+    this.writeChain = cleared.catch(error => {
+      console.warn('Failed to clear auth audit log:', error);
+    });
+    await cleared;
+  }
+
+  private async read(): Promise<AuthAuditEntry[]> {
+    const stored = await secureStorage.getItem<AuthAuditEntry[]>(STORAGE_KEYS.authAuditLog);
+    return stored.success && Array.isArray(stored.data) ? stored.data : [];
+  }
+}
+
+export const authAuditLog = new AuthAuditLog();
+
+export default authAuditLog;
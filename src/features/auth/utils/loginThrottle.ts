@@ -0,0 +1,214 @@
+// src/features/auth/utils/loginThrottle.ts
+// IRANVERSE Login Throttle
+// Persisted per-account failure tracking, progressive delays and lockout
+// Built for 90M users - Slows password guessing before the server has to
+import { ENCRYPTION_CONFIG } from '../../../core/config/app.config';
+import { secureStorage, STORAGE_KEYS } from '../../../core/utils/storage';
+import { LoginAttemptStatus } from '../types';
+
+// ========================================================================================
+// THROTTLE TYPES
+// ========================================================================================
+
+export interface LoginThrottleConfig {
+  maxAttempts: number; // failures before lockout
+  lockoutDuration: number; // seconds
+  backoffBase: number; // seconds - delay after the 2nd failure, doubled per failure
+  backoffMax: number; // seconds
+}
+
+/**
+ * Failure history for one account
+ */
+export interface LoginAttemptRecord {
+  failures: number;
+  lastFailureAt: number; // epoch ms
+  lockedUntil: number | null; // epoch ms
+  lockSource: 'client' | 'server' | null;
+}
+
+/**
+ * Status after recording a failure or server lock
+ */
+export interface LoginThrottleUpdate extends LoginAttemptStatus {
+  lockStarted: boolean; // this call started a new lock
+}
+
+// ========================================================================================
+// LOGIN THROTTLE
+// ========================================================================================
+
+/**
+ * Failure counter keyed by normalized email, persisted in secure storage
+ * Counters reset after a successful login or lockoutDuration without failures
+ */
+export class LoginThrottle {
+  private records: Record<string, LoginAttemptRecord> = {};
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(
+    private readonly config: LoginThrottleConfig = {
+      maxAttempts: ENCRYPTION_CONFIG.maxLoginAttempts,
+      lockoutDuration: ENCRYPTION_CONFIG.lockoutDuration,
+      backoffBase: ENCRYPTION_CONFIG.loginBackoffBase,
+      backoffMax: ENCRYPTION_CONFIG.loginBackoffMax,
+    }
+  ) {}
+
+  /**
+   * Current lock/backoff state for an account
+   */
+  async getStatus(email: string): Promise<LoginAttemptStatus> {
+    await this.load();
+    return this.toStatus(this.getRecord(email));
+  }
+
+  /**
+   * Count a rejected password - locks the account at maxAttempts
+   */
+  async recordFailure(email: string): Promise<LoginThrottleUpdate> {
+    await this.load();
+    const now = Date.now();
+    const record = this.getRecord(email) ?? { failures: 0, lastFailureAt: now, lockedUntil: null, lockSource: null };
+
+    record.failures += 1;
+    record.lastFailureAt = now;
+
+    let lockStarted = false;
+    if (record.failures >= this.config.maxAttempts && !this.isLocked(record, now)) {
+      record.lockedUntil = now + this.config.lockoutDuration * 1000;
+      record.lockSource = 'client';
+      lockStarted = true;
+    }
+
+    this.records[normalizeEmail(email)] = record;
+    await this.persist();
+    return { ...this.toStatus(record), lockStarted };
+  }
+
+  /**
+   * Adopt a lock reported by the server - the later of both locks wins
+   */
+  async applyServerLock(email: string, lockedUntil: number): Promise<LoginThrottleUpdate> {
+    await this.load();
+    const now = Date.now();
+    const record = this.getRecord(email) ?? { failures: 0, lastFailureAt: now, lockedUntil: null, lockSource: null };
+    const lockStarted = !this.isLocked(record, now);
+
+    if (!record.lockedUntil || lockedUntil > record.lockedUntil) {
+      record.lockedUntil = lockedUntil;
+      record.lockSource = 'server';
+    }
+    record.failures = Math.max(record.failures, this.config.maxAttempts);
+    record.lastFailureAt = now;
+
+    this.records[normalizeEmail(email)] = record;
+    await this.persist();
+    return { ...this.toStatus(record), lockStarted };
+  }
+
+  /**
+   * Forget an account's failures (password accepted)
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.load();
+    const key = normalizeEmail(email);
+    if (this.records[key]) {
+      delete this.records[key];
+      await this.persist();
+    }
+  }
+
+  // ========================================================================================
+  // INTERNALS
+  // ========================================================================================
+
+  /**
+   * Live record for an account, dropping it once the failure window has passed
+   */
+  private getRecord(email: string): LoginAttemptRecord | null {
+    const key = normalizeEmail(email);
+    const record = this.records[key];
+    if (!record) return null;
+
+    const now = Date.now();
+    const windowEnd = record.lastFailureAt + this.config.lockoutDuration * 1000;
+    if (!this.isLocked(record, now) && now >= windowEnd) {
+      delete this.records[key];
+      return null;
+    }
+
+    // An expired lock leaves a clean slate
+    if (record.lockedUntil && record.lockedUntil <= now) {
+      delete this.records[key];
+      return null;
+    }
+    return record;
+  }
+
+  private isLocked(record: LoginAttemptRecord, now: number): boolean {
+    return !!record.lockedUntil && record.lockedUntil > now;
+  }
+
+  /**
+   * Backoff before the next attempt: none after the 1st failure, then base, 2x base, 4x base...
+   */
+  private getBackoff(failures: number): number {
+    if (failures < 2) return 0;
+    return Math.min(this.config.backoffBase * Math.pow(2, failures - 2), this.config.backoffMax);
+  }
+
+  private toStatus(record: LoginAttemptRecord | null): LoginAttemptStatus {
+    if (!record) {
+      return {
+        isLocked: false,
+        lockedUntil: null,
+        lockSource: null,
+        retryAfter: 0,
+        attemptsRemaining: this.config.maxAttempts,
+      };
+    }
+
+    const now = Date.now();
+    const isLocked = this.isLocked(record, now);
+    const backoffUntil = record.lastFailureAt + this.getBackoff(record.failures) * 1000;
+    const waitUntil = isLocked ? record.lockedUntil! : backoffUntil;
+
+    return {
+      isLocked,
+      lockedUntil: isLocked ? record.lockedUntil : null,
+      lockSource: isLocked ? record.lockSource : null,
+      retryAfter: Math.max(0, Math.ceil((waitUntil - now) / 1000)),
+      attemptsRemaining: Math.max(0, this.config.maxAttempts - record.failures),
+    };
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = secureStorage
+        .getItem<Record<string, LoginAttemptRecord>>(STORAGE_KEYS.loginAttempts)
+        .then(result => {
+          if (result.success && result.data) {
+            this.records = { ...result.data, ...this.records };
+          }
+        })
+        .catch(error => {
+          console.warn('Failed to load login attempts:', error);
+        });
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    await secureStorage.setItem(STORAGE_KEYS.loginAttempts, this.records);
+  }
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Shared throttle used by AuthContext
+ */
+export const loginThrottle = new LoginThrottle();
+
+export default loginThrottle;
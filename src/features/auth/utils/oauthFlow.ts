@@ -0,0 +1,132 @@
+// src/features/auth/utils/oauthFlow.ts
+// IRANVERSE OAuth Flow - Authorization code + PKCE in the system browser
+// Opens the provider's consent page, verifies state on the way back and hands the code to the backend
+// Built for 90M users - Codes are useless without the verifier that never leaves the device
+import * as Crypto from 'expo-crypto';
+import * as WebBrowser from 'expo-web-browser';
+import { OAUTH_CONFIG } from '../../../core/config/app.config';
+import { OAuthProviderId, OAuthRequest } from '../types';
+
+// ========================================================================================
+// FLOW TYPES
+// ========================================================================================
+
+/**
+ * Result of the browser step - everything the exchange needs except device details
+ */
+export type OAuthAuthorization = Omit<OAuthRequest, 'deviceInfo'>;
+
+export type OAuthFlowErrorCode =
+  | 'CANCELLED' // browser closed or consent denied
+  | 'NOT_CONFIGURED' // no client ID for the provider
+  | 'STATE_MISMATCH' // callback was not for this request
+  | 'EXPIRED' // the browser stayed open past OAUTH_CONFIG.flowTimeout
+  | 'PROVIDER_ERROR'; // provider answered with an error or without a code
+
+export class OAuthFlowError extends Error {
+  constructor(public readonly code: OAuthFlowErrorCode, message: string) {
+    super(message);
+    this.name = 'OAuthFlowError';
+  }
+}
+
+// ========================================================================================
+// OAUTH FLOW
+// ========================================================================================
+
+/**
+ * Run the provider's consent page and return a verified authorization code
+ * The nonce goes to the provider and to the backend, which checks it against the ID token
+ */
+export const authorizeWithProvider = async (provider: OAuthProviderId): Promise<OAuthAuthorization> => {
+  const config = OAUTH_CONFIG.providers[provider];
+  if (!config.clientId) {
+    throw new OAuthFlowError('NOT_CONFIGURED', `${config.name} sign-in is not configured for this build`);
+  }
+
+  const codeVerifier = randomToken(32);
+  const codeChallenge = toBase64Url(
+    await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, codeVerifier, {
+      encoding: Crypto.CryptoEncoding.BASE64,
+    })
+  );
+  const state = randomToken(16);
+  const nonce = randomToken(16);
+  const startedAt = Date.now();
+
+  const authorizationUrl = `${config.authorizationEndpoint}?${toQuery({
+    ...config.extraParams,
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    response_type: 'code',
+    scope: config.scopes.join(' '),
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  })}`;
+
+  const result = await WebBrowser.openAuthSessionAsync(authorizationUrl, OAUTH_CONFIG.returnUrl);
+  if (result.type !== 'success') {
+    throw new OAuthFlowError('CANCELLED', `${config.name} sign-in was cancelled`);
+  }
+
+  const params = parseCallback(result.url);
+  if (params.state !== state) {
+    throw new OAuthFlowError('STATE_MISMATCH', `${config.name} sign-in could not be verified. Please try again.`);
+  }
+  if (Date.now() - startedAt > OAUTH_CONFIG.flowTimeout * 1000) {
+    throw new OAuthFlowError('EXPIRED', `${config.name} sign-in took too long. Please try again.`);
+  }
+  if (params.error === 'access_denied') {
+    throw new OAuthFlowError('CANCELLED', `${config.name} sign-in was cancelled`);
+  }
+  if (params.error || !params.code) {
+    throw new OAuthFlowError('PROVIDER_ERROR', params.error_description || `${config.name} sign-in failed`);
+  }
+
+  return {
+    provider,
+    authorizationCode: params.code,
+    codeVerifier,
+    redirectUri: config.redirectUri,
+    nonce,
+  };
+};
+
+// ========================================================================================
+// HELPERS
+// ========================================================================================
+
+/**
+ * URL-safe random string from `byteCount` random bytes (43 chars for a 32-byte PKCE verifier)
+ */
+const randomToken = (byteCount: number): string => {
+  const bytes = Crypto.getRandomBytes(byteCount);
+  return toBase64Url(btoa(String.fromCharCode(...bytes)));
+};
+
+const toBase64Url = (base64: string): string =>
+  base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const toQuery = (params: Record<string, string>): string =>
+  Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+/**
+ * Query and fragment parameters of the callback (custom schemes are poorly supported by URL)
+ */
+const parseCallback = (url: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  const start = url.search(/[?#]/);
+  if (start === -1) return params;
+
+  url.slice(start + 1).replace('#', '&').split('&').forEach(pair => {
+    const [key, value = ''] = pair.split('=');
+    if (key) {
+      params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+    }
+  });
+  return params;
+};
@@ -0,0 +1,279 @@
+// src/features/auth/utils/sessionSupervisor.ts
+// IRANVERSE Session Supervisor
+// Idle lock, background lock and hard session expiry driven by AppState
+// Built for 90M users - A phone left on a café table does not stay signed in
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { ENCRYPTION_CONFIG } from '../../../core/config/app.config';
+import { secureStorage, STORAGE_KEYS } from '../../../core/utils/storage';
+
+// ========================================================================================
+// SUPERVISOR TYPES
+// ========================================================================================
+
+export interface SessionSupervisorConfig {
+  idleTimeout: number; // seconds without interaction in the foreground before locking
+  backgroundTimeout: number; // seconds in the background before locking on return
+  sessionTimeout: number; // seconds from sign-in to forced sign-out
+  expiryWarning: number; // seconds before the forced sign-out to warn
+}
+
+/**
+ * Callbacks fired by the supervisor - each at most once until the state changes
+ */
+export interface SessionSupervisorHandlers {
+  onLock: (reason: SessionLockReason) => void;
+  onExpiryWarning: (expiresAt: Date) => void;
+  onExpired: () => void;
+}
+
+export type SessionLockReason = 'idle' | 'background';
+
+/**
+ * Lock state kept across restarts - a force-quit app must not come back unlocked
+ */
+export interface PersistedSessionLock {
+  lockedReason: SessionLockReason | null;
+  lastActivityAt: number;
+  backgroundedAt: number | null;
+}
+
+// ========================================================================================
+// SESSION SUPERVISOR
+// ========================================================================================
+
+/**
+ * Watches one signed-in session
+ * Time in the background counts as idle time; the sign-in time and lock state are persisted
+ * so restarts neither extend the hard expiry nor lift a lock
+ */
+export class SessionSupervisor {
+  private handlers: SessionSupervisorHandlers | null = null;
+  private startedAt: number | null = null;
+  private lastActivityAt = 0;
+  private backgroundedAt: number | null = null;
+  private lockedReason: SessionLockReason | null = null;
+  private hasWarned = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  constructor(
+    private readonly config: SessionSupervisorConfig = {
+      idleTimeout: ENCRYPTION_CONFIG.idleLockTimeout,
+      backgroundTimeout: ENCRYPTION_CONFIG.backgroundLockTimeout,
+      sessionTimeout: ENCRYPTION_CONFIG.sessionTimeout,
+      expiryWarning: ENCRYPTION_CONFIG.sessionExpiryWarning,
+    }
+  ) {}
+
+  /**
+   * Record a fresh sign-in - restarts the hard expiry
+   */
+  async beginSession(): Promise<void> {
+    this.startedAt = Date.now();
+    this.hasWarned = false;
+    this.lockedReason = null;
+    this.lastActivityAt = this.startedAt;
+    this.backgroundedAt = null;
+    await secureStorage.setItem(STORAGE_KEYS.sessionStartedAt, this.startedAt);
+    await this.saveLock();
+  }
+
+  /**
+   * Forget the session (signed out)
+   */
+  async endSession(): Promise<void> {
+    this.stop();
+    this.startedAt = null;
+    this.lockedReason = null;
+    await secureStorage.removeItem(STORAGE_KEYS.sessionStartedAt);
+    await secureStorage.removeItem(STORAGE_KEYS.sessionLock);
+  }
+
+  /**
+   * Start supervising the signed-in session - returns the hard expiry
+   */
+  async start(handlers: SessionSupervisorHandlers): Promise<Date> {
+    this.stop();
+    this.handlers = handlers;
+
+    if (this.startedAt === null) {
+      const stored = await secureStorage.getItem<number>(STORAGE_KEYS.sessionStartedAt);
+      if (stored.success && typeof stored.data === 'number') {
+        this.startedAt = stored.data;
+      } else {
+        // Session restored from before supervision existed - count from now
+        await this.beginSession();
+      }
+    }
+
+    const stored = await secureStorage.getItem<PersistedSessionLock>(STORAGE_KEYS.sessionLock);
+
+    // stop() ran while the sign-in time was loading
+    if (this.handlers !== handlers) {
+      return new Date(this.getExpiresAt());
+    }
+
+    this.lastActivityAt = Date.now();
+    this.backgroundedAt = null;
+    this.lockedReason = null;
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+
+    if (stored.success && stored.data) {
+      const { lockedReason, lastActivityAt, backgroundedAt } = stored.data;
+      // The app was not running since it was last seen - that time counts as background time
+      const awayFor = Date.now() - (backgroundedAt ?? lastActivityAt);
+      this.lastActivityAt = lastActivityAt;
+
+      if (lockedReason) {
+        this.setLocked(lockedReason);
+      } else if (awayFor >= this.config.backgroundTimeout * 1000) {
+        this.setLocked('background');
+      }
+    }
+    this.check();
+
+    return new Date(this.getExpiresAt());
+  }
+
+  /**
+   * Stop timers and listeners (the persisted sign-in time is kept)
+   */
+  stop(): void {
+    this.clearTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.handlers = null;
+  }
+
+  /**
+   * User interaction - cheap enough to call on every touch
+   */
+  recordActivity(): void {
+    if (!this.lockedReason) {
+      this.lastActivityAt = Date.now();
+    }
+  }
+
+  /**
+   * Lock now (e.g. from a "lock app" button)
+   */
+  lock(): void {
+    if (this.handlers && !this.lockedReason) {
+      this.setLocked('idle');
+    }
+  }
+
+  /**
+   * The user re-verified - restart the idle clock
+   */
+  unlock(): void {
+    this.lockedReason = null;
+    this.lastActivityAt = Date.now();
+    this.persistLock();
+    this.check();
+  }
+
+  // ========================================================================================
+  // INTERNALS
+  // ========================================================================================
+
+  private handleAppStateChange = (status: AppStateStatus): void => {
+    if (status === 'background') {
+      this.backgroundedAt = Date.now();
+      this.clearTimer(); // JS timers do not run reliably in the background
+      this.persistLock(); // the app may be killed from here
+      return;
+    }
+
+    if (status === 'active') {
+      const backgroundedAt = this.backgroundedAt;
+      this.backgroundedAt = null;
+      if (backgroundedAt && !this.lockedReason && Date.now() - backgroundedAt >= this.config.backgroundTimeout * 1000) {
+        this.setLocked('background');
+      } else {
+        this.persistLock();
+      }
+      this.check();
+    }
+  };
+
+  /**
+   * Fire whatever is due and arm the timer for the next deadline
+   */
+  private check(): void {
+    this.clearTimer();
+    if (!this.handlers || this.startedAt === null) return;
+
+    const now = Date.now();
+    const expiresAt = this.getExpiresAt();
+    if (now >= expiresAt) {
+      const { onExpired } = this.handlers;
+      this.stop();
+      onExpired();
+      return;
+    }
+
+    const warnAt = expiresAt - this.config.expiryWarning * 1000;
+    if (!this.hasWarned && now >= warnAt) {
+      this.hasWarned = true;
+      this.handlers.onExpiryWarning(new Date(expiresAt));
+    }
+
+    const idleAt = this.lastActivityAt + this.config.idleTimeout * 1000;
+    if (!this.lockedReason && now >= idleAt) {
+      this.setLocked('idle');
+    }
+
+    const deadlines = [expiresAt];
+    if (!this.hasWarned) deadlines.push(warnAt);
+    if (!this.lockedReason) deadlines.push(idleAt);
+
+    // Activity only moves the idle deadline later, so the timer re-arms itself when it fires
+    this.timer = setTimeout(() => this.check(), Math.max(0, Math.min(...deadlines) - now));
+  }
+
+  private setLocked(reason: SessionLockReason): void {
+    this.lockedReason = reason;
+    this.persistLock();
+    this.handlers?.onLock(reason);
+  }
+
+  /**
+   * Save without waiting - timers and AppState callbacks cannot await
+   */
+  private persistLock(): void {
+    this.saveLock().catch(error => {
+      console.warn('Failed to save session lock state:', error);
+    });
+  }
+
+  private async saveLock(): Promise<void> {
+    const lock: PersistedSessionLock = {
+      lockedReason: this.lockedReason,
+      lastActivityAt: this.lastActivityAt,
+      backgroundedAt: this.backgroundedAt,
+    };
+    const result = await secureStorage.setItem(STORAGE_KEYS.sessionLock, lock);
+    if (!result.success) {
+      console.warn('Failed to save session lock state:', result.error);
+    }
+  }
+
+  private getExpiresAt(): number {
+    return (this.startedAt ?? Date.now()) + this.config.sessionTimeout * 1000;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Shared supervisor used by AuthContext
+ */
+export const sessionSupervisor = new SessionSupervisor();
+
+export default sessionSupervisor;
@@ -4,10 +4,12 @@
 // Built for 90M users - 3D Pipeline + Real-time Sync + Status Polling
 import React, { createContext, useContext, useReducer, useEffect, useCallback, ReactNode, useRef } from 'react';
 import { AvatarState, AvatarContextValue, UpdateAvatarRequest, AvatarError, AvatarProcessingStatus, AvatarGender, AvatarStatusResponse } from '../types';
-import { avatarApi } from '../../../core/constants/api';
-import { secureStorage } from '../../../core/utils/storage';
-import { mapAvatarResponse, getDefaultAvatar, validateAvatarData, isAvatarExpired } from '../utils';
-import { ENCRYPTION_CONFIG, AVATAR_CONFIG } from '../../../core/config/app.config';
+import { avatarApi, isRequestQueued } from '../../../core/constants/api';
+import { secureStorage, STORAGE_KEYS } from '../../../core/utils/storage';
+import { useAuthContext } from '../../auth/contexts/AuthContext';
+import { authEvents } from '../../../core/services/authEvents';
+import { getDefaultAvatar, validateAvatarData, isAvatarExpired } from '../utils';
+import { AVATAR_CONFIG } from '../../../core/config/app.config';
 
 // ========================================================================================
 // AVATAR CONTEXT SETUP - ENTERPRISE STATE MANAGEMENT
@@ -208,6 +210,7 @@ interface AvatarProviderProps {
  */
 export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(avatarReducer, initialAvatarState);
+  const { requireStepUp } = useAuthContext();
   
   // Status polling management
   const statusPollingRef = useRef<NodeJS.Timeout | null>(null);
@@ -225,7 +228,7 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
     try {
       // Try to load cached avatar data first
       const cachedAvatar = await secureStorage.getItem<AvatarState>(
-        ENCRYPTION_CONFIG.storageKeys.avatarMetadata
+        STORAGE_KEYS.avatarMetadata
       );
 
       if (cachedAvatar.success && cachedAvatar.data) {
@@ -279,14 +282,14 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
       const response = await avatarApi.updateAvatar(apiRequest);
 
       if (response.success && response.data) {
-        const newAvatarState = mapAvatarResponse(response.data.avatar);
+        const newAvatarState = response.data.avatar;
         
         // Update state
         dispatch({ type: 'SET_AVATAR', payload: newAvatarState });
         
         // Store in secure storage
         await secureStorage.setItem(
-          ENCRYPTION_CONFIG.storageKeys.avatarMetadata,
+          STORAGE_KEYS.avatarMetadata,
           newAvatarState
         );
 
@@ -300,6 +303,21 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
         throw error;
       }
     } catch (error) {
+      // Offline - keep the change locally, the queue replays it on reconnect
+      if (isRequestQueued(error)) {
+        dispatch({
+          type: 'UPDATE_AVATAR',
+          payload: {
+            rpmId: avatarData.rpmId,
+            rpmUrl: avatarData.rpmUrl,
+            configuration: avatarData.configuration,
+            customizations: avatarData.customizations ?? null,
+            lastUpdated: new Date(),
+          },
+        });
+        return;
+      }
+
       const avatarError = createAvatarError('AVATAR_UPDATE_ERROR', getErrorMessage(error));
       dispatch({ type: 'SET_ERROR', payload: avatarError });
       throw avatarError;
@@ -340,8 +358,13 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
 
   /**
    * Clear avatar data
+   * Deleting a server-side avatar needs a step-up - rejects with STEP_UP_CANCELLED and keeps the avatar
    */
   const clearAvatar = useCallback(async (): Promise<void> => {
+    if (state.rpmId) {
+      await requireStepUp('Delete your avatar');
+    }
+
     try {
       // Stop any ongoing polling
       stopStatusPolling();
@@ -360,7 +383,7 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
       }
 
       // Clear from secure storage
-      await secureStorage.removeItem(ENCRYPTION_CONFIG.storageKeys.avatarMetadata);
+      await secureStorage.removeItem(STORAGE_KEYS.avatarMetadata);
 
       // Clear state
       dispatch({ type: 'CLEAR_AVATAR' });
@@ -369,7 +392,7 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
       // Force clear state even on error
       dispatch({ type: 'CLEAR_AVATAR' });
     }
-  }, [state.rpmId]);
+  }, [state.rpmId, requireStepUp]);
 
   /**
    * Fetch avatar from API and sync with local state
@@ -380,14 +403,14 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
 
       if (response.success && response.data) {
         if (response.data.hasAvatar && response.data.avatar) {
-          const avatarState = mapAvatarResponse(response.data.avatar);
+          const avatarState = response.data.avatar;
           
           // Update state
           dispatch({ type: 'SET_AVATAR', payload: avatarState });
           
           // Store in secure storage
           await secureStorage.setItem(
-            ENCRYPTION_CONFIG.storageKeys.avatarMetadata,
+            STORAGE_KEYS.avatarMetadata,
             avatarState
           );
 
@@ -410,7 +433,7 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
       
       // Try to use cached data as fallback
       const cachedAvatar = await secureStorage.getItem<AvatarState>(
-        ENCRYPTION_CONFIG.storageKeys.avatarMetadata
+        STORAGE_KEYS.avatarMetadata
       );
       
       if (cachedAvatar.success && cachedAvatar.data) {
@@ -460,12 +483,12 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
 
         // Handle completion
         if (status === 'complete' && avatar) {
-          const avatarState = mapAvatarResponse(avatar);
+          const avatarState = avatar;
           dispatch({ type: 'SET_AVATAR', payload: avatarState });
           
           // Store completed avatar
           await secureStorage.setItem(
-            ENCRYPTION_CONFIG.storageKeys.avatarMetadata,
+            STORAGE_KEYS.avatarMetadata,
             avatarState
           );
           
@@ -597,7 +620,7 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
   const clearCache = useCallback(async (): Promise<void> => {
     try {
       // Clear secure storage
-      await secureStorage.removeItem(ENCRYPTION_CONFIG.storageKeys.avatarMetadata);
+      await secureStorage.removeItem(STORAGE_KEYS.avatarMetadata);
       
       // In a real implementation, this would also clear any cached assets
       console.log('Avatar cache cleared');
@@ -606,6 +629,21 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
     }
   }, []);
 
+  /**
+   * Drop the previous account's avatar on sign-out and load the next one on sign-in
+   */
+  useEffect(() => {
+    return authEvents.subscribe(event => {
+      if (event.event === 'logout') {
+        stopStatusPolling();
+        dispatch({ type: 'CLEAR_AVATAR' });
+        clearCache();
+      } else if (event.event === 'login_success') {
+        initializeAvatar();
+      }
+    });
+  }, [stopStatusPolling, clearCache, initializeAvatar]);
+
   // ========================================================================================
   // UTILITY METHODS - HELPER FUNCTIONS
   // ========================================================================================
@@ -621,7 +659,7 @@ export const AvatarProvider: React.FC<AvatarProviderProps> = ({ children }) => {
     
     // Store fallback avatar
     await secureStorage.setItem(
-      ENCRYPTION_CONFIG.storageKeys.avatarMetadata,
+      STORAGE_KEYS.avatarMetadata,
       fallbackAvatar
     );
     
@@ -5,7 +5,7 @@
 import { useCallback, useMemo, useEffect } from 'react';
 import { useAvatarContext } from '../contexts/AvatarContext';
 import { AvatarState, UpdateAvatarRequest, AvatarProcessingStatus, AvatarGender } from '../types';
-import { generateVersionedUrl, getOptimizedAvatarUrl, isAvatarExpired, getAvatarQualityScore } from '../utils';
+import { generateVersionedUrl, getOptimizedAvatarUrl, resolveAssetUrl, isAvatarExpired, getAvatarQualityScore } from '../utils';
 
 // ========================================================================================
 // ENHANCED AVATAR HOOK - ENTERPRISE INTERFACE
@@ -202,7 +202,7 @@ export const useAvatar = (): UseAvatarReturn => {
     size: keyof AvatarState['thumbnails'],
     versioned: boolean = true
   ): string | null => {
-    const url = avatarContext.thumbnails[size];
+    const url = resolveAssetUrl(avatarContext.thumbnails[size]);
     if (!url) return null;
     
     return versioned ? generateVersionedUrl(url, avatarContext.version) : url;
@@ -215,7 +215,7 @@ export const useAvatar = (): UseAvatarReturn => {
     type: keyof AvatarState['optimized'],
     versioned: boolean = true
   ): string | null => {
-    const url = avatarContext.optimized[type];
+    const url = resolveAssetUrl(avatarContext.optimized[type]);
     if (!url) return null;
     
     return versioned ? generateVersionedUrl(url, avatarContext.version) : url;
@@ -242,6 +242,7 @@ export const useAvatar = (): UseAvatarReturn => {
         break;
     }
     
+    url = resolveAssetUrl(url);
     if (!url) return null;
     
     return versioned ? generateVersionedUrl(url, avatarContext.version) : url;
@@ -253,7 +254,7 @@ export const useAvatar = (): UseAvatarReturn => {
   const getBestAvailableUrl = useCallback((
     context: 'thumbnail' | 'display' | '3d' | 'ar' = 'display'
   ): string | null => {
-    return getOptimizedAvatarUrl(avatarContext as AvatarState, context);
+    return resolveAssetUrl(getOptimizedAvatarUrl(avatarContext as AvatarState, context));
   }, [avatarContext]);
   
   // ========================================================================================
@@ -3,8 +3,10 @@
 // Complete avatar lifecycle management with Ready Player Me integration
 // Built for 90M users - 3D Asset Pipeline + Cultural Customization
 import { Platform } from 'react-native';
-import { AvatarState, AvatarConfiguration, AvatarCustomizations, RPMAvatarCompleteEventData, UpdateAvatarRequest, AvatarError, AvatarGender, AvatarBodyType, AvatarQualityLevel } from '../types';
+import { AvatarState, AvatarConfiguration, AvatarCustomizations, RPMAvatarCompleteEventData, UpdateAvatarRequest, AvatarError, AvatarErrorType, AvatarGender, AvatarBodyType, AvatarQualityLevel, AvatarProcessingMetadata, AvatarAccessibilityFeatures, TraditionalElements } from '../types';
 import { AVATAR_CONFIG, CONFIG } from '../../../core/config/app.config';
+import { s, Schema } from '../../../core/utils/schema';
+import { getAssetEndpoints } from '../../../core/services/endpointHealth';
 
 // ========================================================================================
 // READY PLAYER ME EVENT PROCESSING - WEBVIEW INTEGRATION
@@ -205,117 +207,107 @@ const parseQualityLevel = (rpmQuality: string): AvatarQualityLevel => {
 // ========================================================================================
 
 /**
- * Map backend avatar response to internal AvatarState format
- * Handles API response transformation with proper error handling
+ * Nullable asset URL - empty strings are treated as missing
  */
-export const mapAvatarResponse = (response: any): AvatarState => {
-  try {
-    // Validate required fields
-    if (!response) {
-      throw new Error('Avatar response is null or undefined');
-    }
-
-    // Extract core data with defaults
-    const avatarState: AvatarState = {
-      rpmId: response.rpmId || null,
-      rpmUrl: response.rpmUrl || null,
-      version: response.version || 1,
-      status: response.status || 'none',
-      lastUpdated: response.lastUpdated ? new Date(response.lastUpdated) : null,
-
-      // Thumbnails with fallbacks
-      thumbnails: {
-        small: response.thumbnails?.small || null,
-        medium: response.thumbnails?.medium || null,
-        large: response.thumbnails?.large || null,
-        square: response.thumbnails?.square || null,
-        portrait: response.thumbnails?.portrait || null,
-        landscape: response.thumbnails?.landscape || null,
-      },
-
-      // Optimized assets
-      optimized: {
-        mobile: response.optimized?.mobile || null,
-        mobileHd: response.optimized?.mobileHd || null,
-        web: response.optimized?.web || null,
-        webHd: response.optimized?.webHd || null,
-        ar: response.optimized?.ar || null,
-        vr: response.optimized?.vr || null,
-        streaming: response.optimized?.streaming || null,
-        lowLatency: response.optimized?.lowLatency || null,
-      },
-
-      // 3D model files
-      glb: response.glb || null,
-      usdz: response.usdz || null,
-      fbx: response.fbx || null,
-
-      // Configuration
-      configuration: mapAvatarConfiguration(response.configuration),
+const assetUrlSchema = s.string().nullable().transform(url => url || null);
 
-      // Customizations
-      customizations: response.customizations || null,
-
-      // Processing metadata
-      processingMetadata: response.processingMetadata || null,
-
-      // Error state
-      error: response.error ? mapAvatarError(response.error) : null,
-
-      // Cache control
-      cacheKey: generateCacheKey(response.rpmId, response.version),
-      expiresAt: response.expiresAt ? new Date(response.expiresAt) : null,
-    };
-
-    return avatarState;
-  } catch (error) {
-    console.error('Failed to map avatar response:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    throw new Error(`Avatar response mapping failed: ${errorMessage}`);
-  }
-};
+/**
+ * Avatar configuration schema - unknown enum values fall back to safe defaults
+ */
+const avatarConfigurationSchema: Schema<AvatarConfiguration> = s.object({
+  gender: s.string().optional().transform(gender => parseGender(gender || '')),
+  bodyType: s.string().optional().transform(bodyType => parseBodyType(bodyType || '')),
+  skinTone: s.string().withDefault('medium'),
+  hairStyle: s.string().withDefault('default'),
+  hairColor: s.string().withDefault('brown'),
+  eyeColor: s.string().withDefault('brown'),
+  culturalContext: s.enum(['iranian', 'international', 'mixed']).withDefault('international'),
+  traditionalElements: s.opaque<TraditionalElements>().optional(),
+  qualityLevel: s.string().optional().transform(quality => parseQualityLevel(quality || '')),
+  optimizationProfile: s.enum(['performance', 'quality', 'balanced', 'bandwidth', 'battery']).withDefault('balanced'),
+  accessibilityFeatures: s.opaque<AvatarAccessibilityFeatures>().optional(),
+});
 
 /**
- * Map avatar configuration from API response
+ * Avatar error schema
  */
-const mapAvatarConfiguration = (config: any): AvatarConfiguration => {
-  if (!config) {
-    return getDefaultConfiguration();
-  }
+const avatarErrorSchema: Schema<AvatarError> = s.object({
+  type: s.string().withDefault('UNKNOWN_ERROR').transform(type => type as AvatarErrorType),
+  code: s.string().withDefault('UNKNOWN'),
+  message: s.string().withDefault('An unknown error occurred'),
+  step: s.string().optional(),
+  rpmId: s.string().optional(),
+  userMessage: s.string().withDefault('Something went wrong with your avatar'),
+  persianMessage: s.string().optional(),
+  details: s.opaque().optional(),
+  timestamp: s.date().optional().transform(timestamp => timestamp || new Date()),
+  retryable: s.boolean().optional().transform(retryable => retryable !== false),
+  suggestedAction: s.string().optional(),
+  fallbackOptions: s.array(s.string()).optional(),
+});
 
-  return {
-    gender: parseGender(config.gender),
-    bodyType: parseBodyType(config.bodyType),
-    skinTone: config.skinTone || 'medium',
-    hairStyle: config.hairStyle || 'default',
-    hairColor: config.hairColor || 'brown',
-    eyeColor: config.eyeColor || 'brown',
-    culturalContext: config.culturalContext || 'international',
-    traditionalElements: config.traditionalElements || undefined,
-    qualityLevel: parseQualityLevel(config.qualityLevel),
-    optimizationProfile: config.optimizationProfile || 'balanced',
-    accessibilityFeatures: config.accessibilityFeatures || undefined,
-  };
-};
+/**
+ * Backend avatar payload schema producing internal AvatarState
+ * Used by the API client to validate every avatar-bearing response
+ */
+export const avatarStateSchema: Schema<AvatarState> = s.object({
+  rpmId: s.string().nullable(),
+  rpmUrl: s.string().nullable(),
+  version: s.number().withDefault(1),
+  status: s.enum(['none', 'creating', 'queued', 'processing', 'complete', 'error', 'updating', 'optimizing']).withDefault('none'),
+  lastUpdated: s.date().nullable(),
+
+  // Thumbnails with fallbacks
+  thumbnails: s.object({
+    small: assetUrlSchema,
+    medium: assetUrlSchema,
+    large: assetUrlSchema,
+    square: assetUrlSchema,
+    portrait: assetUrlSchema,
+    landscape: assetUrlSchema,
+  }).nullable().transform(thumbnails => thumbnails || {
+    small: null, medium: null, large: null, square: null, portrait: null, landscape: null,
+  }),
+
+  // Optimized assets
+  optimized: s.object({
+    mobile: assetUrlSchema,
+    mobileHd: assetUrlSchema,
+    web: assetUrlSchema,
+    webHd: assetUrlSchema,
+    ar: assetUrlSchema,
+    vr: assetUrlSchema,
+    streaming: assetUrlSchema,
+    lowLatency: assetUrlSchema,
+  }).nullable().transform(optimized => optimized || {
+    mobile: null, mobileHd: null, web: null, webHd: null, ar: null, vr: null, streaming: null, lowLatency: null,
+  }),
+
+  // 3D model files
+  glb: assetUrlSchema,
+  usdz: assetUrlSchema,
+  fbx: assetUrlSchema,
+
+  configuration: avatarConfigurationSchema.nullable().transform(config => config || getDefaultConfiguration()),
+  customizations: s.opaque<AvatarCustomizations>().nullable(),
+  processingMetadata: s.opaque<AvatarProcessingMetadata>().nullable(),
+  error: avatarErrorSchema.nullable(),
+  expiresAt: s.date().nullable(),
+}).transform(avatar => ({
+  ...avatar,
+  // Cache control
+  cacheKey: generateCacheKey(avatar.rpmId, avatar.version),
+}));
 
 /**
- * Map avatar error from API response
+ * Map backend avatar response to internal AvatarState format
+ * Throws SchemaValidationError listing every mismatched field
  */
-const mapAvatarError = (error: any): AvatarError => {
-  return {
-    type: error.type || 'UNKNOWN_ERROR',
-    code: error.code || 'UNKNOWN',
-    message: error.message || 'An unknown error occurred',
-    step: error.step,
-    rpmId: error.rpmId,
-    userMessage: error.userMessage || 'Something went wrong with your avatar',
-    persianMessage: error.persianMessage,
-    details: error.details,
-    timestamp: error.timestamp ? new Date(error.timestamp) : new Date(),
-    retryable: error.retryable !== false,
-    suggestedAction: error.suggestedAction,
-    fallbackOptions: error.fallbackOptions,
-  };
+export const mapAvatarResponse = (response: unknown): AvatarState => {
+  if (!response) {
+    throw new Error('Avatar response is null or undefined');
+  }
+  return avatarStateSchema.parse(response);
 };
 
 // ========================================================================================
@@ -416,6 +408,14 @@ export const generateVersionedUrl = (baseUrl: string | null, version: number): s
   }
 };
 
+/**
+ * Rewrite an IRANVERSE CDN URL onto the healthiest mirror (international or domestic)
+ * Third-party URLs such as Ready Player Me are returned unchanged
+ */
+export const resolveAssetUrl = (url: string | null): string | null => {
+  return url ? getAssetEndpoints().resolveUrl(url) : null;
+};
+
 /**
  * Generate optimized avatar URL based on device capabilities
  * Automatically selects best quality/performance balance
@@ -14,7 +14,7 @@ import {
 import { WebView, WebViewMessageEvent } from 'react-native-webview';
 import { useFocusEffect, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { secureStorage, STORAGE_KEYS } from '../../../core/utils/storage';
 
 // IRANVERSE Components
 import SafeArea from '../../../shared/components/layout/SafeArea';
@@ -24,6 +24,8 @@ import Button from '../../../shared/components/ui/Button';
 import Text from '../../../shared/components/ui/Text';
 import ToastProvider, { useToast } from '../../../shared/components/ui/Toast';
 import { useTheme } from '../../../shared/theme/ThemeProvider';
+import { getApiClient, API_ENDPOINTS } from '../../../core/constants/api';
+import { useRequestScope } from '../../../core/hooks/useRequestScope';
 
 // ========================================================================================
 // TYPES & INTERFACES - ENTERPRISE AVATAR SYSTEM
@@ -109,6 +111,9 @@ const AvatarCreationScreenContent: React.FC = () => {
   const webViewRef = useRef<WebView>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Requests started here are cancelled when the screen unmounts
+  const requestScope = useRequestScope();
+
   // ========================================================================================
   // TOAST MANAGEMENT - ENTERPRISE MESSAGING
   // ========================================================================================
@@ -166,7 +171,10 @@ const AvatarCreationScreenContent: React.FC = () => {
 
   const saveAvatarToStorage = useCallback(async (avatarUrl: string): Promise<void> => {
     try {
-      await AsyncStorage.setItem('@avatar_url', avatarUrl);
+      const result = await secureStorage.setItem(STORAGE_KEYS.avatarUrl, avatarUrl);
+      if (!result.success) {
+        throw result.error;
+      }
       console.log('Avatar URL saved to storage:', avatarUrl);
     } catch (error) {
       console.error('Failed to save avatar URL to storage:', error);
@@ -176,31 +184,29 @@ const AvatarCreationScreenContent: React.FC = () => {
 
   const syncAvatarToBackend = useCallback(async (avatarUrl: string): Promise<void> => {
     try {
-      const response = await fetch('/users/me/avatar/update', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({
+      const result = await getApiClient().post(
+        API_ENDPOINTS.USER.AVATAR_UPDATE,
+        {
           rpmUrl: avatarUrl,
           configuration: rpmConfig,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `HTTP ${response.status}: Failed to sync avatar`);
-      }
+        },
+        true,
+        {
+          headers: { Authorization: `Bearer ${accessToken}` },
+          signal: requestScope.getSignal(),
+        }
+      );
 
-      const result = await response.json();
-      console.log('Avatar synced to backend:', result);
+      console.log('Avatar synced to backend:', result.data);
     } catch (error) {
+      // Screen left before the sync finished - nothing to report
+      if (requestScope.isCancelled(error)) return;
+
       console.error('Backend sync failed:', error);
       // Don't throw - allow offline functionality
       showToast('Avatar saved locally. Will sync when connection is available.', 'warning');
     }
-  }, [accessToken, rpmConfig, showToast]);
+  }, [accessToken, rpmConfig, showToast, requestScope]);
 
   // ========================================================================================
   // WEBVIEW MESSAGE HANDLING - ENTERPRISE SECURITY
@@ -13,7 +13,7 @@ import {
 } from 'react-native';
 import { useFocusEffect, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { secureStorage, STORAGE_KEYS, OnboardingProfile } from '../../../core/utils/storage';
 
 // IRANVERSE Components
 import SafeArea from '../../../shared/components/layout/SafeArea';
@@ -24,6 +24,7 @@ import Card from '../../../shared/components/ui/Card';
 import Loader from '../../../shared/components/ui/Loader';
 import ToastProvider, { useToast } from '../../../shared/components/ui/Toast';
 import { useTheme } from '../../../shared/theme/ThemeProvider';
+import { userApi, isRequestQueued } from '../../../core/constants/api';
 
 // ========================================================================================
 // TYPES & INTERFACES - ENTERPRISE ONBOARDING SYSTEM
@@ -153,23 +154,25 @@ const OnboardingCompleteScreenContent: React.FC = () => {
 
   const completeUserSetup = useCallback(async (): Promise<void> => {
     try {
-      // Store user data to AsyncStorage
-      const userData = {
+      // Store the onboarding profile - the access token stays with the auth session
+      const profile: OnboardingProfile = {
         userId,
         email,
         userName,
         avatarUrl,
-        accessToken,
         setupComplete: true,
         onboardingDate: new Date().toISOString(),
       };
 
-      await Promise.all([
-        AsyncStorage.setItem('@user_data', JSON.stringify(userData)),
-        AsyncStorage.setItem('@avatar_url', avatarUrl),
-        AsyncStorage.setItem('@user_id', userId),
-        AsyncStorage.setItem('@onboarding_complete', 'true'),
+      const results = await Promise.all([
+        secureStorage.setItem(STORAGE_KEYS.onboardingProfile, profile),
+        secureStorage.setItem(STORAGE_KEYS.avatarUrl, avatarUrl),
+        secureStorage.setItem(STORAGE_KEYS.onboardingComplete, true),
       ]);
+      const failed = results.find(result => !result.success);
+      if (failed) {
+        throw failed.error;
+      }
 
       console.log('User setup completed successfully');
       
@@ -198,35 +201,28 @@ const OnboardingCompleteScreenContent: React.FC = () => {
       }));
       showToast('Setup failed. Please try again.', 'error');
     }
-  }, [userId, email, userName, avatarUrl, accessToken, animations, celebrationAnim, showToast]);
+  }, [userId, email, userName, avatarUrl, animations, celebrationAnim, showToast]);
 
   const syncUserToBackend = useCallback(async (): Promise<void> => {
     try {
       // Optional backend sync - don't block onboarding if it fails
-      const response = await fetch('/users/me/onboarding/complete', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({
-          userId,
-          avatarUrl,
-          onboardingComplete: true,
-          completedAt: new Date().toISOString(),
-        }),
+      await userApi.completeOnboarding({
+        avatarUrl,
+        completedAt: new Date().toISOString(),
+      }, {
+        headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
       });
 
-      if (response.ok) {
-        console.log('User onboarding synced to backend');
-      } else {
-        console.warn('Backend sync failed, continuing offline');
-      }
+      console.log('User onboarding synced to backend');
     } catch (error) {
+      if (isRequestQueued(error)) {
+        console.log('User onboarding queued for sync when back online');
+        return;
+      }
       console.warn('Backend sync error (non-blocking):', error);
       // Don't throw - allow offline completion
     }
-  }, [accessToken, userId, avatarUrl]);
+  }, [accessToken, avatarUrl]);
 
   // ========================================================================================
   // NAVIGATION HANDLERS - ENTERPRISE FLOW CONTROL
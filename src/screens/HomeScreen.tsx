@@ -16,7 +16,7 @@ import {
 import { WebView, WebViewMessageEvent } from 'react-native-webview';
 import { useFocusEffect, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { secureStorage, STORAGE_KEYS } from '../core/utils/storage';
 
 // IRANVERSE Components
 import SafeArea from '../shared/components/layout/SafeArea';
@@ -45,6 +45,7 @@ export type RootStackParamList = {
   SocialFeed: undefined;
   CreatePost: undefined;
   Notifications: undefined;
+  SecuritySettings: undefined;
   AvatarCreation: {
     userId: string;
     email: string;
@@ -155,23 +156,23 @@ const HomeScreenContent: React.FC = () => {
     try {
       let finalAvatarUrl: string | null = null;
 
-      // Priority: Route params > AsyncStorage > Default
+      // Priority: Route params > Storage > Default
       if (routeAvatarUrl) {
         console.log('Using avatar URL from navigation:', routeAvatarUrl);
         finalAvatarUrl = routeAvatarUrl;
-        await AsyncStorage.setItem('@avatar_url', routeAvatarUrl);
+        await secureStorage.setItem(STORAGE_KEYS.avatarUrl, routeAvatarUrl);
       } else {
-        const storedAvatarUrl = await AsyncStorage.getItem('@avatar_url');
-        if (storedAvatarUrl) {
-          console.log('Using avatar URL from storage:', storedAvatarUrl);
-          finalAvatarUrl = storedAvatarUrl;
+        const storedAvatarUrl = await secureStorage.getItem(STORAGE_KEYS.avatarUrl);
+        if (storedAvatarUrl.success && storedAvatarUrl.data) {
+          console.log('Using avatar URL from storage:', storedAvatarUrl.data);
+          finalAvatarUrl = storedAvatarUrl.data;
         }
       }
 
       if (!finalAvatarUrl) {
         console.log('No avatar URL found, using default');
         finalAvatarUrl = 'https://raw.githubusercontent.com/FreedomThroughSubversion/test-asses/main/default-avatar.glb';
-        await AsyncStorage.setItem('@avatar_url', finalAvatarUrl);
+        await secureStorage.setItem(STORAGE_KEYS.avatarUrl, finalAvatarUrl);
       }
 
       setState(prev => ({ 
@@ -645,10 +646,11 @@ const HomeScreenContent: React.FC = () => {
     <View style={styles.header}>
       <TouchableOpacity 
         style={styles.headerButton}
-        onPress={() => navigateToFeature('UserProfile')}
-        accessibilityLabel="User profile"
+        onPress={() => navigation.navigate('SecuritySettings')}
+        accessibilityLabel="Security settings"
+        testID="security-settings-button"
       >
-        <Text style={styles.headerIcon}>👤</Text>
+        <Text style={styles.headerIcon}>🔒</Text>
       </TouchableOpacity>
       
       <Text variant="h3" style={styles.headerTitle}>
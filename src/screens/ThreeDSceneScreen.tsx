@@ -15,7 +15,7 @@ import {
 import { WebView, WebViewMessageEvent } from 'react-native-webview';
 import { useFocusEffect, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { secureStorage, STORAGE_KEYS } from '../core/utils/storage';
 
 // IRANVERSE Components
 import SafeArea from '../shared/components/layout/SafeArea';
@@ -201,10 +201,10 @@ const ThreeDSceneScreenContent: React.FC = () => {
           console.log('Using avatar URL from route:', routeAvatarUrl);
           finalAvatarUrl = routeAvatarUrl;
         } else {
-          const storedAvatarUrl = await AsyncStorage.getItem('@avatar_url');
-          if (storedAvatarUrl) {
-            console.log('Using avatar URL from storage:', storedAvatarUrl);
-            finalAvatarUrl = storedAvatarUrl;
+          const storedAvatarUrl = await secureStorage.getItem(STORAGE_KEYS.avatarUrl);
+          if (storedAvatarUrl.success && storedAvatarUrl.data) {
+            console.log('Using avatar URL from storage:', storedAvatarUrl.data);
+            finalAvatarUrl = storedAvatarUrl.data;
           } else {
             console.log('No avatar URL found, using default');
             finalAvatarUrl = 'https://raw.githubusercontent.com/FreedomThroughSubversion/test-asses/main/default-avatar.glb';
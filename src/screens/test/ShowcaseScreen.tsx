@@ -495,7 +495,7 @@ const ShowcaseContent: React.FC = () => {
             label="Phone Number"
             value={phone}
             onChangeText={setPhone}
-            countryCode="+98"
+            country="IR"
           />
           
           <PasswordField
@@ -28,6 +28,9 @@ import {
 } from 'react-native';
 import Input, { InputProps, InputRef } from './Input';
 import { useTheme } from '../../theme/ThemeProvider';
+import { biometricVault } from '../../../core/services/biometricVault';
+import { secureStorage, STORAGE_KEYS } from '../../../core/utils/storage';
+import { FEATURE_FLAGS } from '../../../core/config/app.config';
 
 // Enable LayoutAnimation on Android
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -683,47 +686,49 @@ const useEmailValidationErrors = () => {
 
 const useBiometricAutofill = (enableAutofill: boolean) => {
   const [biometricAvailable, setBiometricAvailable] = useState(false);
-  // biometricAvailable will be used in future biometric integration
-  const [savedEmails] = useState<string[]>([]);
+  const [savedEmails, setSavedEmails] = useState<string[]>([]);
 
   useEffect(() => {
-    if (!enableAutofill) return;
+    if (!enableAutofill || !FEATURE_FLAGS.biometricAuth) return;
+    let cancelled = false;
 
-    // Check biometric availability
+    // Offered only when this device holds a biometric unlock for an account
     const checkBiometric = async () => {
       try {
-        // Platform-specific biometric check would go here
-        if (Platform.OS === 'ios') {
-          // Face ID / Touch ID check
-          setBiometricAvailable(true);
-        } else if (Platform.OS === 'android') {
-          // Fingerprint / Face unlock check
-          setBiometricAvailable(true);
-        }
+        const [biometryType, preference] = await Promise.all([
+          biometricVault.getBiometryType(),
+          secureStorage.getItem<{ email: string }>(STORAGE_KEYS.biometricUnlock),
+        ]);
+        const email = preference.success ? preference.data?.email : undefined;
+        if (cancelled) return;
+
+        setBiometricAvailable(!!biometryType && !!email);
+        setSavedEmails(email ? [email] : []);
       } catch (error) {
         console.log('Biometric check failed:', error);
       }
     };
 
     checkBiometric();
+    return () => {
+      cancelled = true;
+    };
   }, [enableAutofill]);
 
-  const requestBiometricAutofill = useCallback(async () => {
+  const requestBiometricAutofill = useCallback(async (): Promise<string[]> => {
     if (!biometricAvailable) return [];
 
     try {
-      // Simulate biometric authentication
-      console.log('Biometric authentication requested');
-      
-      // In production, this would retrieve saved emails from secure storage
-      return ['user@example.com', 'saved@email.com'];
+      // The saved account is only revealed to its owner
+      const result = await biometricVault.unlock('Fill in your saved email');
+      return result.status === 'success' ? savedEmails : [];
     } catch (error) {
       console.log('Biometric autofill failed:', error);
       return [];
     }
-  }, [biometricAvailable]);
+  }, [biometricAvailable, savedEmails]);
 
-  return { biometricAvailable: biometricAvailable, savedEmails, requestBiometricAutofill };
+  return { biometricAvailable, savedEmails, requestBiometricAutofill };
 };
 
 // ========================================================================================
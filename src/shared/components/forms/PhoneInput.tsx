@@ -1,31 +1,184 @@
 // src/components/ui/PhoneInput.tsx
 // IRANVERSE PhoneInput - Grok iOS Revolution
-// Minimal Phone Input with Essential Validation
+// Mobile number input with country picker, Persian digit normalization and E.164 validation
+// Built for 90M users - Iran first, diaspora countries one tap away
 
-import React, { forwardRef } from 'react';
+import React, { forwardRef, memo, useCallback, useState } from 'react';
+import { View, Modal, FlatList, Pressable, StyleSheet } from 'react-native';
 import Input, { InputProps, InputRef } from './Input';
+import Text from '../ui/Text';
+import { useTheme } from '../../theme/ThemeProvider';
+import {
+  PHONE_COUNTRIES,
+  DEFAULT_PHONE_COUNTRY,
+  PhoneCountry,
+  PhoneParseResult,
+  getPhoneCountry,
+  normalizeDigits,
+  parsePhoneNumber,
+} from '../../../core/utils/phone';
+import { validatePhoneNumber } from '../../../core/utils/validation';
 
-export interface PhoneInputProps extends Omit<InputProps, 'keyboardType' | 'autoCapitalize' | 'autoCorrect'> {
-  autoValidate?: boolean;
-  countryCode?: string;
+// ========================================================================================
+// TYPES
+// ========================================================================================
+
+export interface PhoneInputProps extends Omit<InputProps, 'keyboardType' | 'autoCapitalize' | 'autoCorrect' | 'leftIcon'> {
+  autoValidate?: boolean; // show validation errors on blur
+  country?: string; // ISO 3166-1 alpha-2, defaults to IR
+  onCountryChange?: (country: PhoneCountry) => void;
+  onChangePhone?: (result: PhoneParseResult) => void; // parsed on every change
+  language?: 'en' | 'fa';
 }
 
+// ========================================================================================
+// PHONE INPUT IMPLEMENTATION
+// ========================================================================================
+
 export const PhoneInput = forwardRef<InputRef, PhoneInputProps>((props, ref) => {
-  const { autoValidate = true, countryCode = '+1', ...inputProps } = props;
-  
+  const {
+    autoValidate = true,
+    country = DEFAULT_PHONE_COUNTRY,
+    onCountryChange,
+    onChangePhone,
+    onChangeText,
+    onBlur,
+    error,
+    language = 'en',
+    ...inputProps
+  } = props;
+  const { colors } = useTheme();
+
+  const [pickerVisible, setPickerVisible] = useState(false);
+  const [validationError, setValidationError] = useState<string | undefined>();
+  const selectedCountry = getPhoneCountry(country) ?? getPhoneCountry(DEFAULT_PHONE_COUNTRY)!;
+
+  const handleChangeText = useCallback((text: string) => {
+    const normalized = normalizeDigits(text);
+    setValidationError(undefined);
+    onChangeText?.(normalized);
+    onChangePhone?.(parsePhoneNumber(normalized, selectedCountry.iso2));
+  }, [onChangeText, onChangePhone, selectedCountry.iso2]);
+
+  const handleBlur = useCallback<NonNullable<InputProps['onBlur']>>((event) => {
+    if (autoValidate && inputProps.value) {
+      const result = validatePhoneNumber(inputProps.value, { country: selectedCountry.iso2, language });
+      setValidationError(result.isValid ? undefined : result.errors[0]?.message);
+    }
+    onBlur?.(event);
+  }, [autoValidate, inputProps.value, selectedCountry.iso2, language, onBlur]);
+
+  const handleSelectCountry = useCallback((item: PhoneCountry) => {
+    setPickerVisible(false);
+    setValidationError(undefined);
+    onCountryChange?.(item);
+    if (inputProps.value) {
+      onChangePhone?.(parsePhoneNumber(inputProps.value, item.iso2));
+    }
+  }, [onCountryChange, onChangePhone, inputProps.value]);
+
+  const countryButton = (
+    <Pressable
+      onPress={() => setPickerVisible(true)}
+      disabled={inputProps.disabled}
+      style={styles.countryButton}
+      accessibilityRole="button"
+      accessibilityLabel={`Country code ${selectedCountry.name} +${selectedCountry.dialCode}`}
+      testID={inputProps.testID ? `${inputProps.testID}-country` : undefined}
+    >
+      <Text variant="body" style={{ color: colors.interactive.text.primary }}>
+        {selectedCountry.flag} +{selectedCountry.dialCode}
+      </Text>
+    </Pressable>
+  );
+
   return (
-    <Input
-      ref={ref}
-      {...inputProps}
-      keyboardType="phone-pad"
-      autoCapitalize="none"
-      autoCorrect={false}
-      autoComplete="tel"
-      placeholder={props.placeholder || "Enter your phone number"}
-    />
+    <>
+      <Input
+        ref={ref}
+        {...inputProps}
+        onChangeText={handleChangeText}
+        onBlur={handleBlur}
+        error={error || validationError}
+        leftIcon={countryButton}
+        keyboardType="phone-pad"
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoComplete="tel"
+        placeholder={props.placeholder || (selectedCountry.iso2 === 'IR' ? '0912 345 6789' : 'Enter your phone number')}
+      />
+
+      <Modal
+        visible={pickerVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setPickerVisible(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setPickerVisible(false)}>
+          <View style={[styles.sheet, { backgroundColor: colors.foundation.darkest }]}>
+            <Text variant="h3" style={[styles.sheetTitle, { color: colors.interactive.text.primary }]}>
+              Select country
+            </Text>
+            <FlatList
+              data={PHONE_COUNTRIES}
+              keyExtractor={item => item.iso2}
+              renderItem={({ item }) => (
+                <Pressable
+                  onPress={() => handleSelectCountry(item)}
+                  style={[styles.countryRow, { borderBottomColor: colors.interactive.border.subtle }]}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: item.iso2 === selectedCountry.iso2 }}
+                  testID={`phone-country-${item.iso2}`}
+                >
+                  <Text variant="body" style={{ color: colors.interactive.text.primary }}>
+                    {item.flag}  {item.name}
+                  </Text>
+                  <Text variant="body" style={{ color: colors.interactive.text.secondary }}>
+                    +{item.dialCode}
+                  </Text>
+                </Pressable>
+              )}
+            />
+          </View>
+        </Pressable>
+      </Modal>
+    </>
   );
 });
 
 PhoneInput.displayName = 'PhoneInput';
 
-export default PhoneInput;
\ No newline at end of file
+// ========================================================================================
+// STYLES
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  countryButton: {
+    paddingVertical: 4,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    maxHeight: '70%',
+    paddingTop: 16,
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  sheetTitle: {
+    marginBottom: 8,
+    fontWeight: '600',
+  },
+  countryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+});
+
+export default memo(PhoneInput);
@@ -0,0 +1,184 @@
+// src/shared/components/ui/OfflineQueueBanner.tsx
+// IRANVERSE Offline Queue Banner - Pending sync state above every screen
+// Changes waiting for the network, and the ones the server refused with retry/discard
+// Built for 90M users - Nobody loses an edit without knowing about it
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import Text from './Text';
+import { useTheme } from '../../theme/ThemeProvider';
+import { useSafeAreaBottom } from '../layout/SafeArea';
+import { useOfflineQueue } from '../../../core/hooks/useOfflineQueue';
+import { QueuedMutation } from '../../../core/types/api';
+
+// ========================================================================================
+// HELPERS - MUTATION LABELS
+// ========================================================================================
+
+/**
+ * Short label for a queued mutation, e.g. "PATCH /users/me/settings"
+ */
+const describeMutation = (mutation: QueuedMutation): string => `${mutation.method} ${mutation.url}`;
+
+/**
+ * Status line for changes still waiting to be sent
+ */
+const getPendingMessage = (count: number, isOnline: boolean, isReplaying: boolean): string => {
+  const changes = count === 1 ? '1 change' : `${count} changes`;
+  if (!isOnline) return `You're offline - ${changes} will sync when you reconnect`;
+  if (isReplaying) return `Syncing ${changes}...`;
+  return `${changes} waiting to sync`;
+};
+
+// ========================================================================================
+// OFFLINE QUEUE BANNER IMPLEMENTATION
+// ========================================================================================
+
+/**
+ * Render once inside NavigationContainer - hidden while nothing is queued
+ */
+export const OfflineQueueBanner: React.FC = () => {
+  const { colors } = useTheme();
+  const bottomInset = useSafeAreaBottom();
+  const {
+    isEnabled,
+    isOnline,
+    isReplaying,
+    queuedCount,
+    conflicts,
+    hasPendingChanges,
+    replay,
+    retry,
+    discard,
+  } = useOfflineQueue();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const toggleExpanded = useCallback(() => {
+    setIsExpanded(expanded => !expanded);
+  }, []);
+
+  if (!isEnabled || (!hasPendingChanges && conflicts.length === 0)) {
+    return null;
+  }
+
+  const renderConflict = (mutation: QueuedMutation) => (
+    <View key={mutation.id} style={[styles.conflict, { borderTopColor: colors.interactive.border.subtle }]}>
+      <Text variant="caption" style={{ color: colors.interactive.text.primary }} numberOfLines={1}>
+        {describeMutation(mutation)}
+      </Text>
+      {mutation.lastError?.userMessage && (
+        <Text variant="caption" style={{ color: colors.interactive.text.secondary }} numberOfLines={2}>
+          {mutation.lastError.userMessage}
+        </Text>
+      )}
+      <View style={styles.actions}>
+        <TouchableOpacity
+          onPress={() => retry(mutation.id)}
+          accessibilityRole="button"
+          accessibilityLabel={`Retry ${describeMutation(mutation)}`}
+          testID={`offline-queue-retry-${mutation.id}`}
+        >
+          <Text variant="caption" style={[styles.action, { color: colors.accent.primary }]}>Retry</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => discard(mutation.id)}
+          accessibilityRole="button"
+          accessibilityLabel={`Discard ${describeMutation(mutation)}`}
+          testID={`offline-queue-discard-${mutation.id}`}
+        >
+          <Text variant="caption" style={[styles.action, { color: colors.accent.critical }]}>Discard</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          bottom: bottomInset + 16,
+          backgroundColor: colors.foundation.darker,
+          borderColor: colors.interactive.border.medium,
+        },
+      ]}
+      accessibilityLiveRegion="polite"
+      testID="offline-queue-banner"
+    >
+      {hasPendingChanges && (
+        <View style={styles.row}>
+          <Text variant="caption" style={[styles.message, { color: colors.interactive.text.primary }]}>
+            {getPendingMessage(queuedCount, isOnline, isReplaying)}
+          </Text>
+          {isOnline && !isReplaying && (
+            <TouchableOpacity onPress={replay} accessibilityRole="button" testID="offline-queue-sync">
+              <Text variant="caption" style={[styles.action, { color: colors.accent.primary }]}>Sync now</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {conflicts.length > 0 && (
+        <>
+          <View style={styles.row}>
+            <Text variant="caption" style={[styles.message, { color: colors.accent.warning }]}>
+              {conflicts.length === 1 ? '1 change could not be saved' : `${conflicts.length} changes could not be saved`}
+            </Text>
+            <TouchableOpacity
+              onPress={toggleExpanded}
+              accessibilityRole="button"
+              accessibilityState={{ expanded: isExpanded }}
+              testID="offline-queue-review"
+            >
+              <Text variant="caption" style={[styles.action, { color: colors.accent.primary }]}>
+                {isExpanded ? 'Hide' : 'Review'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          {isExpanded && conflicts.map(renderConflict)}
+        </>
+      )}
+    </View>
+  );
+};
+
+// ========================================================================================
+// STYLES - ENTERPRISE DESIGN SYSTEM
+// ========================================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  message: {
+    flex: 1,
+    marginRight: 12,
+  },
+  conflict: {
+    borderTopWidth: 1,
+    paddingTop: 8,
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 4,
+  },
+  action: {
+    fontWeight: '600',
+    marginLeft: 16,
+  },
+});
+
+export default OfflineQueueBanner;
@@ -9,6 +9,7 @@ export * from './Heading';
 export { default as Loader } from './Loader';
 export * from './Loader';
 export { default as ToastProvider, useToast } from './Toast';
+export { default as OfflineQueueBanner } from './OfflineQueueBanner';
 export { default as Icon, type IconName, type IconSize, type IconProps } from './Icon';
 export { default as SmartIcon, type SmartIconProps } from './SmartIcon';
 export { default as Logo } from './Logo';